@@ -0,0 +1,23 @@
+-- Add clips: short user-created segments of published videos
+
+CREATE TABLE IF NOT EXISTS "clips" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "content_id" UUID NOT NULL REFERENCES "content"("id") ON DELETE CASCADE,
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "title" TEXT NOT NULL,
+  "start_time" DOUBLE PRECISION NOT NULL,
+  "end_time" DOUBLE PRECISION NOT NULL,
+  "duration" DOUBLE PRECISION NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "media_url" TEXT,
+  "thumbnail" TEXT,
+  "file_size" BIGINT,
+  "processing_error" TEXT,
+  "view_count" INTEGER NOT NULL DEFAULT 0,
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_clips_content" ON "clips"("content_id", "status", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_clips_user" ON "clips"("user_id", "created_at");
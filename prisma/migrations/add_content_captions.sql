@@ -0,0 +1,21 @@
+-- Add caption/subtitle tracks (stored as WebVTT, transcript kept for search)
+
+CREATE TABLE IF NOT EXISTS "content_captions" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "content_id" UUID NOT NULL REFERENCES "content"("id") ON DELETE CASCADE,
+  "language" TEXT NOT NULL,
+  "label" TEXT NOT NULL,
+  "kind" TEXT NOT NULL DEFAULT 'subtitles',
+  "format" TEXT NOT NULL,
+  "url" TEXT NOT NULL,
+  "text" TEXT NOT NULL,
+  "cue_count" INTEGER NOT NULL,
+  "is_default" BOOLEAN NOT NULL DEFAULT false,
+  "created_by" UUID,
+  "created_at" TIMESTAMP(6) DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(6) DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "content_captions_unique" UNIQUE ("content_id", "language", "kind")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_content_captions_content" ON "content_captions"("content_id");
@@ -0,0 +1,12 @@
+-- Add scrubbing preview sprites (WebVTT thumbnails track) to content
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'content' AND column_name = 'preview_track_url'
+    ) THEN
+        ALTER TABLE content ADD COLUMN preview_track_url TEXT;
+        ALTER TABLE content ADD COLUMN preview_sprites JSONB;
+    END IF;
+END $$;
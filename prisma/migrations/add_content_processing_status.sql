@@ -0,0 +1,26 @@
+-- Track video processing state on content (uploaded -> processing -> ready/failed)
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'content' AND column_name = 'processing_status'
+    ) THEN
+        ALTER TABLE content ADD COLUMN source_url TEXT;
+        ALTER TABLE content ADD COLUMN processing_status TEXT;
+        ALTER TABLE content ADD COLUMN processing_error TEXT;
+        ALTER TABLE content ADD COLUMN processing_provider TEXT;
+        ALTER TABLE content ADD COLUMN provider_asset_id TEXT;
+        ALTER TABLE content ADD COLUMN processing_attempts INTEGER DEFAULT 0;
+        ALTER TABLE content ADD COLUMN processing_updated_at TIMESTAMP(6);
+
+        -- Published videos have already been processed
+        UPDATE content
+        SET processing_status = 'ready'
+        WHERE media_type LIKE 'video/%' AND status = 'PUBLISHED';
+    END IF;
+END $$;
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_content_processing_status" ON "content"("processing_status");
+CREATE INDEX IF NOT EXISTS "idx_content_provider_asset" ON "content"("provider_asset_id");
@@ -0,0 +1,32 @@
+-- Add adaptive streaming output from the local FFmpeg transcoder
+
+-- Add dash_url column to content table (if it doesn't exist)
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'content' AND column_name = 'dash_url'
+    ) THEN
+        ALTER TABLE content ADD COLUMN dash_url TEXT;
+    END IF;
+END $$;
+
+-- Create content_renditions table
+CREATE TABLE IF NOT EXISTS "content_renditions" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "content_id" UUID NOT NULL REFERENCES "content"("id") ON DELETE CASCADE,
+  "quality" TEXT NOT NULL,
+  "width" INTEGER NOT NULL,
+  "height" INTEGER NOT NULL,
+  "video_bitrate" INTEGER NOT NULL,
+  "audio_bitrate" INTEGER,
+  "video_codec" TEXT NOT NULL,
+  "audio_codec" TEXT,
+  "playlist_url" TEXT,
+  "file_size" BIGINT,
+  "created_at" TIMESTAMP(6) DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "content_renditions_unique" UNIQUE ("content_id", "quality")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_content_renditions_content" ON "content_renditions"("content_id");
@@ -0,0 +1,32 @@
+-- Add media revisions so creators can replace (and roll back) a video's media
+-- without losing views, likes and comments. content.version is the live revision.
+
+CREATE TABLE IF NOT EXISTS "content_revisions" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "content_id" UUID NOT NULL REFERENCES "content"("id") ON DELETE CASCADE,
+  "version" INTEGER NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'uploaded',
+  "note" TEXT,
+  "source_url" TEXT,
+  "media_url" TEXT,
+  "media_type" TEXT,
+  "dash_url" TEXT,
+  "duration" INTEGER,
+  "file_size" BIGINT,
+  "resolution" TEXT,
+  "preview_track_url" TEXT,
+  "preview_sprites" JSONB,
+  "renditions" JSONB,
+  "processing_provider" TEXT,
+  "provider_asset_id" TEXT,
+  "processing_error" TEXT,
+  "created_by" UUID,
+  "created_at" TIMESTAMP(6) DEFAULT CURRENT_TIMESTAMP,
+  "ready_at" TIMESTAMP(6),
+  "activated_at" TIMESTAMP(6),
+  CONSTRAINT "content_revisions_unique" UNIQUE ("content_id", "version")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_content_revisions_status" ON "content_revisions"("content_id", "status");
+CREATE INDEX IF NOT EXISTS "idx_content_revisions_provider_asset" ON "content_revisions"("provider_asset_id");
@@ -0,0 +1,130 @@
+-- Full-text search: a weighted tsvector per content item (title A, tags B,
+-- creator name and handle C, description D) and one per caption track
+-- (transcript, D). Triggers rebuild a content item's vector when its title,
+-- description, creator or tags change, and when a tag or creator is renamed.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'content' AND column_name = 'search_vector'
+    ) THEN
+        ALTER TABLE content ADD COLUMN search_vector TSVECTOR;
+    END IF;
+END $$;
+
+-- Transcripts are capped so long ones stay under the tsvector size limit
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'content_captions' AND column_name = 'search_vector'
+    ) THEN
+        ALTER TABLE content_captions ADD COLUMN search_vector TSVECTOR
+            GENERATED ALWAYS AS (setweight(to_tsvector('english', left("text", 200000)), 'D')) STORED;
+    END IF;
+END $$;
+
+-- Search document for a content item, from its parts
+CREATE OR REPLACE FUNCTION content_search_document(p_title TEXT, p_tags TEXT, p_creator TEXT, p_description TEXT)
+RETURNS TSVECTOR AS $$
+    SELECT setweight(to_tsvector('english', coalesce(p_title, '')), 'A')
+        || setweight(to_tsvector('english', coalesce(p_tags, '')), 'B')
+        || setweight(to_tsvector('english', coalesce(p_creator, '')), 'C')
+        || setweight(to_tsvector('english', left(coalesce(p_description, ''), 100000)), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION content_search_tags(p_content_id UUID)
+RETURNS TEXT AS $$
+    SELECT string_agg(t.name, ' ')
+    FROM content_tags ct JOIN tags t ON t.id = ct.tag_id
+    WHERE ct.content_id = p_content_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION content_search_creator(p_creator_id UUID)
+RETURNS TEXT AS $$
+    SELECT display_name || ' ' || handle FROM creators WHERE id = p_creator_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION refresh_content_search(p_content_ids UUID[])
+RETURNS VOID AS $$
+    UPDATE content
+    SET search_vector = content_search_document(title, content_search_tags(id), content_search_creator(creator_id), description)
+    WHERE id = ANY(p_content_ids);
+$$ LANGUAGE sql;
+
+-- Content: rebuilt in place when the text or creator changes
+CREATE OR REPLACE FUNCTION content_search_vector_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector := content_search_document(
+        NEW.title, content_search_tags(NEW.id), content_search_creator(NEW.creator_id), NEW.description
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS content_search_vector_update ON content;
+CREATE TRIGGER content_search_vector_update
+    BEFORE INSERT OR UPDATE OF title, description, creator_id ON content
+    FOR EACH ROW EXECUTE FUNCTION content_search_vector_trigger();
+
+-- Tags added to or removed from content
+CREATE OR REPLACE FUNCTION content_tags_search_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        PERFORM refresh_content_search(ARRAY[NEW.content_id]);
+    END IF;
+    IF TG_OP IN ('DELETE', 'UPDATE') THEN
+        PERFORM refresh_content_search(ARRAY[OLD.content_id]);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS content_tags_search_update ON content_tags;
+CREATE TRIGGER content_tags_search_update
+    AFTER INSERT OR UPDATE OR DELETE ON content_tags
+    FOR EACH ROW EXECUTE FUNCTION content_tags_search_trigger();
+
+-- Renamed tags
+CREATE OR REPLACE FUNCTION tags_search_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.name IS DISTINCT FROM OLD.name THEN
+        PERFORM refresh_content_search(ARRAY(SELECT content_id FROM content_tags WHERE tag_id = NEW.id));
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tags_search_update ON tags;
+CREATE TRIGGER tags_search_update
+    AFTER UPDATE OF name ON tags
+    FOR EACH ROW EXECUTE FUNCTION tags_search_trigger();
+
+-- Renamed creators
+CREATE OR REPLACE FUNCTION creators_search_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.display_name IS DISTINCT FROM OLD.display_name OR NEW.handle IS DISTINCT FROM OLD.handle THEN
+        PERFORM refresh_content_search(ARRAY(SELECT id FROM content WHERE creator_id = NEW.id));
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS creators_search_update ON creators;
+CREATE TRIGGER creators_search_update
+    AFTER UPDATE OF display_name, handle ON creators
+    FOR EACH ROW EXECUTE FUNCTION creators_search_trigger();
+
+-- Backfill existing content
+UPDATE content
+SET search_vector = content_search_document(title, content_search_tags(id), content_search_creator(creator_id), description)
+WHERE search_vector IS NULL;
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_content_search_vector" ON "content" USING GIN ("search_vector");
+CREATE INDEX IF NOT EXISTS "idx_content_captions_search_vector" ON "content_captions" USING GIN ("search_vector");
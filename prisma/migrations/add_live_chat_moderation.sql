@@ -0,0 +1,39 @@
+-- Live chat moderation: chat modes, slow mode, blocked terms, link filter, moderators, timeouts and bans
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'live_streams' AND column_name = 'chat_mode'
+    ) THEN
+        ALTER TABLE live_streams ADD COLUMN chat_mode TEXT NOT NULL DEFAULT 'everyone';
+        ALTER TABLE live_streams ADD COLUMN chat_slow_mode_seconds INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE live_streams ADD COLUMN chat_blocked_terms TEXT[] NOT NULL DEFAULT '{}';
+        ALTER TABLE live_streams ADD COLUMN chat_block_links BOOLEAN NOT NULL DEFAULT false;
+    END IF;
+END $$;
+
+-- Create live_chat_moderators table
+CREATE TABLE IF NOT EXISTS "live_chat_moderators" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "stream_id" UUID NOT NULL REFERENCES "live_streams"("id") ON DELETE CASCADE,
+  "user_id" UUID NOT NULL,
+  "added_by" UUID NOT NULL,
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "live_chat_moderators_unique" UNIQUE ("stream_id", "user_id")
+);
+
+-- Create live_chat_bans table (expires_at NULL = ban, otherwise a timeout)
+CREATE TABLE IF NOT EXISTS "live_chat_bans" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "stream_id" UUID NOT NULL REFERENCES "live_streams"("id") ON DELETE CASCADE,
+  "user_id" UUID NOT NULL,
+  "moderator_id" UUID NOT NULL,
+  "reason" TEXT,
+  "expires_at" TIMESTAMP(6),
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "live_chat_bans_unique" UNIQUE ("stream_id", "user_id")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_live_chat_stream_user" ON "live_chat_messages"("stream_id", "user_id", "timestamp");
@@ -0,0 +1,24 @@
+-- Tipped live chat messages: tips sent to a live stream with a chat message,
+-- posted highlighted and pinned once paid
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'tips' AND column_name = 'stream_id'
+    ) THEN
+        ALTER TABLE tips ADD COLUMN stream_id UUID REFERENCES live_streams(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'live_chat_messages' AND column_name = 'tip_id'
+    ) THEN
+        ALTER TABLE live_chat_messages ADD COLUMN tip_id UUID UNIQUE REFERENCES tips(id) ON DELETE SET NULL;
+        ALTER TABLE live_chat_messages ADD COLUMN pinned_until TIMESTAMP(6);
+    END IF;
+END $$;
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_tips_stream" ON "tips"("stream_id");
+CREATE INDEX IF NOT EXISTS "idx_live_chat_stream_pinned" ON "live_chat_messages"("stream_id", "pinned_until");
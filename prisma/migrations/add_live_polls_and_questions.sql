@@ -0,0 +1,58 @@
+-- Live polls and Q&A: polls with options and one vote per user, and a question queue with upvotes
+
+-- Create live_polls table
+CREATE TABLE IF NOT EXISTS "live_polls" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "stream_id" UUID NOT NULL REFERENCES "live_streams"("id") ON DELETE CASCADE,
+  "created_by" UUID NOT NULL,
+  "question" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'open',
+  "total_votes" INTEGER NOT NULL DEFAULT 0,
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "closed_at" TIMESTAMP(6)
+);
+
+-- Create live_poll_options table
+CREATE TABLE IF NOT EXISTS "live_poll_options" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "poll_id" UUID NOT NULL REFERENCES "live_polls"("id") ON DELETE CASCADE,
+  "position" INTEGER NOT NULL,
+  "text" TEXT NOT NULL,
+  "vote_count" INTEGER NOT NULL DEFAULT 0,
+  CONSTRAINT "live_poll_options_position_unique" UNIQUE ("poll_id", "position")
+);
+
+-- Create live_poll_votes table
+CREATE TABLE IF NOT EXISTS "live_poll_votes" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "poll_id" UUID NOT NULL REFERENCES "live_polls"("id") ON DELETE CASCADE,
+  "option_id" UUID NOT NULL REFERENCES "live_poll_options"("id") ON DELETE CASCADE,
+  "user_id" UUID NOT NULL,
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "live_poll_votes_unique" UNIQUE ("poll_id", "user_id")
+);
+
+-- Create live_questions table
+CREATE TABLE IF NOT EXISTS "live_questions" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "stream_id" UUID NOT NULL REFERENCES "live_streams"("id") ON DELETE CASCADE,
+  "user_id" UUID NOT NULL,
+  "question" TEXT NOT NULL,
+  "upvote_count" INTEGER NOT NULL DEFAULT 0,
+  "is_answered" BOOLEAN NOT NULL DEFAULT false,
+  "answered_at" TIMESTAMP(6),
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create live_question_upvotes table
+CREATE TABLE IF NOT EXISTS "live_question_upvotes" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "question_id" UUID NOT NULL REFERENCES "live_questions"("id") ON DELETE CASCADE,
+  "user_id" UUID NOT NULL,
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "live_question_upvotes_unique" UNIQUE ("question_id", "user_id")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_live_polls_stream" ON "live_polls"("stream_id", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_live_questions_queue" ON "live_questions"("stream_id", "is_answered", "upvote_count");
@@ -0,0 +1,18 @@
+-- Live stream health telemetry: samples of the incoming broadcast recorded by the ingest server
+
+CREATE TABLE IF NOT EXISTS "live_stream_health_samples" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "stream_id" UUID NOT NULL REFERENCES "live_streams"("id") ON DELETE CASCADE,
+  "bitrate_kbps" INTEGER NOT NULL,
+  "keyframe_interval_seconds" DOUBLE PRECISION,
+  "framerate" DOUBLE PRECISION,
+  "dropped_frames" INTEGER,
+  "width" INTEGER,
+  "height" INTEGER,
+  "viewer_count" INTEGER NOT NULL DEFAULT 0,
+  "warnings" TEXT[] NOT NULL DEFAULT '{}',
+  "sampled_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_live_health_stream_sampled" ON "live_stream_health_samples"("stream_id", "sampled_at");
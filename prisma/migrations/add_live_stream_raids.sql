@@ -0,0 +1,27 @@
+-- Live stream raids: a creator sends their viewers to another live stream.
+-- Creators choose who may raid them.
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'creators' AND column_name = 'accept_raids_from'
+    ) THEN
+        ALTER TABLE creators ADD COLUMN accept_raids_from TEXT NOT NULL DEFAULT 'everyone';
+    END IF;
+END $$;
+
+-- Create live_stream_raids table
+CREATE TABLE IF NOT EXISTS "live_stream_raids" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "from_stream_id" UUID UNIQUE REFERENCES "live_streams"("id") ON DELETE SET NULL,
+  "to_stream_id" UUID REFERENCES "live_streams"("id") ON DELETE SET NULL,
+  "from_creator_id" UUID NOT NULL REFERENCES "creators"("id") ON DELETE CASCADE,
+  "to_creator_id" UUID NOT NULL REFERENCES "creators"("id") ON DELETE CASCADE,
+  "viewer_count" INTEGER NOT NULL DEFAULT 0,
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_live_raids_from_creator" ON "live_stream_raids"("from_creator_id", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_live_raids_to_creator" ON "live_stream_raids"("to_creator_id", "created_at");
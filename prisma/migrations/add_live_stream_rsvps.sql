@@ -0,0 +1,27 @@
+-- Live stream RSVPs, reminders and go-live notifications
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'LIVE_STREAM';
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'live_streams' AND column_name = 'live_notified_at'
+    ) THEN
+        ALTER TABLE live_streams ADD COLUMN live_notified_at TIMESTAMP(6);
+    END IF;
+END $$;
+
+-- Create live_stream_rsvps table
+CREATE TABLE IF NOT EXISTS "live_stream_rsvps" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "stream_id" UUID NOT NULL REFERENCES "live_streams"("id") ON DELETE CASCADE,
+  "user_id" UUID NOT NULL,
+  "reminded_at" TIMESTAMP(6),
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "live_stream_rsvps_unique" UNIQUE ("stream_id", "user_id")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_live_stream_rsvps_user" ON "live_stream_rsvps"("user_id");
+CREATE INDEX IF NOT EXISTS "idx_live_streams_scheduled" ON "live_streams"("status", "scheduled_for");
@@ -0,0 +1,35 @@
+-- Ticketed (pay-per-view) live streams: ticket price on the stream and one ticket per buyer
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'live_streams' AND column_name = 'is_ticketed'
+    ) THEN
+        ALTER TABLE live_streams ADD COLUMN is_ticketed BOOLEAN NOT NULL DEFAULT false;
+        ALTER TABLE live_streams ADD COLUMN ticket_price DECIMAL(10, 2);
+        ALTER TABLE live_streams ADD COLUMN ticket_currency TEXT;
+    END IF;
+END $$;
+
+-- Create live_stream_tickets table
+CREATE TABLE IF NOT EXISTS "live_stream_tickets" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "stream_id" UUID NOT NULL REFERENCES "live_streams"("id") ON DELETE CASCADE,
+  "user_id" UUID NOT NULL,
+  "amount" DECIMAL(10, 2) NOT NULL,
+  "currency" TEXT NOT NULL,
+  "creator_share" DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  "provider" TEXT NOT NULL,
+  "order_id" TEXT UNIQUE,
+  "payment_id" TEXT,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "refunded_at" TIMESTAMP(6),
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "live_stream_tickets_unique" UNIQUE ("stream_id", "user_id")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_live_stream_tickets_stream_status" ON "live_stream_tickets"("stream_id", "status");
+CREATE INDEX IF NOT EXISTS "idx_live_stream_tickets_user" ON "live_stream_tickets"("user_id");
@@ -0,0 +1,24 @@
+-- Convert recorded live streams to VOD, with chat replayed at its position in the recording
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'live_streams' AND column_name = 'recording_status'
+    ) THEN
+        ALTER TABLE live_streams ADD COLUMN recording_status TEXT;
+        ALTER TABLE live_streams ADD COLUMN vod_content_id UUID REFERENCES content(id) ON DELETE SET NULL;
+        ALTER TABLE live_streams ADD CONSTRAINT live_streams_vod_content_id_key UNIQUE (vod_content_id);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'live_chat_messages' AND column_name = 'replay_offset_ms'
+    ) THEN
+        ALTER TABLE live_chat_messages ADD COLUMN replay_offset_ms INTEGER;
+    END IF;
+END $$;
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_live_streams_recording_status" ON "live_streams"("status", "recording_status");
+CREATE INDEX IF NOT EXISTS "idx_live_chat_stream_replay" ON "live_chat_messages"("stream_id", "replay_offset_ms");
@@ -0,0 +1,33 @@
+-- Add upload fingerprints (exact + perceptual hashes) and detected duplicates
+
+CREATE TABLE IF NOT EXISTS "media_fingerprints" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "content_id" UUID NOT NULL UNIQUE REFERENCES "content"("id") ON DELETE CASCADE,
+  "sha256" TEXT NOT NULL,
+  "media_type" TEXT,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "frame_hashes" TEXT[] NOT NULL DEFAULT '{}',
+  "hash_bands" TEXT[] NOT NULL DEFAULT '{}',
+  "created_at" TIMESTAMP(6) DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(6) DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS "content_duplicates" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "content_id" UUID NOT NULL REFERENCES "content"("id") ON DELETE CASCADE,
+  "duplicate_of_id" UUID NOT NULL REFERENCES "content"("id") ON DELETE CASCADE,
+  "match_type" TEXT NOT NULL,
+  "similarity" DOUBLE PRECISION NOT NULL,
+  "same_creator" BOOLEAN NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'open',
+  "reviewed_by" UUID,
+  "reviewed_at" TIMESTAMP(6),
+  "created_at" TIMESTAMP(6) DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "content_duplicates_unique" UNIQUE ("content_id", "duplicate_of_id")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_media_fingerprints_sha256" ON "media_fingerprints"("sha256");
+CREATE INDEX IF NOT EXISTS "idx_media_fingerprints_bands" ON "media_fingerprints" USING GIN ("hash_bands");
+CREATE INDEX IF NOT EXISTS "idx_content_duplicates_status" ON "content_duplicates"("status", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_content_duplicates_original" ON "content_duplicates"("duplicate_of_id");
@@ -0,0 +1,21 @@
+-- Typo tolerance: trigram indexes for "did you mean" lookups against content
+-- titles, tag names and creator handles. Searches that found nothing record
+-- the corrected query they fell back to.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'search_history' AND column_name = 'suggestion'
+    ) THEN
+        ALTER TABLE search_history ADD COLUMN suggestion TEXT;
+    END IF;
+END $$;
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_content_title_trgm" ON "content" USING GIN ("title" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "idx_tags_name_trgm" ON "tags" USING GIN ("name" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "idx_creators_handle_trgm" ON "creators" USING GIN ("handle" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "idx_search_history_results_created" ON "search_history"("results_count", "created_at");
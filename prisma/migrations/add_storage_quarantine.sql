@@ -0,0 +1,15 @@
+-- Add storage quarantine: unreferenced media waiting out its grace period before deletion
+
+CREATE TABLE IF NOT EXISTS "storage_quarantine" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "driver" TEXT NOT NULL,
+  "key" TEXT NOT NULL,
+  "size" BIGINT NOT NULL,
+  "reason" TEXT NOT NULL,
+  "quarantined_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "delete_after" TIMESTAMP(6) NOT NULL,
+  CONSTRAINT "storage_quarantine_unique" UNIQUE ("driver", "key")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_storage_quarantine_delete_after" ON "storage_quarantine"("driver", "delete_after");
@@ -0,0 +1,23 @@
+-- Add UploadSession model for resumable (chunked) uploads
+
+CREATE TABLE IF NOT EXISTS "upload_sessions" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "creator_id" UUID NOT NULL,
+  "filename" TEXT NOT NULL,
+  "mime_type" TEXT NOT NULL,
+  "total_size" BIGINT NOT NULL,
+  "offset" BIGINT NOT NULL DEFAULT 0,
+  "temp_path" TEXT NOT NULL,
+  "metadata" JSONB NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'uploading',
+  "content_id" UUID,
+  "error" TEXT,
+  "expires_at" TIMESTAMP(6) NOT NULL,
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_upload_sessions_user_status" ON "upload_sessions"("user_id", "status");
+CREATE INDEX IF NOT EXISTS "idx_upload_sessions_status_expires" ON "upload_sessions"("status", "expires_at");
@@ -0,0 +1,39 @@
+-- Add playback sessions (heartbeats) and per-user watch progress
+
+CREATE TABLE IF NOT EXISTS "watch_sessions" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "content_id" UUID NOT NULL REFERENCES "content"("id") ON DELETE CASCADE,
+  "user_id" UUID REFERENCES "users"("id") ON DELETE CASCADE,
+  "analytics_session_id" TEXT,
+  "state" TEXT NOT NULL DEFAULT 'playing',
+  "position" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "watched_seconds" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "duration" DOUBLE PRECISION,
+  "milestones" TEXT[] NOT NULL DEFAULT '{}',
+  "record_history" BOOLEAN NOT NULL DEFAULT true,
+  "track_analytics" BOOLEAN NOT NULL DEFAULT true,
+  "ip_address" TEXT,
+  "user_agent" TEXT,
+  "started_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "last_heartbeat_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "ended_at" TIMESTAMP(6)
+);
+
+CREATE TABLE IF NOT EXISTS "watch_progress" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "content_id" UUID NOT NULL REFERENCES "content"("id") ON DELETE CASCADE,
+  "position" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "duration" DOUBLE PRECISION,
+  "watched_seconds" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "completed" BOOLEAN NOT NULL DEFAULT false,
+  "completed_at" TIMESTAMP(6),
+  "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "watch_progress_unique" UNIQUE ("user_id", "content_id")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "idx_watch_sessions_state" ON "watch_sessions"("state", "last_heartbeat_at");
+CREATE INDEX IF NOT EXISTS "idx_watch_sessions_user_content" ON "watch_sessions"("user_id", "content_id");
+CREATE INDEX IF NOT EXISTS "idx_watch_progress_user" ON "watch_progress"("user_id", "completed", "updated_at");
@@ -0,0 +1,101 @@
+import { parseArgs } from 'util';
+import { prisma } from '../src/lib/prisma';
+import { getStorageDriver } from '../src/lib/storage/storageService';
+import {
+  deleteMigratedObjects,
+  migrateObjects,
+  rewriteStorageUrls,
+} from '../src/lib/storage/storageMigration';
+import type { StorageDriverName } from '../src/lib/storage/storageDriver';
+
+const USAGE = `Usage: bun run scripts/migrate-storage.ts --from <local|s3> --to <local|s3> [options]
+
+Options:
+  --prefix <key prefix>  Only migrate keys starting with this (e.g. streams/)
+  --dry-run              Report what would be copied and rewritten, change nothing
+  --skip-urls            Copy objects only, leave database URLs alone
+  --delete-source        Delete copied objects from the source afterwards
+
+Set STORAGE_DRIVER to the target once the migration has finished.`;
+
+function parseDriver(value: string | undefined): StorageDriverName {
+  if (value !== 'local' && value !== 's3') {
+    console.error(`❌ Unknown storage driver: ${value ?? '(missing)'}`);
+    console.log(USAGE);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function migrateStorage() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      prefix: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      'skip-urls': { type: 'boolean', default: false },
+      'delete-source': { type: 'boolean', default: false },
+    },
+  });
+
+  const from = getStorageDriver(parseDriver(values.from));
+  const to = getStorageDriver(parseDriver(values.to));
+  const dryRun = values['dry-run'];
+
+  try {
+    console.log(`⏳ ${dryRun ? 'Checking' : 'Copying'} objects from ${from.name} to ${to.name}...`);
+    let processed = 0;
+    const result = await migrateObjects(from, to, {
+      prefix: values.prefix,
+      dryRun,
+      onObject: (object, action) => {
+        if (action === 'failed') {
+          console.error(`❌ ${object.key}`);
+        }
+        if (++processed % 500 === 0) {
+          console.log(`   ${processed} objects...`);
+        }
+      },
+    });
+    console.log(
+      `✅ ${dryRun ? 'Would copy' : 'Copied'} ${result.copied} objects (${(result.bytes / 1024 / 1024).toFixed(1)} MB), ` +
+        `${result.skipped} already present, ${result.failed} failed`
+    );
+
+    if (result.failed > 0) {
+      console.error('❌ Some objects failed to copy. Re-run to retry them; URLs were not rewritten.');
+      process.exit(1);
+    }
+
+    if (!values['skip-urls']) {
+      console.log(`⏳ ${dryRun ? 'Counting' : 'Rewriting'} stored URLs...`);
+      const counts = await rewriteStorageUrls(from, to, { dryRun });
+      for (const [column, count] of Object.entries(counts)) {
+        if (count > 0) {
+          console.log(`   ${column}: ${count}`);
+        }
+      }
+      const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+      console.log(`✅ ${dryRun ? 'Would rewrite' : 'Rewrote'} ${total} URLs`);
+    }
+
+    if (values['delete-source'] && !dryRun) {
+      console.log('⏳ Deleting migrated objects from the source...');
+      const deleted = await deleteMigratedObjects(from, to, { prefix: values.prefix });
+      console.log(`✅ Deleted ${deleted} objects`);
+    }
+  } catch (error: any) {
+    console.error('❌ Storage migration failed:', error.message);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (process.argv.includes('--help')) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+migrateStorage();
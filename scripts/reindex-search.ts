@@ -0,0 +1,21 @@
+import { prisma } from '../src/lib/prisma';
+import { reindexContentSearch } from '../src/lib/search/contentSearch';
+import { invalidateSearchCache } from '../src/lib/cache/searchCache';
+
+// Rebuilds every content item's search vector. Triggers keep them current;
+// run this after changing how the search document is built.
+async function reindexSearch() {
+  try {
+    console.log('⏳ Rebuilding content search vectors...');
+    const count = await reindexContentSearch();
+    await invalidateSearchCache();
+    console.log(`✅ Reindexed ${count} content items`);
+  } catch (error: any) {
+    console.error('❌ Search reindex failed:', error.message);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+reindexSearch();
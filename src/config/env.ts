@@ -50,6 +50,9 @@ const envSchema = z.object({
   GOOGLE_APPLICATION_CREDENTIALS: z.string().optional(), // Path to service account JSON file
   
   // Storage (S3/R2)
+  // auto = S3/R2 when credentials are configured, otherwise local disk (LOCAL_MEDIA_PATH)
+  STORAGE_DRIVER: z.enum(['auto', 's3', 'local']).default('auto'),
+  STORAGE_GC_GRACE_DAYS: z.string().default('7'), // unreferenced media is deleted after this quarantine
   S3_ENDPOINT: z.string().url().optional(),
   S3_ACCESS_KEY_ID: z.string().optional(),
   S3_SECRET_ACCESS_KEY: z.string().optional(),
@@ -67,12 +70,35 @@ const envSchema = z.object({
   // Cloudflare Stream (for video hosting)
   CLOUDFLARE_STREAM_API_TOKEN: z.string().optional(),
   CLOUDFLARE_ACCOUNT_ID: z.string().optional(),
+  CLOUDFLARE_STREAM_WEBHOOK_SECRET: z.string().optional(),
   
   // Mux (alternative video hosting)
   MUX_TOKEN_ID: z.string().optional(),
   MUX_TOKEN_SECRET: z.string().optional(),
   MUX_SIGNING_KEY: z.string().optional(),
   MUX_SIGNING_KEY_ID: z.string().optional(),
+  MUX_WEBHOOK_SECRET: z.string().optional(),
+  
+  // Local transcoding (FFmpeg)
+  // auto = use Cloudflare Stream/Mux when configured, otherwise FFmpeg
+  VIDEO_TRANSCODER: z.enum(['auto', 'ffmpeg', 'provider']).default('auto'),
+  FFMPEG_PATH: z.string().default('ffmpeg'),
+  FFPROBE_PATH: z.string().default('ffprobe'),
+  TRANSCODE_WORK_PATH: z.string().default('./storage/transcode'),
+  
+  // Playback authorization (signed, expiring media URLs)
+  PLAYBACK_SIGNING_SECRET: z.string().min(32).optional(), // Defaults to JWT_SECRET
+  PLAYBACK_TOKEN_TTL: z.string().default('3600'), // seconds
+  LOCAL_MEDIA_PATH: z.string().default('./storage/media'), // Local storage driver root, served at /media
+  
+  // Live ingest (RTMP in, HLS out)
+  // rtmp = accept encoder publishes on RTMP_PORT and package HLS under LIVE_HLS_PATH
+  LIVE_INGEST: z.enum(['none', 'rtmp']).default('none'),
+  RTMP_PORT: z.string().default('1935'),
+  RTMP_PUBLIC_URL: z.string().optional(), // Ingest URL shown to creators, defaults to rtmp://<API host>:<RTMP_PORT>/live
+  LIVE_HLS_PATH: z.string().default('./storage/live'), // Served at /live
+  LIVE_RECORDING_PATH: z.string().default('./storage/recordings'), // Not served; kept until converted to VOD
+  LIVE_REMINDER_MINUTES: z.string().default('15'), // Remind RSVPs this long before a scheduled stream
   
   // SMTP (for email notifications)
   SMTP_HOST: z.string().optional(),
@@ -122,6 +148,7 @@ const envSchema = z.object({
   
   // Storage Path (for local file storage)
   STORAGE_PATH: z.string().default('./storage/downloads'),
+  UPLOAD_TEMP_PATH: z.string().default('./storage/uploads'), // Staging area for resumable uploads
   
   // Alerting & Incident Response (Discord Webhooks)
   DISCORD_WEBHOOK_URL: z.string().url().optional(), // Discord webhook for all alerts (replaces PagerDuty, Opsgenie, Slack)
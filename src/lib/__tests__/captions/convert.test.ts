@@ -0,0 +1,117 @@
+/**
+ * Caption Conversion Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  captionSearchText,
+  detectCaptionFormat,
+  parseCaptions,
+  toWebVTT,
+} from '../../captions/convert';
+import { ValidationError } from '../../errors';
+
+const srt = `1
+00:00:01,000 --> 00:00:03,500
+Hello <font color="red">there</font>
+
+2
+00:00:04,000 --> 00:00:06,000
+<i>General Kenobi</i>
+`;
+
+const vtt = `WEBVTT
+Kind: captions
+
+NOTE written by hand
+
+intro
+00:01.000 --> 00:03.500 align:start
+Hello there
+
+00:00:04.000 --> 00:00:06.000
+[door slams]
+`;
+
+const ass = `[Script Info]
+Title: Example
+
+[V4+ Styles]
+Format: Name, Fontname
+Style: Default,Arial
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:01.00,0:00:03.50,Default,,0,0,0,,{\\i1}Hello{\\i0}, there\\Nfriend
+`;
+
+describe('Caption Conversion', () => {
+  describe('detectCaptionFormat', () => {
+    it('should use the file extension', () => {
+      expect(detectCaptionFormat('movie.en.srt', '')).toBe('srt');
+      expect(detectCaptionFormat('movie.ssa', '')).toBe('ass');
+    });
+
+    it('should fall back to the contents', () => {
+      expect(detectCaptionFormat('captions.txt', vtt)).toBe('vtt');
+      expect(detectCaptionFormat('captions.txt', srt)).toBe('srt');
+      expect(detectCaptionFormat('captions.txt', ass)).toBe('ass');
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => detectCaptionFormat('notes.txt', 'hello')).toThrow(ValidationError);
+    });
+  });
+
+  describe('parseCaptions', () => {
+    it('should parse SRT and drop unsupported tags', () => {
+      const cues = parseCaptions(srt, 'srt');
+      expect(cues).toEqual([
+        { start: 1, end: 3.5, text: 'Hello there' },
+        { start: 4, end: 6, text: '<i>General Kenobi</i>' },
+      ]);
+    });
+
+    it('should parse WebVTT, skipping headers and notes', () => {
+      const cues = parseCaptions(vtt, 'vtt');
+      expect(cues).toHaveLength(2);
+      expect(cues[0]).toEqual({ start: 1, end: 3.5, text: 'Hello there' });
+    });
+
+    it('should parse ASS dialogue, keeping commas in the text', () => {
+      const cues = parseCaptions(ass, 'ass');
+      expect(cues).toEqual([{ start: 1, end: 3.5, text: 'Hello, there\nfriend' }]);
+    });
+
+    it('should reject cues that end before they start', () => {
+      const invalid = '1\n00:00:05,000 --> 00:00:02,000\nBackwards\n';
+      expect(() => parseCaptions(invalid, 'srt')).toThrow('Cue 1 ends before it starts');
+    });
+
+    it('should reject files without cues', () => {
+      expect(() => parseCaptions('WEBVTT\n\n', 'vtt')).toThrow(ValidationError);
+    });
+
+    it('should reject malformed timestamps', () => {
+      expect(() => parseCaptions('1\n00:00:xx --> 00:00:02,000\nBad\n', 'srt')).toThrow(ValidationError);
+    });
+  });
+
+  describe('toWebVTT', () => {
+    it('should write numbered cues with WebVTT timestamps', () => {
+      const output = toWebVTT(parseCaptions(srt, 'srt'));
+      expect(output.startsWith('WEBVTT\n\n1\n00:00:01.000 --> 00:00:03.500\nHello there\n')).toBe(true);
+    });
+
+    it('should round-trip through the WebVTT parser', () => {
+      const cues = parseCaptions(ass, 'ass');
+      expect(parseCaptions(toWebVTT(cues), 'vtt')).toEqual(cues);
+    });
+  });
+
+  describe('captionSearchText', () => {
+    it('should flatten cues into plain text', () => {
+      expect(captionSearchText(parseCaptions(srt, 'srt'))).toBe('Hello there General Kenobi');
+    });
+  });
+});
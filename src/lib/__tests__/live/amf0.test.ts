@@ -0,0 +1,71 @@
+/**
+ * AMF0 Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { AmfDecodeError, decodeAmf0, decodeAmf0Value, encodeAmf0 } from '../../live/rtmp/amf0';
+
+describe('AMF0', () => {
+  describe('encodeAmf0 / decodeAmf0', () => {
+    it('should round-trip a connect command', () => {
+      const values = [
+        'connect',
+        1,
+        { app: 'live', flashVer: 'FMLE/3.0', tcUrl: 'rtmp://localhost/live', fpad: false },
+      ];
+      expect(decodeAmf0(encodeAmf0(...values))).toEqual(values);
+    });
+
+    it('should round-trip null, undefined, arrays and nested objects', () => {
+      const values = [null, undefined, [1, 'two', true], { outer: { inner: 'value' } }];
+      expect(decodeAmf0(encodeAmf0(...values))).toEqual(values);
+    });
+
+    it('should use a long string for more than 65535 bytes', () => {
+      const long = 'x'.repeat(70000);
+      const encoded = encodeAmf0(long);
+      expect(encoded[0]).toBe(0x0c);
+      expect(decodeAmf0(encoded)).toEqual([long]);
+    });
+
+    it('should encode numbers as big-endian doubles', () => {
+      expect(encodeAmf0(1)).toEqual(Buffer.from([0x00, 0x3f, 0xf0, 0, 0, 0, 0, 0, 0]));
+    });
+  });
+
+  describe('decodeAmf0Value', () => {
+    it('should decode ECMA arrays like objects', () => {
+      // "onMetaData"-style ECMA array with one entry: { width: 1280 }
+      const buffer = Buffer.concat([
+        Buffer.from([0x08, 0, 0, 0, 1, 0, 5]),
+        Buffer.from('width'),
+        encodeAmf0(1280),
+        Buffer.from([0, 0, 0x09]),
+      ]);
+      expect(decodeAmf0Value(buffer)).toEqual({ value: { width: 1280 }, offset: buffer.length });
+    });
+
+    it('should return the offset after the value', () => {
+      const buffer = encodeAmf0('@setDataFrame', 'onMetaData');
+      const first = decodeAmf0Value(buffer);
+      expect(first).toEqual({ value: '@setDataFrame', offset: 16 });
+      expect(decodeAmf0Value(buffer, first.offset).value).toBe('onMetaData');
+    });
+
+    it('should reject truncated data', () => {
+      const buffer = encodeAmf0({ app: 'live' });
+      expect(() => decodeAmf0Value(buffer.subarray(0, buffer.length - 2))).toThrow(AmfDecodeError);
+      expect(() => decodeAmf0Value(Buffer.from([0x02, 0x00, 0x10, 0x41]))).toThrow(AmfDecodeError);
+    });
+
+    it('should reject unsupported markers and deep nesting', () => {
+      expect(() => decodeAmf0Value(Buffer.from([0x11]))).toThrow(AmfDecodeError);
+
+      let nested: any = 'leaf';
+      for (let i = 0; i < 40; i++) {
+        nested = { nested };
+      }
+      expect(() => decodeAmf0(encodeAmf0(nested))).toThrow(AmfDecodeError);
+    });
+  });
+});
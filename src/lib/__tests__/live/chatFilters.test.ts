@@ -0,0 +1,68 @@
+/**
+ * Chat Filter Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { containsLink, findBlockedTerm, normalizeBlockedTerms, normalizeChatText } from '../../live/chatFilters';
+
+describe('Chat Filters', () => {
+  describe('normalizeChatText', () => {
+    it('should fold case, accents, full-width letters and whitespace', () => {
+      expect(normalizeChatText('  Ｓｐａｍ   Café ')).toBe('spam cafe');
+    });
+  });
+
+  describe('normalizeBlockedTerms', () => {
+    it('should drop blanks and duplicates', () => {
+      expect(normalizeBlockedTerms(['Spam', 'spam', ' ', 'Scam*'])).toEqual(['spam', 'scam*']);
+    });
+  });
+
+  describe('findBlockedTerm', () => {
+    const terms = ['spam', 'free coins', 'scam*'];
+
+    it('should match whole words regardless of case and accents', () => {
+      expect(findBlockedTerm('this is SPAM!', terms)).toBe('spam');
+      expect(findBlockedTerm('ｓｐáｍ', terms)).toBe('spam');
+      expect(findBlockedTerm('spammy title', terms)).toBeNull();
+    });
+
+    it('should match phrases across extra whitespace', () => {
+      expect(findBlockedTerm('get FREE   coins here', terms)).toBe('free coins');
+    });
+
+    it('should match any ending for terms ending in *', () => {
+      expect(findBlockedTerm('total scammer', terms)).toBe('scam*');
+      expect(findBlockedTerm('no scam', terms)).toBe('scam*');
+    });
+
+    it('should treat terms as text, not patterns', () => {
+      expect(findBlockedTerm('a+b', ['a+b'])).toBe('a+b');
+      expect(findBlockedTerm('aab', ['a+b'])).toBeNull();
+    });
+
+    it('should return null without terms', () => {
+      expect(findBlockedTerm('anything', [])).toBeNull();
+    });
+  });
+
+  describe('containsLink', () => {
+    it('should detect URLs and bare domains', () => {
+      expect(containsLink('go to https://example.org/x')).toBe(true);
+      expect(containsLink('www.example.net')).toBe(true);
+      expect(containsLink('check example.com')).toBe(true);
+      expect(containsLink('discord.gg/abc')).toBe(true);
+    });
+
+    it('should detect spelled-out dots', () => {
+      expect(containsLink('example (dot) com')).toBe(true);
+      expect(containsLink('example[dot]tv')).toBe(true);
+    });
+
+    it('should not flag ordinary text', () => {
+      expect(containsLink('see you at 8.30')).toBe(false);
+      expect(containsLink('lol.ok that was great')).toBe(false);
+      expect(containsLink('e.g. this one')).toBe(false);
+    });
+  });
+});
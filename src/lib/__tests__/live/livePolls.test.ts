@@ -0,0 +1,149 @@
+/**
+ * Live Poll Tests
+ * Voting against an in-memory stand-in for the poll tables. Transactions
+ * roll back on error, and a second vote by the same user fails the unique
+ * (poll_id, user_id) constraint the way Postgres would.
+ */
+
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { Prisma } from '@prisma/client';
+import { ConflictError, ValidationError } from '../../errors';
+
+interface PollRow {
+  id: string;
+  stream_id: string;
+  question: string;
+  status: string;
+  total_votes: number;
+  created_at: Date;
+  closed_at: Date | null;
+}
+
+let db = {
+  polls: new Map<string, PollRow>(),
+  options: new Map<string, { id: string; poll_id: string; text: string; position: number; vote_count: number }>(),
+  votes: [] as Array<{ poll_id: string; option_id: string; user_id: string }>,
+};
+
+function withOptions(poll: PollRow) {
+  const options = [...db.options.values()].filter((option) => option.poll_id === poll.id);
+  return { ...poll, options: options.sort((a, b) => a.position - b.position).map((option) => ({ ...option })) };
+}
+
+const fakePrisma = {
+  livePoll: {
+    findFirst: async ({ where }: { where: { id: string; stream_id: string } }) => {
+      const poll = db.polls.get(where.id);
+      return poll && poll.stream_id === where.stream_id ? withOptions(poll) : null;
+    },
+    findUnique: async ({ where }: { where: { id: string } }) => {
+      const poll = db.polls.get(where.id);
+      return poll ? withOptions(poll) : null;
+    },
+    updateMany: async ({ where, data }: { where: { id: string; status: string }; data: { total_votes: { increment: number } } }) => {
+      const poll = db.polls.get(where.id);
+      if (!poll || poll.status !== where.status) return { count: 0 };
+      poll.total_votes += data.total_votes.increment;
+      return { count: 1 };
+    },
+  },
+  livePollVote: {
+    create: async ({ data }: { data: { poll_id: string; option_id: string; user_id: string } }) => {
+      if (db.votes.some((vote) => vote.poll_id === data.poll_id && vote.user_id === data.user_id)) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`poll_id`,`user_id`)', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        });
+      }
+      db.votes.push({ ...data });
+      return { ...data };
+    },
+  },
+  livePollOption: {
+    update: async ({ where, data }: { where: { id: string }; data: { vote_count: { increment: number } } }) => {
+      const option = db.options.get(where.id)!;
+      option.vote_count += data.vote_count.increment;
+      return { ...option };
+    },
+  },
+  $transaction: async <T>(fn: (tx: typeof fakePrisma) => Promise<T>): Promise<T> => {
+    const snapshot = structuredClone(db);
+    try {
+      return await fn(fakePrisma);
+    } catch (error) {
+      db = snapshot;
+      throw error;
+    }
+  },
+};
+
+const stream = { id: 'stream-1', status: 'live', is_ticketed: false };
+
+mock.module('../../prisma', () => ({ prisma: fakePrisma }));
+mock.module('../../socket/emitDownloadEvents', () => ({ getSocketInstance: () => null }));
+mock.module('../../live/chatModeration', () => ({
+  findChatStream: mock(async () => stream),
+  getActiveChatBan: mock(async () => null),
+  getChatRole: mock(async () => 'viewer'),
+  hasStreamTicket: mock(async () => false),
+  requireChatRole: mock(async () => {}),
+}));
+
+const { votePoll } = await import('../../live/livePolls');
+
+function seed(status: string): void {
+  db.polls.clear();
+  db.options.clear();
+  db.votes = [];
+  db.polls.set('poll-1', {
+    id: 'poll-1',
+    stream_id: 'stream-1',
+    question: 'Encore?',
+    status,
+    total_votes: 0,
+    created_at: new Date(),
+    closed_at: null,
+  });
+  db.options.set('option-yes', { id: 'option-yes', poll_id: 'poll-1', text: 'Yes', position: 0, vote_count: 0 });
+  db.options.set('option-no', { id: 'option-no', poll_id: 'poll-1', text: 'No', position: 1, vote_count: 0 });
+}
+
+describe('Live Polls', () => {
+  beforeEach(() => seed('open'));
+
+  describe('votePoll', () => {
+    it('should count a vote on the poll and the chosen option', async () => {
+      const poll = await votePoll('stream-1', 'poll-1', 'user-1', 'option-yes');
+
+      expect(poll.totalVotes).toBe(1);
+      expect(poll.votedOptionId).toBe('option-yes');
+      expect(poll.options.map((option) => option.votes)).toEqual([1, 0]);
+    });
+
+    it('should refuse a second vote by the same user, even for another option', async () => {
+      await votePoll('stream-1', 'poll-1', 'user-1', 'option-yes');
+
+      await expect(votePoll('stream-1', 'poll-1', 'user-1', 'option-no')).rejects.toBeInstanceOf(ConflictError);
+
+      expect(db.polls.get('poll-1')!.total_votes).toBe(1);
+      expect(db.options.get('option-yes')!.vote_count).toBe(1);
+      expect(db.options.get('option-no')!.vote_count).toBe(0);
+      expect(db.votes).toHaveLength(1);
+    });
+
+    it('should count votes by different users', async () => {
+      await votePoll('stream-1', 'poll-1', 'user-1', 'option-yes');
+      const poll = await votePoll('stream-1', 'poll-1', 'user-2', 'option-no');
+
+      expect(poll.totalVotes).toBe(2);
+      expect(poll.options.map((option) => option.votes)).toEqual([1, 1]);
+    });
+
+    it('should refuse votes once the poll is closed', async () => {
+      seed('closed');
+
+      await expect(votePoll('stream-1', 'poll-1', 'user-1', 'option-yes')).rejects.toBeInstanceOf(ValidationError);
+      expect(db.votes).toHaveLength(0);
+    });
+  });
+});
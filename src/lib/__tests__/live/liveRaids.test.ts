@@ -0,0 +1,101 @@
+/**
+ * Live Stream Raid Tests
+ * Who a creator takes raids from, against stubbed stream, follow and raid
+ * tables.
+ */
+
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { ForbiddenError } from '../../errors';
+
+const RAIDER_USER_ID = 'user-raider';
+const TARGET_USER_ID = 'user-target';
+
+const follows = new Set<string>(); // `${followerId}:${followingId}`
+let acceptRaidsFrom = 'everyone';
+
+const createRaid = mock(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'raid-1', ...data, created_at: new Date() }));
+const redirectStreamViewers = mock(async (_fromStreamId: string, _toStreamId: string) => {});
+
+const creatorFields = { display_name: 'Creator', handle: 'creator', avatar: null };
+
+mock.module('../../prisma', () => ({
+  prisma: {
+    liveStream: {
+      findUnique: async () => ({
+        id: 'stream-target',
+        title: 'Target stream',
+        status: 'live',
+        creator: { id: 'creator-target', user_id: TARGET_USER_ID, accept_raids_from: acceptRaidsFrom, ...creatorFields },
+      }),
+    },
+    follow: {
+      findUnique: async ({ where }: { where: { followerId_followingId: { followerId: string; followingId: string } } }) => {
+        const { followerId, followingId } = where.followerId_followingId;
+        return follows.has(`${followerId}:${followingId}`) ? { id: 'follow-1' } : null;
+      },
+    },
+    creator: {
+      findUniqueOrThrow: async () => ({ id: 'creator-raider', user_id: RAIDER_USER_ID, ...creatorFields }),
+    },
+    liveStreamRaid: { create: createRaid },
+  },
+}));
+mock.module('../../redis', () => ({ redis: null, isRedisAvailable: () => false }));
+mock.module('../../socket/emitDownloadEvents', () => ({ getSocketInstance: () => null }));
+mock.module('../../notifications/service', () => ({ createNotification: mock(async () => {}) }));
+mock.module('../../../socket/socketServer', () => ({ redirectStreamViewers }));
+mock.module('../../live/chatModeration', () => ({
+  findChatStream: mock(async () => ({
+    id: 'stream-raider',
+    status: 'live',
+    creator_id: 'creator-raider',
+    creator: { user_id: RAIDER_USER_ID },
+  })),
+  getActiveChatBan: mock(),
+  getChatRole: mock(),
+  hasStreamTicket: mock(),
+  requireChatRole: mock(async () => 'owner'),
+}));
+
+const { startRaid } = await import('../../live/liveRaids');
+
+describe('Live Stream Raids', () => {
+  beforeEach(() => {
+    follows.clear();
+    createRaid.mockClear();
+    redirectStreamViewers.mockClear();
+  });
+
+  describe('startRaid', () => {
+    it('should take a raid from a creator the target follows when only following is allowed', async () => {
+      acceptRaidsFrom = 'following';
+      follows.add(`${TARGET_USER_ID}:${RAIDER_USER_ID}`);
+
+      const raid = await startRaid('stream-raider', RAIDER_USER_ID, 'stream-target');
+
+      expect(raid).toMatchObject({ fromStreamId: 'stream-raider', toStreamId: 'stream-target', viewerCount: 0 });
+      expect(redirectStreamViewers).toHaveBeenCalledWith('stream-raider', 'stream-target');
+    });
+
+    it('should refuse a raid from a creator the target does not follow when only following is allowed', async () => {
+      acceptRaidsFrom = 'following';
+      // Only the raider following the target doesn't count
+      follows.add(`${RAIDER_USER_ID}:${TARGET_USER_ID}`);
+
+      await expect(startRaid('stream-raider', RAIDER_USER_ID, 'stream-target')).rejects.toBeInstanceOf(ForbiddenError);
+      expect(createRaid).not.toHaveBeenCalled();
+      expect(redirectStreamViewers).not.toHaveBeenCalled();
+    });
+
+    it('should refuse every raid when raids are off and take any when open to everyone', async () => {
+      acceptRaidsFrom = 'nobody';
+      follows.add(`${TARGET_USER_ID}:${RAIDER_USER_ID}`);
+      await expect(startRaid('stream-raider', RAIDER_USER_ID, 'stream-target')).rejects.toBeInstanceOf(ForbiddenError);
+
+      acceptRaidsFrom = 'everyone';
+      follows.clear();
+      await startRaid('stream-raider', RAIDER_USER_ID, 'stream-target');
+      expect(createRaid).toHaveBeenCalledTimes(1);
+    });
+  });
+});
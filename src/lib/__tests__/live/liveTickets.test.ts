@@ -0,0 +1,176 @@
+/**
+ * Live Stream Ticket Tests
+ * Settling and refunding tickets against an in-memory stand-in for the
+ * ticket, stream and earnings tables; payment providers are mocked.
+ */
+
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+
+interface TicketRow {
+  id: string;
+  stream_id: string;
+  user_id: string;
+  amount: number;
+  currency: string;
+  provider: string;
+  status: string;
+  order_id: string | null;
+  payment_id: string | null;
+  creator_share: number;
+  refunded_at: Date | null;
+}
+
+const db = {
+  tickets: new Map<string, TicketRow>(),
+  streams: new Map<string, { id: string; title: string; status: string; creator_id: string }>(),
+  earnings: new Map<string, { balance: number; lifetime_earnings: number }>(),
+};
+
+type Update = number | Date | null | string | { increment?: number; decrement?: number };
+
+function applyUpdate<T extends object>(row: T, data: Record<string, Update>): void {
+  const values = row as Record<string, unknown>;
+  for (const [field, value] of Object.entries(data)) {
+    if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+      values[field] = Number(values[field]) + (value.increment ?? 0) - (value.decrement ?? 0);
+    } else {
+      values[field] = value;
+    }
+  }
+}
+
+function findTicket(where: { id?: string; order_id?: string }): TicketRow | undefined {
+  return [...db.tickets.values()].find(
+    (ticket) => (where.id === undefined || ticket.id === where.id) && (where.order_id === undefined || ticket.order_id === where.order_id)
+  );
+}
+
+function matchesStatus(status: string, condition?: string | { in: string[] }): boolean {
+  if (condition === undefined) return true;
+  return typeof condition === 'string' ? status === condition : condition.in.includes(status);
+}
+
+const fakePrisma = {
+  liveStreamTicket: {
+    findUnique: async ({ where, include }: { where: { id?: string; order_id?: string }; include?: unknown }) => {
+      const ticket = findTicket(where);
+      if (!ticket) return null;
+      return include ? { ...ticket, stream: db.streams.get(ticket.stream_id) } : { ...ticket };
+    },
+    updateMany: async ({ where, data }: { where: { id: string; status?: string | { in: string[] } }; data: Record<string, Update> }) => {
+      const ticket = db.tickets.get(where.id);
+      if (!ticket || !matchesStatus(ticket.status, where.status)) return { count: 0 };
+      applyUpdate(ticket, data);
+      return { count: 1 };
+    },
+    update: async ({ where, data }: { where: { id: string }; data: Record<string, Update> }) => {
+      const ticket = db.tickets.get(where.id)!;
+      applyUpdate(ticket, data);
+      return { ...ticket };
+    },
+  },
+  creatorEarnings: {
+    upsert: async ({ where, create, update }: { where: { creator_id: string }; create: { balance: number; lifetime_earnings: number }; update: Record<string, Update> }) => {
+      const row = db.earnings.get(where.creator_id);
+      if (row) {
+        applyUpdate(row, update);
+      } else {
+        db.earnings.set(where.creator_id, { balance: create.balance, lifetime_earnings: create.lifetime_earnings });
+      }
+    },
+    update: async ({ where, data }: { where: { creator_id: string }; data: Record<string, Update> }) => {
+      applyUpdate(db.earnings.get(where.creator_id)!, data);
+    },
+  },
+  $transaction: async (operations: unknown) =>
+    typeof operations === 'function' ? operations(fakePrisma) : Promise.all(operations as Promise<unknown>[]),
+};
+
+const refundRazorpayPayment = mock(async (_paymentId: string, _amount?: number, _notes?: unknown) => ({ id: 'rfnd_1' }));
+
+mock.module('../../prisma', () => ({ prisma: fakePrisma }));
+mock.module('../../razorpay', () => ({
+  razorpay: null,
+  createPaymentOrder: mock(),
+  getPayment: mock(),
+  refundPayment: refundRazorpayPayment,
+  verifyPaymentSignature: mock(() => true),
+}));
+mock.module('../../stripe', () => ({ stripe: null, refundPayment: mock() }));
+mock.module('../../notifications/service', () => ({ createNotification: mock(async () => {}) }));
+mock.module('../../socket/emitDownloadEvents', () => ({ getSocketInstance: () => null }));
+// Bun can't add exports to a module another test file already mocked, so
+// this stubs every chat moderation function the live tests use
+mock.module('../../live/chatModeration', () => ({
+  findChatStream: mock(),
+  getActiveChatBan: mock(),
+  getChatRole: mock(),
+  hasStreamTicket: mock(),
+  requireChatRole: mock(),
+}));
+
+const { handleRazorpayTicketPayment } = await import('../../live/liveTickets');
+
+const CREATOR_ID = 'creator-1';
+
+function seed(streamStatus: string): void {
+  db.tickets.clear();
+  db.streams.clear();
+  db.earnings.clear();
+  db.streams.set('stream-1', { id: 'stream-1', title: 'Concert', status: streamStatus, creator_id: CREATOR_ID });
+  db.tickets.set('ticket-1', {
+    id: 'ticket-1',
+    stream_id: 'stream-1',
+    user_id: 'user-1',
+    amount: 500,
+    currency: 'INR',
+    provider: 'razorpay',
+    status: 'pending',
+    order_id: 'order_1',
+    payment_id: null,
+    creator_share: 0,
+    refunded_at: null,
+  });
+}
+
+describe('Live Stream Tickets', () => {
+  beforeEach(() => {
+    refundRazorpayPayment.mockClear();
+    refundRazorpayPayment.mockImplementation(async () => ({ id: 'rfnd_1' }));
+  });
+
+  it('should credit the creator once when a ticket is completed twice', async () => {
+    seed('idle');
+
+    expect(await handleRazorpayTicketPayment('order_1', 'pay_1')).toBe(true);
+    expect(await handleRazorpayTicketPayment('order_1', 'pay_1')).toBe(true);
+
+    expect(db.tickets.get('ticket-1')).toMatchObject({ status: 'completed', payment_id: 'pay_1', creator_share: 425 });
+    expect(db.earnings.get(CREATOR_ID)).toEqual({ balance: 425, lifetime_earnings: 425 });
+  });
+
+  it('should refund a ticket paid after the stream was cancelled', async () => {
+    seed('cancelled');
+
+    await handleRazorpayTicketPayment('order_1', 'pay_1');
+
+    expect(refundRazorpayPayment).toHaveBeenCalledTimes(1);
+    expect(refundRazorpayPayment.mock.calls[0][0]).toBe('pay_1');
+    expect(db.tickets.get('ticket-1')!.status).toBe('refunded');
+    expect(db.tickets.get('ticket-1')!.refunded_at).toBeInstanceOf(Date);
+    expect(db.earnings.get(CREATOR_ID)).toEqual({ balance: 0, lifetime_earnings: 0 });
+  });
+
+  it('should put the ticket and the creator share back when the refund fails', async () => {
+    seed('cancelled');
+    refundRazorpayPayment.mockImplementation(async () => {
+      throw new Error('Gateway timeout');
+    });
+
+    await handleRazorpayTicketPayment('order_1', 'pay_1');
+
+    expect(refundRazorpayPayment).toHaveBeenCalledTimes(1);
+    expect(db.tickets.get('ticket-1')).toMatchObject({ status: 'completed', refunded_at: null });
+    expect(db.earnings.get(CREATOR_ID)).toEqual({ balance: 425, lifetime_earnings: 425 });
+  });
+});
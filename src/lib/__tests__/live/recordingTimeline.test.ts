@@ -0,0 +1,45 @@
+/**
+ * Recording Timeline Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { getRecordingDuration, getReplayOffset, RecordingSegment } from '../../live/recordingTimeline';
+
+const at = (seconds: number) => new Date(Date.UTC(2024, 0, 1, 20, 0, seconds));
+
+// Two parts: 0-30s and, after the encoder reconnected, 40-60s
+const segments: RecordingSegment[] = [
+  { startedAt: at(0), duration: 30 },
+  { startedAt: at(40), duration: 20 },
+];
+
+describe('Recording Timeline', () => {
+  describe('getReplayOffset', () => {
+    it('should map times within a part', () => {
+      expect(getReplayOffset(at(5), segments)).toBe(5000);
+      expect(getReplayOffset(at(45), segments)).toBe(35000);
+    });
+
+    it('should map times before the recording to the start', () => {
+      expect(getReplayOffset(at(-10), segments)).toBe(0);
+    });
+
+    it('should map times in a gap to the start of the next part', () => {
+      expect(getReplayOffset(at(35), segments)).toBe(30000);
+    });
+
+    it('should map times after the recording to its end', () => {
+      expect(getReplayOffset(at(90), segments)).toBe(50000);
+    });
+
+    it('should return 0 without segments', () => {
+      expect(getReplayOffset(at(5), [])).toBe(0);
+    });
+  });
+
+  describe('getRecordingDuration', () => {
+    it('should add up the parts', () => {
+      expect(getRecordingDuration(segments)).toBe(50);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Stream Health Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { getHealthWarnings, StreamHealthMonitor, StreamHealthSample } from '../../live/streamHealth';
+import { encodeAmf0 } from '../../live/rtmp/amf0';
+import { FLV_TAG_AUDIO, FLV_TAG_SCRIPT, FLV_TAG_VIDEO } from '../../live/rtmp/flv';
+
+const keyframe = () => Buffer.concat([Buffer.from([0x17, 0x01]), Buffer.alloc(998)]);
+const interframe = () => Buffer.concat([Buffer.from([0x27, 0x01]), Buffer.alloc(498)]);
+const sequenceHeader = () => Buffer.from([0x17, 0x00, 0x00, 0x00, 0x00]);
+
+/**
+ * `seconds` of 30 fps video with a keyframe every `keyframeEvery` frames,
+ * skipping every `dropEvery`th frame if set
+ */
+function feed(monitor: StreamHealthMonitor, seconds: number, keyframeEvery: number, dropEvery = 0): void {
+  for (let frame = 0; frame < seconds * 30; frame++) {
+    if (dropEvery && frame % dropEvery === dropEvery - 1) {
+      continue;
+    }
+    const timestamp = Math.round((frame * 1000) / 30);
+    monitor.record(FLV_TAG_VIDEO, timestamp, frame % keyframeEvery === 0 ? keyframe() : interframe());
+  }
+}
+
+const sample = (overrides: Partial<StreamHealthSample>): StreamHealthSample => ({
+  durationSeconds: 10,
+  bitrateKbps: 2500,
+  keyframeIntervalSeconds: 1,
+  framerate: 30,
+  droppedFrames: 0,
+  width: 1280,
+  height: 720,
+  ...overrides,
+});
+
+describe('Stream Health', () => {
+  describe('StreamHealthMonitor', () => {
+    it('should measure bitrate, frame rate and keyframe interval', () => {
+      const monitor = new StreamHealthMonitor(0);
+      monitor.record(FLV_TAG_VIDEO, 0, sequenceHeader());
+      feed(monitor, 10, 60);
+      monitor.record(FLV_TAG_AUDIO, 0, Buffer.alloc(1000));
+
+      const result = monitor.takeSample(10_000);
+      expect(result.framerate).toBe(30);
+      expect(result.keyframeIntervalSeconds).toBe(2);
+      // Sequence header, 5 keyframes of 1000 bytes, 295 frames of 500 and 1000 bytes of audio over 10s
+      expect(result.bitrateKbps).toBe(Math.round(((5 + 5 * 1000 + 295 * 500 + 1000) * 8) / 1000 / 10));
+      expect(result.droppedFrames).toBeNull();
+    });
+
+    it('should read resolution and count dropped frames against the declared frame rate', () => {
+      const monitor = new StreamHealthMonitor(0);
+      monitor.record(FLV_TAG_SCRIPT, 0, encodeAmf0('onMetaData', { width: 1920, height: 1080, framerate: 30 }));
+      feed(monitor, 10, 30, 10);
+
+      const result = monitor.takeSample(10_000);
+      expect(result.width).toBe(1920);
+      expect(result.height).toBe(1080);
+      expect(result.droppedFrames).toBe(30);
+    });
+
+    it('should count an overdue keyframe before it arrives', () => {
+      const monitor = new StreamHealthMonitor(0);
+      feed(monitor, 5, 1000);
+
+      expect(monitor.takeSample(5_000).keyframeIntervalSeconds).toBe(5);
+    });
+
+    it('should start a new window after each sample', () => {
+      const monitor = new StreamHealthMonitor(0);
+      feed(monitor, 10, 30);
+      monitor.takeSample(10_000);
+
+      const next = monitor.takeSample(20_000);
+      expect(next.bitrateKbps).toBe(0);
+      expect(next.framerate).toBeNull();
+    });
+  });
+
+  describe('getHealthWarnings', () => {
+    it('should accept recommended settings', () => {
+      expect(getHealthWarnings(sample({}))).toEqual([]);
+    });
+
+    it('should judge bitrate by resolution', () => {
+      expect(getHealthWarnings(sample({ bitrateKbps: 1000 })).map((w) => w.code)).toEqual(['bitrate-low']);
+      expect(getHealthWarnings(sample({ bitrateKbps: 1000, height: 480 }))).toEqual([]);
+      expect(getHealthWarnings(sample({ bitrateKbps: 9000, height: 1080 })).map((w) => w.code)).toEqual([
+        'bitrate-high',
+      ]);
+    });
+
+    it('should flag long keyframe intervals and dropped frames', () => {
+      const codes = getHealthWarnings(sample({ keyframeIntervalSeconds: 4, droppedFrames: 30, framerate: 27 })).map(
+        (w) => w.code
+      );
+      expect(codes).toEqual(['keyframe-interval', 'dropped-frames']);
+      expect(getHealthWarnings(sample({ droppedFrames: 5 }))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Tip Pin Tier Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { getPinDurationSeconds, toInr } from '../../live/tipPins';
+
+describe('Tip Pins', () => {
+  describe('toInr', () => {
+    it('should convert to rupees whatever the case of the currency code', () => {
+      expect(toInr(250, 'INR')).toBe(250);
+      expect(toInr(10, 'usd')).toBe(830);
+    });
+
+    it('should return null for a currency without a rate', () => {
+      expect(toInr(10, 'XYZ')).toBeNull();
+    });
+  });
+
+  describe('getPinDurationSeconds', () => {
+    it('should pick the tier for an INR tip by its rupee amount', () => {
+      expect(getPinDurationSeconds(100, 'INR')).toBe(2 * 60);
+      expect(getPinDurationSeconds(499, 'INR')).toBe(2 * 60);
+      expect(getPinDurationSeconds(5000, 'INR')).toBe(30 * 60);
+    });
+
+    it('should pin a $100 tip for longer than a ₹100 one', () => {
+      expect(getPinDurationSeconds(100, 'USD')).toBe(30 * 60);
+      expect(getPinDurationSeconds(100, 'USD')).toBeGreaterThan(getPinDurationSeconds(100, 'INR'));
+    });
+
+    it('should give small tips and unknown currencies the lowest tier', () => {
+      expect(getPinDurationSeconds(1, 'USD')).toBe(60);
+      expect(getPinDurationSeconds(1000, 'XYZ')).toBe(60);
+    });
+  });
+});
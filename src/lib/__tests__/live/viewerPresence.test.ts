@@ -0,0 +1,70 @@
+/**
+ * Viewer Presence Tests
+ * Counts kept in memory (no Redis); the stream table and socket room are
+ * mocked.
+ */
+
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+
+const executeRaw = mock(async (..._args: unknown[]) => 1);
+const emitted: Array<{ room: string; viewerCount: number }> = [];
+
+mock.module('../../prisma', () => ({ prisma: { $executeRaw: executeRaw } }));
+mock.module('../../redis', () => ({ redis: null, isRedisAvailable: () => false }));
+mock.module('../../socket/emitDownloadEvents', () => ({
+  getSocketInstance: () => ({
+    to: (room: string) => ({
+      emit: (_event: string, payload: { viewerCount: number }) => emitted.push({ room, viewerCount: payload.viewerCount }),
+    }),
+  }),
+}));
+
+const { addViewer, clearViewers, countViewers, moveViewers, removeViewer } = await import('../../live/viewerPresence');
+
+describe('Viewer Presence', () => {
+  beforeEach(async () => {
+    await clearViewers('stream-a');
+    await clearViewers('stream-b');
+    executeRaw.mockClear();
+    emitted.length = 0;
+  });
+
+  describe('moveViewers', () => {
+    it('should move the raiding sockets and publish both counts once', async () => {
+      await addViewer('stream-a', 'socket-1');
+      await addViewer('stream-a', 'socket-2');
+      await addViewer('stream-a', 'socket-3');
+      await addViewer('stream-b', 'socket-4');
+      executeRaw.mockClear();
+      emitted.length = 0;
+
+      expect(await moveViewers('stream-a', 'stream-b', ['socket-1', 'socket-2'])).toBe(3);
+
+      expect(await countViewers('stream-a')).toBe(1);
+      expect(await countViewers('stream-b')).toBe(3);
+      expect(emitted).toEqual([
+        { room: 'stream:stream-a', viewerCount: 1 },
+        { room: 'stream:stream-b', viewerCount: 3 },
+      ]);
+      expect(executeRaw).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not count a moved socket twice when it leaves the target', async () => {
+      await addViewer('stream-a', 'socket-1');
+      await moveViewers('stream-a', 'stream-b', ['socket-1']);
+
+      expect(await removeViewer('stream-b', 'socket-1')).toBe(0);
+      expect(await countViewers('stream-a')).toBe(0);
+    });
+
+    it('should only read the target count when no sockets move', async () => {
+      await addViewer('stream-b', 'socket-1');
+      executeRaw.mockClear();
+      emitted.length = 0;
+
+      expect(await moveViewers('stream-a', 'stream-b', [])).toBe(1);
+      expect(executeRaw).not.toHaveBeenCalled();
+      expect(emitted).toEqual([]);
+    });
+  });
+});
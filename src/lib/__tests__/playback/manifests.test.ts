@@ -0,0 +1,81 @@
+/**
+ * Manifest Rewriting Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  filterMasterPlaylist,
+  rewriteMediaPlaylist,
+  filterDashManifest,
+  getRepresentationIndex,
+} from '../../playback/manifests';
+
+const MASTER = [
+  '#EXTM3U',
+  '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="group_A1",NAME="audio_0",DEFAULT=YES,URI="media_2.m3u8"',
+  '#EXT-X-STREAM-INF:BANDWIDTH=5128000,RESOLUTION=1920x1080,CODECS="avc1.640028",AUDIO="group_A1"',
+  'media_0.m3u8',
+  '#EXT-X-STREAM-INF:BANDWIDTH=2928000,RESOLUTION=1280x720,CODECS="avc1.64001f",AUDIO="group_A1"',
+  'media_1.m3u8',
+].join('\n');
+
+describe('Manifest Rewriting', () => {
+  describe('filterMasterPlaylist', () => {
+    it('should drop variants above the allowed height', () => {
+      const filtered = filterMasterPlaylist(MASTER, 720);
+      expect(filtered).not.toContain('media_0.m3u8');
+      expect(filtered).toContain('media_1.m3u8');
+      expect(filtered).toContain('URI="media_2.m3u8"');
+    });
+
+    it('should keep everything without a cap', () => {
+      expect(filterMasterPlaylist(MASTER, null)).toBe(MASTER);
+    });
+
+    it('should compare portrait video by its short side', () => {
+      const portrait = '#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=1,RESOLUTION=720x1280\nmedia_0.m3u8';
+      expect(filterMasterPlaylist(portrait, 720)).toContain('media_0.m3u8');
+    });
+  });
+
+  describe('rewriteMediaPlaylist', () => {
+    it('should rewrite segment and init URIs', async () => {
+      const playlist = '#EXTM3U\n#EXT-X-MAP:URI="init-0.m4s"\n#EXTINF:6.0,\nchunk-0-00001.m4s\n#EXT-X-ENDLIST';
+      const rewritten = await rewriteMediaPlaylist(playlist, async (uri) => `https://cdn/${uri}?sig=x`);
+
+      expect(rewritten).toContain('#EXT-X-MAP:URI="https://cdn/init-0.m4s?sig=x"');
+      expect(rewritten).toContain('https://cdn/chunk-0-00001.m4s?sig=x');
+      expect(rewritten).toContain('#EXT-X-ENDLIST');
+    });
+  });
+
+  describe('filterDashManifest', () => {
+    it('should drop representations above the allowed height', () => {
+      const mpd = [
+        '<AdaptationSet id="0">',
+        '<Representation id="0" width="1920" height="1080" bandwidth="5000000"></Representation>',
+        '<Representation id="1" width="1280" height="720" bandwidth="2800000"></Representation>',
+        '</AdaptationSet>',
+      ].join('\n');
+
+      const filtered = filterDashManifest(mpd, 720);
+      expect(filtered).not.toContain('<Representation id="0"');
+      expect(filtered).not.toContain('height="1080"');
+      expect(filtered).toContain('<Representation id="1"');
+    });
+  });
+
+  describe('getRepresentationIndex', () => {
+    it('should read the index from playlists, init and media segments', () => {
+      expect(getRepresentationIndex('media_2.m3u8')).toBe(2);
+      expect(getRepresentationIndex('init-0.m4s')).toBe(0);
+      expect(getRepresentationIndex('chunk-1-00042.m4s')).toBe(1);
+    });
+
+    it('should return null for other files', () => {
+      expect(getRepresentationIndex('master.m3u8')).toBeNull();
+      expect(getRepresentationIndex('media_x.m3u8')).toBeNull();
+      expect(getRepresentationIndex('chunk-1.m4s')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Watch Progress Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  creditWatchTime,
+  getResumePosition,
+  isCompleted,
+  newMilestones,
+  MAX_HEARTBEAT_GAP_SECONDS,
+} from '../../playback/watchProgress';
+
+describe('Watch Progress', () => {
+  describe('creditWatchTime', () => {
+    it('should credit the distance played between heartbeats', () => {
+      expect(creditWatchTime(30, 45, 15)).toBe(15);
+    });
+
+    it('should allow faster playback rates', () => {
+      expect(creditWatchTime(0, 30, 15)).toBe(30);
+    });
+
+    it('should only credit elapsed time for unreported seeks', () => {
+      expect(creditWatchTime(10, 600, 15)).toBe(15);
+    });
+
+    it('should cap long gaps between heartbeats', () => {
+      expect(creditWatchTime(0, 2000, 3600)).toBe(MAX_HEARTBEAT_GAP_SECONDS);
+    });
+
+    it('should not credit backwards or stalled playback', () => {
+      expect(creditWatchTime(60, 20, 15)).toBe(0);
+      expect(creditWatchTime(60, 60, 15)).toBe(0);
+      expect(creditWatchTime(60, 70, 0)).toBe(0);
+    });
+  });
+
+  describe('newMilestones', () => {
+    it('should report every milestone passed', () => {
+      expect(newMilestones(55, 100, [])).toEqual(['watch_25%', 'watch_50%']);
+    });
+
+    it('should skip milestones already reached', () => {
+      expect(newMilestones(95, 100, ['watch_25%', 'watch_50%'])).toEqual(['watch_75%', 'watch_complete']);
+    });
+
+    it('should report nothing without a duration', () => {
+      expect(newMilestones(500, null, [])).toEqual([]);
+    });
+  });
+
+  describe('isCompleted', () => {
+    it('should mark videos watched at 90%', () => {
+      expect(isCompleted(89, 100)).toBe(false);
+      expect(isCompleted(90, 100)).toBe(true);
+      expect(isCompleted(90, null)).toBe(false);
+    });
+  });
+
+  describe('getResumePosition', () => {
+    it('should resume from the saved position', () => {
+      expect(getResumePosition(42.5, 300)).toBe(42.5);
+    });
+
+    it('should restart videos that were left at the end', () => {
+      expect(getResumePosition(295, 300)).toBe(0);
+    });
+
+    it('should handle unknown durations', () => {
+      expect(getResumePosition(42, null)).toBe(42);
+      expect(getResumePosition(-1, null)).toBe(0);
+    });
+  });
+});
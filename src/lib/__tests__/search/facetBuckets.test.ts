@@ -0,0 +1,57 @@
+/**
+ * Search Facet Bucket Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { bucketCountColumns, DURATION_BUCKETS, toBucketFacets, UPLOAD_DATE_BUCKETS } from '../../search/facetBuckets';
+
+describe('Search Facet Buckets', () => {
+  describe('DURATION_BUCKETS', () => {
+    it('should cover every duration once, from zero up', () => {
+      expect(DURATION_BUCKETS[0].min).toBe(0);
+      for (let i = 1; i < DURATION_BUCKETS.length; i++) {
+        const previous = DURATION_BUCKETS[i - 1];
+        expect('max' in previous && previous.max + 1).toBe(DURATION_BUCKETS[i].min);
+      }
+      expect('max' in DURATION_BUCKETS[DURATION_BUCKETS.length - 1]).toBe(false);
+    });
+  });
+
+  describe('bucketCountColumns', () => {
+    it('should count duration buckets by their inclusive bounds, then upload dates by days', () => {
+      const columns = bucketCountColumns();
+      expect(columns).toHaveLength(DURATION_BUCKETS.length + UPLOAD_DATE_BUCKETS.length);
+
+      expect(columns[0].sql).toContain('duration BETWEEN ? AND ?');
+      expect(columns[0].values).toEqual([0, 239]);
+      expect(columns[3].sql).toContain('duration >= ?');
+      expect(columns[3].values).toEqual([3600]);
+      expect(columns.slice(4).map((column) => column.values)).toEqual([[1], [7], [30], [365]]);
+    });
+  });
+
+  describe('toBucketFacets', () => {
+    it('should split the counts into duration and upload date buckets', () => {
+      const facets = toBucketFacets([5, 4, 3, 2, 1, 10, 20, 30]);
+
+      expect(facets.duration.map((bucket) => [bucket.id, bucket.count])).toEqual([
+        ['under-4', 5],
+        ['4-20', 4],
+        ['20-60', 3],
+        ['over-60', 2],
+      ]);
+      expect(facets.uploadDate.map((bucket) => [bucket.id, bucket.count])).toEqual([
+        ['today', 1],
+        ['week', 10],
+        ['month', 20],
+        ['year', 30],
+      ]);
+      expect(facets.duration[1]).toMatchObject({ min: 240, max: 1199 });
+      expect(facets.uploadDate[2]).toMatchObject({ days: 30 });
+    });
+
+    it('should count missing columns as zero', () => {
+      expect(toBucketFacets([]).uploadDate.every((bucket) => bucket.count === 0)).toBe(true);
+    });
+  });
+});
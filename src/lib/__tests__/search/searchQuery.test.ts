@@ -0,0 +1,80 @@
+/**
+ * Search Query Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  applyCorrections,
+  correctableWords,
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP,
+  MAX_QUERY_TERMS,
+  toHighlightHtml,
+  toTsQuery,
+} from '../../search/searchQuery';
+
+describe('Search Query', () => {
+  describe('toTsQuery', () => {
+    it('should match every word as a prefix', () => {
+      expect(toTsQuery('Sunset Beach')).toBe('sunset:* & beach:*');
+    });
+
+    it('should match quoted text as a phrase', () => {
+      expect(toTsQuery('"golden hour" beach')).toBe('(golden <-> hour) & beach:*');
+      expect(toTsQuery('"beach"')).toBe('beach');
+    });
+
+    it('should treat an unclosed quote as a phrase to the end', () => {
+      expect(toTsQuery('yoga "morning flow')).toBe('(morning <-> flow) & yoga:*');
+    });
+
+    it('should drop tsquery syntax and punctuation', () => {
+      expect(toTsQuery("rock & roll | !jazz:* (live)")).toBe('rock:* & roll:* & jazz:* & live:*');
+      expect(toTsQuery("o'brien")).toBe('o:* & brien:*');
+    });
+
+    it('should keep letters beyond ASCII', () => {
+      expect(toTsQuery('café Ünïcode 東京')).toBe('café:* & ünïcode:* & 東京:*');
+    });
+
+    it('should return null without searchable words', () => {
+      expect(toTsQuery('')).toBeNull();
+      expect(toTsQuery('  "" !?  ')).toBeNull();
+    });
+
+    it('should drop repeated words and cap the number of terms', () => {
+      expect(toTsQuery('live Live LIVE')).toBe('live:*');
+
+      const many = Array.from({ length: 30 }, (_, i) => `word${i}`).join(' ');
+      expect(toTsQuery(many)!.split(' & ')).toHaveLength(MAX_QUERY_TERMS);
+    });
+  });
+
+  describe('correctableWords', () => {
+    it('should skip short words, numbers and repeats', () => {
+      expect(correctableWords('Sunest at the beach BEACH 2024 4k')).toEqual(['sunest', 'the', 'beach']);
+    });
+  });
+
+  describe('applyCorrections', () => {
+    it('should swap words in place, whatever their case', () => {
+      const corrections = new Map([
+        ['sunest', 'sunset'],
+        ['bech', 'beach'],
+      ]);
+      expect(applyCorrections('"Sunest walk" on the bech!', corrections)).toBe('"sunset walk" on the beach!');
+    });
+  });
+
+  describe('toHighlightHtml', () => {
+    it('should wrap matches in mark tags', () => {
+      expect(toHighlightHtml(`A ${HIGHLIGHT_START}sunset${HIGHLIGHT_STOP} walk`)).toBe('A <mark>sunset</mark> walk');
+    });
+
+    it('should escape the text around them', () => {
+      expect(toHighlightHtml(`<b>${HIGHLIGHT_START}Tom${HIGHLIGHT_STOP} & "Jerry"</b>`)).toBe(
+        '&lt;b&gt;<mark>Tom</mark> &amp; &quot;Jerry&quot;&lt;/b&gt;'
+      );
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Byte Range Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { parseRangeHeader } from '../../storage/byteRange';
+
+describe('Byte Range', () => {
+  describe('parseRangeHeader', () => {
+    it('should serve the whole file without a header', () => {
+      expect(parseRangeHeader(undefined, 1000)).toBeNull();
+    });
+
+    it('should parse a closed range', () => {
+      expect(parseRangeHeader('bytes=0-499', 1000)).toEqual({ start: 0, end: 499 });
+    });
+
+    it('should parse an open-ended range', () => {
+      expect(parseRangeHeader('bytes=500-', 1000)).toEqual({ start: 500, end: 999 });
+    });
+
+    it('should parse a suffix range', () => {
+      expect(parseRangeHeader('bytes=-200', 1000)).toEqual({ start: 800, end: 999 });
+      expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+    });
+
+    it('should clamp ranges past the end of the file', () => {
+      expect(parseRangeHeader('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+    });
+
+    it('should reject ranges outside the file', () => {
+      expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+      expect(parseRangeHeader('bytes=500-100', 1000)).toBe('unsatisfiable');
+      expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+    });
+
+    it('should ignore multiple ranges and other units', () => {
+      expect(parseRangeHeader('bytes=0-10,20-30', 1000)).toBeNull();
+      expect(parseRangeHeader('items=0-10', 1000)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Media References Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { ReferenceSet, collectJsonStrings, getKeyFolder } from '../../storage/mediaReferences';
+
+describe('Media References', () => {
+  describe('ReferenceSet', () => {
+    it('should match referenced keys exactly', () => {
+      const references = new ReferenceSet();
+      references.add('thumbnails/a.jpg');
+
+      expect(references.has('thumbnails/a.jpg')).toBe(true);
+      expect(references.has('thumbnails/b.jpg')).toBe(false);
+    });
+
+    it('should keep a whole package alive through its manifest', () => {
+      const references = new ReferenceSet();
+      references.add('streams/content-1/pkg-1/master.m3u8');
+
+      expect(references.has('streams/content-1/pkg-1/720p_003.m4s')).toBe(true);
+      expect(references.has('streams/content-1/pkg-2/master.m3u8')).toBe(false);
+    });
+
+    it('should not treat other folders as packages', () => {
+      const references = new ReferenceSet();
+      references.add('captions/content-1/a/b.vtt');
+
+      expect(references.has('captions/content-1/a/c.vtt')).toBe(false);
+    });
+  });
+
+  describe('collectJsonStrings', () => {
+    it('should find strings at any depth', () => {
+      const sprites = { interval: 5, sheets: ['https://cdn/a.jpg', 'https://cdn/b.jpg'] };
+      const variants = [{ url: 'https://cdn/c.jpg', impressions: 3 }];
+
+      expect(collectJsonStrings(sprites)).toEqual(['https://cdn/a.jpg', 'https://cdn/b.jpg']);
+      expect(collectJsonStrings(variants)).toEqual(['https://cdn/c.jpg']);
+      expect(collectJsonStrings(null)).toEqual([]);
+    });
+  });
+
+  describe('getKeyFolder', () => {
+    it('should return the top-level folder', () => {
+      expect(getKeyFolder('streams/a/b.m3u8')).toBe('streams');
+      expect(getKeyFolder('loose.jpg')).toBe('');
+    });
+  });
+});
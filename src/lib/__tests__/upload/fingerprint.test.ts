@@ -0,0 +1,116 @@
+/**
+ * Upload Fingerprint Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import {
+  differenceHash,
+  frameSimilarity,
+  hammingDistance,
+  hashBands,
+  isInformativeHash,
+  withContentHash,
+} from '../../upload/fingerprint';
+
+/**
+ * A 9x8 frame whose brightness follows `pattern(x, y)`
+ */
+function frame(pattern: (x: number, y: number) => number): Uint8Array {
+  const pixels = new Uint8Array(72);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 9; x++) {
+      pixels[y * 9 + x] = pattern(x, y);
+    }
+  }
+  return pixels;
+}
+
+const gradient = frame((x, y) => (x * 25 + y * 7) % 256);
+const checker = frame((x, y) => ((x + y) % 2 === 0 ? 200 : 40));
+
+describe('Upload Fingerprints', () => {
+  describe('withContentHash', () => {
+    it('should hash buffers directly', () => {
+      const body = Buffer.from('hello world');
+      const hashed = withContentHash(body);
+      expect(hashed.body).toBe(body);
+      expect(hashed.digest()).toBe(createHash('sha256').update(body).digest('hex'));
+    });
+
+    it('should hash streams as they are read', async () => {
+      const hashed = withContentHash(Readable.from([Buffer.from('hello '), Buffer.from('world')]));
+      const chunks: Buffer[] = [];
+      for await (const chunk of hashed.body as Readable) {
+        chunks.push(chunk);
+      }
+      expect(Buffer.concat(chunks).toString()).toBe('hello world');
+      expect(hashed.digest()).toBe(createHash('sha256').update('hello world').digest('hex'));
+    });
+  });
+
+  describe('differenceHash', () => {
+    it('should produce 16 hex characters', () => {
+      expect(differenceHash(checker)).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('should be stable under small brightness changes', () => {
+      const brighter = frame((x, y) => Math.min(255, ((x * 25 + y * 7) % 256) + 3));
+      expect(hammingDistance(differenceHash(gradient), differenceHash(brighter))).toBeLessThanOrEqual(2);
+    });
+
+    it('should reject frames that are too small', () => {
+      expect(() => differenceHash(new Uint8Array(10))).toThrow('Expected 72 pixels');
+    });
+  });
+
+  describe('hammingDistance', () => {
+    it('should count differing bits', () => {
+      expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+      expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+      expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    });
+  });
+
+  describe('isInformativeHash', () => {
+    it('should ignore flat frames', () => {
+      expect(isInformativeHash(differenceHash(frame(() => 128)))).toBe(false);
+      expect(isInformativeHash('ffffffffffffffff')).toBe(false);
+      expect(isInformativeHash(differenceHash(checker))).toBe(true);
+    });
+  });
+
+  describe('hashBands', () => {
+    it('should split hashes into four tagged bands', () => {
+      expect(hashBands(['0123456789abcdef'])).toEqual(['0:0123', '1:4567', '2:89ab', '3:cdef']);
+    });
+
+    it('should skip flat frames and repeated bands', () => {
+      expect(hashBands(['0000000000000000', '0123456789abcdef', '0123456789abcdef'])).toHaveLength(4);
+    });
+  });
+
+  describe('frameSimilarity', () => {
+    const a = '0123456789abcdef';
+    const b = 'fedcba9876543210';
+    const c = '5a5a5a5a5a5a5a5a';
+
+    it('should score identical frame sets as 1', () => {
+      expect(frameSimilarity([a, b], [a, b])).toBe(1);
+    });
+
+    it('should tolerate a few differing bits per frame', () => {
+      expect(frameSimilarity([a], ['0123456789abcd00'])).toBe(1);
+    });
+
+    it('should match a clip against the longer video it was cut from', () => {
+      expect(frameSimilarity([a], [a, b, c])).toBe(1);
+    });
+
+    it('should score unrelated frames as 0', () => {
+      expect(frameSimilarity([a], [c])).toBe(0);
+      expect(frameSimilarity([], [a])).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Scrubbing Preview Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { buildThumbnailTrack, getSpriteInterval, PreviewSprites } from '../../video/sprites';
+
+const sprites: PreviewSprites = {
+  interval: 5,
+  width: 160,
+  height: 90,
+  columns: 10,
+  rows: 10,
+  count: 102,
+  sheets: ['https://cdn/sprite-001.jpg', 'https://cdn/sprite-002.jpg'],
+};
+
+describe('Scrubbing Previews', () => {
+  describe('getSpriteInterval', () => {
+    it('should use a 5 second interval for normal videos', () => {
+      expect(getSpriteInterval(600)).toBe(5);
+    });
+
+    it('should widen the interval for very long videos', () => {
+      expect(getSpriteInterval(4 * 3600)).toBe(15);
+    });
+  });
+
+  describe('buildThumbnailTrack', () => {
+    const track = buildThumbnailTrack(sprites, 508);
+
+    it('should start with a WEBVTT header', () => {
+      expect(track.startsWith('WEBVTT\n')).toBe(true);
+    });
+
+    it('should map frames to sprite coordinates', () => {
+      expect(track).toContain('00:00:00.000 --> 00:00:05.000\nhttps://cdn/sprite-001.jpg#xywh=0,0,160,90');
+      expect(track).toContain('00:00:55.000 --> 00:01:00.000\nhttps://cdn/sprite-001.jpg#xywh=160,90,160,90');
+    });
+
+    it('should continue on the next sheet', () => {
+      expect(track).toContain('00:08:20.000 --> 00:08:25.000\nhttps://cdn/sprite-002.jpg#xywh=0,0,160,90');
+    });
+
+    it('should end the last cue at the video duration', () => {
+      expect(track).toContain('00:08:25.000 --> 00:08:28.000');
+    });
+
+    it('should use the provided sheet URLs', () => {
+      const signed = buildThumbnailTrack(sprites, 508, (i) => `signed-${i}.jpg`);
+      expect(signed).toContain('signed-1.jpg#xywh=');
+    });
+  });
+});
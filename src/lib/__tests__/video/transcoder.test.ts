@@ -0,0 +1,32 @@
+/**
+ * Transcoding Ladder Tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { selectLadder } from '../../video/transcoder';
+
+describe('Transcoding Ladder', () => {
+  describe('selectLadder', () => {
+    it('should include requested qualities and the baseline', () => {
+      const ladder = selectLadder(1080, ['720p', '1080p']);
+      expect(ladder.map((r) => r.quality)).toEqual(['1080p', '720p', '480p', '360p']);
+    });
+
+    it('should never upscale beyond the source', () => {
+      const ladder = selectLadder(720, ['720p', '1080p', '4K']);
+      expect(ladder.map((r) => r.quality)).toEqual(['720p', '480p', '360p']);
+    });
+
+    it('should map quality aliases', () => {
+      const ladder = selectLadder(2160, ['4K']);
+      expect(ladder[0].quality).toBe('2160p');
+    });
+
+    it('should encode tiny sources at their native height', () => {
+      const ladder = selectLadder(241);
+      expect(ladder).toHaveLength(1);
+      expect(ladder[0].height).toBe(240);
+      expect(ladder[0].quality).toBe('240p');
+    });
+  });
+});
@@ -5,6 +5,10 @@
 
 import { CacheService, CacheKeys, CacheTTL } from '../redis';
 import { prisma } from '../prisma';
+import { ContentSearchSort } from '../search/contentSearch';
+import { searchWithSuggestion } from '../search/querySuggestions';
+import { computeSearchFacets, SearchFacets } from '../search/searchFacets';
+import { toTsQuery } from '../search/searchQuery';
 
 interface SearchFilters {
   category?: string;
@@ -14,6 +18,14 @@ interface SearchFilters {
   sortBy?: 'relevance' | 'views' | 'likes' | 'newest';
 }
 
+// Relevance falls back to views when there's no query
+const SORTS: Record<NonNullable<SearchFilters['sortBy']>, ContentSearchSort> = {
+  relevance: 'relevance',
+  views: 'views',
+  likes: 'rating',
+  newest: 'recent',
+};
+
 /**
  * Get cached search results or perform search
  */
@@ -33,102 +45,59 @@ export async function getCachedSearch(
     return cached;
   }
   
-  // Build search query
-  const where: any = {
-    status: 'PUBLISHED',
-    deletedAt: null,
-  };
-  
-  // Text search
-  if (query) {
-    where.OR = [
-      { title: { contains: query, mode: 'insensitive' } },
-      { description: { contains: query, mode: 'insensitive' } },
-    ];
-  }
-  
-  // Filters
-  if (filters.category) {
-    where.categories = {
-      some: {
-        category: {
-          slug: filters.category,
-        },
-      },
-    };
-  }
-  
-  if (filters.tags && filters.tags.length > 0) {
-    where.tags = {
-      some: {
-        tag: {
-          slug: { in: filters.tags },
-        },
-      },
-    };
-  }
-  
-  if (filters.type) {
-    where.type = filters.type;
-  }
-  
-  if (filters.minViews) {
-    where.viewCount = { gte: filters.minViews };
-  }
-  
-  // Sort order
-  const orderBy: any = {};
-  if (filters.sortBy === 'views') {
-    orderBy.viewCount = 'desc';
-  } else if (filters.sortBy === 'likes') {
-    orderBy.likeCount = 'desc';
-  } else if (filters.sortBy === 'newest') {
-    orderBy.publishedAt = 'desc';
-  } else {
-    // Default: relevance (by view count)
-    orderBy.viewCount = 'desc';
-  }
-  
-  // Perform search
-  const [results, total] = await Promise.all([
-    prisma.content.findMany({
-      where,
-      orderBy,
-      take: limit,
-      skip: offset,
-      include: {
-        creator: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                username: true,
-                displayName: true,
-                avatar: true,
-              },
+  const { hits, total, suggestion } = await searchWithSuggestion({
+    query,
+    filters: {
+      categorySlugs: filters.category ? [filters.category] : undefined,
+      tagSlugs: filters.tags,
+      contentTypes: filters.type ? [filters.type] : undefined,
+      minViews: filters.minViews,
+    },
+    sort: SORTS[filters.sortBy ?? 'relevance'],
+    limit,
+    offset,
+  });
+
+  const contents = await prisma.content.findMany({
+    where: { id: { in: hits.map((hit) => hit.id) } },
+    include: {
+      creator: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              displayName: true,
+              avatar: true,
             },
           },
         },
-        categories: {
-          include: {
-            category: true,
-          },
+      },
+      categories: {
+        include: {
+          category: true,
         },
-        tags: {
-          include: {
-            tag: true,
-          },
+      },
+      tags: {
+        include: {
+          tag: true,
         },
       },
-    }),
-    prisma.content.count({ where }),
-  ]);
+    },
+  });
+
+  // Back in ranked order, with highlighted snippets
+  const contentById = new Map(contents.map((content) => [content.id, content]));
+  const results = hits
+    .filter((hit) => contentById.has(hit.id))
+    .map((hit) => ({ ...contentById.get(hit.id)!, highlight: hit.highlight }));
   
   const searchResults = {
     results,
     total,
     limit,
     offset,
+    suggestion, // Corrected query the results are for, when the original found nothing
   };
   
   // Cache for 5 minutes
@@ -137,6 +106,25 @@ export async function getCachedSearch(
   return searchResults;
 }
 
+/**
+ * Get cached facet counts for a query. Keyed by the parsed query, so
+ * queries that differ only in case, spacing or punctuation share an entry.
+ */
+export async function getCachedSearchFacets(query: string): Promise<SearchFacets> {
+  const tsQuery = toTsQuery(query);
+  const cacheKey = CacheKeys.searchFacets(tsQuery ?? '');
+
+  const cached = await CacheService.get<SearchFacets>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const facets = await computeSearchFacets(tsQuery);
+  await CacheService.set(cacheKey, facets, CacheTTL.SEARCH);
+
+  return facets;
+}
+
 /**
  * Invalidate search cache
  */
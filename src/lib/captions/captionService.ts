@@ -0,0 +1,321 @@
+/**
+ * Caption Tracks
+ * Per-language subtitle/caption tracks for a content item. Uploads in SRT,
+ * WebVTT or ASS are validated and converted to WebVTT before storage; the
+ * plain transcript is kept alongside so search can match spoken words.
+ *
+ * At most one track per content item is the default. The first track
+ * uploaded becomes the default, and deleting the default promotes the
+ * oldest remaining track.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../prisma';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../errors';
+import { canUserEditContent, canUserViewContent } from '../creator/collaborationService';
+import { invalidateContentCache, invalidateSearchCache } from '../cache/contentCache';
+import { storage } from '../storage/storageService';
+import { isProtectedContent, signMediaUrl } from '../playback/playbackService';
+import { getPlaybackTokenTtl } from '../playback/signing';
+import logger from '../logger';
+import { captionSearchText, detectCaptionFormat, parseCaptions, toWebVTT } from './convert';
+
+export type CaptionKind = 'subtitles' | 'captions';
+
+export const MAX_CAPTION_FILE_SIZE = 2 * 1024 * 1024; // 2MB
+
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+export interface CaptionFile {
+  buffer: Buffer;
+  originalname: string;
+}
+
+export interface CreateCaptionInput {
+  language: string;
+  label?: string;
+  kind?: CaptionKind;
+  isDefault?: boolean;
+}
+
+export interface UpdateCaptionInput {
+  label?: string;
+  isDefault?: boolean;
+}
+
+const captionSelect = {
+  id: true,
+  contentId: true,
+  language: true,
+  label: true,
+  kind: true,
+  format: true,
+  url: true,
+  cueCount: true,
+  isDefault: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * Human-readable name for a language tag (e.g. pt-BR -> Brazilian Portuguese)
+ */
+function getLanguageLabel(language: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) || language;
+  } catch {
+    return language;
+  }
+}
+
+function normalizeLanguage(language: string): string {
+  const value = language.trim();
+  if (!LANGUAGE_PATTERN.test(value)) {
+    throw new ValidationError('Language must be a language tag such as "en" or "pt-BR"');
+  }
+  return value;
+}
+
+async function assertCanEdit(contentId: string, userId: string): Promise<void> {
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: { id: true, deletedAt: true },
+  });
+
+  if (!content || content.deletedAt) {
+    throw new NotFoundError('Content');
+  }
+
+  if (!(await canUserEditContent(contentId, userId))) {
+    throw new ForbiddenError('You do not have permission to edit captions for this content');
+  }
+}
+
+/**
+ * Caption text is searchable, so search results go stale along with the content
+ */
+async function invalidateCaches(contentId: string): Promise<void> {
+  await invalidateContentCache(contentId);
+  await invalidateSearchCache();
+}
+
+/**
+ * Validate a caption file, convert it to WebVTT and upload it
+ */
+async function storeCaptionFile(contentId: string, file: CaptionFile) {
+  if (file.buffer.length === 0) {
+    throw new ValidationError('Caption file is empty');
+  }
+  if (file.buffer.length > MAX_CAPTION_FILE_SIZE) {
+    throw new ValidationError('Caption files may be at most 2MB');
+  }
+
+  const contents = file.buffer.toString('utf8');
+  if (contents.includes('\uFFFD')) {
+    throw new ValidationError('Caption files must be UTF-8 encoded');
+  }
+
+  const format = detectCaptionFormat(file.originalname, contents);
+  const cues = parseCaptions(contents, format);
+
+  const result = await storage.uploadToKey(
+    `captions/${contentId}/${uuidv4()}.vtt`,
+    Buffer.from(toWebVTT(cues)),
+    { contentType: 'text/vtt', acl: 'private' }
+  );
+
+  return {
+    format,
+    url: result.cdnUrl || result.url,
+    text: captionSearchText(cues),
+    cueCount: cues.length,
+  };
+}
+
+/**
+ * A track with its (private) file URL signed for the playback token TTL
+ */
+async function withSignedUrl<T extends { url: string }>(caption: T): Promise<T> {
+  const expiresAt = Math.floor(Date.now() / 1000) + getPlaybackTokenTtl();
+  return { ...caption, url: await signMediaUrl(caption.url, expiresAt) };
+}
+
+/**
+ * Remove a replaced or deleted caption file from storage
+ */
+async function deleteCaptionFile(url: string): Promise<void> {
+  const key = storage.getKeyFromUrl(url);
+  if (!key) {
+    return;
+  }
+
+  try {
+    await storage.deleteFile(key);
+  } catch (error) {
+    logger.warn('Failed to delete caption file', { key, error });
+  }
+}
+
+/**
+ * List a content item's caption tracks with signed URLs. Track URLs are
+ * withheld for protected content; viewers get them from the playback session.
+ */
+export async function listCaptions(contentId: string, userId?: string) {
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: { id: true, status: true, isPublic: true, isPremium: true, deletedAt: true },
+  });
+
+  if (!content || content.deletedAt) {
+    throw new NotFoundError('Content');
+  }
+
+  if (!content.isPublic || content.status !== 'PUBLISHED') {
+    if (!userId || !(await canUserViewContent(contentId, userId))) {
+      throw new ForbiddenError('You do not have access to this content');
+    }
+  }
+
+  const captions = await prisma.contentCaption.findMany({
+    where: { contentId },
+    select: captionSelect,
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+  });
+
+  if (isProtectedContent(content) && !(userId && (await canUserEditContent(contentId, userId)))) {
+    return captions.map((caption) => ({ ...caption, url: null }));
+  }
+
+  return Promise.all(captions.map(withSignedUrl));
+}
+
+/**
+ * Add a caption track
+ */
+export async function createCaption(
+  contentId: string,
+  userId: string,
+  file: CaptionFile,
+  input: CreateCaptionInput
+) {
+  await assertCanEdit(contentId, userId);
+
+  const language = normalizeLanguage(input.language);
+  const kind = input.kind || 'subtitles';
+
+  const existing = await prisma.contentCaption.findUnique({
+    where: { contentId_language_kind: { contentId, language, kind } },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ConflictError(`A ${kind} track for "${language}" already exists. Replace its file instead.`);
+  }
+
+  const stored = await storeCaptionFile(contentId, file);
+
+  const caption = await prisma.$transaction(async (tx) => {
+    const count = await tx.contentCaption.count({ where: { contentId } });
+    const isDefault = input.isDefault || count === 0;
+
+    if (isDefault) {
+      await tx.contentCaption.updateMany({ where: { contentId }, data: { isDefault: false } });
+    }
+
+    return tx.contentCaption.create({
+      data: {
+        contentId,
+        language,
+        kind,
+        label: input.label?.trim() || getLanguageLabel(language),
+        ...stored,
+        isDefault,
+        createdBy: userId,
+      },
+      select: captionSelect,
+    });
+  });
+
+  await invalidateCaches(contentId);
+
+  return withSignedUrl(caption);
+}
+
+/**
+ * Update a track's label or default flag, optionally replacing its file
+ */
+export async function updateCaption(
+  captionId: string,
+  userId: string,
+  input: UpdateCaptionInput,
+  file?: CaptionFile
+) {
+  const existing = await prisma.contentCaption.findUnique({ where: { id: captionId } });
+  if (!existing) {
+    throw new NotFoundError('Caption');
+  }
+
+  await assertCanEdit(existing.contentId, userId);
+
+  if (input.isDefault === false && existing.isDefault) {
+    throw new ValidationError('Choose another track as the default instead');
+  }
+
+  const stored = file ? await storeCaptionFile(existing.contentId, file) : undefined;
+
+  const caption = await prisma.$transaction(async (tx) => {
+    if (input.isDefault) {
+      await tx.contentCaption.updateMany({
+        where: { contentId: existing.contentId, id: { not: captionId } },
+        data: { isDefault: false },
+      });
+    }
+
+    return tx.contentCaption.update({
+      where: { id: captionId },
+      data: {
+        ...(input.label !== undefined && { label: input.label.trim() || getLanguageLabel(existing.language) }),
+        ...(input.isDefault && { isDefault: true }),
+        ...stored,
+      },
+      select: captionSelect,
+    });
+  });
+
+  if (stored) {
+    await deleteCaptionFile(existing.url);
+  }
+
+  await invalidateCaches(existing.contentId);
+
+  return withSignedUrl(caption);
+}
+
+/**
+ * Delete a caption track
+ */
+export async function deleteCaption(captionId: string, userId: string): Promise<void> {
+  const existing = await prisma.contentCaption.findUnique({ where: { id: captionId } });
+  if (!existing) {
+    throw new NotFoundError('Caption');
+  }
+
+  await assertCanEdit(existing.contentId, userId);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.contentCaption.delete({ where: { id: captionId } });
+
+    if (existing.isDefault) {
+      const next = await tx.contentCaption.findFirst({
+        where: { contentId: existing.contentId },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      });
+      if (next) {
+        await tx.contentCaption.update({ where: { id: next.id }, data: { isDefault: true } });
+      }
+    }
+  });
+
+  await deleteCaptionFile(existing.url);
+  await invalidateCaches(existing.contentId);
+}
@@ -0,0 +1,232 @@
+/**
+ * Caption Conversion
+ * Parses SRT, WebVTT and ASS/SSA subtitle files into cues, validates them and
+ * writes normalized WebVTT (the only format browsers and HLS players accept).
+ */
+
+import { ValidationError } from '../errors';
+
+export type CaptionFormat = 'srt' | 'vtt' | 'ass';
+
+export interface Cue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+}
+
+export const MAX_CUES = 20000;
+const MAX_SEARCH_TEXT_LENGTH = 100_000;
+
+/**
+ * Work out the subtitle format from the file name, falling back to the contents
+ */
+export function detectCaptionFormat(filename: string, contents: string): CaptionFormat {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'srt' || extension === 'vtt') {
+    return extension;
+  }
+  if (extension === 'ass' || extension === 'ssa') {
+    return 'ass';
+  }
+
+  const head = contents.trimStart().slice(0, 200);
+  if (head.startsWith('WEBVTT')) {
+    return 'vtt';
+  }
+  if (head.startsWith('[Script Info]')) {
+    return 'ass';
+  }
+  if (/^\d+\s*\r?\n\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/.test(head)) {
+    return 'srt';
+  }
+
+  throw new ValidationError('Unsupported caption format. Upload an SRT, WebVTT or ASS file.');
+}
+
+/**
+ * Parse `HH:MM:SS,mmm`, `HH:MM:SS.mmm`, `MM:SS.mmm` or ASS `H:MM:SS.cc` into seconds
+ */
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, hours = '0', minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours, 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(fraction.padEnd(3, '0'), 10) / 1000
+  );
+}
+
+/**
+ * Keep the formatting tags WebVTT supports and drop everything else
+ */
+function cleanCueText(text: string): string {
+  return text
+    .replace(/\{[^}]*\}/g, '') // SSA-style override blocks some SRT files carry
+    .replace(/<(?!\/?[biu]>)[^>]*>/gi, '')
+    .replace(/&(?![a-z]+;|#\d+;)/gi, '&amp;')
+    .replace(/<(?!\/?[biu]>)/gi, '&lt;')
+    .replace(/-->/g, '->')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean) // a blank line would end the cue
+    .join('\n');
+}
+
+/**
+ * Parse SRT and WebVTT (same block structure: optional id, timing line, text)
+ */
+function parseBlocks(contents: string, format: 'srt' | 'vtt'): Cue[] {
+  const blocks = contents.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/);
+  const cues: Cue[] = [];
+
+  for (const [index, block] of blocks.entries()) {
+    const lines = block.split(/\r?\n/).filter((line) => line.trim() !== '');
+    if (lines.length === 0) {
+      continue;
+    }
+
+    if (format === 'vtt' && (index === 0 || /^(NOTE|STYLE|REGION)\b/.test(lines[0]))) {
+      if (index === 0 && !lines[0].startsWith('WEBVTT')) {
+        throw new ValidationError('WebVTT files must start with "WEBVTT"');
+      }
+      continue;
+    }
+
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1 || timingIndex > 1) {
+      throw new ValidationError(`Caption block ${index + 1} has no timing line`);
+    }
+
+    const [startText, rest] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp((rest || '').trim().split(/\s+/)[0]);
+
+    if (start === null || end === null) {
+      throw new ValidationError(`Caption block ${index + 1} has an invalid timestamp`);
+    }
+
+    cues.push({ start, end, text: lines.slice(timingIndex + 1).join('\n') });
+  }
+
+  return cues;
+}
+
+/**
+ * Parse the [Events] section of an ASS/SSA script
+ */
+function parseAss(contents: string): Cue[] {
+  const lines = contents.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const cues: Cue[] = [];
+  let inEvents = false;
+  let fields: string[] = [];
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trim();
+
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) {
+      continue;
+    }
+
+    if (line.startsWith('Format:')) {
+      fields = line.slice('Format:'.length).split(',').map((f) => f.trim().toLowerCase());
+      continue;
+    }
+
+    if (!line.startsWith('Dialogue:')) {
+      continue;
+    }
+
+    if (fields.length === 0) {
+      throw new ValidationError('ASS file is missing the [Events] Format line');
+    }
+
+    // Text is the last field and may itself contain commas
+    const values = line.slice('Dialogue:'.length).split(',');
+    const record: Record<string, string> = {};
+    fields.forEach((field, i) => {
+      record[field] = i === fields.length - 1 ? values.slice(i).join(',') : (values[i] || '').trim();
+    });
+
+    const start = parseTimestamp(record.start || '');
+    const end = parseTimestamp(record.end || '');
+    if (start === null || end === null) {
+      throw new ValidationError(`Dialogue on line ${index + 1} has an invalid timestamp`);
+    }
+
+    const text = (record.text || '')
+      .replace(/\\[Nn]/g, '\n')
+      .replace(/\\h/g, ' ');
+
+    cues.push({ start, end, text });
+  }
+
+  return cues;
+}
+
+/**
+ * Parse and validate a caption file. Cues are cleaned and sorted by start time.
+ */
+export function parseCaptions(contents: string, format: CaptionFormat): Cue[] {
+  const raw = format === 'ass' ? parseAss(contents) : parseBlocks(contents, format);
+
+  const cues = raw
+    .map((cue) => ({ ...cue, text: cleanCueText(cue.text) }))
+    .filter((cue) => cue.text !== '');
+
+  if (cues.length === 0) {
+    throw new ValidationError('Caption file contains no cues');
+  }
+  if (cues.length > MAX_CUES) {
+    throw new ValidationError(`Caption files may contain at most ${MAX_CUES} cues`);
+  }
+
+  for (const [index, cue] of cues.entries()) {
+    if (cue.end <= cue.start) {
+      throw new ValidationError(`Cue ${index + 1} ends before it starts`);
+    }
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Format seconds as a WebVTT timestamp (HH:MM:SS.mmm)
+ */
+function formatTimestamp(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor((ms % 3_600_000) / 60_000))}:${pad(
+    Math.floor((ms % 60_000) / 1000)
+  )}.${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * Write cues as a WebVTT file
+ */
+export function toWebVTT(cues: Cue[]): string {
+  const body = cues.map(
+    (cue, i) => `${i + 1}\n${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text}`
+  );
+  return ['WEBVTT', '', ...body.flatMap((block) => [block, ''])].join('\n');
+}
+
+/**
+ * Plain transcript text for search indexing
+ */
+export function captionSearchText(cues: Cue[]): string {
+  return cues
+    .map((cue) => cue.text.replace(/<[^>]*>/g, '').replace(/&amp;/g, '&').replace(/&lt;/g, '<'))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_SEARCH_TEXT_LENGTH);
+}
@@ -0,0 +1,84 @@
+/**
+ * Chat Filters
+ * Text checks for live chat: a stream's blocked terms and links. Both work on
+ * a normalized form of the message so that case, accents and full-width or
+ * other look-alike characters don't get around them.
+ */
+
+export const MAX_BLOCKED_TERMS = 200;
+export const MAX_BLOCKED_TERM_LENGTH = 100;
+
+// Common TLDs, so "see you at 8.30" or "lol.ok" aren't taken for links
+const LINK_TLDS = [
+  'com', 'net', 'org', 'io', 'co', 'gg', 'tv', 'me', 'ly', 'app', 'dev', 'xyz', 'info', 'biz',
+  'live', 'stream', 'link', 'site', 'online', 'store', 'shop', 'club', 'top', 'fun', 'vip',
+  'us', 'uk', 'de', 'fr', 'ru', 'in', 'cn', 'jp', 'br', 'au', 'ca', 'eu', 'nl', 'to', 'cc',
+];
+
+const DOT = '(?:\\.|\\s*[\\(\\[]\\s*dot\\s*[\\)\\]]\\s*)';
+const LINK_PATTERN = new RegExp(
+  [
+    '[a-z][a-z0-9+.-]*:\\/\\/\\S', // any scheme://
+    '\\bwww' + DOT + '[a-z0-9-]', // www.example
+    `\\b[a-z0-9-]+(?:${DOT}[a-z0-9-]+)*${DOT}(?:${LINK_TLDS.join('|')})\\b`, // example.com, example (dot) com
+  ].join('|'),
+  'i'
+);
+
+/**
+ * Lowercase, fold compatibility characters (full-width letters, ligatures)
+ * and strip accents
+ */
+export function normalizeChatText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Clean up a blocked-terms list: normalized, without blanks or duplicates
+ */
+export function normalizeBlockedTerms(terms: string[]): string[] {
+  const normalized = terms
+    .map((term) => normalizeChatText(term).slice(0, MAX_BLOCKED_TERM_LENGTH))
+    .filter((term) => term.length > 0);
+  return [...new Set(normalized)].slice(0, MAX_BLOCKED_TERMS);
+}
+
+/**
+ * The first blocked term the message contains, or null. Terms match whole
+ * words, so "ass" doesn't block "class"; a trailing * matches any ending
+ * ("spam*" blocks "spammer").
+ */
+export function findBlockedTerm(message: string, terms: string[]): string | null {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const text = normalizeChatText(message);
+  for (const term of terms) {
+    const prefix = term.endsWith('*');
+    const body = normalizeChatText(prefix ? term.slice(0, -1) : term);
+    if (!body) {
+      continue;
+    }
+
+    const escaped = body.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escaped}${prefix ? '' : '(?![\\p{L}\\p{N}])'}`, 'u');
+    if (pattern.test(text)) {
+      return term;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether the message contains something that looks like a link
+ */
+export function containsLink(message: string): boolean {
+  return LINK_PATTERN.test(normalizeChatText(message));
+}
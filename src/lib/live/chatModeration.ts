@@ -0,0 +1,526 @@
+/**
+ * Live Chat Moderation
+ * Sending, deleting and moderating live chat messages. Both the socket server
+ * and the REST routes go through here, so every rule applies to both.
+ *
+ * Roles per stream:
+ * - owner: the stream's creator (and platform admins). Manages moderators.
+ * - moderator: appointed per stream (and platform moderators). Deletes
+ *   messages, times out and bans viewers, changes chat settings.
+ * - viewer: everyone else. Subject to chat mode, slow mode, blocked terms and
+ *   the link filter.
+ */
+
+import { LiveChatBan, LiveStream } from '@prisma/client';
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { ForbiddenError, NotFoundError, RateLimitError, ValidationError } from '../errors';
+import { getSocketInstance } from '../socket/emitDownloadEvents';
+import { hasCreatorSubscription } from '../playback/playbackService';
+import { containsLink, findBlockedTerm, normalizeBlockedTerms } from './chatFilters';
+
+export const CHAT_MODES = ['everyone', 'followers', 'subscribers'] as const;
+export type ChatMode = (typeof CHAT_MODES)[number];
+export type ChatRole = 'owner' | 'moderator' | 'viewer';
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+export const MAX_SLOW_MODE_SECONDS = 600;
+export const MAX_TIMEOUT_SECONDS = 14 * 24 * 60 * 60;
+
+export type ChatStream = LiveStream & { creator: { user_id: string } };
+
+export interface ChatSettings {
+  enabled: boolean;
+  mode: ChatMode;
+  slowModeSeconds: number;
+  blockLinks: boolean;
+  blockedTerms?: string[]; // Moderators only
+}
+
+export interface ChatUser {
+  id: string;
+  username: string;
+  displayName: string | null;
+  avatar: string | null;
+  role: ChatRole;
+}
+
+export interface ChatMessagePayload {
+  id: string;
+  streamId: string;
+  message: string;
+  timestamp: string;
+  user: ChatUser;
+  tip?: ChatMessageTip; // Tipped messages are highlighted and pinned until pinnedUntil
+}
+
+export interface ChatMessageTip {
+  id: string;
+  amount: number;
+  currency: string;
+  pinnedUntil: string | null;
+}
+
+const userSelect = { id: true, username: true, display_name: true, avatar: true, role: true } as const;
+
+export async function findChatStream(streamId: string): Promise<ChatStream> {
+  const stream = await prisma.liveStream.findUnique({
+    where: { id: streamId },
+    include: { creator: { select: { user_id: true } } },
+  });
+  if (!stream) {
+    throw new NotFoundError('Live stream');
+  }
+  return stream;
+}
+
+/**
+ * A user's role in a stream's chat
+ */
+export async function getChatRole(
+  stream: ChatStream,
+  userId: string,
+  platformRole?: string | null
+): Promise<ChatRole> {
+  if (stream.creator.user_id === userId) {
+    return 'owner';
+  }
+
+  if (platformRole === undefined) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+    platformRole = user?.role ?? null;
+  }
+  if (platformRole === 'ADMIN') {
+    return 'owner';
+  }
+  if (platformRole === 'MODERATOR') {
+    return 'moderator';
+  }
+
+  const moderator = await prisma.liveChatModerator.findUnique({
+    where: { stream_id_user_id: { stream_id: stream.id, user_id: userId } },
+    select: { id: true },
+  });
+  return moderator ? 'moderator' : 'viewer';
+}
+
+export async function requireChatRole(stream: ChatStream, userId: string, required: 'owner' | 'moderator'): Promise<ChatRole> {
+  const role = await getChatRole(stream, userId);
+  if (role === 'viewer' || (required === 'owner' && role !== 'owner')) {
+    throw new ForbiddenError(
+      required === 'owner'
+        ? 'Only the stream owner can do this'
+        : 'You must be a moderator of this chat to do this'
+    );
+  }
+  return role;
+}
+
+/**
+ * Chat settings as shown to viewers, or to moderators with the blocked terms
+ */
+export function getChatSettings(stream: LiveStream, includeBlockedTerms = false): ChatSettings {
+  return {
+    enabled: stream.chat_enabled,
+    mode: stream.chat_mode as ChatMode,
+    slowModeSeconds: stream.chat_slow_mode_seconds,
+    blockLinks: stream.chat_block_links,
+    ...(includeBlockedTerms && { blockedTerms: stream.chat_blocked_terms }),
+  };
+}
+
+/**
+ * The user's active ban or timeout in a stream's chat, if any
+ */
+export async function getActiveChatBan(streamId: string, userId: string): Promise<LiveChatBan | null> {
+  const ban = await prisma.liveChatBan.findUnique({
+    where: { stream_id_user_id: { stream_id: streamId, user_id: userId } },
+  });
+  if (!ban || (ban.expires_at && ban.expires_at <= new Date())) {
+    return null;
+  }
+  return ban;
+}
+
+/**
+ * Whether the user holds a paid ticket for a ticketed stream
+ */
+export async function hasStreamTicket(streamId: string, userId: string): Promise<boolean> {
+  const ticket = await prisma.liveStreamTicket.findFirst({
+    where: { stream_id: streamId, user_id: userId, status: 'completed' },
+    select: { id: true },
+  });
+  return !!ticket;
+}
+
+/**
+ * Everything a viewer's message has to pass before it's posted
+ */
+async function checkViewerMessage(stream: ChatStream, userId: string, message: string): Promise<void> {
+  const ban = await getActiveChatBan(stream.id, userId);
+  if (ban) {
+    if (!ban.expires_at) {
+      throw new ForbiddenError('You are banned from this chat');
+    }
+    const seconds = Math.ceil((ban.expires_at.getTime() - Date.now()) / 1000);
+    throw new ForbiddenError(`You are timed out for ${seconds} more seconds`);
+  }
+
+  if (stream.is_ticketed && !(await hasStreamTicket(stream.id, userId))) {
+    throw new ForbiddenError('A ticket is required to chat in this stream');
+  }
+
+  if (stream.chat_mode === 'subscribers') {
+    if (!(await hasCreatorSubscription(userId, stream.creator_id))) {
+      throw new ForbiddenError('Only subscribers can chat right now');
+    }
+  } else if (stream.chat_mode === 'followers') {
+    // Subscribers count as followers
+    const follow = await prisma.follow.findUnique({
+      where: { followerId_followingId: { followerId: userId, followingId: stream.creator.user_id } },
+      select: { id: true },
+    });
+    if (!follow && !(await hasCreatorSubscription(userId, stream.creator_id))) {
+      throw new ForbiddenError('Only followers can chat right now');
+    }
+  }
+
+  if (stream.chat_slow_mode_seconds > 0) {
+    const last = await prisma.liveChatMessage.findFirst({
+      where: { stream_id: stream.id, user_id: userId },
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true },
+    });
+    if (last) {
+      const wait = last.timestamp.getTime() + stream.chat_slow_mode_seconds * 1000 - Date.now();
+      if (wait > 0) {
+        throw new RateLimitError(`Slow mode is on. You can send another message in ${Math.ceil(wait / 1000)} seconds`);
+      }
+    }
+  }
+
+  if (findBlockedTerm(message, stream.chat_blocked_terms)) {
+    throw new ValidationError('Your message contains a term that is not allowed in this chat');
+  }
+
+  if (stream.chat_block_links && containsLink(message)) {
+    throw new ValidationError('Links are not allowed in this chat');
+  }
+}
+
+/**
+ * Check a message against the stream and its chat rules before it's posted.
+ * Returns the trimmed message with the stream and the sender.
+ */
+export async function prepareChatMessage(
+  streamId: string,
+  userId: string,
+  text: string
+): Promise<{ stream: ChatStream; user: ChatUser; message: string }> {
+  const message = typeof text === 'string' ? text.trim() : '';
+  if (message.length === 0 || message.length > MAX_CHAT_MESSAGE_LENGTH) {
+    throw new ValidationError(`Message must be between 1 and ${MAX_CHAT_MESSAGE_LENGTH} characters`);
+  }
+
+  const stream = await findChatStream(streamId);
+  if (stream.status !== 'live') {
+    throw new ValidationError('Stream is not currently live');
+  }
+  if (!stream.chat_enabled) {
+    throw new ValidationError('Chat is disabled for this stream');
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: userSelect });
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+
+  const role = await getChatRole(stream, userId, user.role);
+  if (role === 'viewer') {
+    await checkViewerMessage(stream, userId, message);
+  }
+
+  return {
+    stream,
+    user: {
+      id: user.id,
+      username: user.username,
+      displayName: user.display_name,
+      avatar: user.avatar,
+      role,
+    },
+    message,
+  };
+}
+
+/**
+ * Post a message to a live stream's chat and broadcast it to the stream room
+ */
+export async function sendChatMessage(
+  streamId: string,
+  userId: string,
+  text: string
+): Promise<ChatMessagePayload> {
+  const { user, message } = await prepareChatMessage(streamId, userId, text);
+
+  const chatMessage = await prisma.liveChatMessage.create({
+    data: {
+      stream_id: streamId,
+      user_id: userId,
+      message,
+    },
+  });
+
+  const payload: ChatMessagePayload = {
+    id: chatMessage.id,
+    streamId,
+    message: chatMessage.message,
+    timestamp: chatMessage.timestamp.toISOString(),
+    user,
+  };
+
+  getSocketInstance()?.to(`stream:${streamId}`).emit('new-message', payload);
+  return payload;
+}
+
+function emitMessagesDeleted(streamId: string, messageIds: string[]): void {
+  if (messageIds.length > 0) {
+    getSocketInstance()?.to(`stream:${streamId}`).emit('messages-deleted', { streamId, messageIds });
+  }
+}
+
+/**
+ * Delete a chat message. Moderators can delete any message, viewers their own.
+ */
+export async function deleteChatMessage(streamId: string, messageId: string, userId: string): Promise<void> {
+  const stream = await findChatStream(streamId);
+  const message = await prisma.liveChatMessage.findFirst({
+    where: { id: messageId, stream_id: streamId, is_deleted: false },
+    select: { id: true, user_id: true },
+  });
+  if (!message) {
+    throw new NotFoundError('Chat message');
+  }
+
+  if (message.user_id !== userId) {
+    await requireChatRole(stream, userId, 'moderator');
+  }
+
+  await prisma.liveChatMessage.update({
+    where: { id: messageId },
+    data: { is_deleted: true },
+  });
+
+  emitMessagesDeleted(streamId, [messageId]);
+  logger.info('Live chat message deleted', { streamId, messageId, deletedBy: userId });
+}
+
+/**
+ * Time out (with a duration) or ban (without) a viewer. Their messages in the
+ * stream are removed from everyone's chat.
+ */
+export async function restrictChatUser(
+  streamId: string,
+  moderatorId: string,
+  targetUserId: string,
+  options: { durationSeconds?: number; reason?: string } = {}
+): Promise<LiveChatBan> {
+  const stream = await findChatStream(streamId);
+  await requireChatRole(stream, moderatorId, 'moderator');
+
+  const target = await prisma.user.findUnique({ where: { id: targetUserId }, select: { role: true } });
+  if (!target) {
+    throw new NotFoundError('User');
+  }
+  if ((await getChatRole(stream, targetUserId, target.role)) !== 'viewer') {
+    throw new ForbiddenError('The stream owner and moderators cannot be timed out or banned');
+  }
+
+  const expiresAt = options.durationSeconds ? new Date(Date.now() + options.durationSeconds * 1000) : null;
+  const data = {
+    moderator_id: moderatorId,
+    reason: options.reason ?? null,
+    expires_at: expiresAt,
+    created_at: new Date(),
+  };
+  const ban = await prisma.liveChatBan.upsert({
+    where: { stream_id_user_id: { stream_id: streamId, user_id: targetUserId } },
+    create: { stream_id: streamId, user_id: targetUserId, ...data },
+    update: data,
+  });
+
+  const messages = await prisma.liveChatMessage.findMany({
+    where: { stream_id: streamId, user_id: targetUserId, is_deleted: false },
+    select: { id: true },
+  });
+  if (messages.length > 0) {
+    const messageIds = messages.map((message) => message.id);
+    await prisma.liveChatMessage.updateMany({
+      where: { id: { in: messageIds } },
+      data: { is_deleted: true },
+    });
+    emitMessagesDeleted(streamId, messageIds);
+  }
+
+  getSocketInstance()?.to(`user:${targetUserId}`).emit('chat-restricted', {
+    streamId,
+    banned: !expiresAt,
+    expiresAt,
+    reason: ban.reason,
+  });
+
+  logger.info(expiresAt ? 'Live chat user timed out' : 'Live chat user banned', {
+    streamId,
+    userId: targetUserId,
+    moderatorId,
+    durationSeconds: options.durationSeconds,
+  });
+  return ban;
+}
+
+/**
+ * Lift a timeout or ban early
+ */
+export async function liftChatRestriction(streamId: string, moderatorId: string, targetUserId: string): Promise<void> {
+  const stream = await findChatStream(streamId);
+  await requireChatRole(stream, moderatorId, 'moderator');
+
+  const { count } = await prisma.liveChatBan.deleteMany({
+    where: { stream_id: streamId, user_id: targetUserId },
+  });
+  if (count === 0) {
+    throw new NotFoundError('Chat ban');
+  }
+
+  getSocketInstance()?.to(`user:${targetUserId}`).emit('chat-restriction-lifted', { streamId });
+  logger.info('Live chat restriction lifted', { streamId, userId: targetUserId, moderatorId });
+}
+
+/**
+ * Active timeouts and bans of a stream
+ */
+export async function listChatRestrictions(streamId: string, userId: string) {
+  const stream = await findChatStream(streamId);
+  await requireChatRole(stream, userId, 'moderator');
+
+  const bans = await prisma.liveChatBan.findMany({
+    where: {
+      stream_id: streamId,
+      OR: [{ expires_at: null }, { expires_at: { gt: new Date() } }],
+    },
+    orderBy: { created_at: 'desc' },
+  });
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: bans.map((ban) => ban.user_id) } },
+    select: { id: true, username: true, display_name: true, avatar: true },
+  });
+  const userMap = new Map(users.map((user) => [user.id, user]));
+
+  return bans.map((ban) => ({
+    userId: ban.user_id,
+    username: userMap.get(ban.user_id)?.username ?? null,
+    displayName: userMap.get(ban.user_id)?.display_name ?? null,
+    avatar: userMap.get(ban.user_id)?.avatar ?? null,
+    banned: !ban.expires_at,
+    expiresAt: ban.expires_at,
+    reason: ban.reason,
+    moderatorId: ban.moderator_id,
+    createdAt: ban.created_at,
+  }));
+}
+
+/**
+ * Appoint a moderator for a stream (owner only). Lifts any ban they had.
+ */
+export async function addChatModerator(streamId: string, ownerId: string, targetUserId: string): Promise<void> {
+  const stream = await findChatStream(streamId);
+  await requireChatRole(stream, ownerId, 'owner');
+
+  const target = await prisma.user.findUnique({ where: { id: targetUserId }, select: { id: true } });
+  if (!target) {
+    throw new NotFoundError('User');
+  }
+  if (stream.creator.user_id === targetUserId) {
+    throw new ValidationError('The stream owner is already a moderator');
+  }
+
+  await prisma.liveChatModerator.upsert({
+    where: { stream_id_user_id: { stream_id: streamId, user_id: targetUserId } },
+    create: { stream_id: streamId, user_id: targetUserId, added_by: ownerId },
+    update: {},
+  });
+  await prisma.liveChatBan.deleteMany({
+    where: { stream_id: streamId, user_id: targetUserId },
+  });
+
+  logger.info('Live chat moderator added', { streamId, userId: targetUserId });
+}
+
+export async function removeChatModerator(streamId: string, ownerId: string, targetUserId: string): Promise<void> {
+  const stream = await findChatStream(streamId);
+  await requireChatRole(stream, ownerId, 'owner');
+
+  const { count } = await prisma.liveChatModerator.deleteMany({
+    where: { stream_id: streamId, user_id: targetUserId },
+  });
+  if (count === 0) {
+    throw new NotFoundError('Chat moderator');
+  }
+
+  logger.info('Live chat moderator removed', { streamId, userId: targetUserId });
+}
+
+export async function listChatModerators(streamId: string, userId: string) {
+  const stream = await findChatStream(streamId);
+  await requireChatRole(stream, userId, 'moderator');
+
+  const moderators = await prisma.liveChatModerator.findMany({
+    where: { stream_id: streamId },
+    orderBy: { created_at: 'asc' },
+  });
+  const users = await prisma.user.findMany({
+    where: { id: { in: moderators.map((moderator) => moderator.user_id) } },
+    select: { id: true, username: true, display_name: true, avatar: true },
+  });
+  const userMap = new Map(users.map((user) => [user.id, user]));
+
+  return moderators.map((moderator) => ({
+    userId: moderator.user_id,
+    username: userMap.get(moderator.user_id)?.username ?? null,
+    displayName: userMap.get(moderator.user_id)?.display_name ?? null,
+    avatar: userMap.get(moderator.user_id)?.avatar ?? null,
+    addedAt: moderator.created_at,
+  }));
+}
+
+/**
+ * Change chat mode, slow mode, blocked terms or the link filter (moderators).
+ * Viewers in the stream room get the new settings, without the blocked terms.
+ */
+export async function updateChatSettings(
+  streamId: string,
+  userId: string,
+  settings: Partial<Omit<ChatSettings, 'enabled'>>
+): Promise<ChatSettings> {
+  const stream = await findChatStream(streamId);
+  await requireChatRole(stream, userId, 'moderator');
+
+  const updated = await prisma.liveStream.update({
+    where: { id: streamId },
+    data: {
+      ...(settings.mode !== undefined && { chat_mode: settings.mode }),
+      ...(settings.slowModeSeconds !== undefined && { chat_slow_mode_seconds: settings.slowModeSeconds }),
+      ...(settings.blockLinks !== undefined && { chat_block_links: settings.blockLinks }),
+      ...(settings.blockedTerms !== undefined && { chat_blocked_terms: normalizeBlockedTerms(settings.blockedTerms) }),
+    },
+  });
+
+  getSocketInstance()?.to(`stream:${streamId}`).emit('chat-settings', {
+    streamId,
+    ...getChatSettings(updated),
+  });
+
+  logger.info('Live chat settings updated', { streamId, userId });
+  return getChatSettings(updated, true);
+}
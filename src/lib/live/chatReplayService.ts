@@ -0,0 +1,99 @@
+/**
+ * Chat Replay
+ * The chat of a recorded broadcast, replayed alongside its VOD. Messages are
+ * fetched by position in the video so players can load them a window at a
+ * time as playback advances (or after a seek).
+ */
+
+import { prisma } from '../prisma';
+import { NotFoundError } from '../errors';
+import { authorizePlayback } from '../playback/playbackService';
+
+export interface ChatReplayMessage {
+  id: string;
+  message: string;
+  timestamp: Date;
+  offsetMs: number;
+  user: {
+    id: string;
+    username: string;
+    displayName: string | null;
+    avatar: string | null;
+  } | null;
+}
+
+export interface ChatReplayWindow {
+  streamId: string;
+  from: number;
+  to: number;
+  messages: ChatReplayMessage[];
+  // Where to continue from when the window held more than `limit` messages
+  nextFrom: number | null;
+}
+
+/**
+ * Messages shown between `from` and `to` (milliseconds into the VOD). Anyone
+ * who may watch the content may read its chat replay.
+ */
+export async function getChatReplay(
+  contentId: string,
+  userId: string | undefined,
+  options: { from: number; to: number; limit: number }
+): Promise<ChatReplayWindow> {
+  await authorizePlayback(contentId, userId);
+
+  const stream = await prisma.liveStream.findUnique({
+    where: { vod_content_id: contentId },
+    select: { id: true },
+  });
+  if (!stream) {
+    throw new NotFoundError('Chat replay');
+  }
+
+  const messages = await prisma.liveChatMessage.findMany({
+    where: {
+      stream_id: stream.id,
+      is_deleted: false,
+      replay_offset_ms: { gte: options.from, lt: options.to },
+    },
+    orderBy: [{ replay_offset_ms: 'asc' }, { timestamp: 'asc' }],
+    take: options.limit + 1,
+  });
+
+  let page = messages;
+  let nextFrom: number | null = null;
+  if (messages.length > options.limit) {
+    // Don't split messages at the same offset across windows, so the next
+    // window can start at that offset without repeating any
+    const cutoff = messages[options.limit].replay_offset_ms!;
+    const before = messages.slice(0, options.limit).filter((message) => message.replay_offset_ms! < cutoff);
+    page = before.length > 0 ? before : messages.slice(0, options.limit);
+    nextFrom = before.length > 0 ? cutoff : cutoff + 1;
+  }
+
+  const userIds = [...new Set(page.map((message) => message.user_id))];
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, username: true, display_name: true, avatar: true },
+  });
+  const userMap = new Map(users.map((user) => [user.id, user]));
+
+  return {
+    streamId: stream.id,
+    from: options.from,
+    to: options.to,
+    messages: page.map((message) => {
+      const user = userMap.get(message.user_id);
+      return {
+        id: message.id,
+        message: message.message,
+        timestamp: message.timestamp,
+        offsetMs: message.replay_offset_ms!,
+        user: user
+          ? { id: user.id, username: user.username, displayName: user.display_name, avatar: user.avatar }
+          : null,
+      };
+    }),
+    nextFrom,
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Tipped Chat Messages
+ * Viewers can attach a tip to a chat message during a live stream. The
+ * message is checked against the chat rules when the tip is created and
+ * posted once the payment is confirmed: highlighted, and pinned to the top of
+ * the chat for longer the bigger the tip (see tipPins). The tip is an
+ * ordinary Tip, so it shows up in the creator's tip history and earnings like
+ * any other.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { ValidationError } from '../errors';
+import { getSocketInstance } from '../socket/emitDownloadEvents';
+import {
+  ChatMessagePayload,
+  findChatStream,
+  getActiveChatBan,
+  getChatRole,
+  prepareChatMessage,
+} from './chatModeration';
+import { getPinDurationSeconds, toInr } from './tipPins';
+
+const userSelect = { id: true, username: true, display_name: true, avatar: true, role: true } as const;
+
+/**
+ * Check a tipped message before the viewer pays: the stream has to be live
+ * and belong to the creator being tipped, and the message has to pass the
+ * chat rules. Returns the trimmed message.
+ */
+export async function checkTipMessage(
+  streamId: string,
+  creatorId: string,
+  userId: string,
+  text: string
+): Promise<string> {
+  const { stream, message } = await prepareChatMessage(streamId, userId, text);
+  if (stream.creator_id !== creatorId) {
+    throw new ValidationError('This stream belongs to a different creator');
+  }
+  return message;
+}
+
+/**
+ * Post a paid tip's message to its stream's chat, highlighted and pinned.
+ * Only the first call per tip posts anything, so the confirm route and
+ * payment webhooks can both call it. A tip paid after the stream ended, or by
+ * a viewer banned or timed out while paying, still gets its message, unpinned
+ * and not broadcast.
+ */
+export async function publishTipMessage(tipId: string): Promise<ChatMessagePayload | null> {
+  const tip = await prisma.tip.findUnique({ where: { id: tipId } });
+  if (!tip || tip.status !== 'completed' || !tip.stream_id || !tip.message) {
+    return null;
+  }
+
+  const [stream, user] = await Promise.all([
+    findChatStream(tip.stream_id),
+    prisma.user.findUnique({ where: { id: tip.from_user_id }, select: userSelect }),
+  ]);
+  if (!user) {
+    return null;
+  }
+
+  // The message was checked before payment; bans and timeouts since then still count
+  const shown = stream.status === 'live' && !(await getActiveChatBan(stream.id, user.id));
+  const pinnedUntil = shown ? new Date(Date.now() + getPinDurationSeconds(Number(tip.amount), tip.currency) * 1000) : null;
+
+  let chatMessage;
+  try {
+    chatMessage = await prisma.liveChatMessage.create({
+      data: {
+        stream_id: stream.id,
+        user_id: user.id,
+        message: tip.message,
+        tip_id: tip.id,
+        pinned_until: pinnedUntil,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null; // Already posted
+    }
+    throw error;
+  }
+
+  const payload: ChatMessagePayload = {
+    id: chatMessage.id,
+    streamId: stream.id,
+    message: chatMessage.message,
+    timestamp: chatMessage.timestamp.toISOString(),
+    user: {
+      id: user.id,
+      username: user.username,
+      displayName: user.display_name,
+      avatar: user.avatar,
+      role: await getChatRole(stream, user.id, user.role),
+    },
+    tip: {
+      id: tip.id,
+      amount: Number(tip.amount),
+      currency: tip.currency,
+      pinnedUntil: pinnedUntil?.toISOString() ?? null,
+    },
+  };
+
+  if (shown) {
+    getSocketInstance()?.to(`stream:${stream.id}`).emit('new-message', payload);
+  }
+
+  logger.info('Tipped chat message posted', {
+    streamId: stream.id,
+    tipId: tip.id,
+    messageId: chatMessage.id,
+    pinnedUntil,
+  });
+  return payload;
+}
+
+function tipSize(tip: { amount: Prisma.Decimal; currency: string }): number {
+  return toInr(Number(tip.amount), tip.currency) ?? 0;
+}
+
+/**
+ * Tipped messages still pinned in a stream's chat, biggest tip first, for
+ * viewers who join late
+ */
+export async function getPinnedMessages(streamId: string): Promise<ChatMessagePayload[]> {
+  const messages = await prisma.liveChatMessage.findMany({
+    where: { stream_id: streamId, is_deleted: false, pinned_until: { gt: new Date() } },
+    include: { tip: { select: { id: true, amount: true, currency: true } } },
+  });
+  if (messages.length === 0) {
+    return [];
+  }
+
+  const [stream, users] = await Promise.all([
+    findChatStream(streamId),
+    prisma.user.findMany({
+      where: { id: { in: [...new Set(messages.map((message) => message.user_id))] } },
+      select: userSelect,
+    }),
+  ]);
+  const roles = new Map(
+    await Promise.all(users.map(async (user) => [user.id, await getChatRole(stream, user.id, user.role)] as const))
+  );
+  const userMap = new Map(users.map((user) => [user.id, user]));
+
+  return messages
+    .filter((message) => message.tip && userMap.has(message.user_id))
+    .sort((a, b) => tipSize(b.tip!) - tipSize(a.tip!))
+    .map((message) => {
+      const user = userMap.get(message.user_id)!;
+      return {
+        id: message.id,
+        streamId,
+        message: message.message,
+        timestamp: message.timestamp.toISOString(),
+        user: {
+          id: user.id,
+          username: user.username,
+          displayName: user.display_name,
+          avatar: user.avatar,
+          role: roles.get(user.id)!,
+        },
+        tip: {
+          id: message.tip!.id,
+          amount: Number(message.tip!.amount),
+          currency: message.tip!.currency,
+          pinnedUntil: message.pinned_until?.toISOString() ?? null,
+        },
+      };
+    });
+}
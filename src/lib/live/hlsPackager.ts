@@ -0,0 +1,154 @@
+/**
+ * Live HLS Packager
+ * Feeds a published stream (as FLV) into ffmpeg, which repackages it without
+ * re-encoding into short HLS segments under LIVE_HLS_PATH/<streamId>.
+ *
+ * Latency is about three segments; segments can only be cut on keyframes, so
+ * encoders should use a 1 second keyframe interval.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { appendFile, mkdir, readFile, rm } from 'fs/promises';
+import { join, resolve } from 'path';
+import { env } from '../../config/env';
+import logger from '../logger';
+import { createFlvHeader } from './rtmp/flv';
+
+export const LIVE_HLS_PREFIX = '/live';
+export const LIVE_PLAYLIST_NAME = 'index.m3u8';
+
+const SEGMENT_SECONDS = 1;
+const PLAYLIST_SIZE = 6;
+const STOP_TIMEOUT_MS = 10_000;
+
+/**
+ * Directory holding a stream's playlist and segments
+ */
+export function getLiveOutputDir(streamId: string): string {
+  return resolve(env.LIVE_HLS_PATH, streamId);
+}
+
+/**
+ * Mark the playlist as complete once the broadcast is over. Until then it
+ * stays open so players keep polling through an encoder reconnect.
+ */
+export async function finalizeLiveOutput(streamId: string): Promise<void> {
+  const playlist = join(getLiveOutputDir(streamId), LIVE_PLAYLIST_NAME);
+  const content = await readFile(playlist, 'utf8').catch(() => null);
+  if (content !== null && !content.includes('#EXT-X-ENDLIST')) {
+    await appendFile(playlist, '#EXT-X-ENDLIST\n');
+  }
+}
+
+/**
+ * Remove a stream's HLS output
+ */
+export async function removeLiveOutput(streamId: string): Promise<void> {
+  await rm(getLiveOutputDir(streamId), { recursive: true, force: true });
+}
+
+export class HlsPackager {
+  private process: ChildProcess | null = null;
+  private exited: Promise<void> = Promise.resolve();
+  private stderr = '';
+
+  constructor(private streamId: string) {}
+
+  /**
+   * Start ffmpeg. A resumed broadcast (encoder reconnect) appends to the
+   * existing playlist behind a discontinuity; otherwise old output is removed.
+   */
+  async start(options: { resume?: boolean } = {}): Promise<void> {
+    const dir = getLiveOutputDir(this.streamId);
+    if (!options.resume) {
+      await removeLiveOutput(this.streamId);
+    }
+    await mkdir(dir, { recursive: true });
+
+    const flags = ['delete_segments', 'independent_segments', 'temp_file', 'program_date_time', 'omit_endlist'];
+    if (options.resume) {
+      flags.push('append_list', 'discont_start');
+    }
+
+    const child = spawn(
+      env.FFMPEG_PATH,
+      [
+        '-hide_banner',
+        '-loglevel', 'error',
+        '-f', 'flv',
+        '-i', 'pipe:0',
+        '-map', '0',
+        '-c', 'copy',
+        '-f', 'hls',
+        '-hls_time', `${SEGMENT_SECONDS}`,
+        '-hls_list_size', `${PLAYLIST_SIZE}`,
+        '-hls_flags', flags.join('+'),
+        '-hls_segment_type', 'mpegts',
+        '-hls_segment_filename', join(dir, 'segment_%06d.ts'),
+        join(dir, LIVE_PLAYLIST_NAME),
+      ],
+      { stdio: ['pipe', 'ignore', 'pipe'] }
+    );
+
+    this.process = child;
+    this.exited = new Promise((resolveExit) => {
+      child.on('close', (code) => {
+        if (code !== 0 && code !== null) {
+          logger.warn('Live packager exited with an error', {
+            streamId: this.streamId,
+            code,
+            stderr: this.stderr.trim(),
+          });
+        }
+        this.process = null;
+        resolveExit();
+      });
+    });
+
+    child.on('error', (error) => {
+      logger.error('Failed to start live packager', { streamId: this.streamId, error: error.message });
+    });
+    child.stderr?.on('data', (chunk: Buffer) => {
+      // Keep only the tail; ffmpeg can be very chatty
+      this.stderr = (this.stderr + chunk.toString()).slice(-4000);
+    });
+    // The encoder can keep sending after ffmpeg died; the close handler reports it
+    child.stdin?.on('error', () => {});
+
+    child.stdin?.write(createFlvHeader());
+  }
+
+  get running(): boolean {
+    return !!this.process?.stdin?.writable;
+  }
+
+  /**
+   * Write FLV tags. Returns false when ffmpeg is falling behind; wait for onDrain.
+   */
+  write(data: Buffer): boolean {
+    const stdin = this.process?.stdin;
+    if (!stdin?.writable) {
+      return true;
+    }
+    return stdin.write(data);
+  }
+
+  onDrain(callback: () => void): void {
+    this.process?.stdin?.once('drain', callback);
+  }
+
+  /**
+   * Close the input so ffmpeg finishes the last segment, killing it if it hangs
+   */
+  async stop(): Promise<void> {
+    const child = this.process;
+    if (!child) {
+      return;
+    }
+
+    child.stdin?.end();
+    const timeout = setTimeout(() => child.kill('SIGKILL'), STOP_TIMEOUT_MS);
+    await this.exited;
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * RTMP Ingest Server
+ * Accepts encoder publishes to rtmp://<host>:RTMP_PORT/live/<stream key>,
+ * packages them as HLS (recording them too when the stream is recorded),
+ * tracks their health and drives the stream lifecycle: a publish takes the
+ * stream live, and it ends once the encoder has been gone for
+ * RECONNECT_GRACE_MS (so a dropped connection can resume the broadcast).
+ *
+ * Runs inside the API process when LIVE_INGEST=rtmp. Only one instance should
+ * listen on the RTMP port.
+ */
+
+import net from 'net';
+import { env } from '../../config/env';
+import logger from '../logger';
+import { prisma } from '../prisma';
+import { RtmpSession, RtmpSessionHandlers } from './rtmp/session';
+import { createFlvTag } from './rtmp/flv';
+import { HlsPackager } from './hlsPackager';
+import { LiveRecorder } from './liveRecorder';
+import { StreamHealthTracker } from './streamHealthService';
+import { INGEST_APP, findPublishableStream, markStreamEnded, markStreamLive } from './liveStreamService';
+import { resumeRecordingConversions } from './liveToVodService';
+
+const RECONNECT_GRACE_MS = 10_000;
+
+interface Broadcast {
+  streamId: string;
+  session: RtmpSession;
+  packager: HlsPackager;
+  recorder: LiveRecorder | null;
+  health: StreamHealthTracker;
+}
+
+const broadcasts = new Map<string, Broadcast>(); // by stream id
+const sessionBroadcasts = new WeakMap<RtmpSession, Broadcast>();
+const endTimers = new Map<string, NodeJS.Timeout>();
+let server: net.Server | null = null;
+
+const handlers: RtmpSessionHandlers = {
+  async onPublish(session, app, streamName) {
+    if (app !== INGEST_APP) {
+      return false;
+    }
+
+    const stream = await findPublishableStream(streamName);
+    if (!stream) {
+      logger.warn('Rejected RTMP publish with an unknown stream key', { remoteAddress: session.remoteAddress });
+      return false;
+    }
+    if (broadcasts.has(stream.id)) {
+      logger.warn('Rejected RTMP publish: stream is already being published', { streamId: stream.id });
+      return false;
+    }
+
+    // Claim the stream before anything async so a second publish is refused
+    const broadcast: Broadcast = {
+      streamId: stream.id,
+      session,
+      packager: new HlsPackager(stream.id),
+      recorder: stream.is_recorded ? new LiveRecorder(stream.id) : null,
+      health: new StreamHealthTracker(stream.id),
+    };
+    broadcasts.set(stream.id, broadcast);
+    sessionBroadcasts.set(session, broadcast);
+
+    const resume = stream.status === 'live';
+    cancelEnd(stream.id);
+
+    try {
+      await broadcast.packager.start({ resume });
+      await broadcast.recorder?.start({ resume });
+      if (!resume) {
+        await markStreamLive(stream.id);
+      }
+      await broadcast.health.start();
+    } catch (error) {
+      broadcasts.delete(stream.id);
+      sessionBroadcasts.delete(session);
+      await stopOutputs(broadcast);
+      throw error;
+    }
+
+    logger.info('RTMP publish started', { streamId: stream.id, resume, remoteAddress: session.remoteAddress });
+    return true;
+  },
+
+  onMedia(session, type, timestamp, data) {
+    const broadcast = sessionBroadcasts.get(session);
+    if (!broadcast) {
+      return true;
+    }
+
+    broadcast.health.record(type, timestamp, data);
+
+    const tag = createFlvTag(type, timestamp, data);
+    const blocked: Array<HlsPackager | LiveRecorder> = [];
+    if (!broadcast.packager.write(tag)) {
+      blocked.push(broadcast.packager);
+    }
+    if (broadcast.recorder && !broadcast.recorder.write(tag)) {
+      blocked.push(broadcast.recorder);
+    }
+    if (blocked.length === 0) {
+      return true;
+    }
+
+    // Read from the encoder again once every output has caught up
+    let waiting = blocked.length;
+    blocked.forEach((output) => output.onDrain(() => --waiting === 0 && session.resume()));
+    return false;
+  },
+
+  onUnpublish(session) {
+    const broadcast = sessionBroadcasts.get(session);
+    if (!broadcast) {
+      return;
+    }
+
+    sessionBroadcasts.delete(session);
+    if (broadcasts.get(broadcast.streamId) === broadcast) {
+      broadcasts.delete(broadcast.streamId);
+    }
+
+    logger.info('RTMP publish stopped', { streamId: broadcast.streamId });
+    stopOutputs(broadcast).catch((error) => {
+      logger.warn('Failed to stop live outputs', { streamId: broadcast.streamId, error });
+    });
+    scheduleEnd(broadcast.streamId);
+  },
+};
+
+async function stopOutputs(broadcast: Broadcast): Promise<void> {
+  broadcast.health.stop();
+  await Promise.all([broadcast.packager.stop(), broadcast.recorder?.stop()]);
+}
+
+function scheduleEnd(streamId: string): void {
+  cancelEnd(streamId);
+  endTimers.set(
+    streamId,
+    setTimeout(() => {
+      endTimers.delete(streamId);
+      markStreamEnded(streamId).catch((error) => {
+        logger.error('Failed to end live stream', { streamId, error });
+      });
+    }, RECONNECT_GRACE_MS)
+  );
+}
+
+function cancelEnd(streamId: string): void {
+  const timer = endTimers.get(streamId);
+  if (timer) {
+    clearTimeout(timer);
+    endTimers.delete(streamId);
+  }
+}
+
+/**
+ * Whether an encoder is currently publishing to the stream
+ */
+export function isPublishing(streamId: string): boolean {
+  return broadcasts.has(streamId);
+}
+
+/**
+ * Disconnect the encoder publishing to a stream, if any. Unless the stream is
+ * ended as well it stays live for the reconnect grace period.
+ */
+export function disconnectPublisher(streamId: string): boolean {
+  const broadcast = broadcasts.get(streamId);
+  if (!broadcast) {
+    return false;
+  }
+  broadcast.session.disconnect();
+  return true;
+}
+
+/**
+ * End a broadcast right away (creator pressed "end stream")
+ */
+export async function endBroadcast(streamId: string): Promise<void> {
+  const broadcast = broadcasts.get(streamId);
+  broadcasts.delete(streamId);
+  if (broadcast) {
+    sessionBroadcasts.delete(broadcast.session);
+    broadcast.session.disconnect();
+    await stopOutputs(broadcast);
+  }
+  cancelEnd(streamId);
+}
+
+/**
+ * Streams left live by a restart get the usual grace period for their
+ * encoders to reconnect before they are ended. Recordings whose conversion
+ * was interrupted are converted again.
+ */
+async function recoverInterruptedStreams(): Promise<void> {
+  const streams = await prisma.liveStream.findMany({
+    where: { status: 'live' },
+    select: { id: true },
+  });
+  streams.forEach((stream) => {
+    if (!broadcasts.has(stream.id)) {
+      scheduleEnd(stream.id);
+    }
+  });
+
+  await resumeRecordingConversions();
+}
+
+/**
+ * Listen for encoders on RTMP_PORT
+ */
+export function startIngestServer(): net.Server {
+  if (server) {
+    return server;
+  }
+
+  const port = parseInt(env.RTMP_PORT, 10);
+  server = net.createServer((socket) => {
+    new RtmpSession(socket, handlers);
+  });
+
+  server.on('error', (error) => {
+    logger.error('RTMP ingest server error', { port, error: error.message });
+  });
+
+  server.listen(port, () => {
+    logger.info('RTMP ingest listening', { port });
+    recoverInterruptedStreams().catch((error) => {
+      logger.error('Failed to recover interrupted live streams', { error });
+    });
+  });
+
+  return server;
+}
+
+/**
+ * Stop accepting encoders and close the current publishes. Streams stay live
+ * so encoders can reconnect to the next instance.
+ */
+export async function stopIngestServer(): Promise<void> {
+  if (!server) {
+    return;
+  }
+
+  server.close();
+  server = null;
+
+  const active = Array.from(broadcasts.values());
+  broadcasts.clear();
+  endTimers.forEach((timer) => clearTimeout(timer));
+  endTimers.clear();
+
+  await Promise.all(
+    active.map(async (broadcast) => {
+      sessionBroadcasts.delete(broadcast.session);
+      broadcast.session.disconnect();
+      await stopOutputs(broadcast);
+    })
+  );
+}
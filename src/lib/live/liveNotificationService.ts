@@ -0,0 +1,227 @@
+/**
+ * Live Stream Notifications
+ * RSVPs ("remind me") for scheduled streams, reminders shortly before they
+ * start and the go-live fan-out to the creator's followers and everyone who
+ * RSVP'd. Notifications go through createNotification, so in-app, push and
+ * email each follow the recipient's NotificationPreferences (liveStreams).
+ */
+
+import { prisma } from '../prisma';
+import { env } from '../../config/env';
+import logger from '../logger';
+import { NotFoundError, ValidationError } from '../errors';
+import { createNotification } from '../notifications/service';
+
+const BATCH_SIZE = 500;
+const SEND_CONCURRENCY = 20;
+
+/**
+ * Whether viewers can RSVP: scheduled and not started yet
+ */
+async function findRsvpableStream(streamId: string) {
+  const stream = await prisma.liveStream.findUnique({
+    where: { id: streamId },
+    select: { id: true, status: true, scheduled_for: true },
+  });
+  if (!stream) {
+    throw new NotFoundError('Live stream');
+  }
+  if (!stream.scheduled_for || stream.status !== 'idle') {
+    throw new ValidationError('Only upcoming scheduled streams can be RSVPed');
+  }
+  return stream;
+}
+
+export async function getRsvpCount(streamId: string): Promise<number> {
+  return prisma.liveStreamRsvp.count({ where: { stream_id: streamId } });
+}
+
+export async function hasRsvped(streamId: string, userId: string): Promise<boolean> {
+  const rsvp = await prisma.liveStreamRsvp.findUnique({
+    where: { stream_id_user_id: { stream_id: streamId, user_id: userId } },
+    select: { id: true },
+  });
+  return !!rsvp;
+}
+
+/**
+ * RSVP to a scheduled stream. Returns the new RSVP count.
+ */
+export async function rsvpToStream(streamId: string, userId: string): Promise<number> {
+  await findRsvpableStream(streamId);
+
+  await prisma.liveStreamRsvp.upsert({
+    where: { stream_id_user_id: { stream_id: streamId, user_id: userId } },
+    create: { stream_id: streamId, user_id: userId },
+    update: {},
+  });
+
+  return getRsvpCount(streamId);
+}
+
+/**
+ * Withdraw an RSVP. Returns the new RSVP count.
+ */
+export async function cancelRsvp(streamId: string, userId: string): Promise<number> {
+  await prisma.liveStreamRsvp.deleteMany({
+    where: { stream_id: streamId, user_id: userId },
+  });
+  return getRsvpCount(streamId);
+}
+
+/**
+ * Send to many recipients, a few at a time. One failed recipient doesn't
+ * stop the others. A send that returns false was skipped and isn't counted.
+ */
+async function sendToAll(ids: string[], send: (id: string) => Promise<unknown>): Promise<number> {
+  let sent = 0;
+  for (let i = 0; i < ids.length; i += SEND_CONCURRENCY) {
+    const results = await Promise.allSettled(ids.slice(i, i + SEND_CONCURRENCY).map(send));
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        logger.warn('Failed to send live stream notification', { error: result.reason });
+      } else if (result.value !== false) {
+        sent++;
+      }
+    }
+  }
+  return sent;
+}
+
+/**
+ * Everyone to tell that a stream went live: followers of the creator with
+ * notifications on, plus RSVPs
+ */
+async function getGoLiveRecipients(streamId: string, creatorUserId: string): Promise<string[]> {
+  const recipients = new Set<string>();
+
+  let cursor: string | undefined;
+  for (;;) {
+    const follows = await prisma.follow.findMany({
+      where: { followingId: creatorUserId, notificationsEnabled: { not: false } },
+      select: { id: true, followerId: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+    follows.forEach((follow) => recipients.add(follow.followerId));
+    if (follows.length < BATCH_SIZE) {
+      break;
+    }
+    cursor = follows[follows.length - 1].id;
+  }
+
+  const rsvps = await prisma.liveStreamRsvp.findMany({
+    where: { stream_id: streamId },
+    select: { user_id: true },
+  });
+  rsvps.forEach((rsvp) => recipients.add(rsvp.user_id));
+
+  recipients.delete(creatorUserId);
+  return [...recipients];
+}
+
+/**
+ * Tell followers and RSVPs that a stream is live. Only the first call per
+ * stream sends anything, so encoder reconnects and other instances don't
+ * notify twice. Returns the number of notifications sent.
+ */
+export async function notifyStreamLive(streamId: string): Promise<number> {
+  const { count } = await prisma.liveStream.updateMany({
+    where: { id: streamId, live_notified_at: null },
+    data: { live_notified_at: new Date() },
+  });
+  if (count === 0) {
+    return 0;
+  }
+
+  const stream = await prisma.liveStream.findUnique({
+    where: { id: streamId },
+    include: { creator: { select: { id: true, user_id: true, display_name: true, handle: true } } },
+  });
+  if (!stream) {
+    return 0;
+  }
+
+  const creatorName = stream.creator.display_name || stream.creator.handle;
+  const recipients = await getGoLiveRecipients(streamId, stream.creator.user_id);
+
+  const sent = await sendToAll(recipients, (userId) =>
+    createNotification({
+      userId,
+      type: 'live',
+      title: `${creatorName} is live`,
+      message: stream.title,
+      link: `/live/${streamId}`,
+      metadata: { streamId, creatorId: stream.creator.id, thumbnailUrl: stream.thumbnail_url },
+    })
+  );
+
+  logger.info('Go-live notifications sent', { streamId, recipients: recipients.length, sent });
+  return sent;
+}
+
+/**
+ * Remind RSVPs of streams starting within LIVE_REMINDER_MINUTES. Each RSVP is
+ * reminded once. Returns the number of reminders sent.
+ */
+export async function sendStreamReminders(): Promise<number> {
+  const now = new Date();
+  const horizon = new Date(now.getTime() + parseInt(env.LIVE_REMINDER_MINUTES) * 60 * 1000);
+  let sent = 0;
+
+  for (;;) {
+    const rsvps = await prisma.liveStreamRsvp.findMany({
+      where: {
+        reminded_at: null,
+        stream: { status: 'idle', scheduled_for: { gt: now, lte: horizon } },
+      },
+      include: {
+        stream: {
+          select: {
+            id: true,
+            title: true,
+            scheduled_for: true,
+            creator: { select: { display_name: true, handle: true } },
+          },
+        },
+      },
+      take: BATCH_SIZE,
+    });
+    if (rsvps.length === 0) {
+      break;
+    }
+
+    const byId = new Map(rsvps.map((rsvp) => [rsvp.id, rsvp]));
+    sent += await sendToAll([...byId.keys()], async (rsvpId) => {
+      // Claim first so a concurrent run can't remind twice
+      const claimed = await prisma.liveStreamRsvp.updateMany({
+        where: { id: rsvpId, reminded_at: null },
+        data: { reminded_at: now },
+      });
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const { stream, user_id } = byId.get(rsvpId)!;
+      const minutes = Math.max(1, Math.round((stream.scheduled_for!.getTime() - Date.now()) / 60000));
+      await createNotification({
+        userId: user_id,
+        type: 'live',
+        title: `${stream.creator.display_name || stream.creator.handle} goes live in ${minutes} min`,
+        message: stream.title,
+        link: `/live/${stream.id}`,
+        metadata: { streamId: stream.id, scheduledFor: stream.scheduled_for },
+      });
+    });
+
+    if (rsvps.length < BATCH_SIZE) {
+      break;
+    }
+  }
+
+  if (sent > 0) {
+    logger.info('Live stream reminders sent', { sent });
+  }
+  return sent;
+}
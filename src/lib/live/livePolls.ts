@@ -0,0 +1,285 @@
+/**
+ * Live Polls
+ * Polls run by a stream's owner and moderators while it's live. Viewers vote
+ * once per poll; tallies are kept on the options and broadcast to the stream
+ * room as votes come in. Closed polls keep their results. Both the socket
+ * server and the REST routes go through here.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../errors';
+import { getSocketInstance } from '../socket/emitDownloadEvents';
+import { findChatStream, getActiveChatBan, requireChatRole } from './chatModeration';
+import { hasStreamAccess } from './liveTickets';
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 6;
+export const MAX_POLL_QUESTION_LENGTH = 200;
+export const MAX_POLL_OPTION_LENGTH = 100;
+
+// Votes within this window go out as one tally update
+const TALLY_BROADCAST_INTERVAL_MS = 1000;
+
+export interface LivePollPayload {
+  id: string;
+  streamId: string;
+  question: string;
+  status: 'open' | 'closed';
+  totalVotes: number;
+  options: Array<{ id: string; text: string; votes: number }>;
+  createdAt: string;
+  closedAt: string | null;
+  votedOptionId?: string | null; // Only for the viewer asking
+}
+
+const pollInclude = { options: { orderBy: { position: 'asc' } } } as const;
+
+type PollWithOptions = Prisma.LivePollGetPayload<{ include: typeof pollInclude }>;
+
+const pendingTallies = new Map<string, NodeJS.Timeout>();
+
+function toPayload(poll: PollWithOptions): LivePollPayload {
+  return {
+    id: poll.id,
+    streamId: poll.stream_id,
+    question: poll.question,
+    status: poll.status as LivePollPayload['status'],
+    totalVotes: poll.total_votes,
+    options: poll.options.map((option) => ({
+      id: option.id,
+      text: option.text,
+      votes: option.vote_count,
+    })),
+    createdAt: poll.created_at.toISOString(),
+    closedAt: poll.closed_at?.toISOString() ?? null,
+  };
+}
+
+async function findPoll(streamId: string, pollId: string): Promise<PollWithOptions> {
+  const poll = await prisma.livePoll.findFirst({
+    where: { id: pollId, stream_id: streamId },
+    include: pollInclude,
+  });
+  if (!poll) {
+    throw new NotFoundError('Poll');
+  }
+  return poll;
+}
+
+function emitPoll(event: string, poll: PollWithOptions): void {
+  getSocketInstance()?.to(`stream:${poll.stream_id}`).emit(event, toPayload(poll));
+}
+
+/**
+ * Broadcast the poll's tally shortly, folding in any votes that arrive until
+ * then
+ */
+function scheduleTallyBroadcast(pollId: string): void {
+  if (pendingTallies.has(pollId)) {
+    return;
+  }
+  const timer = setTimeout(async () => {
+    pendingTallies.delete(pollId);
+    try {
+      const poll = await prisma.livePoll.findUnique({ where: { id: pollId }, include: pollInclude });
+      if (poll?.status === 'open') {
+        emitPoll('poll-updated', poll);
+      }
+    } catch (error) {
+      logger.warn('Failed to broadcast poll tally', { pollId, error });
+    }
+  }, TALLY_BROADCAST_INTERVAL_MS);
+  timer.unref();
+  pendingTallies.set(pollId, timer);
+}
+
+function validatePoll(question: unknown, options: unknown): { question: string; options: string[] } {
+  const text = typeof question === 'string' ? question.trim() : '';
+  if (text.length === 0 || text.length > MAX_POLL_QUESTION_LENGTH) {
+    throw new ValidationError(`Question must be between 1 and ${MAX_POLL_QUESTION_LENGTH} characters`);
+  }
+
+  if (!Array.isArray(options) || options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    throw new ValidationError(`A poll needs between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options`);
+  }
+  const choices = options.map((option) => (typeof option === 'string' ? option.trim() : ''));
+  if (choices.some((choice) => choice.length === 0 || choice.length > MAX_POLL_OPTION_LENGTH)) {
+    throw new ValidationError(`Options must be between 1 and ${MAX_POLL_OPTION_LENGTH} characters`);
+  }
+  if (new Set(choices.map((choice) => choice.toLowerCase())).size !== choices.length) {
+    throw new ValidationError('Options must be different from each other');
+  }
+
+  return { question: text, options: choices };
+}
+
+/**
+ * Start a poll (owner or moderator). A stream has one open poll at a time.
+ */
+export async function createPoll(
+  streamId: string,
+  userId: string,
+  question: unknown,
+  options: unknown
+): Promise<LivePollPayload> {
+  const input = validatePoll(question, options);
+
+  const stream = await findChatStream(streamId);
+  await requireChatRole(stream, userId, 'moderator');
+  if (stream.status !== 'live') {
+    throw new ValidationError('Stream is not currently live');
+  }
+
+  const open = await prisma.livePoll.findFirst({
+    where: { stream_id: streamId, status: 'open' },
+    select: { id: true },
+  });
+  if (open) {
+    throw new ConflictError('Close the current poll before starting another');
+  }
+
+  const poll = await prisma.livePoll.create({
+    data: {
+      stream_id: streamId,
+      created_by: userId,
+      question: input.question,
+      options: {
+        create: input.options.map((text, position) => ({ text, position })),
+      },
+    },
+    include: pollInclude,
+  });
+
+  emitPoll('poll-created', poll);
+  logger.info('Live poll created', { streamId, pollId: poll.id, createdBy: userId });
+  return toPayload(poll);
+}
+
+/**
+ * Vote in an open poll. Each user votes once.
+ */
+export async function votePoll(
+  streamId: string,
+  pollId: string,
+  userId: string,
+  optionId: string
+): Promise<LivePollPayload> {
+  const poll = await findPoll(streamId, pollId);
+  if (!poll.options.some((option) => option.id === optionId)) {
+    throw new ValidationError('Option does not belong to this poll');
+  }
+  if (await getActiveChatBan(streamId, userId)) {
+    throw new ForbiddenError('You are restricted from this chat');
+  }
+  if (!(await hasStreamAccess(await findChatStream(streamId), userId))) {
+    throw new ForbiddenError('A ticket is required to vote in this stream');
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      // Counting the vote on the poll row doubles as the check that it's
+      // still open, so a vote can't slip in after closing
+      const { count } = await tx.livePoll.updateMany({
+        where: { id: pollId, status: 'open' },
+        data: { total_votes: { increment: 1 } },
+      });
+      if (count === 0) {
+        throw new ValidationError('This poll is closed');
+      }
+      await tx.livePollVote.create({
+        data: { poll_id: pollId, option_id: optionId, user_id: userId },
+      });
+      await tx.livePollOption.update({
+        where: { id: optionId },
+        data: { vote_count: { increment: 1 } },
+      });
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('You have already voted in this poll');
+    }
+    throw error;
+  }
+
+  scheduleTallyBroadcast(pollId);
+
+  const updated = await findPoll(streamId, pollId);
+  return { ...toPayload(updated), votedOptionId: optionId };
+}
+
+/**
+ * Close a poll (owner or moderator). Its results stay available.
+ */
+export async function closePoll(streamId: string, pollId: string, userId: string): Promise<LivePollPayload> {
+  const stream = await findChatStream(streamId);
+  await requireChatRole(stream, userId, 'moderator');
+
+  const { count } = await prisma.livePoll.updateMany({
+    where: { id: pollId, stream_id: streamId, status: 'open' },
+    data: { status: 'closed', closed_at: new Date() },
+  });
+  const poll = await findPoll(streamId, pollId);
+  if (count === 0) {
+    throw new ValidationError('This poll is already closed');
+  }
+
+  clearTimeout(pendingTallies.get(pollId));
+  pendingTallies.delete(pollId);
+
+  emitPoll('poll-closed', poll);
+  logger.info('Live poll closed', { streamId, pollId, totalVotes: poll.total_votes });
+  return toPayload(poll);
+}
+
+/**
+ * Close whatever poll is still open when a stream ends
+ */
+export async function closeOpenPolls(streamId: string): Promise<void> {
+  const polls = await prisma.livePoll.findMany({
+    where: { stream_id: streamId, status: 'open' },
+    select: { id: true },
+  });
+  if (polls.length === 0) {
+    return;
+  }
+
+  await prisma.livePoll.updateMany({
+    where: { id: { in: polls.map((poll) => poll.id) }, status: 'open' },
+    data: { status: 'closed', closed_at: new Date() },
+  });
+  for (const poll of polls) {
+    clearTimeout(pendingTallies.get(poll.id));
+    pendingTallies.delete(poll.id);
+  }
+}
+
+/**
+ * A stream's polls, newest first, with the viewer's vote in each
+ */
+export async function listPolls(streamId: string, userId?: string): Promise<LivePollPayload[]> {
+  const stream = await prisma.liveStream.findUnique({ where: { id: streamId }, select: { id: true } });
+  if (!stream) {
+    throw new NotFoundError('Live stream');
+  }
+
+  const polls = await prisma.livePoll.findMany({
+    where: { stream_id: streamId },
+    include: pollInclude,
+    orderBy: { created_at: 'desc' },
+  });
+
+  const votes = userId
+    ? await prisma.livePollVote.findMany({
+        where: { user_id: userId, poll_id: { in: polls.map((poll) => poll.id) } },
+        select: { poll_id: true, option_id: true },
+      })
+    : [];
+  const voteMap = new Map(votes.map((vote) => [vote.poll_id, vote.option_id]));
+
+  return polls.map((poll) => ({
+    ...toPayload(poll),
+    ...(userId && { votedOptionId: voteMap.get(poll.id) ?? null }),
+  }));
+}
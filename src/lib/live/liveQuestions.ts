@@ -0,0 +1,216 @@
+/**
+ * Live Q&A
+ * Viewers submit questions during a stream and upvote each other's; the
+ * queue is ordered by upvotes. The stream's owner and moderators mark
+ * questions answered. Both the socket server and the REST routes go through
+ * here.
+ */
+
+import { LiveQuestion, Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../errors';
+import { getSocketInstance } from '../socket/emitDownloadEvents';
+import { findChatStream, getActiveChatBan, requireChatRole } from './chatModeration';
+import { hasStreamAccess } from './liveTickets';
+
+export const MAX_QUESTION_LENGTH = 300;
+
+export interface LiveQuestionPayload {
+  id: string;
+  streamId: string;
+  question: string;
+  upvotes: number;
+  isAnswered: boolean;
+  answeredAt: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    username: string | null;
+    displayName: string | null;
+    avatar: string | null;
+  };
+  hasUpvoted?: boolean; // Only for the viewer asking
+}
+
+type QuestionUser = { id: string; username: string; display_name: string | null; avatar: string | null };
+
+const userSelect = { id: true, username: true, display_name: true, avatar: true } as const;
+
+function toPayload(question: LiveQuestion, user?: QuestionUser | null): LiveQuestionPayload {
+  return {
+    id: question.id,
+    streamId: question.stream_id,
+    question: question.question,
+    upvotes: question.upvote_count,
+    isAnswered: question.is_answered,
+    answeredAt: question.answered_at?.toISOString() ?? null,
+    createdAt: question.created_at.toISOString(),
+    user: {
+      id: question.user_id,
+      username: user?.username ?? null,
+      displayName: user?.display_name ?? null,
+      avatar: user?.avatar ?? null,
+    },
+  };
+}
+
+async function findQuestion(streamId: string, questionId: string): Promise<LiveQuestion> {
+  const question = await prisma.liveQuestion.findFirst({
+    where: { id: questionId, stream_id: streamId },
+  });
+  if (!question) {
+    throw new NotFoundError('Question');
+  }
+  return question;
+}
+
+/**
+ * Ask a question while the stream is live
+ */
+export async function submitQuestion(streamId: string, userId: string, text: unknown): Promise<LiveQuestionPayload> {
+  const message = typeof text === 'string' ? text.trim() : '';
+  if (message.length === 0 || message.length > MAX_QUESTION_LENGTH) {
+    throw new ValidationError(`Question must be between 1 and ${MAX_QUESTION_LENGTH} characters`);
+  }
+
+  const stream = await findChatStream(streamId);
+  if (stream.status !== 'live') {
+    throw new ValidationError('Stream is not currently live');
+  }
+  if (await getActiveChatBan(streamId, userId)) {
+    throw new ForbiddenError('You are restricted from this chat');
+  }
+  if (!(await hasStreamAccess(stream, userId))) {
+    throw new ForbiddenError('A ticket is required to ask questions in this stream');
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: userSelect });
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+
+  const question = await prisma.liveQuestion.create({
+    data: {
+      stream_id: streamId,
+      user_id: userId,
+      question: message,
+    },
+  });
+
+  const payload = toPayload(question, user);
+  getSocketInstance()?.to(`stream:${streamId}`).emit('question-added', payload);
+  return payload;
+}
+
+/**
+ * Upvote someone else's unanswered question, once
+ */
+export async function upvoteQuestion(streamId: string, questionId: string, userId: string): Promise<number> {
+  const question = await findQuestion(streamId, questionId);
+  if (question.user_id === userId) {
+    throw new ValidationError('You cannot upvote your own question');
+  }
+  if (question.is_answered) {
+    throw new ValidationError('This question has already been answered');
+  }
+
+  let upvotes: number;
+  try {
+    const [, updated] = await prisma.$transaction([
+      prisma.liveQuestionUpvote.create({
+        data: { question_id: questionId, user_id: userId },
+      }),
+      prisma.liveQuestion.update({
+        where: { id: questionId },
+        data: { upvote_count: { increment: 1 } },
+        select: { upvote_count: true },
+      }),
+    ]);
+    upvotes = updated.upvote_count;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('You have already upvoted this question');
+    }
+    throw error;
+  }
+
+  getSocketInstance()?.to(`stream:${streamId}`).emit('question-upvoted', {
+    streamId,
+    questionId,
+    upvotes,
+  });
+  return upvotes;
+}
+
+/**
+ * Mark a question answered (owner or moderator)
+ */
+export async function markQuestionAnswered(
+  streamId: string,
+  questionId: string,
+  userId: string
+): Promise<LiveQuestionPayload> {
+  const stream = await findChatStream(streamId);
+  await requireChatRole(stream, userId, 'moderator');
+
+  const current = await findQuestion(streamId, questionId);
+  if (current.is_answered) {
+    throw new ValidationError('This question has already been answered');
+  }
+
+  const question = await prisma.liveQuestion.update({
+    where: { id: questionId },
+    data: { is_answered: true, answered_at: new Date() },
+  });
+  const user = await prisma.user.findUnique({ where: { id: question.user_id }, select: userSelect });
+
+  const payload = toPayload(question, user);
+  getSocketInstance()?.to(`stream:${streamId}`).emit('question-answered', payload);
+  logger.info('Live question answered', { streamId, questionId, answeredBy: userId });
+  return payload;
+}
+
+/**
+ * A stream's question queue: unanswered first, most upvoted first, then
+ * oldest first
+ */
+export async function listQuestions(
+  streamId: string,
+  userId?: string,
+  options: { answered?: boolean; limit?: number } = {}
+): Promise<LiveQuestionPayload[]> {
+  const stream = await prisma.liveStream.findUnique({ where: { id: streamId }, select: { id: true } });
+  if (!stream) {
+    throw new NotFoundError('Live stream');
+  }
+
+  const questions = await prisma.liveQuestion.findMany({
+    where: {
+      stream_id: streamId,
+      ...(options.answered !== undefined && { is_answered: options.answered }),
+    },
+    orderBy: [{ is_answered: 'asc' }, { upvote_count: 'desc' }, { created_at: 'asc' }],
+    take: options.limit ?? 100,
+  });
+
+  const [users, upvotes] = await Promise.all([
+    prisma.user.findMany({
+      where: { id: { in: [...new Set(questions.map((question) => question.user_id))] } },
+      select: userSelect,
+    }),
+    userId
+      ? prisma.liveQuestionUpvote.findMany({
+          where: { user_id: userId, question_id: { in: questions.map((question) => question.id) } },
+          select: { question_id: true },
+        })
+      : [],
+  ]);
+  const userMap = new Map(users.map((user) => [user.id, user]));
+  const upvoted = new Set(upvotes.map((upvote) => upvote.question_id));
+
+  return questions.map((question) => ({
+    ...toPayload(question, userMap.get(question.user_id)),
+    ...(userId && { hasUpvoted: upvoted.has(question.id) }),
+  }));
+}
@@ -0,0 +1,228 @@
+/**
+ * Live Stream Raids
+ * A creator ending their stream can "raid" another live stream: their viewers
+ * are told where they're going and moved into the target's room, the target
+ * creator is announced the raid with the incoming viewer count, and the raid
+ * is recorded for both creators. Creators choose who may raid them with
+ * accept_raids_from (everyone, creators they follow, or nobody).
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../errors';
+import { getSocketInstance } from '../socket/emitDownloadEvents';
+import { createNotification } from '../notifications/service';
+import { redirectStreamViewers } from '../../socket/socketServer';
+import { findChatStream, requireChatRole } from './chatModeration';
+import { countViewers } from './viewerPresence';
+
+export const RAID_POLICIES = ['everyone', 'following', 'nobody'] as const;
+export type RaidPolicy = (typeof RAID_POLICIES)[number];
+
+const creatorSelect = { id: true, user_id: true, display_name: true, handle: true, avatar: true } as const;
+
+export interface RaidPayload {
+  id: string;
+  fromStreamId: string | null;
+  toStreamId: string | null;
+  viewerCount: number;
+  createdAt: string;
+  creator: RaidCreatorPayload; // The other side of the raid
+}
+
+export interface RaidCreatorPayload {
+  id: string;
+  displayName: string;
+  handle: string;
+  avatar: string | null;
+}
+
+type RaidCreator = { id: string; display_name: string; handle: string; avatar: string | null };
+
+function toCreator(creator: RaidCreator): RaidCreatorPayload {
+  return {
+    id: creator.id,
+    displayName: creator.display_name,
+    handle: creator.handle,
+    avatar: creator.avatar,
+  };
+}
+
+/**
+ * Whether the target creator takes raids from the raiding one
+ */
+async function acceptsRaid(
+  target: { accept_raids_from: string; user_id: string },
+  raiderUserId: string
+): Promise<boolean> {
+  switch (target.accept_raids_from as RaidPolicy) {
+    case 'nobody':
+      return false;
+    case 'following': {
+      const follow = await prisma.follow.findUnique({
+        where: { followerId_followingId: { followerId: target.user_id, followingId: raiderUserId } },
+        select: { id: true },
+      });
+      return !!follow;
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Send a live stream's viewers to another live stream (stream owner). Each
+ * stream raids once.
+ */
+export async function startRaid(streamId: string, userId: string, targetStreamId: string): Promise<RaidPayload> {
+  const source = await findChatStream(streamId);
+  await requireChatRole(source, userId, 'owner');
+  if (source.status !== 'live') {
+    throw new ValidationError('Only a live stream can raid');
+  }
+  if (targetStreamId === streamId) {
+    throw new ValidationError('A stream cannot raid itself');
+  }
+
+  const target = await prisma.liveStream.findUnique({
+    where: { id: targetStreamId },
+    include: { creator: { select: { ...creatorSelect, accept_raids_from: true } } },
+  });
+  if (!target) {
+    throw new NotFoundError('Target live stream');
+  }
+  if (target.status !== 'live') {
+    throw new ValidationError('The target stream is not live');
+  }
+  if (!(await acceptsRaid(target.creator, source.creator.user_id))) {
+    throw new ForbiddenError('This creator is not accepting raids from you');
+  }
+
+  const raider = await prisma.creator.findUniqueOrThrow({
+    where: { id: source.creator_id },
+    select: creatorSelect,
+  });
+  const viewerCount = await countViewers(streamId);
+
+  let raid;
+  try {
+    raid = await prisma.liveStreamRaid.create({
+      data: {
+        from_stream_id: streamId,
+        to_stream_id: targetStreamId,
+        from_creator_id: raider.id,
+        to_creator_id: target.creator.id,
+        viewer_count: viewerCount,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('This stream has already raided');
+    }
+    throw error;
+  }
+
+  const io = getSocketInstance();
+  const raiderName = raider.display_name || raider.handle;
+
+  // Tell the viewers first so clients can switch players as they're moved
+  io?.to(`stream:${streamId}`).emit('raid', {
+    fromStreamId: streamId,
+    toStreamId: targetStreamId,
+    title: target.title,
+    creator: toCreator(target.creator),
+  });
+  await redirectStreamViewers(streamId, targetStreamId);
+
+  const announcement = {
+    raidId: raid.id,
+    fromStreamId: streamId,
+    toStreamId: targetStreamId,
+    viewerCount,
+    creator: toCreator(raider),
+  };
+  // The target's viewers see it in chat; the creator gets it wherever they are
+  io?.to([`stream:${targetStreamId}`, `user:${target.creator.user_id}`]).emit('raid-incoming', announcement);
+
+  createNotification({
+    userId: target.creator.user_id,
+    type: 'live',
+    title: `${raiderName} is raiding you`,
+    message: `${raiderName} sent ${viewerCount} ${viewerCount === 1 ? 'viewer' : 'viewers'} your way`,
+    link: `/live/${targetStreamId}`,
+    metadata: { raidId: raid.id, fromStreamId: streamId, viewerCount },
+  }).catch((error) => {
+    logger.warn('Failed to send raid notification', { raidId: raid.id, error });
+  });
+
+  logger.info('Live stream raid', { raidId: raid.id, fromStreamId: streamId, toStreamId: targetStreamId, viewerCount });
+  return {
+    id: raid.id,
+    fromStreamId: streamId,
+    toStreamId: targetStreamId,
+    viewerCount,
+    createdAt: raid.created_at.toISOString(),
+    creator: toCreator(target.creator),
+  };
+}
+
+/**
+ * Raids a creator received or sent, newest first. `creator` is the other side.
+ */
+export async function listRaids(
+  userId: string,
+  direction: 'received' | 'sent',
+  options: { page: number; limit: number }
+): Promise<{ raids: RaidPayload[]; total: number }> {
+  const creator = await prisma.creator.findUnique({ where: { user_id: userId }, select: { id: true } });
+  if (!creator) {
+    throw new NotFoundError('Creator profile');
+  }
+
+  const where = direction === 'received' ? { to_creator_id: creator.id } : { from_creator_id: creator.id };
+  const [raids, total] = await prisma.$transaction([
+    prisma.liveStreamRaid.findMany({
+      where,
+      include: { from_creator: { select: creatorSelect }, to_creator: { select: creatorSelect } },
+      orderBy: { created_at: 'desc' },
+      skip: (options.page - 1) * options.limit,
+      take: options.limit,
+    }),
+    prisma.liveStreamRaid.count({ where }),
+  ]);
+
+  return {
+    raids: raids.map((raid) => ({
+      id: raid.id,
+      fromStreamId: raid.from_stream_id,
+      toStreamId: raid.to_stream_id,
+      viewerCount: raid.viewer_count,
+      createdAt: raid.created_at.toISOString(),
+      creator: toCreator(direction === 'received' ? raid.from_creator : raid.to_creator),
+    })),
+    total,
+  };
+}
+
+export async function getRaidPolicy(userId: string): Promise<RaidPolicy> {
+  const creator = await prisma.creator.findUnique({
+    where: { user_id: userId },
+    select: { accept_raids_from: true },
+  });
+  if (!creator) {
+    throw new NotFoundError('Creator profile');
+  }
+  return creator.accept_raids_from as RaidPolicy;
+}
+
+export async function setRaidPolicy(userId: string, policy: RaidPolicy): Promise<RaidPolicy> {
+  const { count } = await prisma.creator.updateMany({
+    where: { user_id: userId },
+    data: { accept_raids_from: policy },
+  });
+  if (count === 0) {
+    throw new NotFoundError('Creator profile');
+  }
+  return policy;
+}
@@ -0,0 +1,113 @@
+/**
+ * Live Recorder
+ * Writes a published stream of a recorded broadcast to disk as FLV, one part
+ * per encoder connection, under LIVE_RECORDING_PATH/<streamId>. parts.json
+ * notes when each part started so chat can be synced to the VOD later.
+ *
+ * The recording lives on the ingest host until live-to-VOD has uploaded it.
+ */
+
+import { createWriteStream, WriteStream } from 'fs';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { env } from '../../config/env';
+import logger from '../logger';
+import { createFlvHeader } from './rtmp/flv';
+
+export interface RecordingPart {
+  file: string;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+const PARTS_FILE = 'parts.json';
+
+export function getRecordingDir(streamId: string): string {
+  return resolve(env.LIVE_RECORDING_PATH, streamId);
+}
+
+/**
+ * Parts recorded so far, oldest first
+ */
+export async function readRecordingParts(streamId: string): Promise<RecordingPart[]> {
+  try {
+    return JSON.parse(await readFile(join(getRecordingDir(streamId), PARTS_FILE), 'utf8'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function writeRecordingParts(streamId: string, parts: RecordingPart[]): Promise<void> {
+  await writeFile(join(getRecordingDir(streamId), PARTS_FILE), JSON.stringify(parts, null, 2));
+}
+
+export async function removeRecording(streamId: string): Promise<void> {
+  await rm(getRecordingDir(streamId), { recursive: true, force: true });
+}
+
+export class LiveRecorder {
+  private file: WriteStream | null = null;
+  private partIndex = -1;
+
+  constructor(private streamId: string) {}
+
+  /**
+   * Open a new part. A fresh broadcast discards leftovers of an earlier one.
+   */
+  async start(options: { resume?: boolean } = {}): Promise<void> {
+    if (!options.resume) {
+      await removeRecording(this.streamId);
+    }
+    await mkdir(getRecordingDir(this.streamId), { recursive: true });
+
+    const parts = await readRecordingParts(this.streamId);
+    const part: RecordingPart = {
+      file: `part_${String(parts.length).padStart(3, '0')}.flv`,
+      startedAt: new Date().toISOString(),
+      endedAt: null,
+    };
+    this.partIndex = parts.length;
+    await writeRecordingParts(this.streamId, [...parts, part]);
+
+    this.file = createWriteStream(join(getRecordingDir(this.streamId), part.file));
+    this.file.on('error', (error) => {
+      logger.error('Live recording write failed', { streamId: this.streamId, error: error.message });
+      this.file = null;
+    });
+    this.file.write(createFlvHeader());
+  }
+
+  /**
+   * Write FLV tags. Returns false when the disk is falling behind; wait for onDrain.
+   */
+  write(data: Buffer): boolean {
+    return this.file ? this.file.write(data) : true;
+  }
+
+  onDrain(callback: () => void): void {
+    this.file?.once('drain', callback);
+  }
+
+  /**
+   * Close the part and note when it ended
+   */
+  async stop(): Promise<void> {
+    const file = this.file;
+    this.file = null;
+    if (file) {
+      await new Promise<void>((resolveClose) => file.end(resolveClose));
+    }
+
+    if (this.partIndex >= 0) {
+      const parts = await readRecordingParts(this.streamId);
+      if (parts[this.partIndex]) {
+        parts[this.partIndex].endedAt = new Date().toISOString();
+        await writeRecordingParts(this.streamId, parts);
+      }
+      this.partIndex = -1;
+    }
+  }
+}
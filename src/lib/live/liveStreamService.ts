@@ -0,0 +1,151 @@
+/**
+ * Live Stream Service
+ * Stream keys, ingest URLs and the idle -> live -> ended lifecycle driven by
+ * the RTMP ingest server.
+ */
+
+import crypto from 'crypto';
+import { LiveStream } from '@prisma/client';
+import { prisma } from '../prisma';
+import { env } from '../../config/env';
+import logger from '../logger';
+import { getSocketInstance } from '../socket/emitDownloadEvents';
+import { LIVE_HLS_PREFIX, LIVE_PLAYLIST_NAME, finalizeLiveOutput } from './hlsPackager';
+import { convertRecordingToVod } from './liveToVodService';
+import { clearViewers } from './viewerPresence';
+import { notifyStreamLive } from './liveNotificationService';
+import { closeOpenPolls } from './livePolls';
+import { getViewerPlaybackUrl } from './liveTickets';
+
+export const INGEST_APP = 'live';
+
+/**
+ * Whether encoders publish to this server (LIVE_INGEST=rtmp)
+ */
+export function isIngestEnabled(): boolean {
+  return env.LIVE_INGEST === 'rtmp';
+}
+
+/**
+ * RTMP URL creators put into their encoder (the stream key goes separately)
+ */
+export function getIngestUrl(): string {
+  if (env.RTMP_PUBLIC_URL) {
+    return env.RTMP_PUBLIC_URL.replace(/\/+$/, '');
+  }
+  return `rtmp://${new URL(env.API_URL).hostname}:${env.RTMP_PORT}/${INGEST_APP}`;
+}
+
+/**
+ * HLS playlist of a stream packaged by this server
+ */
+export function getLivePlaybackUrl(streamId: string): string {
+  return `${env.API_URL}${LIVE_HLS_PREFIX}/${streamId}/${LIVE_PLAYLIST_NAME}`;
+}
+
+export function generateStreamKey(): string {
+  return `sk_${crypto.randomBytes(16).toString('hex')}`;
+}
+
+/**
+ * Find the stream a publish is for. Encoders may append query parameters to
+ * the key; those are ignored. Ended and cancelled streams can't be published
+ * to again.
+ */
+export async function findPublishableStream(streamKey: string): Promise<LiveStream | null> {
+  const key = streamKey.split('?')[0].trim();
+  if (!key) {
+    return null;
+  }
+
+  const stream = await prisma.liveStream.findUnique({ where: { stream_key: key } });
+  if (!stream || stream.status === 'ended' || stream.status === 'cancelled') {
+    return null;
+  }
+  return stream;
+}
+
+/**
+ * The encoder started publishing. Followers and RSVPs are notified in the
+ * background.
+ */
+export async function markStreamLive(streamId: string): Promise<LiveStream> {
+  const current = await prisma.liveStream.findUniqueOrThrow({
+    where: { id: streamId },
+    select: { is_recorded: true },
+  });
+  const stream = await prisma.liveStream.update({
+    where: { id: streamId },
+    data: {
+      status: 'live',
+      started_at: new Date(),
+      ended_at: null,
+      playback_url: getLivePlaybackUrl(streamId),
+      recording_status: current.is_recorded ? 'recording' : null,
+    },
+  });
+
+  emitStreamStatus(stream);
+  notifyStreamLive(streamId).catch((error) => {
+    logger.warn('Failed to send go-live notifications', { streamId, error });
+  });
+  logger.info('Live stream started', { streamId });
+  return stream;
+}
+
+/**
+ * The broadcast is over (encoder gone for good or ended by the creator).
+ * Recorded broadcasts are converted to VOD in the background.
+ */
+export async function markStreamEnded(streamId: string): Promise<LiveStream | null> {
+  const { count } = await prisma.liveStream.updateMany({
+    where: { id: streamId, status: 'live' },
+    data: { status: 'ended', ended_at: new Date(), viewer_count: 0 },
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  await finalizeLiveOutput(streamId).catch((error) => {
+    logger.warn('Failed to finalize live playlist', { streamId, error });
+  });
+  await clearViewers(streamId).catch((error) => {
+    logger.warn('Failed to clear live viewers', { streamId, error });
+  });
+  await closeOpenPolls(streamId).catch((error) => {
+    logger.warn('Failed to close live polls', { streamId, error });
+  });
+
+  const stream = await prisma.liveStream.findUnique({ where: { id: streamId } });
+  if (stream) {
+    emitStreamStatus(stream);
+    if (stream.recording_status === 'recording') {
+      convertRecordingToVod(streamId).catch(() => {});
+    }
+  }
+  logger.info('Live stream ended', { streamId });
+  return stream;
+}
+
+/**
+ * Replace a stream's key. The old key stops working for new publishes.
+ */
+export async function rotateStreamKey(streamId: string): Promise<string> {
+  const streamKey = generateStreamKey();
+  await prisma.liveStream.update({
+    where: { id: streamId },
+    data: { stream_key: streamKey },
+  });
+  logger.info('Stream key rotated', { streamId });
+  return streamKey;
+}
+
+function emitStreamStatus(stream: LiveStream): void {
+  getSocketInstance()?.to(`stream:${stream.id}`).emit('stream-status', {
+    streamId: stream.id,
+    status: stream.status,
+    playbackUrl: getViewerPlaybackUrl(stream), // The room only holds viewers with access
+    startedAt: stream.started_at,
+    endedAt: stream.ended_at,
+  });
+}
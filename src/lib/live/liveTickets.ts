@@ -0,0 +1,556 @@
+/**
+ * Live Stream Tickets
+ * Pay-per-view live events. A ticketed stream can only be watched (socket
+ * room, playback URL, HLS output) and chatted in by ticket holders, its owner
+ * and its moderators. Tickets are bought through Razorpay or Stripe Checkout;
+ * the creator's share is credited to CreatorEarnings like tips, and taken
+ * back when a ticket is refunded because the event was cancelled.
+ *
+ * HLS output of ticketed streams is served with a signature over the
+ * stream's directory, carried from the playlist URL to every segment.
+ */
+
+import { LiveStream, LiveStreamTicket } from '@prisma/client';
+import { prisma } from '../prisma';
+import { env } from '../../config/env';
+import logger from '../logger';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../errors';
+import {
+  razorpay,
+  createPaymentOrder,
+  getPayment,
+  refundPayment as refundRazorpayPayment,
+  verifyPaymentSignature,
+} from '../razorpay';
+import { stripe, refundPayment as refundStripePayment } from '../stripe';
+import { signLocalMediaPath, verifyLocalMediaSignature } from '../playback/signing';
+import { createNotification } from '../notifications/service';
+import { getSocketInstance } from '../socket/emitDownloadEvents';
+import { LIVE_HLS_PREFIX } from './hlsPackager';
+import { ChatStream, findChatStream, getChatRole, hasStreamTicket } from './chatModeration';
+
+export const TICKET_PROVIDERS = ['razorpay', 'stripe'] as const;
+export type TicketProvider = (typeof TICKET_PROVIDERS)[number];
+
+// Same split as tips: 85% to the creator, 15% platform fee
+const CREATOR_SHARE = 0.85;
+
+// Signed playback URLs of ticketed streams last for a whole event
+const TICKETED_URL_TTL_SECONDS = 6 * 60 * 60;
+
+const TICKETED_CACHE_MS = 30_000;
+const ticketedCache = new Map<string, { ticketed: boolean; expiresAt: number }>();
+
+type PlaybackStream = Pick<LiveStream, 'id' | 'is_ticketed' | 'playback_url'>;
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function liveHlsPath(streamId: string): string {
+  return `${LIVE_HLS_PREFIX}/${streamId}`;
+}
+
+/**
+ * Whether the user may watch the stream: always for free streams; for
+ * ticketed ones the owner, moderators and ticket holders
+ */
+export async function hasStreamAccess(stream: ChatStream, userId?: string | null): Promise<boolean> {
+  if (!stream.is_ticketed) {
+    return true;
+  }
+  if (!userId) {
+    return false;
+  }
+  if ((await getChatRole(stream, userId)) !== 'viewer') {
+    return true;
+  }
+  return hasStreamTicket(stream.id, userId);
+}
+
+/**
+ * Whether a stream is ticketed, cached briefly for the HLS middleware
+ */
+export async function isTicketedStream(streamId: string): Promise<boolean> {
+  const cached = ticketedCache.get(streamId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.ticketed;
+  }
+
+  const stream = await prisma.liveStream.findUnique({
+    where: { id: streamId },
+    select: { is_ticketed: true },
+  });
+  const ticketed = stream?.is_ticketed ?? false;
+  ticketedCache.set(streamId, { ticketed, expiresAt: Date.now() + TICKETED_CACHE_MS });
+  return ticketed;
+}
+
+/**
+ * Query string (`expires=...&sig=...`) granting access to a ticketed
+ * stream's HLS output
+ */
+function signLiveHlsAccess(streamId: string): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + TICKETED_URL_TTL_SECONDS;
+  return signLocalMediaPath(liveHlsPath(streamId), expiresAt).split('?')[1];
+}
+
+export function verifyLiveHlsAccess(streamId: string, expires: string, signature: string): boolean {
+  return verifyLocalMediaSignature(liveHlsPath(streamId), expires, signature);
+}
+
+/**
+ * Playback URL to hand to a viewer who has access. Ticketed streams packaged
+ * by this server get a signed URL; external playback URLs are returned as is.
+ */
+export function getViewerPlaybackUrl(stream: PlaybackStream): string | null {
+  const url = stream.playback_url;
+  if (!url || !stream.is_ticketed || !url.startsWith(`${env.API_URL}${liveHlsPath(stream.id)}/`)) {
+    return url;
+  }
+  return `${url}?${signLiveHlsAccess(stream.id)}`;
+}
+
+export async function getTicket(streamId: string, userId: string): Promise<LiveStreamTicket | null> {
+  return prisma.liveStreamTicket.findUnique({
+    where: { stream_id_user_id: { stream_id: streamId, user_id: userId } },
+  });
+}
+
+/**
+ * Start buying a ticket. Returns what the client needs to complete payment:
+ * a Razorpay order for the checkout widget, or a Stripe Checkout URL.
+ */
+export async function createTicketCheckout(streamId: string, userId: string, provider: TicketProvider) {
+  const stream = await findChatStream(streamId);
+  if (!stream.is_ticketed || !stream.ticket_price || !stream.ticket_currency) {
+    throw new ValidationError('This stream does not need a ticket');
+  }
+  if (stream.status !== 'idle' && stream.status !== 'live') {
+    throw new ValidationError('Tickets are no longer on sale for this stream');
+  }
+  if ((await getChatRole(stream, userId)) !== 'viewer') {
+    throw new ValidationError('You can already watch this stream');
+  }
+
+  const existing = await getTicket(streamId, userId);
+  if (existing?.status === 'completed') {
+    throw new ConflictError('You already have a ticket for this stream');
+  }
+  if (existing?.status === 'refunded') {
+    throw new ValidationError('Your ticket for this stream was refunded');
+  }
+
+  const amount = Number(stream.ticket_price);
+  const currency = stream.ticket_currency;
+
+  // An unpaid Razorpay order for the same price can still be paid
+  if (
+    provider === 'razorpay' &&
+    existing?.status === 'pending' &&
+    existing.provider === 'razorpay' &&
+    existing.order_id &&
+    Number(existing.amount) === amount &&
+    existing.currency === currency
+  ) {
+    return {
+      ticketId: existing.id,
+      provider,
+      paymentOrder: {
+        orderId: existing.order_id,
+        amount: Math.round(amount * 100),
+        currency,
+        key: env.RAZORPAY_KEY_ID,
+      },
+    };
+  }
+
+  const pending = { amount, currency, provider, status: 'pending', order_id: null, payment_id: null };
+  const ticket = await prisma.liveStreamTicket.upsert({
+    where: { stream_id_user_id: { stream_id: streamId, user_id: userId } },
+    create: { stream_id: streamId, user_id: userId, ...pending },
+    update: pending,
+  });
+
+  if (provider === 'razorpay') {
+    if (!razorpay) {
+      throw new ValidationError('Razorpay is not configured');
+    }
+
+    const order = await createPaymentOrder(amount, currency, `lt_${ticket.id.replace(/-/g, '')}`, {
+      ticketId: ticket.id,
+      streamId,
+      userId,
+      type: 'live_ticket',
+    });
+    await prisma.liveStreamTicket.update({
+      where: { id: ticket.id },
+      data: { order_id: order.id },
+    });
+
+    return {
+      ticketId: ticket.id,
+      provider,
+      paymentOrder: {
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        key: env.RAZORPAY_KEY_ID, // Frontend needs this for Razorpay checkout
+      },
+    };
+  }
+
+  if (!stripe) {
+    throw new ValidationError('Stripe is not configured');
+  }
+
+  const metadata = { type: 'live_ticket', ticketId: ticket.id, streamId, userId };
+  const session = await stripe.checkout.sessions.create({
+    mode: 'payment',
+    payment_method_types: ['card'],
+    line_items: [
+      {
+        price_data: {
+          currency: currency.toLowerCase(),
+          unit_amount: Math.round(amount * 100),
+          product_data: { name: `Ticket: ${stream.title}` },
+        },
+        quantity: 1,
+      },
+    ],
+    success_url: `${env.FRONTEND_URL}/live/${streamId}?ticket_session={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${env.FRONTEND_URL}/live/${streamId}`,
+    metadata,
+    payment_intent_data: { metadata },
+  });
+  await prisma.liveStreamTicket.update({
+    where: { id: ticket.id },
+    data: { order_id: session.id },
+  });
+
+  return {
+    ticketId: ticket.id,
+    provider,
+    checkoutUrl: session.url,
+    sessionId: session.id,
+  };
+}
+
+/**
+ * Mark a ticket paid and credit the creator. Safe to call more than once
+ * (client confirmation and webhook); only the first call credits. Returns
+ * false if the ticket was already settled.
+ */
+async function completeTicket(ticketId: string, paymentId: string): Promise<boolean> {
+  const ticket = await prisma.liveStreamTicket.findUnique({
+    where: { id: ticketId },
+    include: { stream: { select: { title: true, status: true, creator_id: true } } },
+  });
+  if (!ticket) {
+    return false;
+  }
+
+  const creatorShare = roundAmount(Number(ticket.amount) * CREATOR_SHARE);
+  const completed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.liveStreamTicket.updateMany({
+      where: { id: ticketId, status: { in: ['pending', 'failed'] } },
+      data: { status: 'completed', payment_id: paymentId, creator_share: creatorShare },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.creatorEarnings.upsert({
+      where: { creator_id: ticket.stream.creator_id },
+      create: {
+        creator_id: ticket.stream.creator_id,
+        balance: creatorShare,
+        lifetime_earnings: creatorShare,
+      },
+      update: {
+        balance: { increment: creatorShare },
+        lifetime_earnings: { increment: creatorShare },
+      },
+    });
+    return true;
+  });
+  if (!completed) {
+    return false;
+  }
+
+  logger.info('Live stream ticket purchased', { ticketId, streamId: ticket.stream_id, userId: ticket.user_id });
+
+  // Paid after the event was cancelled
+  if (ticket.stream.status === 'cancelled') {
+    await refundTicket(ticketId).catch((error) => {
+      logger.error('Failed to refund ticket for cancelled stream', { ticketId, error });
+    });
+    return true;
+  }
+
+  getSocketInstance()?.to(`user:${ticket.user_id}`).emit('live-ticket-confirmed', {
+    streamId: ticket.stream_id,
+    ticketId,
+  });
+  return true;
+}
+
+/**
+ * Confirm a Razorpay checkout from the client
+ */
+export async function confirmRazorpayTicket(
+  streamId: string,
+  userId: string,
+  payment: { orderId: string; paymentId: string; signature: string }
+): Promise<LiveStreamTicket> {
+  const ticket = await getTicket(streamId, userId);
+  if (!ticket || ticket.provider !== 'razorpay' || ticket.order_id !== payment.orderId) {
+    throw new NotFoundError('Ticket order');
+  }
+
+  if (ticket.status === 'pending' || ticket.status === 'failed') {
+    if (!verifyPaymentSignature(payment.orderId, payment.paymentId, payment.signature)) {
+      throw new ValidationError('Invalid payment signature');
+    }
+
+    const details = await getPayment(payment.paymentId);
+    if (details.order_id !== payment.orderId || details.status !== 'captured') {
+      throw new ValidationError('Payment not captured');
+    }
+
+    await completeTicket(ticket.id, payment.paymentId);
+  }
+
+  return (await getTicket(streamId, userId))!;
+}
+
+/**
+ * Confirm a Stripe Checkout session after the buyer is redirected back
+ */
+export async function confirmStripeTicket(streamId: string, userId: string, sessionId: string): Promise<LiveStreamTicket> {
+  if (!stripe) {
+    throw new ValidationError('Stripe is not configured');
+  }
+
+  const ticket = await getTicket(streamId, userId);
+  if (!ticket || ticket.provider !== 'stripe') {
+    throw new NotFoundError('Ticket order');
+  }
+
+  if (ticket.status === 'pending' || ticket.status === 'failed') {
+    const session = await stripe.checkout.sessions.retrieve(sessionId);
+    if (session.metadata?.ticketId !== ticket.id || session.metadata?.userId !== userId) {
+      throw new ForbiddenError('Checkout session does not belong to this ticket');
+    }
+    if (session.payment_status !== 'paid') {
+      throw new ValidationError('Payment not completed');
+    }
+
+    await completeTicket(ticket.id, session.payment_intent as string);
+  }
+
+  return (await getTicket(streamId, userId))!;
+}
+
+/**
+ * Razorpay webhook: settle the ticket paid for by this order. Returns false
+ * if the order isn't a ticket.
+ */
+export async function handleRazorpayTicketPayment(orderId: string, paymentId: string): Promise<boolean> {
+  const ticket = await prisma.liveStreamTicket.findUnique({
+    where: { order_id: orderId },
+    select: { id: true },
+  });
+  if (!ticket) {
+    return false;
+  }
+  await completeTicket(ticket.id, paymentId);
+  return true;
+}
+
+/**
+ * Razorpay webhook: a ticket payment failed. Returns false if the order
+ * isn't a ticket.
+ */
+export async function handleRazorpayTicketFailure(orderId: string): Promise<boolean> {
+  const ticket = await prisma.liveStreamTicket.findUnique({
+    where: { order_id: orderId },
+    select: { id: true },
+  });
+  if (!ticket) {
+    return false;
+  }
+  await prisma.liveStreamTicket.updateMany({
+    where: { id: ticket.id, status: 'pending' },
+    data: { status: 'failed' },
+  });
+  return true;
+}
+
+/**
+ * Stripe webhook (checkout.session.completed). Returns false if the session
+ * isn't a ticket purchase.
+ */
+export async function handleStripeTicketCheckout(session: {
+  metadata?: Record<string, string> | null;
+  payment_status?: string;
+  payment_intent?: unknown;
+}): Promise<boolean> {
+  if (session.metadata?.type !== 'live_ticket' || !session.metadata.ticketId) {
+    return false;
+  }
+  if (session.payment_status === 'paid' && typeof session.payment_intent === 'string') {
+    await completeTicket(session.metadata.ticketId, session.payment_intent);
+  }
+  return true;
+}
+
+/**
+ * Refund a paid ticket and take the creator's share back. The ticket is
+ * claimed before the provider is called, so it can't be refunded twice.
+ */
+async function refundTicket(ticketId: string): Promise<void> {
+  const ticket = await prisma.liveStreamTicket.findUnique({
+    where: { id: ticketId },
+    include: { stream: { select: { creator_id: true } } },
+  });
+  if (!ticket || ticket.status !== 'completed' || !ticket.payment_id) {
+    return;
+  }
+
+  const claimed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.liveStreamTicket.updateMany({
+      where: { id: ticketId, status: 'completed' },
+      data: { status: 'refunded', refunded_at: new Date() },
+    });
+    if (count === 0) {
+      return false;
+    }
+    await tx.creatorEarnings.update({
+      where: { creator_id: ticket.stream.creator_id },
+      data: {
+        balance: { decrement: ticket.creator_share },
+        lifetime_earnings: { decrement: ticket.creator_share },
+      },
+    });
+    return true;
+  });
+  if (!claimed) {
+    return;
+  }
+
+  try {
+    if (ticket.provider === 'razorpay') {
+      await refundRazorpayPayment(ticket.payment_id, undefined, { ticketId, reason: 'live_event_cancelled' });
+    } else {
+      await refundStripePayment(ticket.payment_id);
+    }
+  } catch (error) {
+    // Put it back so the refund can be retried
+    await prisma.$transaction([
+      prisma.liveStreamTicket.update({
+        where: { id: ticketId },
+        data: { status: 'completed', refunded_at: null },
+      }),
+      prisma.creatorEarnings.update({
+        where: { creator_id: ticket.stream.creator_id },
+        data: {
+          balance: { increment: ticket.creator_share },
+          lifetime_earnings: { increment: ticket.creator_share },
+        },
+      }),
+    ]);
+    throw error;
+  }
+
+  logger.info('Live stream ticket refunded', { ticketId, streamId: ticket.stream_id, userId: ticket.user_id });
+}
+
+/**
+ * Cancel a stream that hasn't started (owner). Paid tickets are refunded and
+ * their holders notified. Calling it again retries refunds that failed.
+ */
+export async function cancelStream(streamId: string, userId: string): Promise<{ refunded: number; failed: number }> {
+  const stream = await findChatStream(streamId);
+  if ((await getChatRole(stream, userId)) !== 'owner') {
+    throw new ForbiddenError('Only the stream owner can cancel it');
+  }
+  if (stream.status !== 'idle' && stream.status !== 'cancelled') {
+    throw new ValidationError('Only streams that have not started can be cancelled');
+  }
+
+  if (stream.status !== 'cancelled') {
+    await prisma.liveStream.update({
+      where: { id: streamId },
+      data: { status: 'cancelled' },
+    });
+    ticketedCache.delete(streamId);
+    getSocketInstance()?.to(`stream:${streamId}`).emit('stream-status', { streamId, status: 'cancelled' });
+  }
+
+  // Unpaid checkouts can't complete into a usable ticket anymore
+  await prisma.liveStreamTicket.updateMany({
+    where: { stream_id: streamId, status: 'pending' },
+    data: { status: 'failed' },
+  });
+
+  const tickets = await prisma.liveStreamTicket.findMany({
+    where: { stream_id: streamId, status: 'completed' },
+    select: { id: true, user_id: true },
+  });
+
+  let refunded = 0;
+  let failed = 0;
+  for (const ticket of tickets) {
+    try {
+      await refundTicket(ticket.id);
+      refunded++;
+    } catch (error) {
+      failed++;
+      logger.error('Failed to refund live stream ticket', { ticketId: ticket.id, streamId, error });
+      continue;
+    }
+
+    await createNotification({
+      userId: ticket.user_id,
+      type: 'live',
+      title: `${stream.title} was cancelled`,
+      message: 'Your ticket has been refunded.',
+      link: `/live/${streamId}`,
+      metadata: { streamId, ticketId: ticket.id },
+    }).catch((error) => {
+      logger.warn('Failed to notify ticket holder of cancellation', { ticketId: ticket.id, error });
+    });
+  }
+
+  logger.info('Live stream cancelled', { streamId, refunded, failed });
+  return { refunded, failed };
+}
+
+/**
+ * Ticket sales of a stream (owner)
+ */
+export async function getTicketSales(streamId: string, userId: string) {
+  const stream = await findChatStream(streamId);
+  if ((await getChatRole(stream, userId)) !== 'owner') {
+    throw new ForbiddenError('Only the stream owner can see ticket sales');
+  }
+
+  const sales = await prisma.liveStreamTicket.groupBy({
+    by: ['status'],
+    where: { stream_id: streamId, status: { in: ['completed', 'refunded'] } },
+    _count: { _all: true },
+    _sum: { amount: true, creator_share: true },
+  });
+  const sold = sales.find((row) => row.status === 'completed');
+  const refunded = sales.find((row) => row.status === 'refunded');
+
+  return {
+    price: stream.ticket_price ? Number(stream.ticket_price) : null,
+    currency: stream.ticket_currency,
+    ticketsSold: sold?._count._all ?? 0,
+    grossRevenue: Number(sold?._sum.amount ?? 0),
+    creatorEarnings: Number(sold?._sum.creator_share ?? 0),
+    ticketsRefunded: refunded?._count._all ?? 0,
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Live-to-VOD
+ * Turns the recording of an ended broadcast into a regular Content item:
+ * the parts are joined (without re-encoding) into one MP4, uploaded and
+ * handed to the normal upload pipeline (transcoding, moderation, duplicate
+ * detection), with title, description, tags, category and thumbnail taken
+ * from the stream. Chat messages get their position in the VOD so they can
+ * be replayed alongside it. Recordings of ticketed streams are created
+ * private, for the creator to publish (or not) once the event is over.
+ *
+ * Runs on the ingest host, where the recording is. Progress is tracked in
+ * LiveStream.recording_status: recording -> processing -> ready/failed.
+ */
+
+import { createReadStream } from 'fs';
+import { stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { storage } from '../storage/storageService';
+import { probeMedia, runFfmpeg } from '../video/ffmpeg';
+import { withContentHash } from '../upload/fingerprint';
+import { createUploadedContent } from '../upload/contentCreation';
+import { getRecordingDir, readRecordingParts, removeRecording } from './liveRecorder';
+import { RecordingSegment, getRecordingDuration, getReplayOffset } from './recordingTimeline';
+
+export type RecordingStatus = 'recording' | 'processing' | 'ready' | 'failed';
+
+const CHAT_BATCH_SIZE = 1000;
+
+// Conversions running in this process
+const converting = new Set<string>();
+
+/**
+ * Convert an ended stream's recording. Returns the new content id, or null
+ * if there was nothing to convert or the conversion failed.
+ */
+export async function convertRecordingToVod(streamId: string): Promise<string | null> {
+  if (converting.has(streamId)) {
+    return null;
+  }
+  converting.add(streamId);
+
+  try {
+    const stream = await prisma.liveStream.findUnique({
+      where: { id: streamId },
+      include: { creator: true },
+    });
+    if (!stream || !stream.is_recorded || stream.status !== 'ended' || stream.vod_content_id) {
+      return null;
+    }
+
+    await setRecordingStatus(streamId, 'processing');
+
+    const segments = await probeRecording(streamId);
+    if (segments.length === 0) {
+      logger.warn('Live recording has no media', { streamId });
+      await setRecordingStatus(streamId, 'failed');
+      return null;
+    }
+
+    const dir = getRecordingDir(streamId);
+    const output = join(dir, 'recording.mp4');
+    const list = join(dir, 'concat.txt');
+    await writeFile(list, segments.map((segment) => `file '${segment.file}'`).join('\n'));
+    await runFfmpeg(['-f', 'concat', '-safe', '0', '-i', list, '-c', 'copy', '-movflags', '+faststart', output]);
+
+    const { size } = await stat(output);
+    const hashed = withContentHash(createReadStream(output));
+    const uploaded = await storage.uploadVideo(hashed.body, `${streamId}.mp4`, 'temp-videos', size);
+    const mediaUrl = uploaded.cdnUrl || uploaded.url;
+
+    const { content } = await createUploadedContent({
+      userId: stream.creator.user_id,
+      creator: stream.creator,
+      metadata: {
+        title: stream.title,
+        description: stream.description ?? undefined,
+        type: 'video',
+        isPublic: !stream.is_ticketed, // A paid event isn't free to everyone once it ends
+        isNSFW: false,
+        ageRestricted: false,
+        allowComments: true,
+        allowDownloads: false,
+        isPremium: false,
+        tags: stream.tags,
+        categories: stream.category ? [stream.category] : [],
+      },
+      media: { url: mediaUrl, sha256: hashed.digest(), mimetype: 'video/mp4', size },
+      thumbnailUrl: stream.thumbnail_url,
+      hasThumbnail: !!stream.thumbnail_url,
+    });
+
+    await attachChatReplay(streamId, segments);
+    await prisma.liveStream.update({
+      where: { id: streamId },
+      data: { vod_content_id: content.id, recording_url: mediaUrl, recording_status: 'ready' },
+    });
+    await removeRecording(streamId);
+
+    logger.info('Live recording converted to VOD', {
+      streamId,
+      contentId: content.id,
+      duration: getRecordingDuration(segments),
+    });
+    return content.id;
+  } catch (error) {
+    // The recording stays on disk so the conversion can be retried
+    logger.error('Live-to-VOD conversion failed', {
+      streamId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await setRecordingStatus(streamId, 'failed').catch(() => {});
+    return null;
+  } finally {
+    converting.delete(streamId);
+  }
+}
+
+/**
+ * Convert recordings left behind by a restart (ended, but never converted)
+ */
+export async function resumeRecordingConversions(): Promise<void> {
+  const streams = await prisma.liveStream.findMany({
+    where: {
+      status: 'ended',
+      is_recorded: true,
+      vod_content_id: null,
+      recording_status: { in: ['recording', 'processing'] },
+    },
+    select: { id: true },
+  });
+
+  for (const stream of streams) {
+    await convertRecordingToVod(stream.id);
+  }
+}
+
+async function setRecordingStatus(streamId: string, status: RecordingStatus): Promise<void> {
+  await prisma.liveStream.update({
+    where: { id: streamId },
+    data: { recording_status: status },
+  });
+}
+
+/**
+ * Recorded parts with their real durations. Parts without media (an encoder
+ * that connected and dropped straight away) are skipped.
+ */
+async function probeRecording(streamId: string): Promise<Array<RecordingSegment & { file: string }>> {
+  const dir = getRecordingDir(streamId);
+  const segments: Array<RecordingSegment & { file: string }> = [];
+
+  for (const part of await readRecordingParts(streamId)) {
+    try {
+      const probe = await probeMedia(join(dir, part.file));
+      if (probe.duration > 0 && probe.video) {
+        segments.push({ file: part.file, startedAt: new Date(part.startedAt), duration: probe.duration });
+      }
+    } catch (error) {
+      logger.warn('Skipping unreadable recording part', { streamId, file: part.file, error });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Store each chat message's position in the VOD
+ */
+async function attachChatReplay(streamId: string, segments: RecordingSegment[]): Promise<void> {
+  let cursor: string | undefined;
+
+  for (;;) {
+    const messages = await prisma.liveChatMessage.findMany({
+      where: { stream_id: streamId },
+      select: { id: true, timestamp: true },
+      orderBy: { id: 'asc' },
+      take: CHAT_BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+    if (messages.length === 0) {
+      return;
+    }
+
+    const ids = messages.map((message) => message.id);
+    const offsets = messages.map((message) => getReplayOffset(message.timestamp, segments));
+    await prisma.$executeRaw`
+      UPDATE live_chat_messages AS m
+      SET replay_offset_ms = v.offset_ms
+      FROM unnest(${ids}::uuid[], ${offsets}::int[]) AS v(id, offset_ms)
+      WHERE m.id = v.id
+    `;
+
+    cursor = ids[ids.length - 1];
+  }
+}
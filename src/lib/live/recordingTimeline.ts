@@ -0,0 +1,43 @@
+/**
+ * Recording Timeline
+ * A broadcast is recorded in one part per encoder connection; the VOD is the
+ * parts back to back, without the gaps between them. This maps wall-clock
+ * times during the broadcast (chat messages) to positions in the VOD.
+ */
+
+export interface RecordingSegment {
+  startedAt: Date;
+  duration: number; // seconds
+}
+
+/**
+ * Milliseconds into the recording at which something that happened at `at`
+ * should be replayed. Times before the recording map to 0, times in a gap to
+ * the start of the next part and times after it to its end.
+ */
+export function getReplayOffset(at: Date, segments: RecordingSegment[]): number {
+  const time = at.getTime();
+  let offset = 0;
+
+  for (const segment of segments) {
+    const start = segment.startedAt.getTime();
+    const length = Math.round(segment.duration * 1000);
+
+    if (time < start) {
+      return offset;
+    }
+    if (time < start + length) {
+      return offset + (time - start);
+    }
+    offset += length;
+  }
+
+  return offset;
+}
+
+/**
+ * Total length of the recording in seconds
+ */
+export function getRecordingDuration(segments: RecordingSegment[]): number {
+  return segments.reduce((total, segment) => total + segment.duration, 0);
+}
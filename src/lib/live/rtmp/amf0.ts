@@ -0,0 +1,203 @@
+/**
+ * AMF0
+ * Encoder/decoder for the Action Message Format used by RTMP commands
+ * (connect, publish, onStatus, ...) and stream metadata.
+ */
+
+export type AmfValue =
+  | number
+  | boolean
+  | string
+  | null
+  | undefined
+  | Date
+  | AmfValue[]
+  | { [key: string]: AmfValue };
+
+enum Marker {
+  Number = 0x00,
+  Boolean = 0x01,
+  String = 0x02,
+  Object = 0x03,
+  Null = 0x05,
+  Undefined = 0x06,
+  EcmaArray = 0x08,
+  ObjectEnd = 0x09,
+  StrictArray = 0x0a,
+  Date = 0x0b,
+  LongString = 0x0c,
+}
+
+const MAX_DEPTH = 32; // nested objects accepted from a client
+
+export class AmfDecodeError extends Error {
+  constructor(message: string) {
+    super(`Malformed AMF0: ${message}`);
+    this.name = 'AmfDecodeError';
+  }
+}
+
+/**
+ * Decode one value starting at `offset`. Returns the value and the offset after it.
+ */
+export function decodeAmf0Value(buffer: Buffer, offset = 0, depth = 0): { value: AmfValue; offset: number } {
+  if (depth > MAX_DEPTH) {
+    throw new AmfDecodeError('nested too deeply');
+  }
+  need(buffer, offset, 1);
+  const marker = buffer[offset++];
+
+  switch (marker) {
+    case Marker.Number:
+      need(buffer, offset, 8);
+      return { value: buffer.readDoubleBE(offset), offset: offset + 8 };
+
+    case Marker.Boolean:
+      need(buffer, offset, 1);
+      return { value: buffer[offset] !== 0, offset: offset + 1 };
+
+    case Marker.String:
+      return readString(buffer, offset, 2);
+
+    case Marker.LongString:
+      return readString(buffer, offset, 4);
+
+    case Marker.Null:
+      return { value: null, offset };
+
+    case Marker.Undefined:
+      return { value: undefined, offset };
+
+    case Marker.EcmaArray:
+      // The count is only a hint; entries end with an object end marker like objects
+      need(buffer, offset, 4);
+      return readProperties(buffer, offset + 4, depth);
+
+    case Marker.Object:
+      return readProperties(buffer, offset, depth);
+
+    case Marker.StrictArray: {
+      need(buffer, offset, 4);
+      const count = buffer.readUInt32BE(offset);
+      offset += 4;
+      const items: AmfValue[] = [];
+      for (let i = 0; i < count; i++) {
+        const item = decodeAmf0Value(buffer, offset, depth + 1);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+
+    case Marker.Date:
+      need(buffer, offset, 10);
+      // Followed by a time zone that is always 0 and ignored
+      return { value: new Date(buffer.readDoubleBE(offset)), offset: offset + 10 };
+
+    default:
+      throw new AmfDecodeError(`unsupported marker 0x${marker.toString(16)}`);
+  }
+}
+
+/**
+ * Decode every value in a buffer (a command is a sequence of values)
+ */
+export function decodeAmf0(buffer: Buffer): AmfValue[] {
+  const values: AmfValue[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const result = decodeAmf0Value(buffer, offset);
+    values.push(result.value);
+    offset = result.offset;
+  }
+  return values;
+}
+
+/**
+ * Encode values back to back
+ */
+export function encodeAmf0(...values: AmfValue[]): Buffer {
+  const parts: Buffer[] = [];
+  values.forEach((value) => writeValue(value, parts));
+  return Buffer.concat(parts);
+}
+
+function writeValue(value: AmfValue, parts: Buffer[]): void {
+  if (value === null) {
+    parts.push(Buffer.from([Marker.Null]));
+  } else if (value === undefined) {
+    parts.push(Buffer.from([Marker.Undefined]));
+  } else if (typeof value === 'number') {
+    const buffer = Buffer.alloc(9);
+    buffer[0] = Marker.Number;
+    buffer.writeDoubleBE(value, 1);
+    parts.push(buffer);
+  } else if (typeof value === 'boolean') {
+    parts.push(Buffer.from([Marker.Boolean, value ? 1 : 0]));
+  } else if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    const long = bytes.length > 0xffff;
+    const header = Buffer.alloc(long ? 5 : 3);
+    header[0] = long ? Marker.LongString : Marker.String;
+    if (long) {
+      header.writeUInt32BE(bytes.length, 1);
+    } else {
+      header.writeUInt16BE(bytes.length, 1);
+    }
+    parts.push(header, bytes);
+  } else if (value instanceof Date) {
+    const buffer = Buffer.alloc(11);
+    buffer[0] = Marker.Date;
+    buffer.writeDoubleBE(value.getTime(), 1);
+    parts.push(buffer);
+  } else if (Array.isArray(value)) {
+    const header = Buffer.alloc(5);
+    header[0] = Marker.StrictArray;
+    header.writeUInt32BE(value.length, 1);
+    parts.push(header);
+    value.forEach((item) => writeValue(item, parts));
+  } else {
+    parts.push(Buffer.from([Marker.Object]));
+    for (const [key, item] of Object.entries(value)) {
+      const name = Buffer.from(key, 'utf8');
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(name.length);
+      parts.push(length, name);
+      writeValue(item, parts);
+    }
+    parts.push(Buffer.from([0x00, 0x00, Marker.ObjectEnd]));
+  }
+}
+
+function readString(buffer: Buffer, offset: number, lengthBytes: 2 | 4): { value: string; offset: number } {
+  need(buffer, offset, lengthBytes);
+  const length = lengthBytes === 2 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset);
+  offset += lengthBytes;
+  need(buffer, offset, length);
+  return { value: buffer.toString('utf8', offset, offset + length), offset: offset + length };
+}
+
+function readProperties(buffer: Buffer, offset: number, depth: number): { value: AmfValue; offset: number } {
+  const object: { [key: string]: AmfValue } = {};
+
+  for (;;) {
+    const key = readString(buffer, offset, 2);
+    offset = key.offset;
+    if (key.value === '') {
+      need(buffer, offset, 1);
+      if (buffer[offset] === Marker.ObjectEnd) {
+        return { value: object, offset: offset + 1 };
+      }
+    }
+
+    const item = decodeAmf0Value(buffer, offset, depth + 1);
+    object[key.value] = item.value;
+    offset = item.offset;
+  }
+}
+
+function need(buffer: Buffer, offset: number, length: number): void {
+  if (offset + length > buffer.length) {
+    throw new AmfDecodeError('unexpected end of data');
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * FLV
+ * RTMP audio/video/data messages map one to one onto FLV tags, which is how
+ * a published stream is handed to ffmpeg for packaging.
+ */
+
+export const FLV_TAG_AUDIO = 8;
+export const FLV_TAG_VIDEO = 9;
+export const FLV_TAG_SCRIPT = 18;
+
+export type FlvTagType = typeof FLV_TAG_AUDIO | typeof FLV_TAG_VIDEO | typeof FLV_TAG_SCRIPT;
+
+/**
+ * File header (audio + video) followed by the first PreviousTagSize (0)
+ */
+export function createFlvHeader(): Buffer {
+  return Buffer.from([0x46, 0x4c, 0x56, 0x01, 0x05, 0x00, 0x00, 0x00, 0x09, 0x00, 0x00, 0x00, 0x00]);
+}
+
+/**
+ * One tag plus its trailing PreviousTagSize. Timestamps are milliseconds.
+ */
+export function createFlvTag(type: FlvTagType, timestamp: number, data: Buffer): Buffer {
+  const tag = Buffer.alloc(11 + data.length + 4);
+  tag[0] = type;
+  tag.writeUIntBE(data.length, 1, 3);
+  tag.writeUIntBE(timestamp & 0xffffff, 4, 3);
+  tag[7] = (timestamp >>> 24) & 0xff; // upper 8 bits of the 32-bit timestamp
+  // Stream id (3 bytes) is always 0
+  data.copy(tag, 11);
+  tag.writeUInt32BE(11 + data.length, 11 + data.length);
+  return tag;
+}
@@ -0,0 +1,84 @@
+/**
+ * RTMP Handshake
+ * Builds the server side (S0 + S1 + S2) of the handshake from the client's C1.
+ *
+ * Encoders that use the "complex" Flash Player handshake (OBS, librtmp builds
+ * with crypto) embed an HMAC digest in C1 and reject servers that don't answer
+ * with matching digests. Clients without a digest get the simple handshake,
+ * where S1 and S2 echo C1.
+ */
+
+import crypto from 'crypto';
+
+export const HANDSHAKE_SIZE = 1536;
+export const RTMP_VERSION = 3;
+
+const DIGEST_LENGTH = 32;
+
+const GENUINE_FMS_KEY = Buffer.from('Genuine Adobe Flash Media Server 001', 'utf8');
+const GENUINE_FP_KEY = Buffer.from('Genuine Adobe Flash Player 001', 'utf8');
+const RANDOM_CRUD = Buffer.from([
+  0xf0, 0xee, 0xc2, 0x4a, 0x80, 0x68, 0xbe, 0xe8, 0x2e, 0x00, 0xd0, 0xd1, 0x02, 0x9e, 0x7e, 0x57,
+  0x6e, 0xec, 0x5d, 0x2d, 0x29, 0x80, 0x6f, 0xab, 0x93, 0xb8, 0xe6, 0x36, 0xcf, 0xeb, 0x31, 0xae,
+]);
+const GENUINE_FMS_KEY_CRUD = Buffer.concat([GENUINE_FMS_KEY, RANDOM_CRUD]);
+
+// Where the digest sits in a 1536 byte block: two known schemes
+type DigestScheme = 'scheme0' | 'scheme1';
+
+function hmac(data: Buffer, key: Buffer): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function digestOffset(block: Buffer, scheme: DigestScheme): number {
+  const base = scheme === 'scheme0' ? 8 : 772;
+  const sum = block[base] + block[base + 1] + block[base + 2] + block[base + 3];
+  return (sum % 728) + base + 4;
+}
+
+function digestOf(block: Buffer, offset: number, key: Buffer): Buffer {
+  const message = Buffer.concat([block.subarray(0, offset), block.subarray(offset + DIGEST_LENGTH)]);
+  return hmac(message, key);
+}
+
+/**
+ * Which digest scheme the client used in C1, or null for a simple handshake
+ */
+export function detectDigestScheme(c1: Buffer): DigestScheme | null {
+  for (const scheme of ['scheme1', 'scheme0'] as DigestScheme[]) {
+    const offset = digestOffset(c1, scheme);
+    const digest = digestOf(c1, offset, GENUINE_FP_KEY);
+    if (digest.equals(c1.subarray(offset, offset + DIGEST_LENGTH))) {
+      return scheme;
+    }
+  }
+  return null;
+}
+
+/**
+ * S0 + S1 + S2 in reply to C1
+ */
+export function createServerHandshake(c1: Buffer): Buffer {
+  if (c1.length !== HANDSHAKE_SIZE) {
+    throw new Error(`C1 must be ${HANDSHAKE_SIZE} bytes`);
+  }
+
+  const s0 = Buffer.from([RTMP_VERSION]);
+  const scheme = detectDigestScheme(c1);
+  if (!scheme) {
+    return Buffer.concat([s0, c1, c1]);
+  }
+
+  // S1: time (0), server version, random bytes carrying our digest
+  const s1 = Buffer.concat([Buffer.from([0, 0, 0, 0, 1, 2, 3, 4]), crypto.randomBytes(HANDSHAKE_SIZE - 8)]);
+  const s1Offset = digestOffset(s1, scheme);
+  digestOf(s1, s1Offset, GENUINE_FMS_KEY).copy(s1, s1Offset);
+
+  // S2: random bytes signed with a key derived from the client's digest
+  const c1Offset = digestOffset(c1, scheme);
+  const challengeKey = hmac(c1.subarray(c1Offset, c1Offset + DIGEST_LENGTH), GENUINE_FMS_KEY_CRUD);
+  const s2Random = crypto.randomBytes(HANDSHAKE_SIZE - DIGEST_LENGTH);
+  const s2 = Buffer.concat([s2Random, hmac(s2Random, challengeKey)]);
+
+  return Buffer.concat([s0, s1, s2]);
+}
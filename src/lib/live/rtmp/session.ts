@@ -0,0 +1,514 @@
+/**
+ * RTMP Session
+ * One encoder connection: handshake, chunk stream parsing and the handful of
+ * NetConnection/NetStream commands an encoder needs to publish (connect,
+ * createStream, publish, deleteStream). Playback is not supported; viewers
+ * watch the HLS output.
+ *
+ * Business decisions (who may publish, where media goes) are left to the
+ * handlers passed in by the ingest server.
+ */
+
+import { Socket } from 'net';
+import { AmfValue, decodeAmf0, decodeAmf0Value, encodeAmf0 } from './amf0';
+import { HANDSHAKE_SIZE, RTMP_VERSION, createServerHandshake } from './handshake';
+import { FLV_TAG_AUDIO, FLV_TAG_SCRIPT, FLV_TAG_VIDEO, FlvTagType } from './flv';
+
+export interface RtmpSessionHandlers {
+  /** Decide whether `streamName` may publish to `app`. Resolves false to reject. */
+  onPublish(session: RtmpSession, app: string, streamName: string): Promise<boolean>;
+  /** Audio, video or metadata of an accepted publish. Return false to apply backpressure. */
+  onMedia(session: RtmpSession, type: FlvTagType, timestamp: number, data: Buffer): boolean;
+  /** The publish stopped (unpublish command or disconnect) */
+  onUnpublish(session: RtmpSession): void;
+}
+
+export class RtmpProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RtmpProtocolError';
+  }
+}
+
+// Message type ids
+const SET_CHUNK_SIZE = 1;
+const ABORT = 2;
+const ACKNOWLEDGEMENT = 3;
+const USER_CONTROL = 4;
+const WINDOW_ACK_SIZE = 5;
+const SET_PEER_BANDWIDTH = 6;
+const AUDIO = 8;
+const VIDEO = 9;
+const DATA_AMF3 = 15;
+const COMMAND_AMF3 = 17;
+const DATA_AMF0 = 18;
+const COMMAND_AMF0 = 20;
+
+// User control events
+const STREAM_BEGIN = 0;
+const PING_REQUEST = 6;
+const PING_RESPONSE = 7;
+
+// Chunk stream ids used for what we send
+const CSID_PROTOCOL = 2;
+const CSID_COMMAND = 3;
+
+const PUBLISH_STREAM_ID = 1;
+const OUT_CHUNK_SIZE = 4096;
+const WINDOW_SIZE = 5_000_000;
+const MAX_CHUNK_SIZE = 0xffffff;
+const MAX_PENDING_BYTES = 16 * 1024 * 1024; // partially received messages across chunk streams
+const IDLE_TIMEOUT_MS = 30_000;
+
+interface ChunkStreamState {
+  timestamp: number;
+  delta: number;
+  length: number;
+  typeId: number;
+  streamId: number;
+  extended: boolean;
+  parts: Buffer[];
+  received: number;
+}
+
+type SessionState = 'handshake' | 'awaiting-c2' | 'open' | 'closed';
+
+export class RtmpSession {
+  readonly remoteAddress: string;
+  app: string | null = null;
+  streamName: string | null = null;
+  publishing = false;
+
+  private state: SessionState = 'handshake';
+  private buffer = Buffer.alloc(0);
+  private chunkStreams = new Map<number, ChunkStreamState>();
+  private pendingBytes = 0;
+  private inChunkSize = 128;
+  private outChunkSize = 128;
+  private ackWindow = 0;
+  private bytesReceived = 0;
+  private lastAck = 0;
+  private publishRequested = false;
+
+  constructor(
+    private socket: Socket,
+    private handlers: RtmpSessionHandlers
+  ) {
+    this.remoteAddress = socket.remoteAddress || 'unknown';
+
+    socket.setNoDelay(true);
+    socket.setTimeout(IDLE_TIMEOUT_MS);
+    socket.on('timeout', () => this.disconnect());
+    socket.on('data', (data: Buffer) => this.receive(data));
+    socket.on('error', () => this.disconnect());
+    socket.on('close', () => this.closed());
+  }
+
+  /**
+   * Drop the connection (and with it the publish)
+   */
+  disconnect(): void {
+    if (this.state !== 'closed') {
+      this.socket.destroy();
+    }
+  }
+
+  pause(): void {
+    this.socket.pause();
+  }
+
+  resume(): void {
+    this.socket.resume();
+  }
+
+  private receive(data: Buffer): void {
+    if (this.state === 'closed') {
+      return;
+    }
+
+    this.bytesReceived += data.length;
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, data]) : data;
+
+    try {
+      this.process();
+      this.acknowledge();
+    } catch (error) {
+      // Malformed input from the encoder; there is no way to resync a chunk stream
+      this.disconnect();
+    }
+  }
+
+  private process(): void {
+    if (this.state === 'handshake') {
+      if (this.buffer.length < 1 + HANDSHAKE_SIZE) {
+        return;
+      }
+      if (this.buffer[0] !== RTMP_VERSION) {
+        throw new RtmpProtocolError(`Unsupported RTMP version ${this.buffer[0]}`);
+      }
+      const c1 = this.buffer.subarray(1, 1 + HANDSHAKE_SIZE);
+      this.socket.write(createServerHandshake(Buffer.from(c1)));
+      this.buffer = this.buffer.subarray(1 + HANDSHAKE_SIZE);
+      this.state = 'awaiting-c2';
+    }
+
+    if (this.state === 'awaiting-c2') {
+      if (this.buffer.length < HANDSHAKE_SIZE) {
+        return;
+      }
+      // C2 echoes S1; nothing in it we need to check
+      this.buffer = this.buffer.subarray(HANDSHAKE_SIZE);
+      this.state = 'open';
+    }
+
+    while (this.state === 'open' && this.readChunk()) {
+      // keep reading complete chunks
+    }
+  }
+
+  /**
+   * Read one chunk from the buffer. Returns false when it isn't complete yet;
+   * state is only updated once the whole chunk is available.
+   */
+  private readChunk(): boolean {
+    const buffer = this.buffer;
+    if (buffer.length < 1) {
+      return false;
+    }
+
+    const fmt = buffer[0] >> 6;
+    let csid = buffer[0] & 0x3f;
+    let offset = 1;
+    if (csid === 0) {
+      if (buffer.length < 2) return false;
+      csid = 64 + buffer[1];
+      offset = 2;
+    } else if (csid === 1) {
+      if (buffer.length < 3) return false;
+      csid = 64 + buffer[1] + buffer[2] * 256;
+      offset = 3;
+    }
+
+    const headerSize = [11, 7, 3, 0][fmt];
+    if (buffer.length < offset + headerSize) {
+      return false;
+    }
+
+    const previous = this.chunkStreams.get(csid);
+    if (fmt !== 0 && !previous) {
+      throw new RtmpProtocolError(`Chunk stream ${csid} started without a full header`);
+    }
+    if (fmt !== 3 && previous && previous.received > 0) {
+      throw new RtmpProtocolError(`New message header in the middle of a message on chunk stream ${csid}`);
+    }
+
+    const timestampField = fmt <= 2 ? buffer.readUIntBE(offset, 3) : 0;
+    const length = fmt <= 1 ? buffer.readUIntBE(offset + 3, 3) : previous!.length;
+    const typeId = fmt <= 1 ? buffer[offset + 6] : previous!.typeId;
+    const streamId = fmt === 0 ? buffer.readUInt32LE(offset + 7) : previous!.streamId;
+    offset += headerSize;
+
+    const extended = fmt <= 2 ? timestampField === 0xffffff : previous!.extended;
+    let timestampValue = timestampField;
+    if (extended) {
+      if (buffer.length < offset + 4) return false;
+      timestampValue = buffer.readUInt32BE(offset);
+      offset += 4;
+    }
+
+    const received = previous && fmt === 3 ? previous.received : 0;
+    const size = Math.min(this.inChunkSize, length - received);
+    if (buffer.length < offset + size) {
+      return false;
+    }
+
+    // The whole chunk is here: update chunk stream state
+    let state = previous;
+    if (!state) {
+      state = { timestamp: 0, delta: 0, length, typeId, streamId, extended, parts: [], received: 0 };
+      this.chunkStreams.set(csid, state);
+    }
+
+    if (received === 0) {
+      if (fmt === 0) {
+        state.timestamp = timestampValue;
+        state.delta = timestampValue;
+      } else if (fmt === 1 || fmt === 2) {
+        state.delta = timestampValue;
+        state.timestamp = (state.timestamp + timestampValue) >>> 0;
+      } else {
+        state.timestamp = (state.timestamp + state.delta) >>> 0;
+      }
+      state.length = length;
+      state.typeId = typeId;
+      state.streamId = streamId;
+      state.extended = extended;
+
+      if (this.pendingBytes + length > MAX_PENDING_BYTES) {
+        throw new RtmpProtocolError('Message too large');
+      }
+      this.pendingBytes += length;
+    }
+
+    state.parts.push(Buffer.from(buffer.subarray(offset, offset + size)));
+    state.received += size;
+    this.buffer = buffer.subarray(offset + size);
+
+    if (state.received >= state.length) {
+      const payload = Buffer.concat(state.parts);
+      this.pendingBytes -= state.length;
+      state.parts = [];
+      state.received = 0;
+      this.handleMessage(state.typeId, state.streamId, state.timestamp, payload);
+    }
+
+    return true;
+  }
+
+  private handleMessage(typeId: number, streamId: number, timestamp: number, payload: Buffer): void {
+    switch (typeId) {
+      case SET_CHUNK_SIZE: {
+        const size = payload.readUInt32BE(0) & 0x7fffffff;
+        if (size < 1 || size > MAX_CHUNK_SIZE) {
+          throw new RtmpProtocolError(`Invalid chunk size ${size}`);
+        }
+        this.inChunkSize = size;
+        break;
+      }
+
+      case ABORT: {
+        const state = this.chunkStreams.get(payload.readUInt32BE(0));
+        if (state && state.received > 0) {
+          this.pendingBytes -= state.length;
+          state.parts = [];
+          state.received = 0;
+        }
+        break;
+      }
+
+      case WINDOW_ACK_SIZE:
+        this.ackWindow = payload.readUInt32BE(0);
+        break;
+
+      case USER_CONTROL:
+        if (payload.readUInt16BE(0) === PING_REQUEST) {
+          const response = Buffer.alloc(6);
+          response.writeUInt16BE(PING_RESPONSE, 0);
+          payload.copy(response, 2, 2, 6);
+          this.sendMessage(CSID_PROTOCOL, USER_CONTROL, 0, response);
+        }
+        break;
+
+      case ACKNOWLEDGEMENT:
+      case SET_PEER_BANDWIDTH:
+        break;
+
+      case AUDIO:
+      case VIDEO:
+        if (this.publishing && streamId === PUBLISH_STREAM_ID) {
+          this.emitMedia(typeId === AUDIO ? FLV_TAG_AUDIO : FLV_TAG_VIDEO, timestamp, payload);
+        }
+        break;
+
+      case DATA_AMF0:
+      case DATA_AMF3:
+        this.handleData(typeId === DATA_AMF3 ? payload.subarray(1) : payload, timestamp);
+        break;
+
+      case COMMAND_AMF0:
+      case COMMAND_AMF3:
+        this.handleCommand(decodeAmf0(typeId === COMMAND_AMF3 ? payload.subarray(1) : payload));
+        break;
+
+      default:
+        // Shared objects, aggregates and anything else aren't used by encoders
+        break;
+    }
+  }
+
+  private handleData(payload: Buffer, timestamp: number): void {
+    if (!this.publishing || payload.length === 0) {
+      return;
+    }
+
+    // Encoders send "@setDataFrame", "onMetaData", {...}; FLV only wants the last two
+    const first = decodeAmf0Value(payload);
+    if (first.value === '@setDataFrame') {
+      this.emitMedia(FLV_TAG_SCRIPT, timestamp, payload.subarray(first.offset));
+    } else if (first.value === 'onMetaData') {
+      this.emitMedia(FLV_TAG_SCRIPT, timestamp, payload);
+    }
+  }
+
+  private emitMedia(type: FlvTagType, timestamp: number, data: Buffer): void {
+    if (!this.handlers.onMedia(this, type, timestamp, data)) {
+      this.pause();
+    }
+  }
+
+  private handleCommand(values: AmfValue[]): void {
+    const [name, transactionId = 0, , ...args] = values;
+    const txId = typeof transactionId === 'number' ? transactionId : 0;
+
+    switch (name) {
+      case 'connect': {
+        const command = (values[2] || {}) as Record<string, AmfValue>;
+        this.app = typeof command.app === 'string' ? command.app.replace(/\/+$/, '') : '';
+
+        this.sendWindowAckSize(WINDOW_SIZE);
+        this.sendPeerBandwidth(WINDOW_SIZE);
+        this.sendChunkSize(OUT_CHUNK_SIZE);
+        this.sendCommand(
+          0,
+          '_result',
+          txId,
+          { fmsVer: 'FMS/3,0,1,123', capabilities: 31 },
+          {
+            level: 'status',
+            code: 'NetConnection.Connect.Success',
+            description: 'Connection succeeded.',
+            objectEncoding: typeof command.objectEncoding === 'number' ? command.objectEncoding : 0,
+          }
+        );
+        break;
+      }
+
+      case 'createStream':
+        this.sendCommand(0, '_result', txId, null, PUBLISH_STREAM_ID);
+        break;
+
+      case 'publish':
+        this.publish(typeof args[0] === 'string' ? args[0] : '');
+        break;
+
+      case 'FCUnpublish':
+      case 'deleteStream':
+      case 'closeStream':
+        this.unpublish();
+        break;
+
+      case 'play':
+        this.sendStatus('error', 'NetStream.Play.Failed', 'Playback is not available over RTMP');
+        this.socket.end();
+        break;
+
+      default:
+        // releaseStream, FCPublish, getStreamLength, ... need no answer
+        break;
+    }
+  }
+
+  private publish(streamName: string): void {
+    if (this.publishRequested || this.app === null) {
+      this.sendStatus('error', 'NetStream.Publish.BadConnection', 'Already publishing');
+      return;
+    }
+
+    this.publishRequested = true;
+    this.streamName = streamName;
+
+    this.handlers
+      .onPublish(this, this.app, streamName)
+      .catch(() => false)
+      .then((accepted) => {
+        if (this.state === 'closed') {
+          // Gone while the publish was being set up
+          if (accepted) {
+            this.handlers.onUnpublish(this);
+          }
+          return;
+        }
+        if (!accepted) {
+          this.sendStatus('error', 'NetStream.Publish.BadName', 'Stream key rejected');
+          this.socket.end();
+          return;
+        }
+
+        this.publishing = true;
+        const streamBegin = Buffer.alloc(6);
+        streamBegin.writeUInt16BE(STREAM_BEGIN, 0);
+        streamBegin.writeUInt32BE(PUBLISH_STREAM_ID, 2);
+        this.sendMessage(CSID_PROTOCOL, USER_CONTROL, 0, streamBegin);
+        this.sendStatus('status', 'NetStream.Publish.Start', `${streamName} is now published.`);
+      });
+  }
+
+  private unpublish(): void {
+    if (this.publishing) {
+      this.publishing = false;
+      this.handlers.onUnpublish(this);
+    }
+  }
+
+  private closed(): void {
+    if (this.state === 'closed') {
+      return;
+    }
+    this.state = 'closed';
+    this.buffer = Buffer.alloc(0);
+    this.chunkStreams.clear();
+    this.unpublish();
+  }
+
+  private acknowledge(): void {
+    if (this.ackWindow > 0 && this.bytesReceived - this.lastAck >= this.ackWindow) {
+      this.lastAck = this.bytesReceived;
+      const payload = Buffer.alloc(4);
+      payload.writeUInt32BE(this.bytesReceived >>> 0);
+      this.sendMessage(CSID_PROTOCOL, ACKNOWLEDGEMENT, 0, payload);
+    }
+  }
+
+  private sendWindowAckSize(size: number): void {
+    const payload = Buffer.alloc(4);
+    payload.writeUInt32BE(size);
+    this.sendMessage(CSID_PROTOCOL, WINDOW_ACK_SIZE, 0, payload);
+  }
+
+  private sendPeerBandwidth(size: number): void {
+    const payload = Buffer.alloc(5);
+    payload.writeUInt32BE(size);
+    payload[4] = 2; // dynamic
+    this.sendMessage(CSID_PROTOCOL, SET_PEER_BANDWIDTH, 0, payload);
+  }
+
+  private sendChunkSize(size: number): void {
+    const payload = Buffer.alloc(4);
+    payload.writeUInt32BE(size);
+    this.sendMessage(CSID_PROTOCOL, SET_CHUNK_SIZE, 0, payload);
+    this.outChunkSize = size;
+  }
+
+  private sendStatus(level: 'status' | 'error', code: string, description: string): void {
+    this.sendCommand(PUBLISH_STREAM_ID, 'onStatus', 0, null, { level, code, description });
+  }
+
+  private sendCommand(streamId: number, ...values: AmfValue[]): void {
+    this.sendMessage(CSID_COMMAND, COMMAND_AMF0, streamId, encodeAmf0(...values));
+  }
+
+  /**
+   * Write a message as a type 0 chunk followed by type 3 continuation chunks
+   */
+  private sendMessage(csid: number, typeId: number, streamId: number, payload: Buffer): void {
+    if (this.state === 'closed') {
+      return;
+    }
+
+    const header = Buffer.alloc(12);
+    header[0] = csid; // fmt 0; our chunk stream ids fit the one byte form
+    header.writeUIntBE(0, 1, 3); // timestamp
+    header.writeUIntBE(payload.length, 4, 3);
+    header[7] = typeId;
+    header.writeUInt32LE(streamId, 8);
+
+    const chunks: Buffer[] = [header];
+    for (let offset = 0; offset < payload.length; offset += this.outChunkSize) {
+      if (offset > 0) {
+        chunks.push(Buffer.from([0xc0 | csid]));
+      }
+      chunks.push(payload.subarray(offset, offset + this.outChunkSize));
+    }
+    this.socket.write(Buffer.concat(chunks));
+  }
+}
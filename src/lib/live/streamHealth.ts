@@ -0,0 +1,206 @@
+/**
+ * Stream Health
+ * Measures a broadcast from the FLV tags the encoder sends: incoming bitrate,
+ * keyframe interval, frame rate, resolution and dropped frames (frames short
+ * of the rate the encoder declared in its metadata, which is what a
+ * struggling encoder or a congested uplink looks like from here). Samples are
+ * checked against the recommended encoder settings.
+ */
+
+import { AmfValue, decodeAmf0 } from './rtmp/amf0';
+import { FLV_TAG_SCRIPT, FLV_TAG_VIDEO, FlvTagType } from './rtmp/flv';
+
+// Segments are cut on keyframes (see hlsPackager), so long keyframe
+// intervals mean long segments and more latency
+export const MAX_KEYFRAME_INTERVAL_SECONDS = 2;
+export const MAX_DROPPED_FRAME_RATIO = 0.05;
+
+// Recommended video bitrate by output height, tallest first
+const BITRATE_RANGES = [
+  { minHeight: 1080, minKbps: 3000, maxKbps: 8000 },
+  { minHeight: 720, minKbps: 1500, maxKbps: 6000 },
+  { minHeight: 0, minKbps: 500, maxKbps: 3000 },
+] as const;
+
+export type StreamHealthWarningCode = 'bitrate-low' | 'bitrate-high' | 'keyframe-interval' | 'dropped-frames';
+
+export interface StreamHealthWarning {
+  code: StreamHealthWarningCode;
+  message: string;
+}
+
+export interface StreamHealthSample {
+  durationSeconds: number;
+  bitrateKbps: number;
+  keyframeIntervalSeconds: number | null; // Longest gap between keyframes in the sample
+  framerate: number | null;
+  droppedFrames: number | null; // Unknown unless the encoder declares its frame rate
+  width: number | null;
+  height: number | null;
+}
+
+export function getRecommendedBitrate(height: number | null): { minKbps: number; maxKbps: number } {
+  const range = BITRATE_RANGES.find((candidate) => (height ?? 0) >= candidate.minHeight)!;
+  return { minKbps: range.minKbps, maxKbps: range.maxKbps };
+}
+
+/**
+ * Whether a video tag holds a frame (not a codec sequence header), and
+ * whether it's a keyframe. Handles classic (AVC) and enhanced RTMP tags.
+ */
+function parseVideoTag(data: Buffer): { frame: boolean; keyframe: boolean } {
+  if (data.length < 2) {
+    return { frame: false, keyframe: false };
+  }
+  const enhanced = (data[0] & 0x80) !== 0;
+  const frameType = enhanced ? (data[0] >> 4) & 0x07 : data[0] >> 4;
+  const sequenceHeader = enhanced ? (data[0] & 0x0f) === 0 : (data[0] & 0x0f) === 7 && data[1] === 0;
+  if (sequenceHeader || frameType === 5) {
+    return { frame: false, keyframe: false }; // 5: command frame
+  }
+  return { frame: true, keyframe: frameType === 1 };
+}
+
+function readNumber(metadata: { [key: string]: AmfValue }, ...keys: string[]): number | null {
+  for (const key of keys) {
+    const value = metadata[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      return value;
+    }
+  }
+  return null;
+}
+
+export class StreamHealthMonitor {
+  private bytes = 0;
+  private frames = 0;
+  private windowStartedAt: number;
+  private lastKeyframeAt: number | null = null; // Media timestamp, ms
+  private lastFrameAt: number | null = null;
+  private longestKeyframeGap = 0;
+  private declaredFramerate: number | null = null;
+  private width: number | null = null;
+  private height: number | null = null;
+
+  constructor(now = Date.now()) {
+    this.windowStartedAt = now;
+  }
+
+  /**
+   * Count one tag from the encoder
+   */
+  record(type: FlvTagType, timestamp: number, data: Buffer): void {
+    if (type === FLV_TAG_SCRIPT) {
+      this.readMetadata(data);
+      return;
+    }
+
+    this.bytes += data.length;
+    if (type !== FLV_TAG_VIDEO) {
+      return;
+    }
+
+    const { frame, keyframe } = parseVideoTag(data);
+    if (!frame) {
+      return;
+    }
+    this.frames++;
+    this.lastFrameAt = timestamp;
+    if (keyframe) {
+      if (this.lastKeyframeAt !== null && timestamp > this.lastKeyframeAt) {
+        this.longestKeyframeGap = Math.max(this.longestKeyframeGap, timestamp - this.lastKeyframeAt);
+      }
+      this.lastKeyframeAt = timestamp;
+    }
+  }
+
+  /**
+   * Measurements since the last sample. Starts the next one.
+   */
+  takeSample(now = Date.now()): StreamHealthSample {
+    const seconds = Math.max((now - this.windowStartedAt) / 1000, 0.001);
+
+    // A keyframe that is overdue counts even before it arrives
+    const openGap =
+      this.lastKeyframeAt !== null && this.lastFrameAt !== null ? this.lastFrameAt - this.lastKeyframeAt : 0;
+    const keyframeGap = Math.max(this.longestKeyframeGap, openGap);
+
+    const sample: StreamHealthSample = {
+      durationSeconds: Math.round(seconds * 10) / 10,
+      bitrateKbps: Math.round((this.bytes * 8) / 1000 / seconds),
+      keyframeIntervalSeconds: this.lastKeyframeAt === null ? null : Math.round(keyframeGap / 100) / 10,
+      framerate: this.frames > 0 ? Math.round((this.frames / seconds) * 10) / 10 : null,
+      droppedFrames:
+        this.declaredFramerate === null
+          ? null
+          : Math.max(0, Math.round(this.declaredFramerate * seconds) - this.frames),
+      width: this.width,
+      height: this.height,
+    };
+
+    this.bytes = 0;
+    this.frames = 0;
+    this.longestKeyframeGap = 0;
+    this.windowStartedAt = now;
+    return sample;
+  }
+
+  private readMetadata(data: Buffer): void {
+    let values: AmfValue[];
+    try {
+      values = decodeAmf0(data);
+    } catch {
+      return; // Metadata is optional; a malformed one is ignored
+    }
+    const metadata = values.find(
+      (value): value is { [key: string]: AmfValue } =>
+        typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+    );
+    if (!metadata) {
+      return;
+    }
+
+    this.declaredFramerate = readNumber(metadata, 'framerate', 'fps') ?? this.declaredFramerate;
+    this.width = readNumber(metadata, 'width') ?? this.width;
+    this.height = readNumber(metadata, 'height') ?? this.height;
+  }
+}
+
+/**
+ * Settings in a sample that are outside the recommended ranges
+ */
+export function getHealthWarnings(sample: StreamHealthSample): StreamHealthWarning[] {
+  const warnings: StreamHealthWarning[] = [];
+  const { minKbps, maxKbps } = getRecommendedBitrate(sample.height);
+
+  if (sample.bitrateKbps < minKbps) {
+    warnings.push({
+      code: 'bitrate-low',
+      message: `Bitrate is ${sample.bitrateKbps} kbps; at least ${minKbps} kbps is recommended for this resolution`,
+    });
+  } else if (sample.bitrateKbps > maxKbps) {
+    warnings.push({
+      code: 'bitrate-high',
+      message: `Bitrate is ${sample.bitrateKbps} kbps; viewers may buffer above ${maxKbps} kbps at this resolution`,
+    });
+  }
+
+  if (sample.keyframeIntervalSeconds !== null && sample.keyframeIntervalSeconds > MAX_KEYFRAME_INTERVAL_SECONDS) {
+    warnings.push({
+      code: 'keyframe-interval',
+      message: `Keyframes are ${sample.keyframeIntervalSeconds}s apart; set your encoder's keyframe interval to 1-${MAX_KEYFRAME_INTERVAL_SECONDS} seconds`,
+    });
+  }
+
+  if (sample.droppedFrames) {
+    const expected = sample.droppedFrames + (sample.framerate ?? 0) * sample.durationSeconds;
+    if (sample.droppedFrames / expected > MAX_DROPPED_FRAME_RATIO) {
+      warnings.push({
+        code: 'dropped-frames',
+        message: `${sample.droppedFrames} frames were dropped; lower your bitrate or check your connection`,
+      });
+    }
+  }
+
+  return warnings;
+}
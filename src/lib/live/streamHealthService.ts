@@ -0,0 +1,199 @@
+/**
+ * Stream Health Telemetry
+ * While an encoder publishes, the ingest server feeds its tags to a
+ * StreamHealthTracker, which stores a health sample (with the viewer count)
+ * every SAMPLE_INTERVAL_MS and sends it to the creator's dashboard over the
+ * `stream-health:<streamId>` socket room. Settings outside the recommended
+ * ranges are pushed to the creator as warnings, each at most once per
+ * WARNING_REPEAT_MS.
+ */
+
+import { LiveStreamHealthSample } from '@prisma/client';
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { getSocketInstance } from '../socket/emitDownloadEvents';
+import { countViewers } from './viewerPresence';
+import { findChatStream, requireChatRole } from './chatModeration';
+import { FlvTagType } from './rtmp/flv';
+import {
+  MAX_DROPPED_FRAME_RATIO,
+  MAX_KEYFRAME_INTERVAL_SECONDS,
+  StreamHealthMonitor,
+  StreamHealthWarning,
+  StreamHealthWarningCode,
+  getHealthWarnings,
+  getRecommendedBitrate,
+} from './streamHealth';
+
+const SAMPLE_INTERVAL_MS = 10_000;
+const WARNING_REPEAT_MS = 5 * 60 * 1000;
+
+export const MAX_HEALTH_WINDOW_MINUTES = 24 * 60;
+
+export const healthRoom = (streamId: string) => `stream-health:${streamId}`;
+
+export interface StreamHealthPayload {
+  streamId: string;
+  sampledAt: string;
+  bitrateKbps: number;
+  keyframeIntervalSeconds: number | null;
+  framerate: number | null;
+  droppedFrames: number | null;
+  width: number | null;
+  height: number | null;
+  viewerCount: number;
+  warnings: string[];
+}
+
+function toPayload(sample: LiveStreamHealthSample): StreamHealthPayload {
+  return {
+    streamId: sample.stream_id,
+    sampledAt: sample.sampled_at.toISOString(),
+    bitrateKbps: sample.bitrate_kbps,
+    keyframeIntervalSeconds: sample.keyframe_interval_seconds,
+    framerate: sample.framerate,
+    droppedFrames: sample.dropped_frames,
+    width: sample.width,
+    height: sample.height,
+    viewerCount: sample.viewer_count,
+    warnings: sample.warnings,
+  };
+}
+
+export class StreamHealthTracker {
+  private readonly monitor = new StreamHealthMonitor();
+  private timer: NodeJS.Timeout | null = null;
+  private creatorUserId: string | null = null;
+  private warnedAt = new Map<StreamHealthWarningCode, number>();
+
+  constructor(private streamId: string) {}
+
+  async start(): Promise<void> {
+    const stream = await prisma.liveStream.findUnique({
+      where: { id: this.streamId },
+      select: { creator: { select: { user_id: true } } },
+    });
+    this.creatorUserId = stream?.creator.user_id ?? null;
+
+    this.timer = setInterval(() => {
+      this.sample().catch((error) => {
+        logger.warn('Failed to record stream health', { streamId: this.streamId, error });
+      });
+    }, SAMPLE_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  record(type: FlvTagType, timestamp: number, data: Buffer): void {
+    this.monitor.record(type, timestamp, data);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async sample(): Promise<void> {
+    const measured = this.monitor.takeSample();
+    const warnings = getHealthWarnings(measured);
+    const viewerCount = await countViewers(this.streamId);
+
+    const sample = await prisma.liveStreamHealthSample.create({
+      data: {
+        stream_id: this.streamId,
+        bitrate_kbps: measured.bitrateKbps,
+        keyframe_interval_seconds: measured.keyframeIntervalSeconds,
+        framerate: measured.framerate,
+        dropped_frames: measured.droppedFrames,
+        width: measured.width,
+        height: measured.height,
+        viewer_count: viewerCount,
+        warnings: warnings.map((warning) => warning.code),
+      },
+    });
+
+    const io = getSocketInstance();
+    io?.to(healthRoom(this.streamId)).emit('stream-health', toPayload(sample));
+
+    const fresh = this.takeFreshWarnings(warnings);
+    if (fresh.length > 0 && this.creatorUserId) {
+      io?.to(`user:${this.creatorUserId}`).emit('stream-health-warning', {
+        streamId: this.streamId,
+        warnings: fresh,
+      });
+      logger.info('Stream health warnings sent', {
+        streamId: this.streamId,
+        warnings: fresh.map((warning) => warning.code),
+      });
+    }
+  }
+
+  /**
+   * Warnings not sent within WARNING_REPEAT_MS. A warning that clears can
+   * come back right away.
+   */
+  private takeFreshWarnings(warnings: StreamHealthWarning[]): StreamHealthWarning[] {
+    const now = Date.now();
+    const codes = new Set(warnings.map((warning) => warning.code));
+    for (const code of this.warnedAt.keys()) {
+      if (!codes.has(code)) {
+        this.warnedAt.delete(code);
+      }
+    }
+
+    return warnings.filter((warning) => {
+      const last = this.warnedAt.get(warning.code);
+      if (last !== undefined && now - last < WARNING_REPEAT_MS) {
+        return false;
+      }
+      this.warnedAt.set(warning.code, now);
+      return true;
+    });
+  }
+}
+
+/**
+ * Only the stream's owner sees its health
+ */
+export async function requireHealthAccess(streamId: string, userId: string): Promise<void> {
+  const stream = await findChatStream(streamId);
+  await requireChatRole(stream, userId, 'owner');
+}
+
+/**
+ * Health samples of the last `minutes`, oldest first, with the recommended
+ * ranges to chart them against
+ */
+export async function getStreamHealth(streamId: string, userId: string, minutes = 30) {
+  await requireHealthAccess(streamId, userId);
+
+  const since = new Date(Date.now() - Math.min(minutes, MAX_HEALTH_WINDOW_MINUTES) * 60 * 1000);
+  const samples = await prisma.liveStreamHealthSample.findMany({
+    where: { stream_id: streamId, sampled_at: { gte: since } },
+    orderBy: { sampled_at: 'asc' },
+  });
+  const current = samples.length > 0 ? samples[samples.length - 1] : null;
+
+  return {
+    current: current ? toPayload(current) : null,
+    samples: samples.map(toPayload),
+    recommended: {
+      bitrateKbps: getRecommendedBitrate(current?.height ?? null),
+      maxKeyframeIntervalSeconds: MAX_KEYFRAME_INTERVAL_SECONDS,
+      maxDroppedFrameRatio: MAX_DROPPED_FRAME_RATIO,
+    },
+  };
+}
+
+/**
+ * The latest samples, for a dashboard that just subscribed
+ */
+export async function getRecentHealthSamples(streamId: string, limit = 30): Promise<StreamHealthPayload[]> {
+  const samples = await prisma.liveStreamHealthSample.findMany({
+    where: { stream_id: streamId },
+    orderBy: { sampled_at: 'desc' },
+    take: limit,
+  });
+  return samples.reverse().map(toPayload);
+}
@@ -0,0 +1,46 @@
+/**
+ * Tip Pin Tiers
+ * How long a tipped chat message stays pinned, by tip size. Tips come in
+ * whatever currency they were paid in (Razorpay charges INR, the API defaults
+ * to USD), so amounts are converted to rupees before a tier is picked and a
+ * $100 tip pins for longer than a ₹100 one.
+ */
+
+// Minimum amount in INR for each tier. Highest tier first.
+export const PIN_TIERS = [
+  { minAmount: 5000, seconds: 30 * 60 },
+  { minAmount: 2000, seconds: 15 * 60 },
+  { minAmount: 1000, seconds: 10 * 60 },
+  { minAmount: 500, seconds: 5 * 60 },
+  { minAmount: 100, seconds: 2 * 60 },
+  { minAmount: 0, seconds: 60 },
+] as const;
+
+// Rupees per unit of each currency. Approximate: only used to pick a tier.
+export const INR_RATES: Record<string, number> = {
+  INR: 1,
+  USD: 83,
+  EUR: 90,
+  GBP: 105,
+  CAD: 61,
+  AUD: 55,
+  SGD: 62,
+  AED: 22.6,
+};
+
+/**
+ * A tip amount in rupees, or null for a currency without a rate
+ */
+export function toInr(amount: number, currency: string): number | null {
+  const rate = INR_RATES[currency.toUpperCase()];
+  return rate === undefined ? null : amount * rate;
+}
+
+/**
+ * Pin time for a tip. Tips in a currency without a rate get the lowest tier.
+ */
+export function getPinDurationSeconds(amount: number, currency: string): number {
+  const inr = toInr(amount, currency) ?? 0;
+  const tier = PIN_TIERS.find((candidate) => inr >= candidate.minAmount);
+  return tier ? tier.seconds : 0;
+}
@@ -0,0 +1,244 @@
+/**
+ * Viewer Presence
+ * Who is watching which live stream, across all API instances. Each viewer is
+ * an entry in a Redis sorted set per stream, scored by its last heartbeat, and
+ * expires PRESENCE_TTL_MS after it. Socket viewers are refreshed by the
+ * instance they're connected to, so the viewers of an instance that dies
+ * expire on their own. Viewers registered over REST send their own heartbeats.
+ *
+ * Counts are always read from presence and written to live_streams in one
+ * statement (peak via GREATEST), so instances can't overwrite each other's
+ * peak with a stale value. A periodic sweep reconciles viewer_count after
+ * expiries. Without Redis, presence is kept in memory (single instance).
+ */
+
+import { prisma } from '../prisma';
+import { redis, isRedisAvailable } from '../redis';
+import logger from '../logger';
+import { getSocketInstance } from '../socket/emitDownloadEvents';
+
+export const PRESENCE_TTL_MS = 45_000;
+export const HEARTBEAT_INTERVAL_MS = 15_000;
+
+const STREAMS_KEY = 'live:viewer-streams';
+const SWEEP_LOCK_KEY = 'live:viewer-sweep';
+const viewersKey = (streamId: string) => `live:viewers:${streamId}`;
+
+// Viewer sockets connected to this instance, per stream
+const localViewers = new Map<string, Set<string>>();
+
+// Last heartbeat per viewer when running without Redis
+const memoryViewers = new Map<string, Map<string, number>>();
+
+let heartbeatTimer: NodeJS.Timeout | null = null;
+
+async function touch(streamId: string, viewerIds: Iterable<string>): Promise<void> {
+  const now = Date.now();
+
+  if (!isRedisAvailable()) {
+    if (!memoryViewers.has(streamId)) {
+      memoryViewers.set(streamId, new Map());
+    }
+    const viewers = memoryViewers.get(streamId)!;
+    for (const viewerId of viewerIds) {
+      viewers.set(viewerId, now);
+    }
+    return;
+  }
+
+  const key = viewersKey(streamId);
+  const multi = redis!.multi();
+  for (const viewerId of viewerIds) {
+    multi.zadd(key, now, viewerId);
+  }
+  await multi.pexpire(key, PRESENCE_TTL_MS * 2).sadd(STREAMS_KEY, streamId).exec();
+}
+
+/**
+ * Number of viewers of a stream, after dropping expired ones
+ */
+export async function countViewers(streamId: string): Promise<number> {
+  const expired = Date.now() - PRESENCE_TTL_MS;
+
+  if (!isRedisAvailable()) {
+    const viewers = memoryViewers.get(streamId);
+    if (!viewers) {
+      return 0;
+    }
+    for (const [viewerId, seenAt] of viewers) {
+      if (seenAt <= expired) {
+        viewers.delete(viewerId);
+      }
+    }
+    if (viewers.size === 0) {
+      memoryViewers.delete(streamId);
+    }
+    return viewers.size;
+  }
+
+  const key = viewersKey(streamId);
+  const results = await redis!.multi().zremrangebyscore(key, '-inf', expired).zcard(key).exec();
+  return Number(results?.[1]?.[1] ?? 0);
+}
+
+/**
+ * A socket on this instance started watching. Returns the new viewer count.
+ */
+export async function addViewer(streamId: string, socketId: string): Promise<number> {
+  if (!localViewers.has(streamId)) {
+    localViewers.set(streamId, new Set());
+  }
+  localViewers.get(streamId)!.add(socketId);
+
+  await touch(streamId, [socketId]);
+  return publishViewerCount(streamId);
+}
+
+/**
+ * Register or refresh a viewer that isn't a socket (REST heartbeat).
+ * Returns the new viewer count.
+ */
+export async function touchViewer(streamId: string, viewerId: string): Promise<number> {
+  await touch(streamId, [viewerId]);
+  return publishViewerCount(streamId);
+}
+
+/**
+ * A viewer stopped watching (left or disconnected). Returns the new count.
+ */
+export async function removeViewer(streamId: string, viewerId: string): Promise<number> {
+  const sockets = localViewers.get(streamId);
+  sockets?.delete(viewerId);
+  if (sockets?.size === 0) {
+    localViewers.delete(streamId);
+  }
+
+  if (isRedisAvailable()) {
+    await redis!.zrem(viewersKey(streamId), viewerId);
+  } else {
+    memoryViewers.get(streamId)?.delete(viewerId);
+  }
+
+  return publishViewerCount(streamId);
+}
+
+/**
+ * Sockets on this instance switched streams together (a raid). Both counts
+ * are published once. Returns the target's new viewer count.
+ */
+export async function moveViewers(fromStreamId: string, toStreamId: string, socketIds: string[]): Promise<number> {
+  if (socketIds.length === 0) {
+    return countViewers(toStreamId);
+  }
+
+  const from = localViewers.get(fromStreamId);
+  socketIds.forEach((socketId) => from?.delete(socketId));
+  if (from?.size === 0) {
+    localViewers.delete(fromStreamId);
+  }
+  if (!localViewers.has(toStreamId)) {
+    localViewers.set(toStreamId, new Set());
+  }
+  socketIds.forEach((socketId) => localViewers.get(toStreamId)!.add(socketId));
+
+  if (isRedisAvailable()) {
+    await redis!.zrem(viewersKey(fromStreamId), ...socketIds);
+  } else {
+    socketIds.forEach((socketId) => memoryViewers.get(fromStreamId)?.delete(socketId));
+  }
+  await touch(toStreamId, socketIds);
+
+  await publishViewerCount(fromStreamId);
+  return publishViewerCount(toStreamId);
+}
+
+/**
+ * Forget all viewers of a stream (it ended)
+ */
+export async function clearViewers(streamId: string): Promise<void> {
+  localViewers.delete(streamId);
+  memoryViewers.delete(streamId);
+  if (isRedisAvailable()) {
+    await redis!.multi().del(viewersKey(streamId)).srem(STREAMS_KEY, streamId).exec();
+  }
+}
+
+/**
+ * Write a count read from presence to the stream. Returns false if nothing
+ * changed.
+ */
+async function updateViewerCount(streamId: string, viewerCount: number): Promise<boolean> {
+  const updated = await prisma.$executeRaw`
+    UPDATE live_streams
+    SET viewer_count = ${viewerCount},
+        peak_viewer_count = GREATEST(peak_viewer_count, ${viewerCount})
+    WHERE id = ${streamId}::uuid
+      AND status = 'live'
+      AND (viewer_count <> ${viewerCount} OR peak_viewer_count < ${viewerCount})
+  `;
+  return updated > 0;
+}
+
+function emitViewerCount(streamId: string, viewerCount: number): void {
+  getSocketInstance()?.to(`stream:${streamId}`).emit('viewer-count-update', {
+    streamId,
+    viewerCount,
+  });
+}
+
+async function publishViewerCount(streamId: string): Promise<number> {
+  const viewerCount = await countViewers(streamId);
+  await updateViewerCount(streamId, viewerCount);
+  emitViewerCount(streamId, viewerCount);
+  return viewerCount;
+}
+
+/**
+ * Refresh this instance's socket viewers, then (on one instance per interval)
+ * drop expired viewers and correct counts that drifted
+ */
+async function heartbeat(): Promise<void> {
+  for (const [streamId, sockets] of localViewers) {
+    await touch(streamId, sockets);
+  }
+
+  let streamIds: string[];
+  if (isRedisAvailable()) {
+    const lock = await redis!.set(SWEEP_LOCK_KEY, '1', 'PX', HEARTBEAT_INTERVAL_MS - 1000, 'NX');
+    if (!lock) {
+      return;
+    }
+    streamIds = await redis!.smembers(STREAMS_KEY);
+  } else {
+    streamIds = [...memoryViewers.keys()];
+  }
+
+  for (const streamId of streamIds) {
+    const viewerCount = await countViewers(streamId);
+    if (viewerCount === 0 && isRedisAvailable()) {
+      await redis!.srem(STREAMS_KEY, streamId);
+    }
+    if (await updateViewerCount(streamId, viewerCount)) {
+      emitViewerCount(streamId, viewerCount);
+    }
+  }
+}
+
+export function startViewerPresence(): void {
+  if (heartbeatTimer) {
+    return;
+  }
+  heartbeatTimer = setInterval(() => {
+    heartbeat().catch((error) => {
+      logger.warn('Viewer presence heartbeat failed', { error: error instanceof Error ? error.message : error });
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeatTimer.unref();
+}
+
+export function stopViewerPresence(): void {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+}
@@ -0,0 +1,431 @@
+/**
+ * Duplicate Detection
+ * Flags uploads that repeat media already on the platform.
+ *
+ * Every upload is fingerprinted: the SHA-256 computed while storing the file
+ * catches byte-identical re-uploads straight away, and a background job adds
+ * perceptual frame hashes that catch re-encodes, resizes and trims. Matches
+ * are recorded as ContentDuplicate pairs (later upload -> earlier upload) and
+ * the later upload goes to the moderation queue through content_flags.
+ * Re-uploads of another creator's media are flagged more severely than a
+ * creator repeating their own.
+ */
+
+import { prisma } from '../prisma';
+import { NotFoundError, ValidationError } from '../errors';
+import { createNotification } from '../notifications/service';
+import { queueMediaFingerprint } from '../queues/queueManager';
+import { computeFrameHashes, frameSimilarity, hashBands } from '../upload/fingerprint';
+import { signSourceUrl } from '../playback/playbackService';
+import logger from '../logger';
+
+export type DuplicateMatchType = 'exact' | 'near';
+export type DuplicateStatus = 'open' | 'confirmed' | 'dismissed';
+
+export const NEAR_DUPLICATE_THRESHOLD = 0.8; // share of sampled frames that must match
+const MAX_CANDIDATES = 200;
+const MAX_CLUSTER_PAIRS = 5000;
+
+export interface DuplicateMatch {
+  matchType: DuplicateMatchType;
+  similarity: number;
+  sameCreator: boolean;
+  /** Only shown for the uploader's own content */
+  content: { id: string; title: string } | null;
+}
+
+interface MatchedContent {
+  id: string;
+  title: string;
+  creatorId: string;
+}
+
+const duplicateContentSelect = {
+  id: true,
+  title: true,
+  thumbnail: true,
+  status: true,
+  createdAt: true,
+  deletedAt: true,
+  creator: { select: { id: true, display_name: true, handle: true } },
+} as const;
+
+function mediaKind(mimetype: string | null | undefined): string {
+  return mimetype?.startsWith('video/') ? 'video/' : 'image/';
+}
+
+/**
+ * Record a duplicate pair, keeping the strongest match if the pair (in either
+ * direction) was already recorded
+ */
+async function recordDuplicate(
+  contentId: string,
+  match: MatchedContent,
+  matchType: DuplicateMatchType,
+  similarity: number,
+  sameCreator: boolean
+): Promise<void> {
+  const existing = await prisma.contentDuplicate.findFirst({
+    where: {
+      OR: [
+        { contentId, duplicateOfId: match.id },
+        { contentId: match.id, duplicateOfId: contentId },
+      ],
+    },
+    select: { id: true, matchType: true, similarity: true },
+  });
+
+  if (existing) {
+    if (existing.matchType === 'near' && (matchType === 'exact' || similarity > existing.similarity)) {
+      await prisma.contentDuplicate.update({
+        where: { id: existing.id },
+        data: { matchType, similarity },
+      });
+    }
+    return;
+  }
+
+  await prisma.contentDuplicate.create({
+    data: {
+      contentId,
+      duplicateOfId: match.id,
+      matchType,
+      similarity,
+      sameCreator,
+    },
+  });
+}
+
+/**
+ * Send the later upload to the moderation queue
+ */
+async function flagDuplicate(contentId: string, matchType: DuplicateMatchType, matches: DuplicateMatch[]) {
+  const crossCreator = matches.some((match) => !match.sameCreator);
+  const severity = !crossCreator ? 'low' : matchType === 'exact' ? 'high' : 'medium';
+  const reason = `duplicate_${matchType}`;
+
+  await prisma.$executeRaw`
+    INSERT INTO content_flags (id, content_id, flag_type, reason, severity, is_active, created_at)
+    VALUES (gen_random_uuid(), ${contentId}::uuid, 'auto', ${reason}, ${severity}, true, NOW())
+    ON CONFLICT (content_id, flag_type, reason)
+    DO UPDATE SET severity = ${severity}, is_active = true, resolved_at = NULL
+  `;
+}
+
+async function recordMatches(
+  content: MatchedContent,
+  matchType: DuplicateMatchType,
+  matched: Array<{ content: MatchedContent; similarity: number }>
+): Promise<DuplicateMatch[]> {
+  const matches: DuplicateMatch[] = [];
+
+  for (const { content: match, similarity } of matched) {
+    const sameCreator = match.creatorId === content.creatorId;
+    await recordDuplicate(content.id, match, matchType, similarity, sameCreator);
+    matches.push({
+      matchType,
+      similarity,
+      sameCreator,
+      content: sameCreator ? { id: match.id, title: match.title } : null,
+    });
+  }
+
+  if (matches.length > 0) {
+    await flagDuplicate(content.id, matchType, matches);
+  }
+
+  return matches;
+}
+
+/**
+ * Fingerprint a freshly stored upload: look up exact duplicates now and queue
+ * perceptual hashing. Returns the exact matches so the uploader can be warned.
+ */
+export async function fingerprintUpload(
+  contentId: string,
+  media: { sha256: string; mediaUrl: string; mimetype: string }
+): Promise<DuplicateMatch[]> {
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: { id: true, title: true, creatorId: true },
+  });
+
+  if (!content) {
+    throw new NotFoundError('Content');
+  }
+
+  const fingerprint = {
+    sha256: media.sha256,
+    mediaType: media.mimetype,
+    status: 'pending',
+    frameHashes: [],
+    hashBands: [],
+  };
+  await prisma.mediaFingerprint.upsert({
+    where: { contentId },
+    create: { contentId, ...fingerprint },
+    update: fingerprint,
+  });
+
+  const exact = await prisma.mediaFingerprint.findMany({
+    where: {
+      sha256: media.sha256,
+      contentId: { not: contentId },
+      content: { deletedAt: null },
+    },
+    select: { content: { select: { id: true, title: true, creatorId: true } } },
+    take: MAX_CANDIDATES,
+  });
+
+  const matches = await recordMatches(
+    content,
+    'exact',
+    exact.map((match) => ({ content: match.content, similarity: 1 }))
+  );
+
+  await queueMediaFingerprint({ contentId, mediaUrl: media.mediaUrl });
+
+  return matches;
+}
+
+/**
+ * Compute perceptual hashes for an upload and record near duplicates
+ * (run by the thumbnail worker)
+ */
+export async function processPerceptualFingerprint(contentId: string, mediaUrl: string) {
+  const fingerprint = await prisma.mediaFingerprint.findUnique({
+    where: { contentId },
+    include: { content: { select: { id: true, title: true, creatorId: true, deletedAt: true } } },
+  });
+
+  if (!fingerprint || fingerprint.content.deletedAt) {
+    return { success: false, reason: 'Content no longer exists' };
+  }
+
+  const isVideo = mediaKind(fingerprint.mediaType) === 'video/';
+
+  let frameHashes: string[];
+  try {
+    frameHashes = await computeFrameHashes(await signSourceUrl(mediaUrl), isVideo);
+  } catch (error) {
+    await prisma.mediaFingerprint.update({ where: { contentId }, data: { status: 'failed' } });
+    throw error;
+  }
+
+  const bands = hashBands(frameHashes);
+  await prisma.mediaFingerprint.update({
+    where: { contentId },
+    data: { frameHashes, hashBands: bands, status: 'hashed' },
+  });
+
+  if (bands.length === 0) {
+    return { success: true, frames: frameHashes.length, matches: 0 };
+  }
+
+  const candidates = await prisma.mediaFingerprint.findMany({
+    where: {
+      contentId: { not: contentId },
+      status: 'hashed',
+      sha256: { not: fingerprint.sha256 }, // already recorded as exact
+      mediaType: { startsWith: mediaKind(fingerprint.mediaType) },
+      hashBands: { hasSome: bands },
+      content: { deletedAt: null },
+    },
+    select: {
+      frameHashes: true,
+      content: { select: { id: true, title: true, creatorId: true } },
+    },
+    take: MAX_CANDIDATES,
+  });
+
+  const near = candidates
+    .map((candidate) => ({
+      content: candidate.content,
+      similarity: Math.round(frameSimilarity(frameHashes, candidate.frameHashes) * 100) / 100,
+    }))
+    .filter((candidate) => candidate.similarity >= NEAR_DUPLICATE_THRESHOLD);
+
+  const matches = await recordMatches(fingerprint.content, 'near', near);
+
+  if (matches.length > 0) {
+    await notifyUploader(fingerprint.content, matches).catch((error) =>
+      logger.warn('Failed to notify uploader about duplicate', { contentId, error })
+    );
+  }
+
+  return { success: true, frames: frameHashes.length, matches: matches.length };
+}
+
+async function notifyUploader(content: MatchedContent, matches: DuplicateMatch[]) {
+  const creator = await prisma.creator.findUnique({
+    where: { id: content.creatorId },
+    select: { user_id: true },
+  });
+
+  if (!creator) {
+    return;
+  }
+
+  const own = matches.find((match) => match.content);
+  await createNotification({
+    userId: creator.user_id,
+    type: 'system',
+    title: 'Possible duplicate upload',
+    message: own?.content
+      ? `"${content.title}" looks like a re-upload of your "${own.content.title}".`
+      : `"${content.title}" closely matches content already on the platform and has been sent for review.`,
+    link: `/content/${content.id}`,
+    metadata: { contentId: content.id, duplicates: matches },
+  });
+}
+
+/**
+ * Group duplicate pairs into clusters of content that all match each other
+ * (directly or through a chain). Clusters keep the order in which their
+ * content first appears in `pairs`.
+ */
+export function buildDuplicateClusters(pairs: Array<{ contentId: string; duplicateOfId: string }>): string[][] {
+  const parent = new Map<string, string>();
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    // Path compression
+    let node = id;
+    while (node !== root) {
+      const next = parent.get(node)!;
+      parent.set(node, root);
+      node = next;
+    }
+    return root;
+  };
+
+  for (const { contentId, duplicateOfId } of pairs) {
+    for (const id of [contentId, duplicateOfId]) {
+      if (!parent.has(id)) {
+        parent.set(id, id);
+      }
+    }
+    const a = find(contentId);
+    const b = find(duplicateOfId);
+    if (a !== b) {
+      parent.set(b, a);
+    }
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    const cluster = clusters.get(root);
+    if (cluster) {
+      cluster.push(id);
+    } else {
+      clusters.set(root, [id]);
+    }
+  }
+
+  return [...clusters.values()];
+}
+
+/**
+ * Duplicate clusters for the admin review queue, most recently detected first
+ */
+export async function getDuplicateClusters(options: {
+  status?: DuplicateStatus;
+  page?: number;
+  limit?: number;
+}) {
+  const { status = 'open', page = 1, limit = 20 } = options;
+
+  const pairs = await prisma.contentDuplicate.findMany({
+    where: { status },
+    include: {
+      content: { select: duplicateContentSelect },
+      duplicateOf: { select: duplicateContentSelect },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_CLUSTER_PAIRS,
+  });
+
+  const contents = new Map<string, (typeof pairs)[number]['content']>();
+  for (const pair of pairs) {
+    contents.set(pair.content.id, pair.content);
+    contents.set(pair.duplicateOf.id, pair.duplicateOf);
+  }
+
+  const clusters = buildDuplicateClusters(pairs).map((ids) => {
+    const members = new Set(ids);
+    const clusterPairs = pairs.filter((pair) => members.has(pair.contentId));
+    const items = ids
+      .map((id) => contents.get(id)!)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+
+    return {
+      // The earliest upload is presumed to be the original
+      originalId: items[0].id,
+      contents: items,
+      pairs: clusterPairs.map(({ content: _content, duplicateOf: _duplicateOf, ...pair }) => pair),
+      crossCreator: clusterPairs.some((pair) => !pair.sameCreator),
+      lastDetectedAt: clusterPairs[0].createdAt,
+    };
+  });
+
+  return {
+    clusters: clusters.slice((page - 1) * limit, page * limit),
+    pagination: {
+      page,
+      limit,
+      total: clusters.length,
+      totalPages: Math.ceil(clusters.length / limit),
+    },
+  };
+}
+
+/**
+ * Confirm or dismiss a detected duplicate. Dismissing the last open match of
+ * a kind clears the corresponding moderation flag.
+ */
+export async function reviewDuplicate(
+  duplicateId: string,
+  adminId: string,
+  status: Exclude<DuplicateStatus, 'open'>
+) {
+  const existing = await prisma.contentDuplicate.findUnique({ where: { id: duplicateId } });
+  if (!existing) {
+    throw new NotFoundError('Duplicate');
+  }
+  if (existing.status !== 'open') {
+    throw new ValidationError(`Duplicate has already been ${existing.status}`);
+  }
+
+  const duplicate = await prisma.contentDuplicate.update({
+    where: { id: duplicateId },
+    data: { status, reviewedBy: adminId, reviewedAt: new Date() },
+  });
+
+  if (status === 'dismissed') {
+    const remaining = await prisma.contentDuplicate.count({
+      where: {
+        contentId: existing.contentId,
+        matchType: existing.matchType,
+        status: { not: 'dismissed' },
+      },
+    });
+
+    if (remaining === 0) {
+      await prisma.contentFlag.updateMany({
+        where: {
+          content_id: existing.contentId,
+          flag_type: 'auto',
+          reason: `duplicate_${existing.matchType}`,
+          is_active: true,
+        },
+        data: { is_active: false, resolved_at: new Date() },
+      });
+    }
+  }
+
+  return duplicate;
+}
@@ -15,7 +15,8 @@ export type NotificationType =
   | 'milestone' 
   | 'system'
   | 'follower'
-  | 'subscriber';
+  | 'subscriber'
+  | 'live';
 
 interface CreateNotificationParams {
   userId: string;
@@ -47,6 +48,7 @@ export async function getNotificationPreferences(userId: string) {
           tips: true,
           milestones: true,
           system: true,
+          liveStreams: true,
         },
         push: {
           newUpload: true,
@@ -55,6 +57,7 @@ export async function getNotificationPreferences(userId: string) {
           tips: true,
           milestones: true,
           system: true,
+          liveStreams: true,
         },
         inApp: {
           newUpload: true,
@@ -63,6 +66,7 @@ export async function getNotificationPreferences(userId: string) {
           tips: true,
           milestones: true,
           system: true,
+          liveStreams: true,
         },
         frequency: 'instant',
         unsubscribedAll: false,
@@ -93,6 +97,7 @@ async function shouldSendEmail(userId: string, type: NotificationType): Promise<
     system: 'system',
     follower: 'followers',
     subscriber: 'subscribers',
+    live: 'liveStreams',
   };
 
   const prefKey = typeMap[type] || 'system';
@@ -117,6 +122,7 @@ export async function createNotification(params: CreateNotificationParams) {
     system: 'system',
     follower: 'followers',
     subscriber: 'subscribers',
+    live: 'liveStreams',
   };
 
   const prefKey = typeMap[type] || 'system';
@@ -135,6 +141,7 @@ export async function createNotification(params: CreateNotificationParams) {
       system: 'SYSTEM_ANNOUNCEMENT',
       follower: 'NEW_FOLLOWER',
       subscriber: 'NEW_SUBSCRIBER',
+      live: 'LIVE_STREAM',
     };
 
     notification = await prisma.notification.create({
@@ -169,6 +176,7 @@ export async function createNotification(params: CreateNotificationParams) {
           system: 'system',
           follower: 'system',
           subscriber: 'system',
+          live: 'system',
         };
 
         const template = emailTemplateMap[type] || 'system';
@@ -217,6 +225,7 @@ async function shouldSendPushNotification(userId: string, type: NotificationType
     system: 'system',
     follower: 'followers',
     subscriber: 'subscribers',
+    live: 'liveStreams',
   };
 
   const prefKey = typeMap[type] || 'system';
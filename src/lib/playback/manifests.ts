@@ -0,0 +1,101 @@
+/**
+ * Manifest Rewriting
+ * Filters HLS/DASH manifests down to the renditions a viewer may watch and
+ * swaps segment references for signed URLs.
+ */
+
+/**
+ * Short side of a frame, matching how the transcoding ladder names rungs
+ */
+function frameSize(width: number, height: number): number {
+  return width > 0 && height > 0 ? Math.min(width, height) : height;
+}
+
+/**
+ * Drop variant streams above `maxHeight` from an HLS master playlist.
+ * Audio renditions (#EXT-X-MEDIA) are left untouched.
+ */
+export function filterMasterPlaylist(playlist: string, maxHeight: number | null): string {
+  if (maxHeight === null) {
+    return playlist;
+  }
+
+  const lines = playlist.split('\n');
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('#EXT-X-STREAM-INF')) {
+      const resolution = line.match(/RESOLUTION=(\d+)x(\d+)/);
+      const size = resolution ? frameSize(parseInt(resolution[1], 10), parseInt(resolution[2], 10)) : 0;
+
+      if (size > maxHeight) {
+        // Skip the tag and the URI line that follows it
+        i++;
+        continue;
+      }
+    }
+
+    output.push(line);
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Replace every segment (and init segment) URI in an HLS media playlist
+ */
+export async function rewriteMediaPlaylist(
+  playlist: string,
+  rewrite: (uri: string) => Promise<string>
+): Promise<string> {
+  const lines = playlist.split('\n');
+
+  return (
+    await Promise.all(
+      lines.map(async (line) => {
+        const trimmed = line.trim();
+
+        if (trimmed.startsWith('#EXT-X-MAP:')) {
+          const match = trimmed.match(/URI="([^"]+)"/);
+          return match ? trimmed.replace(match[0], `URI="${await rewrite(match[1])}"`) : line;
+        }
+
+        if (trimmed && !trimmed.startsWith('#')) {
+          return rewrite(trimmed);
+        }
+
+        return line;
+      })
+    )
+  ).join('\n');
+}
+
+/**
+ * Drop DASH representations above `maxHeight`
+ */
+export function filterDashManifest(manifest: string, maxHeight: number | null): string {
+  if (maxHeight === null) {
+    return manifest;
+  }
+
+  return manifest.replace(
+    /<Representation\b([^>]*?)(\/>|>[\s\S]*?<\/Representation>)\s*/g,
+    (element, attributes: string) => {
+      const width = parseInt(attributes.match(/\bwidth="(\d+)"/)?.[1] || '0', 10);
+      const height = parseInt(attributes.match(/\bheight="(\d+)"/)?.[1] || '0', 10);
+
+      return height && frameSize(width, height) > maxHeight ? '' : element;
+    }
+  );
+}
+
+/**
+ * Representation index of a file in a package the transcoder produced
+ * (media_N.m3u8, init-N.m4s, chunk-N-00001.m4s), or null for any other file
+ */
+export function getRepresentationIndex(file: string): number | null {
+  const match = file.match(/^(?:media_(\d+)\.m3u8|init-(\d+)\.m4s|chunk-(\d+)-\d+\.m4s)$/);
+  return match ? parseInt(match[1] ?? match[2] ?? match[3], 10) : null;
+}
@@ -0,0 +1,407 @@
+/**
+ * Playback Authorization Service
+ * Decides who may watch a content item (and at what quality), then issues
+ * short-lived signed URLs for its manifests, renditions and segments.
+ *
+ * Access rules:
+ * - Private/unpublished content: owner and collaborators (canUserViewContent)
+ * - Premium content with a price: pay-per-view purchase
+ * - Premium content without a price: creator subscription or premium plan
+ * - Basic/free viewers are capped at standard quality (720p), see plans.ts
+ */
+
+import { readFile } from 'fs/promises';
+import { join, posix, resolve, sep } from 'path';
+import axios from 'axios';
+import { prisma } from '../prisma';
+import { env } from '../../config/env';
+import { ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '../errors';
+import { canUserEditContent, canUserViewContent } from '../creator/collaborationService';
+import { storage } from '../storage/storageService';
+import {
+  createPlaybackToken,
+  verifyPlaybackToken,
+  signLocalMediaPath,
+  getPlaybackTokenTtl,
+  LOCAL_MEDIA_PREFIX,
+  PlaybackClaims,
+} from './signing';
+import { filterMasterPlaylist, rewriteMediaPlaylist, filterDashManifest, getRepresentationIndex } from './manifests';
+import { buildThumbnailTrack, PreviewSprites } from '../video/sprites';
+
+const PREMIUM_PLANS = ['premium', 'pro', 'creator'];
+const STANDARD_MAX_HEIGHT = 720;
+const SOURCE_URL_TTL = 6 * 3600; // Seconds
+
+export type PlaybackAccessType = 'owner' | 'free' | 'subscription' | 'plan' | 'purchase';
+
+export interface PlaybackAccess {
+  contentId: string;
+  maxHeight: number | null;
+  accessType: PlaybackAccessType;
+}
+
+/**
+ * Whether a content item's media must only be reached through signed URLs
+ */
+export function isProtectedContent(content: {
+  isPremium?: boolean | null;
+  isPublic?: boolean | null;
+  status?: string | null;
+}): boolean {
+  return !!content.isPremium || content.isPublic === false || content.status !== 'PUBLISHED';
+}
+
+/**
+ * Get the user's active platform plan, if any
+ */
+async function getActivePlan(userId: string): Promise<string | null> {
+  const subscriptions = await prisma.userSubscription.findMany({
+    where: {
+      user_id: userId,
+      status: 'active',
+      OR: [{ current_period_end: null }, { current_period_end: { gt: new Date() } }],
+    },
+    select: { plan: true },
+  });
+
+  const plans = subscriptions.map((s) => s.plan);
+  return plans.find((plan) => PREMIUM_PLANS.includes(plan)) || plans[0] || null;
+}
+
+/**
+ * Whether the user has an active subscription to the creator
+ */
+export async function hasCreatorSubscription(userId: string, creatorId: string): Promise<boolean> {
+  const subscription = await prisma.subscription.findFirst({
+    where: {
+      subscriber_id: userId,
+      creator_id: creatorId,
+      status: 'ACTIVE',
+      OR: [{ expires_at: null }, { expires_at: { gt: new Date() } }],
+    },
+    select: { id: true },
+  });
+
+  return !!subscription;
+}
+
+/**
+ * Whether the user has bought this content (pay-per-view)
+ */
+export async function hasPurchasedContent(userId: string, contentId: string): Promise<boolean> {
+  const purchase = await prisma.transaction.findFirst({
+    where: {
+      user_id: userId,
+      type: 'PREMIUM_CONTENT',
+      status: 'COMPLETED',
+      metadata: { path: ['contentId'], equals: contentId },
+    },
+    select: { id: true },
+  });
+
+  return !!purchase;
+}
+
+/**
+ * Check whether a viewer may play a content item
+ */
+export async function authorizePlayback(contentId: string, userId?: string): Promise<PlaybackAccess> {
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: {
+      id: true,
+      creatorId: true,
+      status: true,
+      isPublic: true,
+      isPremium: true,
+      price: true,
+      deletedAt: true,
+      creator: { select: { user_id: true } },
+    },
+  });
+
+  if (!content || content.deletedAt) {
+    throw new NotFoundError('Content');
+  }
+
+  const isOwner = !!userId && content.creator.user_id === userId;
+
+  if (!content.isPublic || content.status !== 'PUBLISHED') {
+    if (!userId || !(await canUserViewContent(contentId, userId))) {
+      throw new ForbiddenError('You do not have access to this content');
+    }
+    return { contentId, maxHeight: null, accessType: 'owner' };
+  }
+
+  if (isOwner || (userId && (await canUserEditContent(contentId, userId)))) {
+    return { contentId, maxHeight: null, accessType: 'owner' };
+  }
+
+  const plan = userId ? await getActivePlan(userId) : null;
+  const hasPremiumPlan = !!plan && PREMIUM_PLANS.includes(plan);
+  const maxHeight = hasPremiumPlan ? null : STANDARD_MAX_HEIGHT;
+
+  if (!content.isPremium) {
+    return { contentId, maxHeight, accessType: 'free' };
+  }
+
+  if (!userId) {
+    throw new UnauthorizedError('Sign in to watch premium content');
+  }
+
+  if (content.price && Number(content.price) > 0) {
+    if (await hasPurchasedContent(userId, contentId)) {
+      return { contentId, maxHeight, accessType: 'purchase' };
+    }
+    throw new ForbiddenError('Purchase this content to watch it');
+  }
+
+  if (await hasCreatorSubscription(userId, content.creatorId)) {
+    return { contentId, maxHeight, accessType: 'subscription' };
+  }
+
+  if (hasPremiumPlan) {
+    return { contentId, maxHeight, accessType: 'plan' };
+  }
+
+  throw new ForbiddenError('Subscribe to watch premium content');
+}
+
+/**
+ * Sign a media URL until `expiresAt` (unix seconds).
+ * Local media gets an HMAC signature, S3/R2 objects a presigned URL;
+ * anything else (hosted providers, external URLs) is returned unchanged.
+ */
+export async function signMediaUrl(url: string, expiresAt: number): Promise<string> {
+  const localPath = getLocalMediaPath(url);
+  if (localPath) {
+    return `${env.API_URL}${signLocalMediaPath(localPath, expiresAt)}`;
+  }
+
+  const key = storage.getKeyFromUrl(url);
+  if (key && storage.isConfigured()) {
+    const expiresIn = Math.max(60, expiresAt - Math.floor(Date.now() / 1000));
+    return storage.getSignedUrl(key, expiresIn);
+  }
+
+  return url;
+}
+
+/**
+ * Sign an original upload for a server-side reader (ffmpeg, Cloudflare
+ * Stream/Mux), long enough for a transcode or a provider's fetch to finish
+ */
+export async function signSourceUrl(url: string): Promise<string> {
+  return signMediaUrl(url, Math.floor(Date.now() / 1000) + SOURCE_URL_TTL);
+}
+
+/**
+ * Path of a locally served media URL (e.g. /media/streams/...), or null
+ */
+function getLocalMediaPath(url: string): string | null {
+  const path = url.startsWith(env.API_URL) ? url.slice(env.API_URL.length) : url;
+  return path.startsWith(`${LOCAL_MEDIA_PREFIX}/`) ? path.split('?')[0] : null;
+}
+
+/**
+ * Whether the URL points at an adaptive package we produced (and can rewrite)
+ */
+function isOwnAdaptivePackage(url: string): boolean {
+  return url.endsWith('/master.m3u8') && (!!getLocalMediaPath(url) || !!storage.getKeyFromUrl(url));
+}
+
+/**
+ * Authorize a viewer and issue signed playback URLs
+ */
+export async function createPlaybackSession(contentId: string, userId?: string) {
+  const access = await authorizePlayback(contentId, userId);
+
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: {
+      mediaUrl: true,
+      dashUrl: true,
+      mediaType: true,
+      duration: true,
+      previewSprites: true,
+      renditions: { orderBy: { height: 'desc' } },
+      captions: {
+        select: { language: true, label: true, kind: true, url: true, isDefault: true },
+        orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+      },
+    },
+  });
+
+  if (!content) {
+    throw new NotFoundError('Content');
+  }
+
+  // Signed URLs must outlive a full watch-through, not just the token TTL
+  const ttl = getPlaybackTokenTtl();
+  const expiresAt = Math.floor(Date.now() / 1000) + ttl + (content.duration || 0);
+
+  const token = createPlaybackToken({
+    contentId,
+    userId: userId || null,
+    maxHeight: access.maxHeight,
+    expiresAt,
+  });
+
+  const base = `${env.API_URL}/api/playback/${token}`;
+  const adaptive = isOwnAdaptivePackage(content.mediaUrl);
+
+  const renditions = content.renditions
+    .filter((r) => access.maxHeight === null || Math.min(r.width, r.height) <= access.maxHeight)
+    .map((r) => ({
+      quality: r.quality,
+      width: r.width,
+      height: r.height,
+      bandwidth: r.videoBitrate + (r.audioBitrate || 0),
+      codecs: [r.videoCodec, r.audioCodec].filter(Boolean).join(','),
+      url: adaptive && r.playlistUrl ? `${base}/${posix.basename(r.playlistUrl)}` : null,
+    }));
+
+  return {
+    contentId,
+    type: adaptive || content.mediaUrl.includes('.m3u8') ? 'hls' : 'progressive',
+    hlsUrl: adaptive ? `${base}/master.m3u8` : null,
+    dashUrl: adaptive && content.dashUrl ? `${base}/manifest.mpd` : null,
+    url: adaptive ? `${base}/master.m3u8` : await signMediaUrl(content.mediaUrl, expiresAt),
+    thumbnailsUrl: content.previewSprites ? `${base}/thumbnails.vtt` : null,
+    renditions,
+    captions: await Promise.all(
+      content.captions.map(async ({ url, ...caption }) => ({
+        ...caption,
+        url: await signMediaUrl(url, expiresAt),
+      }))
+    ),
+    maxHeight: access.maxHeight,
+    accessType: access.accessType,
+    expiresAt: new Date(expiresAt * 1000),
+  };
+}
+
+/**
+ * Fetch a manifest's text from storage
+ */
+async function fetchManifest(url: string, expiresAt: number): Promise<string> {
+  const localPath = getLocalMediaPath(url);
+  if (localPath) {
+    const relative = localPath.slice(LOCAL_MEDIA_PREFIX.length + 1);
+    const root = resolve(env.LOCAL_MEDIA_PATH);
+    const file = resolve(join(root, relative));
+    if (!file.startsWith(root + sep)) {
+      throw new NotFoundError('Manifest');
+    }
+    return readFile(file, 'utf8');
+  }
+
+  const response = await axios.get(await signMediaUrl(url, expiresAt), {
+    responseType: 'text',
+    timeout: 10000,
+  });
+  return response.data;
+}
+
+export type PlaybackFileResult =
+  | { type: 'manifest'; contentType: string; body: string; expiresAt: number }
+  | { type: 'redirect'; url: string; expiresAt: number };
+
+/**
+ * Serve a file from a content's adaptive package for a playback token.
+ * Manifests are filtered to the viewer's renditions and segment URIs are
+ * signed; segments (DASH) redirect to a signed URL. Files of renditions
+ * above the viewer's cap are refused.
+ */
+export async function getPlaybackFile(token: string, file: string): Promise<PlaybackFileResult> {
+  const claims = verifyPlaybackToken(token);
+  if (!claims) {
+    throw new UnauthorizedError('Playback token is invalid or has expired');
+  }
+
+  if (!/^[\w.-]+$/.test(file) || file.startsWith('.')) {
+    throw new ValidationError('Invalid file name');
+  }
+
+  const content = await prisma.content.findUnique({
+    where: { id: claims.contentId },
+    select: {
+      mediaUrl: true,
+      dashUrl: true,
+      duration: true,
+      deletedAt: true,
+      previewSprites: true,
+      renditions: { select: { width: true, height: true, playlistUrl: true } },
+    },
+  });
+
+  if (!content || content.deletedAt) {
+    throw new NotFoundError('Content');
+  }
+
+  // Scrubbing previews, rendered per viewer so the sprite sheets are signed
+  if (file === 'thumbnails.vtt') {
+    const sprites = content.previewSprites as unknown as PreviewSprites | null;
+    if (!sprites) {
+      throw new NotFoundError('Preview thumbnails');
+    }
+    const sheets = await Promise.all(sprites.sheets.map((sheet) => signMediaUrl(sheet, claims.expiresAt)));
+    const track = buildThumbnailTrack(sprites, content.duration || sprites.count * sprites.interval, (i) => sheets[i]);
+    return manifest('text/vtt', track, claims);
+  }
+
+  if (!isOwnAdaptivePackage(content.mediaUrl)) {
+    throw new NotFoundError('Content');
+  }
+
+  const baseUrl = content.mediaUrl.slice(0, content.mediaUrl.lastIndexOf('/'));
+  const fileUrl = `${baseUrl}/${file}`;
+
+  if (file === 'master.m3u8') {
+    const playlist = await fetchManifest(fileUrl, claims.expiresAt);
+    return manifest('application/vnd.apple.mpegurl', filterMasterPlaylist(playlist, claims.maxHeight), claims);
+  }
+
+  if (file === 'manifest.mpd') {
+    if (!content.dashUrl) {
+      throw new NotFoundError('DASH manifest');
+    }
+    const mpd = await fetchManifest(fileUrl, claims.expiresAt);
+    return manifest('application/dash+xml', filterDashManifest(mpd, claims.maxHeight), claims);
+  }
+
+  // Playlists and segments belong to one representation; those above the
+  // viewer's cap are refused, not just left out of the manifests
+  const index = getRepresentationIndex(file);
+  if (index === null) {
+    throw new NotFoundError('File');
+  }
+  const rendition = content.renditions.find((r) => r.playlistUrl?.endsWith(`/media_${index}.m3u8`));
+  if (!rendition) {
+    // Audio is packaged once, as the representation after the video ones
+    if (index !== content.renditions.length) {
+      throw new NotFoundError('Rendition');
+    }
+  } else if (claims.maxHeight !== null && Math.min(rendition.width, rendition.height) > claims.maxHeight) {
+    throw new ForbiddenError('This quality is not available on your plan');
+  }
+
+  if (file.endsWith('.m3u8')) {
+    const playlist = await fetchManifest(fileUrl, claims.expiresAt);
+    const signed = await rewriteMediaPlaylist(playlist, (uri) =>
+      signMediaUrl(/^https?:\/\//.test(uri) ? uri : `${baseUrl}/${uri}`, claims.expiresAt)
+    );
+    return manifest('application/vnd.apple.mpegurl', signed, claims);
+  }
+
+  return {
+    type: 'redirect',
+    url: await signMediaUrl(fileUrl, claims.expiresAt),
+    expiresAt: claims.expiresAt,
+  };
+}
+
+function manifest(contentType: string, body: string, claims: PlaybackClaims): PlaybackFileResult {
+  return { type: 'manifest', contentType, body, expiresAt: claims.expiresAt };
+}
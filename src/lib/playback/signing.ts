@@ -0,0 +1,95 @@
+/**
+ * Playback Signing
+ * HMAC-signed playback tokens and expiring URLs for locally served media.
+ *
+ * A playback token is `<base64url(claims)>.<base64url(hmac)>` and scopes a
+ * viewer to one content item (and a maximum rendition height) until it
+ * expires. Local media URLs carry `expires` and `sig` query parameters.
+ */
+
+import crypto from 'crypto';
+import { env } from '../../config/env';
+
+export const LOCAL_MEDIA_PREFIX = '/media';
+
+export interface PlaybackClaims {
+  contentId: string;
+  userId: string | null;
+  maxHeight: number | null; // null = every rendition
+  expiresAt: number; // unix seconds
+}
+
+function getSecret(): string {
+  return env.PLAYBACK_SIGNING_SECRET || env.JWT_SECRET;
+}
+
+function hmac(value: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(value).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+/**
+ * Default token lifetime in seconds
+ */
+export function getPlaybackTokenTtl(): number {
+  return parseInt(env.PLAYBACK_TOKEN_TTL, 10) || 3600;
+}
+
+/**
+ * Issue a playback token
+ */
+export function createPlaybackToken(claims: PlaybackClaims): string {
+  const payload = Buffer.from(
+    JSON.stringify({ c: claims.contentId, u: claims.userId, h: claims.maxHeight, e: claims.expiresAt })
+  ).toString('base64url');
+
+  return `${payload}.${hmac(`playback:${payload}`)}`;
+}
+
+/**
+ * Verify a playback token. Returns null if it is malformed, tampered with or expired.
+ */
+export function verifyPlaybackToken(token: string): PlaybackClaims | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !safeEqual(signature, hmac(`playback:${payload}`))) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof data.c !== 'string' || typeof data.e !== 'number' || data.e < Date.now() / 1000) {
+      return null;
+    }
+
+    return {
+      contentId: data.c,
+      userId: data.u ?? null,
+      maxHeight: data.h ?? null,
+      expiresAt: data.e,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Append an expiring signature to a local media path (e.g. /media/streams/...)
+ */
+export function signLocalMediaPath(path: string, expiresAt: number): string {
+  return `${path}?expires=${expiresAt}&sig=${hmac(`media:${path}:${expiresAt}`)}`;
+}
+
+/**
+ * Check a local media signature
+ */
+export function verifyLocalMediaSignature(path: string, expires: string, signature: string): boolean {
+  const expiresAt = parseInt(expires, 10);
+  if (!expiresAt || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+
+  return safeEqual(signature, hmac(`media:${path}:${expiresAt}`));
+}
@@ -0,0 +1,75 @@
+/**
+ * Watch Progress
+ * Turns player heartbeats into watch time, `video_watch` funnel milestones
+ * and resume positions.
+ *
+ * Watch time only counts what was actually played: the position has to move
+ * forward at a plausible speed between two reports. A jump further than the
+ * elapsed time allows is treated as an unreported seek and only the elapsed
+ * time is credited.
+ */
+
+export const HEARTBEAT_INTERVAL_SECONDS = 15;
+export const MAX_HEARTBEAT_GAP_SECONDS = 60; // longer gaps (sleeping tabs) credit at most this
+export const MAX_PLAYBACK_RATE = 2;
+export const COMPLETE_RATIO = 0.9; // share of the video that counts as "watched"
+export const RESUME_END_MARGIN_SECONDS = 10; // closer to the end than this restarts from 0
+
+export const START_MILESTONE = 'start_playback';
+
+const PROGRESS_MILESTONES: Array<[ratio: number, step: string]> = [
+  [0.25, 'watch_25%'],
+  [0.5, 'watch_50%'],
+  [0.75, 'watch_75%'],
+  [COMPLETE_RATIO, 'watch_complete'],
+];
+
+/**
+ * Seconds of playback to credit between two position reports
+ */
+export function creditWatchTime(fromPosition: number, toPosition: number, elapsedSeconds: number): number {
+  const elapsed = Math.min(Math.max(elapsedSeconds, 0), MAX_HEARTBEAT_GAP_SECONDS);
+  const advanced = toPosition - fromPosition;
+
+  if (advanced <= 0 || elapsed === 0) {
+    return 0;
+  }
+
+  // One second of slack for timer jitter between the player and the server
+  if (advanced > elapsed * MAX_PLAYBACK_RATE + 1) {
+    return elapsed;
+  }
+
+  return advanced;
+}
+
+/**
+ * Progress milestones reached by `watchedSeconds` that are not in `reached` yet
+ */
+export function newMilestones(watchedSeconds: number, duration: number | null, reached: string[]): string[] {
+  if (!duration || duration <= 0) {
+    return [];
+  }
+
+  return PROGRESS_MILESTONES.filter(
+    ([ratio, step]) => watchedSeconds >= duration * ratio && !reached.includes(step)
+  ).map(([, step]) => step);
+}
+
+/**
+ * Whether enough of the video has been watched to mark it as watched
+ */
+export function isCompleted(watchedSeconds: number, duration: number | null): boolean {
+  return !!duration && duration > 0 && watchedSeconds >= duration * COMPLETE_RATIO;
+}
+
+/**
+ * Where to resume playback: the saved position, or the start when the viewer
+ * was at the very end
+ */
+export function getResumePosition(position: number, duration: number | null): number {
+  if (!duration || position <= 0) {
+    return Math.max(position, 0);
+  }
+  return position >= duration - RESUME_END_MARGIN_SECONDS ? 0 : position;
+}
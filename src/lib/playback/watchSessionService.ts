@@ -0,0 +1,365 @@
+/**
+ * Playback Sessions
+ * The player opens a session when playback starts, then reports its position
+ * every HEARTBEAT_INTERVAL_SECONDS and on pause/seek/end. From that we keep:
+ *
+ * - the viewer's resume position and "watched" marker (WatchProgress)
+ * - the watch time actually played, written as a View when the session ends
+ *   so the analytics worker aggregates real watch time
+ * - which `video_watch` funnel steps the session reached
+ *
+ * Sessions that stop reporting (closed tabs) are ended by the analytics
+ * worker after STALE_SESSION_SECONDS.
+ */
+
+import { prisma } from '../prisma';
+import { ForbiddenError, NotFoundError, ValidationError } from '../errors';
+import { awardPoints } from '../loyalty/points';
+import logger from '../logger';
+import { authorizePlayback } from './playbackService';
+import {
+  creditWatchTime,
+  getResumePosition,
+  isCompleted,
+  newMilestones,
+  HEARTBEAT_INTERVAL_SECONDS,
+  START_MILESTONE,
+} from './watchProgress';
+
+export type WatchSessionState = 'playing' | 'paused' | 'ended';
+export type PlaybackEventType = 'play' | 'pause' | 'seek' | 'end';
+
+export const STALE_SESSION_SECONDS = 120;
+const MIN_VIEW_SECONDS = 1;
+const STALE_BATCH_SIZE = 500;
+
+type WatchSessionRecord = NonNullable<Awaited<ReturnType<typeof prisma.watchSession.findUnique>>>;
+
+export interface StartWatchSessionOptions {
+  userId?: string;
+  analyticsSessionId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface PlaybackEvent {
+  type: PlaybackEventType;
+  position: number;
+  /** For seeks: where playback was before the jump */
+  from?: number;
+}
+
+export interface PlaybackUpdate {
+  sessionId: string;
+  contentId: string;
+  state: WatchSessionState;
+  position: number;
+  watchedSeconds: number;
+  /** Funnel steps reached by this update (empty when analytics are off) */
+  milestones: string[];
+}
+
+/**
+ * Privacy preferences: hidden history skips progress tracking, anonymous
+ * mode skips analytics events
+ */
+async function getTrackingPreferences(userId?: string) {
+  if (!userId) {
+    return { recordHistory: false, trackAnalytics: true };
+  }
+
+  const preferences = await prisma.userPreferences.findUnique({
+    where: { user_id: userId },
+    select: { hide_history: true, anonymous_mode: true },
+  });
+
+  return {
+    recordHistory: !preferences?.hide_history,
+    trackAnalytics: !preferences?.anonymous_mode,
+  };
+}
+
+/**
+ * Start a playback session; returns where to resume from
+ */
+export async function startWatchSession(contentId: string, options: StartWatchSessionOptions = {}) {
+  const { userId } = options;
+
+  await authorizePlayback(contentId, userId);
+
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: { duration: true },
+  });
+
+  if (!content) {
+    throw new NotFoundError('Content');
+  }
+
+  const { recordHistory, trackAnalytics } = await getTrackingPreferences(userId);
+
+  const progress =
+    userId && recordHistory
+      ? await prisma.watchProgress.findUnique({
+          where: { userId_contentId: { userId, contentId } },
+          select: { position: true },
+        })
+      : null;
+  const resumePosition = progress ? getResumePosition(progress.position, content.duration) : 0;
+
+  const session = await prisma.watchSession.create({
+    data: {
+      contentId,
+      userId: userId || null,
+      analyticsSessionId: options.analyticsSessionId,
+      position: resumePosition,
+      duration: content.duration,
+      milestones: [START_MILESTONE],
+      recordHistory,
+      trackAnalytics,
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent,
+    },
+  });
+
+  return {
+    sessionId: session.id,
+    contentId,
+    resumePosition,
+    duration: content.duration,
+    heartbeatInterval: HEARTBEAT_INTERVAL_SECONDS,
+    milestones: trackAnalytics ? [START_MILESTONE] : [],
+  };
+}
+
+/**
+ * Load a session for its viewer. Anonymous sessions are identified by their id alone.
+ */
+async function getOpenSession(sessionId: string, userId?: string): Promise<WatchSessionRecord> {
+  const session = await prisma.watchSession.findUnique({ where: { id: sessionId } });
+
+  if (!session) {
+    throw new NotFoundError('Playback session');
+  }
+
+  if (session.userId && session.userId !== userId) {
+    throw new ForbiddenError('This playback session belongs to another user');
+  }
+
+  if (session.state === 'ended') {
+    throw new ValidationError('Playback session has ended');
+  }
+
+  return session;
+}
+
+/**
+ * Credit the playback since the last report, move the session to `position`
+ * and update the viewer's progress
+ */
+async function applyPlayback(
+  session: WatchSessionRecord,
+  position: number,
+  state: WatchSessionState,
+  playedUntil: number = position
+): Promise<PlaybackUpdate> {
+  const now = new Date();
+  const elapsed = (now.getTime() - session.lastHeartbeatAt.getTime()) / 1000;
+  const credit =
+    session.state === 'playing' ? creditWatchTime(session.position, playedUntil, elapsed) : 0;
+  const watchedSeconds = session.watchedSeconds + credit;
+  const reached = newMilestones(watchedSeconds, session.duration, session.milestones);
+
+  await prisma.watchSession.update({
+    where: { id: session.id },
+    data: {
+      state,
+      position,
+      watchedSeconds,
+      lastHeartbeatAt: now,
+      ...(reached.length > 0 && { milestones: { push: reached } }),
+    },
+  });
+
+  if (session.userId && session.recordHistory) {
+    const completed = reached.includes('watch_complete') || isCompleted(watchedSeconds, session.duration);
+    await prisma.watchProgress.upsert({
+      where: { userId_contentId: { userId: session.userId, contentId: session.contentId } },
+      create: {
+        userId: session.userId,
+        contentId: session.contentId,
+        position,
+        duration: session.duration,
+        watchedSeconds: credit,
+        completed,
+        completedAt: completed ? now : null,
+      },
+      update: {
+        position,
+        duration: session.duration,
+        watchedSeconds: { increment: credit },
+        ...(reached.includes('watch_complete') && { completed: true, completedAt: now }),
+      },
+    });
+  }
+
+  return {
+    sessionId: session.id,
+    contentId: session.contentId,
+    state,
+    position,
+    watchedSeconds,
+    milestones: session.trackAnalytics ? reached : [],
+  };
+}
+
+/**
+ * Periodic position report from the player
+ */
+export async function recordHeartbeat(
+  sessionId: string,
+  userId: string | undefined,
+  report: { position: number; playing?: boolean }
+): Promise<PlaybackUpdate> {
+  const session = await getOpenSession(sessionId, userId);
+  return applyPlayback(session, report.position, report.playing === false ? 'paused' : 'playing');
+}
+
+/**
+ * Play, pause, seek or end. Seeks credit playback up to `from` before jumping.
+ */
+export async function recordPlaybackEvent(
+  sessionId: string,
+  userId: string | undefined,
+  event: PlaybackEvent
+): Promise<PlaybackUpdate> {
+  const session = await getOpenSession(sessionId, userId);
+
+  switch (event.type) {
+    case 'play':
+      return applyPlayback(session, event.position, 'playing');
+    case 'pause':
+      return applyPlayback(session, event.position, 'paused');
+    case 'seek':
+      return applyPlayback(
+        session,
+        event.position,
+        session.state as WatchSessionState,
+        event.from ?? session.position
+      );
+    case 'end': {
+      const update = await applyPlayback(session, event.position, 'ended');
+      await finalizeWatchSession(session.id);
+      return update;
+    }
+  }
+}
+
+/**
+ * End a session and record its View (with the watch time actually played)
+ * for the analytics worker. Safe to call more than once.
+ */
+export async function finalizeWatchSession(sessionId: string): Promise<boolean> {
+  const session = await prisma.watchSession.findUnique({ where: { id: sessionId } });
+  if (!session || session.endedAt) {
+    return false;
+  }
+
+  const { count } = await prisma.watchSession.updateMany({
+    where: { id: sessionId, endedAt: null },
+    data: { state: 'ended', endedAt: new Date() },
+  });
+  if (count === 0) {
+    return false;
+  }
+
+  const watched = Math.round(session.watchedSeconds);
+  if (watched < MIN_VIEW_SECONDS) {
+    return true;
+  }
+
+  await prisma.view.create({
+    data: {
+      contentId: session.contentId,
+      // Hidden history still counts towards public metrics, just not for the user
+      userId: session.recordHistory ? session.userId : null,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      duration: watched,
+      // watchedAt defaults to now, so the next aggregation run always picks it up
+    },
+  });
+
+  const minutes = Math.floor(watched / 60);
+  if (session.userId && minutes > 0) {
+    awardPoints(session.userId, 'WATCH_MINUTE', {
+      contentId: session.contentId,
+      minutes,
+      duration: watched,
+    }).catch((error) => logger.warn('Failed to award watch time points', { sessionId, error }));
+  }
+
+  return true;
+}
+
+/**
+ * End sessions whose player stopped reporting (run before analytics aggregation)
+ */
+export async function finalizeStaleWatchSessions(): Promise<number> {
+  const cutoff = new Date(Date.now() - STALE_SESSION_SECONDS * 1000);
+  const stale = await prisma.watchSession.findMany({
+    where: { state: { not: 'ended' }, lastHeartbeatAt: { lt: cutoff } },
+    select: { id: true },
+    orderBy: { lastHeartbeatAt: 'asc' },
+    take: STALE_BATCH_SIZE,
+  });
+
+  let finalized = 0;
+  for (const { id } of stale) {
+    try {
+      if (await finalizeWatchSession(id)) {
+        finalized++;
+      }
+    } catch (error) {
+      logger.error('Failed to finalize watch session', { sessionId: id, error });
+    }
+  }
+
+  return finalized;
+}
+
+/**
+ * Resume positions and "watched" markers for a set of content items
+ */
+export async function getWatchProgress(userId: string, contentIds: string[]) {
+  const progress = await prisma.watchProgress.findMany({
+    where: { userId, contentId: { in: contentIds } },
+    select: {
+      contentId: true,
+      position: true,
+      duration: true,
+      watchedSeconds: true,
+      completed: true,
+      completedAt: true,
+      updatedAt: true,
+    },
+  });
+
+  return Object.fromEntries(
+    progress.map((item) => [
+      item.contentId,
+      {
+        ...item,
+        resumePosition: getResumePosition(item.position, item.duration),
+        progress: item.duration ? Math.min(1, item.position / item.duration) : null,
+      },
+    ])
+  );
+}
+
+/**
+ * Forget a viewer's progress on a content item (e.g. "mark as unwatched")
+ */
+export async function clearWatchProgress(userId: string, contentId: string): Promise<void> {
+  await prisma.watchProgress.deleteMany({ where: { userId, contentId } });
+}
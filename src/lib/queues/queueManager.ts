@@ -101,14 +101,62 @@ export async function queueVideoTranscoding(data: {
   contentId: string;
   videoUrl: string;
   qualities?: string[];
+  revisionId?: string; // replacement media, see lib/video/revisionService.ts
 }) {
   if (!videoProcessingQueue) {
     console.warn('⚠️  Video processing queue not available. Skipping job.');
     return null;
   }
+
+  // A finished job with the same id would swallow a re-transcode (retry/replace)
+  const jobId = data.revisionId
+    ? `transcode-${data.contentId}-${data.revisionId}`
+    : `transcode-${data.contentId}`;
+  const existing = await videoProcessingQueue.getJob(jobId);
+  if (existing && ((await existing.isCompleted()) || (await existing.isFailed()))) {
+    await existing.remove();
+  }
+
   return videoProcessingQueue.add('transcode', data, {
     priority: 1,
-    jobId: `transcode-${data.contentId}`,
+    jobId,
+  });
+}
+
+/**
+ * Schedule a delayed provider status check for a transcode in progress
+ */
+export async function queueTranscodeStatusCheck(
+  data: {
+    contentId: string;
+    videoId: string;
+    attempt: number;
+    revisionId?: string;
+  },
+  delayMs: number
+) {
+  if (!videoProcessingQueue) {
+    console.warn('⚠️  Video processing queue not available. Skipping job.');
+    return null;
+  }
+  return videoProcessingQueue.add('check-status', data, {
+    priority: 2,
+    delay: delayMs,
+    jobId: `transcode-status-${data.contentId}-${data.videoId}-${data.attempt}`,
+  });
+}
+
+/**
+ * Add job to render a clip cut from a video
+ */
+export async function queueClipRender(data: { clipId: string }) {
+  if (!videoProcessingQueue) {
+    console.warn('⚠️  Video processing queue not available. Skipping job.');
+    return null;
+  }
+  return videoProcessingQueue.add('clip', data, {
+    priority: 3,
+    jobId: `clip-${data.clipId}`,
   });
 }
 
@@ -131,6 +179,41 @@ export async function queueThumbnailGeneration(data: {
   });
 }
 
+/**
+ * Add job to render scrubbing preview sprites for a video
+ */
+export async function queuePreviewSprites(data: {
+  contentId: string;
+  videoUrl: string;
+  revisionId?: string;
+}) {
+  if (!thumbnailQueue) {
+    console.warn('⚠️  Thumbnail generation queue not available. Skipping job.');
+    return null;
+  }
+  return thumbnailQueue.add('sprites', data, {
+    priority: 3,
+    jobId: `sprites-${data.contentId}-${Date.now()}`,
+  });
+}
+
+/**
+ * Add job to compute the perceptual fingerprint of an upload
+ */
+export async function queueMediaFingerprint(data: {
+  contentId: string;
+  mediaUrl: string;
+}) {
+  if (!thumbnailQueue) {
+    console.warn('⚠️  Thumbnail generation queue not available. Skipping job.');
+    return null;
+  }
+  return thumbnailQueue.add('fingerprint', data, {
+    priority: 3,
+    jobId: `fingerprint-${data.contentId}-${Date.now()}`,
+  });
+}
+
 /**
  * Add job to notification queue
  */
@@ -203,6 +286,22 @@ export async function queueCleanup(data?: {
   });
 }
 
+/**
+ * Add job to reconcile storage against the database (orphaned media collection)
+ */
+export async function queueStorageReconciliation() {
+  if (!cleanupQueue) {
+    console.warn('⚠️  Cleanup queue not available. Skipping job.');
+    return null;
+  }
+  return cleanupQueue.add('reconcile-storage', {}, {
+    priority: 7,
+    repeat: {
+      pattern: '0 3 * * *', // Daily at 3 AM
+    },
+  });
+}
+
 /**
  * Add job to analytics aggregation queue
  */
@@ -261,6 +360,22 @@ export async function queueScheduledContentProcessing() {
   });
 }
 
+/**
+ * Schedule reminders for RSVPs of upcoming live streams
+ */
+export async function queueLiveStreamReminders() {
+  if (!schedulerQueue) {
+    console.warn('⚠️  Scheduler queue not available. Skipping job.');
+    return null;
+  }
+  return schedulerQueue.add('live-reminders', { type: 'live-reminders' }, {
+    priority: 1,
+    repeat: {
+      pattern: '* * * * *', // Every minute
+    },
+  });
+}
+
 /**
  * Add job to download queue
  */
@@ -7,6 +7,7 @@ import { Worker, Job } from 'bullmq';
 import { prisma } from '../../prisma';
 import { redis } from '../../redis';
 import { env } from '../../../config/env';
+import { finalizeStaleWatchSessions } from '../../playback/watchSessionService';
 
 export interface AnalyticsAggregationJob {
   timestamp?: Date;
@@ -27,6 +28,12 @@ async function aggregateViewEvents(job: Job<AnalyticsAggregationJob>) {
   console.log(`[Analytics Worker] Aggregating ${type} analytics from ${startTime.toISOString()} to ${now.toISOString()}`);
 
   try {
+    // Abandoned playback sessions become views with their measured watch time
+    const finalized = await finalizeStaleWatchSessions();
+    if (finalized > 0) {
+      console.log(`[Analytics Worker] Finalized ${finalized} stale playback sessions`);
+    }
+
     // Get all view events in the time range
     const views = await prisma.view.findMany({
       where: {
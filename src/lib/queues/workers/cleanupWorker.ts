@@ -5,7 +5,9 @@
 
 import { Worker, Job } from 'bullmq';
 import { queueCleanup } from '../queueManager';
-import { s3Storage } from '../../storage/s3Storage';
+import { storage } from '../../storage/storageService';
+import { reconcileStorage, SOFT_DELETE_RETENTION_DAYS } from '../../storage/orphanedMediaService';
+import { cleanupExpiredUploadSessions } from '../../upload/resumableUploadService';
 import { prisma } from '../../prisma';
 import { env } from '../../../config/env';
 
@@ -34,16 +36,15 @@ async function cleanupOldFiles(job: Job<CleanupJob>) {
       },
     });
 
-    // Cleanup old soft-deleted content (after 30 days)
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    // Old soft-deleted content: its media is released to the storage
+    // reconciliation job (reconcile-storage) after the retention period
+    const retentionCutoff = new Date();
+    retentionCutoff.setDate(retentionCutoff.getDate() - SOFT_DELETE_RETENTION_DAYS);
 
-    // Note: In production, you might want to actually delete from storage
-    // For now, we'll just log what would be deleted
     const oldDeletedContent = await prisma.content.findMany({
       where: {
         deletedAt: {
-          lt: thirtyDaysAgo,
+          lt: retentionCutoff,
         },
       },
       select: {
@@ -53,9 +54,8 @@ async function cleanupOldFiles(job: Job<CleanupJob>) {
       },
     });
 
-    // Cleanup old temp files from S3/R2 (if configured)
-    // This would require tracking temp file keys, which we'll skip for now
-    // In production, you'd maintain a table of temp files with creation dates
+    // Expire abandoned resumable uploads and remove their staging files
+    const expiredUploads = await cleanupExpiredUploadSessions();
 
     // Cleanup old expired sessions (if using database sessions)
     // This is handled by Redis TTL, but if using DB sessions:
@@ -66,13 +66,14 @@ async function cleanupOldFiles(job: Job<CleanupJob>) {
     // });
 
     console.log(
-      `✅ Cleanup completed: ${deletedDrafts.count} drafts deleted, ${oldDeletedContent.length} old deleted content found`
+      `✅ Cleanup completed: ${deletedDrafts.count} drafts deleted, ${oldDeletedContent.length} old deleted content found, ${expiredUploads} upload sessions expired`
     );
 
     return {
       success: true,
       deletedDrafts: deletedDrafts.count,
       oldDeletedContent: oldDeletedContent.length,
+      expiredUploads,
       cutoffDate: cutoffDate.toISOString(),
     };
   } catch (error) {
@@ -81,6 +82,32 @@ async function cleanupOldFiles(job: Job<CleanupJob>) {
   }
 }
 
+/**
+ * Quarantine unreferenced storage objects and delete those past their grace period
+ */
+async function reconcileStorageJob() {
+  if (!storage.isConfigured()) {
+    console.warn('⚠️  Storage not configured. Skipping storage reconciliation.');
+    return { success: true, skipped: true };
+  }
+
+  const report = await reconcileStorage();
+
+  console.log(
+    `✅ Storage reconciliation completed: ${report.scanned.objects} objects scanned, ${report.quarantined} quarantined, ${report.deleted.objects} deleted, ${report.released} released`
+  );
+
+  return {
+    success: true,
+    scanned: report.scanned.objects,
+    quarantined: report.quarantined,
+    pendingDeletion: report.pendingDeletion,
+    deleted: report.deleted.objects,
+    deletedBytes: report.deleted.bytes,
+    released: report.released,
+  };
+}
+
 /**
  * Create cleanup worker
  */
@@ -91,6 +118,9 @@ export function createCleanupWorker() {
       if (job.name === 'cleanup-temp-files') {
         return await cleanupOldFiles(job);
       }
+      if (job.name === 'reconcile-storage') {
+        return await reconcileStorageJob();
+      }
       throw new Error(`Unknown job type: ${job.name}`);
     },
     {
@@ -36,15 +36,19 @@ export function initializeWorkers() {
 
   // Schedule recurring jobs (only if Redis is available and workers are running)
   if (workers.length > 0) {
-    import('../queueManager').then(({ queueTrendingCalculation, queueCleanup, queueAnalyticsAggregation, queueScheduledContentProcessing }) => {
+    import('../queueManager').then(({ queueTrendingCalculation, queueCleanup, queueStorageReconciliation, queueAnalyticsAggregation, queueScheduledContentProcessing, queueLiveStreamReminders }) => {
       // Schedule trending calculation (runs every 6 hours)
       queueTrendingCalculation();
       // Schedule cleanup (runs daily at 2 AM)
       queueCleanup();
+      // Schedule orphaned media collection (runs daily at 3 AM)
+      queueStorageReconciliation();
       // Schedule analytics aggregation (runs every hour)
       queueAnalyticsAggregation();
       // Schedule content scheduler (runs every 5 minutes)
       queueScheduledContentProcessing();
+      // Schedule live stream reminders (runs every minute)
+      queueLiveStreamReminders();
     }).catch((error) => {
       console.warn('Failed to schedule recurring jobs:', error);
     });
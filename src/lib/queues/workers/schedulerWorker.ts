@@ -1,15 +1,16 @@
 /**
  * Content Scheduler Worker
- * Processes scheduled content publication
+ * Processes scheduled content publication and live stream reminders
  */
 
 import { Worker, Job } from 'bullmq';
 import { env } from '../../../config/env';
 import { getScheduledContentToPublish, publishScheduledContent } from '../../creator/schedulerService';
+import { sendStreamReminders } from '../../live/liveNotificationService';
 import logger from '../../logger';
 
 export interface SchedulerJob {
-  type: 'process-scheduled';
+  type: 'process-scheduled' | 'live-reminders';
 }
 
 /**
@@ -58,6 +59,9 @@ export function createSchedulerWorker() {
       if (job.name === 'process-scheduled') {
         return await processScheduledContent(job);
       }
+      if (job.name === 'live-reminders') {
+        return { success: true, sent: await sendStreamReminders() };
+      }
       throw new Error(`Unknown job type: ${job.name}`);
     },
     {
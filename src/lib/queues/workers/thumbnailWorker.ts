@@ -4,10 +4,17 @@
  */
 
 import { Worker, Job } from 'bullmq';
+import { Prisma } from '@prisma/client';
 import { queueThumbnailGeneration } from '../queueManager';
 import { generateVideoThumbnail, processThumbnailFromBuffer } from '../../imageProcessing';
-import { s3Storage } from '../../storage/s3Storage';
+import { storage } from '../../storage/storageService';
 import { prisma } from '../../prisma';
+import { probeMedia } from '../../video/ffmpeg';
+import { generatePreviewSprites } from '../../video/sprites';
+import { storeRevisionPreviews } from '../../video/revisionService';
+import { processPerceptualFingerprint } from '../../moderation/duplicateService';
+import { invalidateContentCache } from '../../cache/contentCache';
+import { signSourceUrl } from '../../playback/playbackService';
 import { env } from '../../../config/env';
 
 export interface ThumbnailJob {
@@ -17,6 +24,17 @@ export interface ThumbnailJob {
   timestamp?: number;
 }
 
+export interface PreviewSpritesJob {
+  contentId: string;
+  videoUrl: string;
+  revisionId?: string; // previews for replacement media
+}
+
+export interface FingerprintJob {
+  contentId: string;
+  mediaUrl: string;
+}
+
 /**
  * Generate thumbnail from video or image
  */
@@ -43,7 +61,7 @@ async function generateThumbnail(job: Job<ThumbnailJob>) {
     }
 
     // Upload thumbnail to S3/R2
-    const uploadResult = await s3Storage.uploadImage(
+    const uploadResult = await storage.uploadImage(
       thumbnailBuffer,
       `${contentId}-thumbnail.jpg`,
       'thumbnails'
@@ -75,15 +93,67 @@ async function generateThumbnail(job: Job<ThumbnailJob>) {
   }
 }
 
+/**
+ * Render scrubbing preview sprites and the WebVTT thumbnails track
+ */
+async function generateSprites(job: Job<PreviewSpritesJob>) {
+  const { contentId, videoUrl, revisionId } = job.data;
+
+  try {
+    const source = await signSourceUrl(videoUrl);
+    const probe = await probeMedia(source);
+    const { sprites, trackUrl } = await generatePreviewSprites(contentId, source, probe.duration);
+    const previews = {
+      previewTrackUrl: trackUrl,
+      previewSprites: sprites as unknown as Prisma.InputJsonValue,
+    };
+
+    if (revisionId) {
+      await storeRevisionPreviews(revisionId, previews);
+    } else {
+      await prisma.content.update({
+        where: { id: contentId },
+        data: previews,
+      });
+      await invalidateContentCache(contentId);
+    }
+
+    return { success: true, trackUrl, sheets: sprites.sheets.length };
+  } catch (error) {
+    console.error(`Preview sprite generation failed for content ${contentId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Hash sampled frames of an upload and look for near duplicates
+ */
+async function generateFingerprint(job: Job<FingerprintJob>) {
+  const { contentId, mediaUrl } = job.data;
+
+  try {
+    return await processPerceptualFingerprint(contentId, mediaUrl);
+  } catch (error) {
+    console.error(`Fingerprinting failed for content ${contentId}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Create thumbnail generation worker
  */
 export function createThumbnailWorker() {
-  const worker = new Worker<ThumbnailJob>(
+  const worker = new Worker<ThumbnailJob | PreviewSpritesJob | FingerprintJob>(
     'thumbnail-generation',
     async (job) => {
       if (job.name === 'generate') {
-        return await generateThumbnail(job);
+        return await generateThumbnail(job as Job<ThumbnailJob>);
+      }
+      if (job.name === 'sprites') {
+        return await generateSprites(job as Job<PreviewSpritesJob>);
+      }
+      if (job.name === 'fingerprint') {
+        return await generateFingerprint(job as Job<FingerprintJob>);
       }
       throw new Error(`Unknown job type: ${job.name}`);
     },
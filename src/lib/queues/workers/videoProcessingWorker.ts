@@ -4,8 +4,29 @@
  */
 
 import { Worker, Job } from 'bullmq';
-import { queueVideoTranscoding } from '../queueManager';
+import { Prisma } from '@prisma/client';
+import { queueVideoTranscoding, queuePreviewSprites } from '../queueManager';
 import { videoStorage } from '../../storage/videoStorage';
+import { transcodeToAdaptiveStreams } from '../../video/transcoder';
+import {
+  markProcessing,
+  markReady,
+  markFailed,
+  applyProviderStatus,
+  checkProviderStatus,
+  scheduleStatusCheck,
+  describeProcessingError,
+  MAX_STATUS_CHECKS,
+} from '../../video/processingService';
+import {
+  markRevisionProcessing,
+  completeRevision,
+  failRevision,
+  applyRevisionProviderStatus,
+  checkRevisionProviderStatus,
+} from '../../video/revisionService';
+import { renderClip, failClip } from '../../video/clipService';
+import { signSourceUrl } from '../../playback/playbackService';
 import { prisma } from '../../prisma';
 import { env } from '../../../config/env';
 
@@ -13,52 +34,75 @@ export interface VideoTranscodeJob {
   contentId: string;
   videoUrl: string;
   qualities?: string[];
+  revisionId?: string; // replacement media; the live media is left alone until it's ready
+}
+
+export interface TranscodeStatusCheckJob {
+  contentId: string;
+  videoId: string;
+  attempt: number;
+  revisionId?: string;
+}
+
+export interface ClipRenderJob {
+  clipId: string;
+}
+
+type VideoProcessingJob = VideoTranscodeJob | TranscodeStatusCheckJob | ClipRenderJob;
+
+/**
+ * Whether to transcode locally with FFmpeg instead of a hosted provider
+ */
+function useLocalTranscoder(): boolean {
+  if (env.VIDEO_TRANSCODER === 'auto') {
+    return !videoStorage.isConfigured();
+  }
+  return env.VIDEO_TRANSCODER === 'ffmpeg';
 }
 
 /**
  * Transcode video to multiple qualities
- * Note: Actual transcoding requires FFmpeg or a service like Mux/Cloudflare
- * This is a placeholder that uploads to video storage service
+ * Uses the local FFmpeg ladder, or hands off to Cloudflare Stream/Mux when configured
  */
 async function transcodeVideo(job: Job<VideoTranscodeJob>) {
-  const { contentId, videoUrl, qualities = ['720p', '1080p', '4K'] } = job.data;
+  if (useLocalTranscoder()) {
+    return transcodeWithFfmpeg(job);
+  }
 
-  try {
-    // Update content status to processing
-    await prisma.content.update({
-      where: { id: contentId },
-      data: { status: 'PENDING_REVIEW' },
-    });
+  const { contentId, videoUrl, revisionId } = job.data;
 
+  try {
     // Upload to video storage service (Cloudflare Stream/Mux)
     // These services handle transcoding automatically
-    const result = await videoStorage.uploadVideo(videoUrl, {
+    const result = await videoStorage.uploadVideo(await signSourceUrl(videoUrl), {
       title: `Content ${contentId}`,
     });
 
-    // Update content with video URLs
-    await prisma.content.update({
-      where: { id: contentId },
-      data: {
-        mediaUrl: result.url,
-        status: result.status === 'ready' ? 'PUBLISHED' : 'PENDING_REVIEW',
-        duration: result.duration || undefined,
-        thumbnail: result.thumbnailUrl || undefined,
-      },
-    });
+    if (revisionId) {
+      await markRevisionProcessing(revisionId, videoStorage.getProvider(), result.videoId);
+    } else {
+      await markProcessing(contentId, videoStorage.getProvider(), result.videoId);
+    }
+
+    if (result.thumbnailUrl && !revisionId) {
+      await prisma.content.update({
+        where: { id: contentId },
+        data: { thumbnail: result.thumbnailUrl },
+      });
+    }
+
+    // The provider doesn't produce scrubbing sprites, render them from the source
+    await queuePreviewSprites({ contentId, videoUrl, revisionId });
+
+    const details = { status: result.status, url: result.url, duration: result.duration };
 
-    // If video is still processing, schedule a status check
     if (result.status === 'processing') {
-      // You could add a delayed job to check status later
-      setTimeout(async () => {
-        const status = await videoStorage.getVideoStatus(result.videoId);
-        if (status === 'ready') {
-          await prisma.content.update({
-            where: { id: contentId },
-            data: { status: 'PUBLISHED' },
-          });
-        }
-      }, 60000); // Check after 1 minute
+      // Completion arrives by webhook; delayed checks are the fallback
+      await scheduleStatusCheck(contentId, result.videoId, 0, revisionId);
+    } else if (revisionId) {
+      await applyRevisionProviderStatus(revisionId, details);
+    } else {
+      await applyProviderStatus(contentId, details);
     }
 
     return { success: true, videoId: result.videoId, status: result.status };
@@ -68,15 +112,160 @@ async function transcodeVideo(job: Job<VideoTranscodeJob>) {
   }
 }
 
+/**
+ * Check on a provider transcode (delayed job, re-scheduled with backoff)
+ */
+async function checkTranscodeStatus(job: Job<TranscodeStatusCheckJob>) {
+  const { contentId, videoId, attempt, revisionId } = job.data;
+
+  if (revisionId) {
+    return checkRevisionProviderStatus(contentId, revisionId, videoId, attempt);
+  }
+  return checkProviderStatus(contentId, videoId, attempt);
+}
+
+/**
+ * Encode an HLS/DASH ladder with FFmpeg and record each rendition
+ */
+async function transcodeWithFfmpeg(job: Job<VideoTranscodeJob>) {
+  const { contentId, videoUrl, revisionId, qualities = ['720p', '1080p', '4K'] } = job.data;
+
+  try {
+    if (revisionId) {
+      await markRevisionProcessing(revisionId, 'ffmpeg');
+    } else {
+      await markProcessing(contentId, 'ffmpeg');
+    }
+
+    const result = await transcodeToAdaptiveStreams(contentId, await signSourceUrl(videoUrl), {
+      qualities,
+      // Progress is best effort; a Redis hiccup mustn't fail the transcode
+      onProgress: (percent) => {
+        job.updateProgress(percent).catch(() => {});
+      },
+    });
+
+    if (revisionId) {
+      // Renditions are swapped in when the revision goes live
+      await completeRevision(revisionId, {
+        mediaUrl: result.hlsUrl,
+        dashUrl: result.dashUrl,
+        duration: result.duration,
+        resolution: result.resolution,
+        previewTrackUrl: result.previews?.trackUrl ?? null,
+        previewSprites: (result.previews?.sprites as unknown as Prisma.InputJsonValue) ?? null,
+        renditions: result.renditions,
+      });
+
+      return {
+        success: true,
+        revisionId,
+        hlsUrl: result.hlsUrl,
+        qualities: result.renditions.map((r) => r.quality),
+      };
+    }
+
+    await prisma.$transaction([
+      prisma.contentRendition.deleteMany({ where: { contentId } }),
+      prisma.contentRendition.createMany({
+        data: result.renditions.map((rendition) => ({
+          contentId,
+          quality: rendition.quality,
+          width: rendition.width,
+          height: rendition.height,
+          videoBitrate: rendition.videoBitrate,
+          audioBitrate: rendition.audioBitrate,
+          videoCodec: rendition.videoCodec,
+          audioCodec: rendition.audioCodec,
+          playlistUrl: rendition.playlistUrl,
+          fileSize: BigInt(rendition.fileSize),
+        })),
+      }),
+    ]);
+
+    await markReady(contentId, {
+      mediaUrl: result.hlsUrl,
+      dashUrl: result.dashUrl,
+      duration: result.duration,
+      resolution: result.resolution,
+      ...(result.previews
+        ? {
+            previewTrackUrl: result.previews.trackUrl,
+            previewSprites: result.previews.sprites as unknown as Prisma.InputJsonValue,
+          }
+        : {}),
+    });
+
+    return {
+      success: true,
+      hlsUrl: result.hlsUrl,
+      dashUrl: result.dashUrl,
+      qualities: result.renditions.map((r) => r.quality),
+    };
+  } catch (error) {
+    console.error(`FFmpeg transcoding failed for content ${contentId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Cut and encode a clip
+ */
+async function renderClipJob(job: Job<ClipRenderJob>) {
+  const { clipId } = job.data;
+
+  try {
+    return await renderClip(clipId, (ratio) => {
+      job.updateProgress(Math.round(ratio * 100)).catch(() => {});
+    });
+  } catch (error) {
+    console.error(`Clip rendering failed for clip ${clipId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Record the outcome once a job has used up its retries
+ */
+async function handleFinalFailure(job: Job<VideoProcessingJob>, error: Error) {
+  if (job.name === 'transcode') {
+    const { contentId, revisionId } = job.data as VideoTranscodeJob;
+    if (revisionId) {
+      await failRevision(revisionId, describeProcessingError(error));
+    } else {
+      await markFailed(contentId, describeProcessingError(error));
+    }
+  } else if (job.name === 'check-status') {
+    // Provider API unreachable: keep polling on the normal schedule
+    const { contentId, videoId, attempt, revisionId } = job.data as TranscodeStatusCheckJob;
+    const timeout = 'Timed out waiting for the video provider to finish processing.';
+    if (attempt + 1 < MAX_STATUS_CHECKS) {
+      await scheduleStatusCheck(contentId, videoId, attempt + 1, revisionId);
+    } else if (revisionId) {
+      await failRevision(revisionId, timeout);
+    } else {
+      await markFailed(contentId, timeout);
+    }
+  } else if (job.name === 'clip') {
+    await failClip((job.data as ClipRenderJob).clipId, describeProcessingError(error));
+  }
+}
+
 /**
  * Create video processing worker
  */
 export function createVideoProcessingWorker() {
-  const worker = new Worker<VideoTranscodeJob>(
+  const worker = new Worker<VideoProcessingJob>(
     'video-processing',
     async (job) => {
       if (job.name === 'transcode') {
-        return await transcodeVideo(job);
+        return await transcodeVideo(job as Job<VideoTranscodeJob>);
+      }
+      if (job.name === 'check-status') {
+        return await checkTranscodeStatus(job as Job<TranscodeStatusCheckJob>);
+      }
+      if (job.name === 'clip') {
+        return await renderClipJob(job as Job<ClipRenderJob>);
       }
       throw new Error(`Unknown job type: ${job.name}`);
     },
@@ -100,6 +289,12 @@ export function createVideoProcessingWorker() {
 
   worker.on('failed', (job, err) => {
     console.error(`❌ Video processing failed: ${job?.id}`, err);
+
+    if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      handleFinalFailure(job, err).catch((error) => {
+        console.error(`Failed to record processing failure for job ${job.id}:`, error);
+      });
+    }
   });
 
   return worker;
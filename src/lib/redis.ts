@@ -178,6 +178,7 @@ export class CacheService {
 export const CacheKeys = {
   trending: (period: string = 'today') => `trending:${period}`,
   search: (query: string, filters: string) => `search:${query}:${filters}`,
+  searchFacets: (query: string) => `search:facets:${query}`,
   creator: (id: string) => `creator:${id}`,
   creatorByHandle: (handle: string) => `creator:handle:${handle}`,
   category: (id: string) => `category:${id}`,
@@ -0,0 +1,250 @@
+/**
+ * Content Search
+ * Full-text search over published content. Each content row carries a
+ * weighted tsvector (title A, tags B, creator name and handle C, description
+ * D) in search_vector, and each caption track one of its transcript at
+ * weight D; database triggers keep them current when content, its tags, tag
+ * names or creator names change (see prisma/migrations/add_content_search.sql).
+ * Results are ranked with ts_rank, so a title match beats a tag match, which
+ * beats a creator or description match.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { HIGHLIGHT_START, HIGHLIGHT_STOP, SEARCH_CONFIG, toHighlightHtml, toTsQuery } from './searchQuery';
+
+export type ContentSearchSort = 'relevance' | 'trending' | 'recent' | 'views' | 'rating';
+
+export type ContentQuality = '720p' | '1080p' | '4K';
+
+export interface ContentSearchFilters {
+  contentTypes?: string[];
+  categoryIds?: string[];
+  categorySlugs?: string[];
+  tagIds?: string[];
+  tagSlugs?: string[];
+  creatorIds?: string[];
+  duration?: { min?: number; max?: number }; // Seconds
+  publishedFrom?: Date;
+  publishedTo?: Date;
+  qualities?: ContentQuality[];
+  minViews?: number;
+  isPremium?: boolean;
+  isVR?: boolean;
+}
+
+export interface ContentSearchOptions {
+  query: string;
+  filters?: ContentSearchFilters;
+  sort: ContentSearchSort;
+  limit: number;
+  offset: number;
+}
+
+export interface ContentSearchHit {
+  id: string;
+  rank: number;
+  highlight: {
+    title: string;
+    description: string | null;
+  } | null; // HTML with matches in <mark>, when there's a query
+}
+
+// Resolutions (as stored in content.resolution) for each quality filter
+const QUALITY_RESOLUTIONS: Record<ContentQuality, string[]> = {
+  '720p': ['1280x720'],
+  '1080p': ['1920x1080'],
+  '4K': ['3840x2160', '4096x2160'],
+};
+
+const CONFIG = Prisma.raw(`'${SEARCH_CONFIG}'::regconfig`);
+
+const TITLE_HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=true`;
+const DESCRIPTION_HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * WHERE conditions on content `c` for a set of filters. Only published,
+ * public content is ever searched.
+ */
+function filterConditions(filters: ContentSearchFilters): Prisma.Sql[] {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`c.status = 'PUBLISHED'`,
+    Prisma.sql`c.is_public = true`,
+    Prisma.sql`c.deleted_at IS NULL`,
+  ];
+
+  if (filters.contentTypes?.length) {
+    conditions.push(Prisma.sql`c.type::text = ANY(${filters.contentTypes}::text[])`);
+  }
+  if (filters.categoryIds?.length || filters.categorySlugs?.length) {
+    const match = filters.categoryIds?.length
+      ? Prisma.sql`cat.id::text = ANY(${filters.categoryIds}::text[])`
+      : Prisma.sql`cat.slug = ANY(${filters.categorySlugs}::text[])`;
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM content_categories cc JOIN categories cat ON cat.id = cc.category_id
+      WHERE cc.content_id = c.id AND cat.deleted_at IS NULL AND ${match}
+    )`);
+  }
+  if (filters.tagIds?.length || filters.tagSlugs?.length) {
+    const match = filters.tagIds?.length
+      ? Prisma.sql`t.id::text = ANY(${filters.tagIds}::text[])`
+      : Prisma.sql`t.slug = ANY(${filters.tagSlugs}::text[])`;
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM content_tags ct JOIN tags t ON t.id = ct.tag_id
+      WHERE ct.content_id = c.id AND ${match}
+    )`);
+  }
+  if (filters.creatorIds?.length) {
+    conditions.push(Prisma.sql`c.creator_id::text = ANY(${filters.creatorIds}::text[])`);
+  }
+  if (filters.duration?.min !== undefined) {
+    conditions.push(Prisma.sql`c.duration >= ${filters.duration.min}`);
+  }
+  if (filters.duration?.max !== undefined) {
+    conditions.push(Prisma.sql`c.duration <= ${filters.duration.max}`);
+  }
+  if (filters.publishedFrom) {
+    conditions.push(Prisma.sql`c.published_at >= ${filters.publishedFrom}`);
+  }
+  if (filters.publishedTo) {
+    conditions.push(Prisma.sql`c.published_at <= ${filters.publishedTo}`);
+  }
+  if (filters.qualities?.length) {
+    const patterns = filters.qualities.flatMap((quality) => QUALITY_RESOLUTIONS[quality]).map((r) => `%${r}%`);
+    conditions.push(Prisma.sql`c.resolution LIKE ANY(${patterns}::text[])`);
+  }
+  if (filters.minViews !== undefined) {
+    conditions.push(Prisma.sql`c.view_count >= ${filters.minViews}`);
+  }
+  if (filters.isPremium !== undefined) {
+    conditions.push(Prisma.sql`COALESCE(c.is_premium, false) = ${filters.isPremium}`);
+  }
+  if (filters.isVR !== undefined) {
+    conditions.push(Prisma.sql`COALESCE(c.is_vr, false) = ${filters.isVR}`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Content matching the query (in content or caption vectors) with its best
+ * rank, or null when there's no query and everything matches
+ */
+function rankedMatches(tsQuery: string | null): Prisma.Sql | null {
+  if (tsQuery === null) {
+    return null;
+  }
+  return Prisma.sql`
+    SELECT content_id, MAX(rank) AS rank FROM (
+      SELECT id AS content_id, ts_rank(search_vector, q) AS rank
+      FROM content, to_tsquery(${CONFIG}, ${tsQuery}) q
+      WHERE search_vector @@ q
+      UNION ALL
+      SELECT content_id, ts_rank(search_vector, q) AS rank
+      FROM content_captions, to_tsquery(${CONFIG}, ${tsQuery}) q
+      WHERE search_vector @@ q
+    ) matches
+    GROUP BY content_id
+  `;
+}
+
+/**
+ * FROM/WHERE for content `c` matching a tsquery and filters, joined to its
+ * rank as `r` when there's a query. Shared by result, count and facet queries.
+ */
+export function matchingContent(tsQuery: string | null, filters: ContentSearchFilters): Prisma.Sql {
+  const matches = rankedMatches(tsQuery);
+  const where = Prisma.join(filterConditions(filters), ' AND ');
+  return matches
+    ? Prisma.sql`FROM content c JOIN (${matches}) r ON r.content_id = c.id WHERE ${where}`
+    : Prisma.sql`FROM content c WHERE ${where}`;
+}
+
+/**
+ * Trending: views per hour since publishing, boosted by the like ratio and
+ * decayed over a week. Capped before exp() so very old content doesn't
+ * underflow.
+ */
+const TRENDING_SCORE = Prisma.sql`(
+  COALESCE(c.view_count, 0)
+    / GREATEST(EXTRACT(EPOCH FROM (now() - COALESCE(c.published_at, now()))) / 3600, 1)
+    * (1 + CASE WHEN COALESCE(c.view_count, 0) > 0 THEN COALESCE(c.like_count, 0)::float / c.view_count ELSE 0 END)
+    * exp(-LEAST(EXTRACT(EPOCH FROM (now() - COALESCE(c.published_at, now()))) / 3600, 168 * 50) / 168)
+)`;
+
+function orderBy(sort: ContentSearchSort, ranked: boolean): Prisma.Sql {
+  const rank = ranked ? Prisma.sql`r.rank DESC, ` : Prisma.empty;
+  switch (sort) {
+    case 'relevance':
+      return Prisma.sql`${rank}c.view_count DESC NULLS LAST, c.id`;
+    case 'trending':
+      return Prisma.sql`${TRENDING_SCORE} DESC, c.id`;
+    case 'recent':
+      return Prisma.sql`c.published_at DESC NULLS LAST, c.id`;
+    case 'views':
+      return Prisma.sql`c.view_count DESC NULLS LAST, c.id`;
+    case 'rating':
+      return Prisma.sql`c.like_count DESC NULLS LAST, c.id`;
+  }
+}
+
+/**
+ * One page of content matching a query and filters, with the total count
+ */
+export async function searchContent(
+  options: ContentSearchOptions
+): Promise<{ hits: ContentSearchHit[]; total: number }> {
+  const tsQuery = toTsQuery(options.query);
+  const from = matchingContent(tsQuery, options.filters ?? {});
+  const rank = tsQuery ? Prisma.sql`r.rank` : Prisma.sql`0::real`;
+
+  const page = Prisma.sql`
+    SELECT c.id, c.title, c.description, ${rank} AS rank,
+      ROW_NUMBER() OVER (ORDER BY ${orderBy(options.sort, tsQuery !== null)}) AS position
+    ${from}
+    ORDER BY position
+    LIMIT ${options.limit} OFFSET ${options.offset}
+  `;
+  // Headlines are only worked out for the page, not every match
+  const headlines = tsQuery
+    ? Prisma.sql`
+        ts_headline(${CONFIG}, page.title, q, ${TITLE_HEADLINE_OPTIONS}) AS title,
+        ts_headline(${CONFIG}, page.description, q, ${DESCRIPTION_HEADLINE_OPTIONS}) AS description
+        FROM (${page}) page, to_tsquery(${CONFIG}, ${tsQuery}) q`
+    : Prisma.sql`NULL::text AS title, NULL::text AS description FROM (${page}) page`;
+
+  const [rows, countRows] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: string; rank: number; title: string | null; description: string | null }>>`
+      SELECT page.id, page.rank, ${headlines} ORDER BY page.position
+    `,
+    prisma.$queryRaw<Array<{ total: number }>>`SELECT COUNT(*)::int AS total ${from}`,
+  ]);
+
+  return {
+    hits: rows.map((row) => ({
+      id: row.id,
+      rank: Number(row.rank),
+      highlight: tsQuery
+        ? {
+            title: toHighlightHtml(row.title ?? ''),
+            description: row.description ? toHighlightHtml(row.description) : null,
+          }
+        : null,
+    })),
+    total: countRows[0]?.total ?? 0,
+  };
+}
+
+/**
+ * Rebuild search vectors, for all content or the given ids. The triggers
+ * keep them current; this is for backfills and after changing how the
+ * document is built.
+ */
+export async function reindexContentSearch(contentIds?: string[]): Promise<number> {
+  const where = contentIds ? Prisma.sql`WHERE id = ANY(${contentIds}::uuid[])` : Prisma.empty;
+  return prisma.$executeRaw`
+    UPDATE content
+    SET search_vector = content_search_document(title, content_search_tags(id), content_search_creator(creator_id), description)
+    ${where}
+  `;
+}
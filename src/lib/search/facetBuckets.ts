@@ -0,0 +1,59 @@
+/**
+ * Search Facet Buckets
+ * The duration and upload date ranges search results are counted in. Each
+ * bucket becomes one COUNT(*) FILTER (...) column, all of them in one array
+ * (duration buckets first), which toBucketFacets splits back up.
+ */
+
+import { Prisma } from '@prisma/client';
+
+// Bounds in seconds, matching the duration filter's min/max (inclusive)
+export const DURATION_BUCKETS = [
+  { id: 'under-4', label: 'Under 4 minutes', min: 0, max: 239 },
+  { id: '4-20', label: '4-20 minutes', min: 240, max: 1199 },
+  { id: '20-60', label: '20-60 minutes', min: 1200, max: 3599 },
+  { id: 'over-60', label: 'Over an hour', min: 3600 },
+] as const;
+
+// Upload date buckets overlap: this week includes today. Apply one as
+// releaseDate.from = now - days.
+export const UPLOAD_DATE_BUCKETS = [
+  { id: 'today', label: 'Today', days: 1 },
+  { id: 'week', label: 'This week', days: 7 },
+  { id: 'month', label: 'This month', days: 30 },
+  { id: 'year', label: 'This year', days: 365 },
+] as const;
+
+export interface BucketFacets {
+  duration: Array<{ id: string; label: string; min: number; max?: number; count: number }>;
+  uploadDate: Array<{ id: string; label: string; days: number; count: number }>;
+}
+
+/**
+ * One count column per bucket, over rows with `duration` and `published_at`
+ */
+export function bucketCountColumns(): Prisma.Sql[] {
+  return [
+    ...DURATION_BUCKETS.map((bucket) =>
+      'max' in bucket
+        ? Prisma.sql`COUNT(*) FILTER (WHERE duration BETWEEN ${bucket.min} AND ${bucket.max})::int`
+        : Prisma.sql`COUNT(*) FILTER (WHERE duration >= ${bucket.min})::int`
+    ),
+    ...UPLOAD_DATE_BUCKETS.map(
+      (bucket) => Prisma.sql`COUNT(*) FILTER (WHERE published_at >= now() - ${bucket.days} * interval '1 day')::int`
+    ),
+  ];
+}
+
+/**
+ * The buckets with their counts, from the columns of bucketCountColumns
+ */
+export function toBucketFacets(counts: number[]): BucketFacets {
+  const durationCounts = counts.slice(0, DURATION_BUCKETS.length);
+  const uploadDateCounts = counts.slice(DURATION_BUCKETS.length);
+
+  return {
+    duration: DURATION_BUCKETS.map((bucket, i) => ({ ...bucket, count: durationCounts[i] ?? 0 })),
+    uploadDate: UPLOAD_DATE_BUCKETS.map((bucket, i) => ({ ...bucket, count: uploadDateCounts[i] ?? 0 })),
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Query Suggestions
+ * "Did you mean": when a search finds nothing, each word of the query is
+ * swapped for the most similar term (trigram similarity, via pg_trgm) among
+ * published content titles, tag names and creator handles, and the corrected
+ * query is searched instead. Words that are already spelled like a known term
+ * are left alone.
+ */
+
+import { prisma } from '../prisma';
+import { ContentSearchHit, ContentSearchOptions, searchContent } from './contentSearch';
+import { applyCorrections, correctableWords } from './searchQuery';
+
+// pg_trgm's default threshold for the % operator the candidate lookups use
+export const MIN_SIMILARITY = 0.3;
+
+const MAX_CORRECTED_WORDS = 6;
+
+// Titles to take words from, per misspelled word
+const MAX_TITLE_CANDIDATES = 200;
+
+/**
+ * The known term most similar to a word, or null if none is similar enough
+ */
+async function closestTerm(word: string): Promise<string | null> {
+  const rows = await prisma.$queryRaw<Array<{ term: string }>>`
+    SELECT term FROM (
+      SELECT lower(name) AS term FROM tags WHERE name % ${word}
+      UNION
+      SELECT lower(handle) FROM creators WHERE handle % ${word} AND deleted_at IS NULL
+      UNION
+      SELECT title_word FROM (
+        SELECT title FROM content
+        WHERE ${word} <% title AND status = 'PUBLISHED' AND is_public = true AND deleted_at IS NULL
+        LIMIT ${MAX_TITLE_CANDIDATES}
+      ) titles, regexp_split_to_table(lower(titles.title), '[^[:alnum:]]+') AS title_word
+    ) candidates
+    WHERE similarity(term, ${word}) >= ${MIN_SIMILARITY}
+    ORDER BY similarity(term, ${word}) DESC, abs(length(term) - length(${word})), term
+    LIMIT 1
+  `;
+  return rows[0]?.term ?? null;
+}
+
+/**
+ * A corrected version of a query, or null if every word looks right (or
+ * nothing close was found)
+ */
+export async function suggestQuery(query: string): Promise<string | null> {
+  const words = correctableWords(query).slice(0, MAX_CORRECTED_WORDS);
+  const corrections = new Map<string, string>();
+
+  await Promise.all(
+    words.map(async (word) => {
+      const term = await closestTerm(word);
+      if (term && term !== word) {
+        corrections.set(word, term);
+      }
+    })
+  );
+
+  return corrections.size > 0 ? applyCorrections(query, corrections) : null;
+}
+
+/**
+ * searchContent, falling back to the corrected query when the original finds
+ * nothing. `suggestion` is set only when the results are for the corrected
+ * query (so the original found nothing).
+ */
+export async function searchWithSuggestion(
+  options: ContentSearchOptions
+): Promise<{ hits: ContentSearchHit[]; total: number; suggestion: string | null }> {
+  const result = await searchContent(options);
+  if (result.total > 0 || !options.query.trim()) {
+    return { ...result, suggestion: null };
+  }
+
+  const suggestion = await suggestQuery(options.query);
+  if (!suggestion) {
+    return { ...result, suggestion: null };
+  }
+
+  const corrected = await searchContent({ ...options, query: suggestion });
+  return corrected.total > 0 ? { ...corrected, suggestion } : { ...result, suggestion: null };
+}
@@ -0,0 +1,86 @@
+/**
+ * Search Facets
+ * Counts of the content matching a query by category, tag, content type,
+ * duration, upload date, premium/free and VR, for filter UIs ("Music (124)").
+ * Counts are for the query before filters are applied, so the numbers next to
+ * each option don't shift as filters are toggled, and one set of counts per
+ * query can be cached (see getCachedSearchFacets).
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { matchingContent } from './contentSearch';
+import { BucketFacets, bucketCountColumns, toBucketFacets } from './facetBuckets';
+
+const MAX_TAG_FACETS = 50;
+
+export interface SearchFacetOption {
+  id: string;
+  name: string;
+  slug: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  categories: SearchFacetOption[];
+  tags: SearchFacetOption[];
+  contentTypes: Array<{ value: string; count: number }>;
+  duration: BucketFacets['duration'];
+  uploadDate: BucketFacets['uploadDate'];
+  premium: { premium: number; free: number };
+  vr: { vr: number; standard: number };
+}
+
+/**
+ * Facet counts for everything matching a tsquery (all published content
+ * when null)
+ */
+export async function computeSearchFacets(tsQuery: string | null): Promise<SearchFacets> {
+  const from = matchingContent(tsQuery, {});
+  const matched = Prisma.sql`SELECT c.id, c.type, c.duration, c.published_at, c.is_premium, c.is_vr ${from}`;
+
+  const bucketCounts = Prisma.join(bucketCountColumns(), ', ');
+
+  const [[summary], types, categories, tags] = await Promise.all([
+    prisma.$queryRaw<Array<{ counts: number[]; premium: number; vr: number; total: number }>>`
+      SELECT ARRAY[${bucketCounts}] AS counts,
+        COUNT(*) FILTER (WHERE is_premium)::int AS premium,
+        COUNT(*) FILTER (WHERE is_vr)::int AS vr,
+        COUNT(*)::int AS total
+      FROM (${matched}) m
+    `,
+    prisma.$queryRaw<Array<{ value: string; count: number }>>`
+      SELECT type::text AS value, COUNT(*)::int AS count
+      FROM (${matched}) m
+      GROUP BY type
+      ORDER BY count DESC
+    `,
+    prisma.$queryRaw<SearchFacetOption[]>`
+      SELECT cat.id, cat.name, cat.slug, COUNT(*)::int AS count
+      FROM (${matched}) m
+      JOIN content_categories cc ON cc.content_id = m.id
+      JOIN categories cat ON cat.id = cc.category_id
+      WHERE cat.deleted_at IS NULL AND cat.is_active IS NOT FALSE
+      GROUP BY cat.id
+      ORDER BY cat.name
+    `,
+    prisma.$queryRaw<SearchFacetOption[]>`
+      SELECT t.id, t.name, t.slug, COUNT(*)::int AS count
+      FROM (${matched}) m
+      JOIN content_tags ct ON ct.content_id = m.id
+      JOIN tags t ON t.id = ct.tag_id
+      GROUP BY t.id
+      ORDER BY count DESC, t.name
+      LIMIT ${MAX_TAG_FACETS}
+    `,
+  ]);
+
+  return {
+    categories,
+    tags,
+    contentTypes: types,
+    ...toBucketFacets(summary.counts),
+    premium: { premium: summary.premium, free: summary.total - summary.premium },
+    vr: { vr: summary.vr, standard: summary.total - summary.vr },
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Search Query Parsing
+ * Turns what a user typed into a PostgreSQL tsquery: "quoted text" is matched
+ * as a phrase, every other word as a prefix (so results show up while the
+ * last word is still being typed), and all of them have to match. Highlighted
+ * snippets come back from ts_headline wrapped in control characters, which are
+ * turned into <mark> tags after the text is escaped. Misspelled words are
+ * swapped in place, so a corrected query reads like the original.
+ */
+
+export const SEARCH_CONFIG = 'english';
+
+// Bounds the cost of a single query
+export const MAX_QUERY_TERMS = 16;
+
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_STOP = '\u0003';
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+function words(text: string): string[] {
+  return text.match(WORD) ?? [];
+}
+
+/**
+ * A tsquery for to_tsquery(SEARCH_CONFIG, ...), or null if the input has no
+ * searchable words. Only letters and digits get through, so the result is
+ * always valid tsquery syntax.
+ */
+export function toTsQuery(input: string): string | null {
+  const terms: string[] = [];
+
+  const rest = input.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    const phraseWords = words(phrase);
+    if (phraseWords.length === 1) {
+      terms.push(phraseWords[0]);
+    } else if (phraseWords.length > 1) {
+      terms.push(`(${phraseWords.join(' <-> ')})`);
+    }
+    return ' ';
+  });
+  for (const word of words(rest)) {
+    terms.push(`${word}:*`);
+  }
+
+  const unique = [...new Set(terms.map((term) => term.toLowerCase()))].slice(0, MAX_QUERY_TERMS);
+  return unique.length > 0 ? unique.join(' & ') : null;
+}
+
+/**
+ * Distinct lowercase words of a query worth spell-checking, in order
+ */
+export function correctableWords(input: string, minLength = 3): string[] {
+  const unique = [...new Set(words(input).map((word) => word.toLowerCase()))];
+  return unique.filter((word) => word.length >= minLength && !/^\p{N}+$/u.test(word));
+}
+
+/**
+ * The query with words swapped for their corrections (keyed by lowercase
+ * word), keeping quotes and everything else as typed
+ */
+export function applyCorrections(input: string, corrections: Map<string, string>): string {
+  return input.replace(WORD, (word) => corrections.get(word.toLowerCase()) ?? word);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * HTML for a ts_headline result: the text escaped, matches in <mark>
+ */
+export function toHighlightHtml(headline: string): string {
+  return escapeHtml(headline).split(HIGHLIGHT_START).join('<mark>').split(HIGHLIGHT_STOP).join('</mark>');
+}
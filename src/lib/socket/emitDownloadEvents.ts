@@ -1,11 +1,25 @@
 /**
  * Download Event Emitter
  * Emits Socket.io events for download progress
+ *
+ * Also holds the emitter the rest of the app uses to reach sockets. In the API
+ * process that is the Socket.io server, whose Redis adapter relays to the
+ * other instances. Processes without a Socket.io server (workers) publish
+ * through a Redis emitter instead, so their events still reach every client.
  */
 
 import { Server as SocketIOServer } from 'socket.io';
+import { Emitter } from '@socket.io/redis-emitter';
+import { redis, isRedisAvailable } from '../redis';
+
+export interface SocketEmitter {
+  to(room: string | string[]): {
+    emit(event: string, ...args: any[]): unknown;
+  };
+}
 
 let ioInstance: SocketIOServer | null = null;
+let redisEmitter: Emitter | null = null;
 
 /**
  * Set Socket.io instance (called from server.ts)
@@ -15,19 +29,27 @@ export function setSocketInstance(io: SocketIOServer) {
 }
 
 /**
- * Get Socket.io instance
+ * Get the emitter for this process: the Socket.io server if there is one,
+ * otherwise a Redis emitter (null while Redis is unavailable)
  */
-export function getSocketInstance(): SocketIOServer | null {
-  return ioInstance;
+export function getSocketInstance(): SocketEmitter | null {
+  if (ioInstance) {
+    return ioInstance;
+  }
+  if (!isRedisAvailable()) {
+    return null;
+  }
+  if (!redisEmitter) {
+    redisEmitter = new Emitter(redis!);
+  }
+  return redisEmitter;
 }
 
 /**
  * Emit download progress event
  */
 export function emitDownloadProgress(userId: string, downloadId: string, progress: number) {
-  if (!ioInstance) return;
-  
-  ioInstance.to(`user:${userId}`).emit('download:progress', {
+  getSocketInstance()?.to(`user:${userId}`).emit('download:progress', {
     downloadId,
     progress,
   });
@@ -37,9 +59,7 @@ export function emitDownloadProgress(userId: string, downloadId: string, progres
  * Emit download completed event
  */
 export function emitDownloadCompleted(userId: string, downloadId: string) {
-  if (!ioInstance) return;
-  
-  ioInstance.to(`user:${userId}`).emit('download:completed', {
+  getSocketInstance()?.to(`user:${userId}`).emit('download:completed', {
     downloadId,
   });
 }
@@ -48,11 +68,8 @@ export function emitDownloadCompleted(userId: string, downloadId: string) {
  * Emit download failed event
  */
 export function emitDownloadFailed(userId: string, downloadId: string, error: string) {
-  if (!ioInstance) return;
-  
-  ioInstance.to(`user:${userId}`).emit('download:failed', {
+  getSocketInstance()?.to(`user:${userId}`).emit('download:failed', {
     downloadId,
     error,
   });
 }
-
@@ -0,0 +1,43 @@
+/**
+ * Socket.io Redis Adapter
+ * Shares rooms between API instances: an emit to `stream:<id>`, `user:<id>`
+ * or `admin` on one instance reaches the sockets connected to all of them.
+ * Without REDIS_URL the default in-memory adapter is kept (single instance).
+ */
+
+import { Server as SocketIOServer } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { redis } from '../redis';
+import logger from '../logger';
+
+/**
+ * Install the adapter. Call before the HTTP server starts listening, since
+ * replacing the adapter drops rooms joined until then.
+ */
+export function attachRedisAdapter(io: SocketIOServer): boolean {
+  if (!redis) {
+    return false;
+  }
+
+  // Dedicated connections: the subscriber can't run other commands. Unlike the
+  // shared client they queue commands until connected.
+  const pubClient = redis.duplicate({ enableOfflineQueue: true });
+  const subClient = redis.duplicate({ enableOfflineQueue: true });
+
+  let errorLogged = false;
+  for (const client of [pubClient, subClient]) {
+    client.on('error', (error) => {
+      if (!errorLogged) {
+        errorLogged = true;
+        logger.warn('Socket.io Redis adapter connection error', { error: error.message });
+      }
+    });
+    client.on('ready', () => {
+      errorLogged = false;
+    });
+  }
+
+  io.adapter(createAdapter(pubClient, subClient));
+  logger.info('Socket.io Redis adapter attached');
+  return true;
+}
@@ -0,0 +1,46 @@
+/**
+ * HTTP Range header parsing for the local media server
+ */
+
+import type { ByteRange } from './storageDriver';
+
+/**
+ * Parse a `Range` header for a file of `size` bytes.
+ *
+ * Returns the (inclusive) range to serve, null to serve the whole file
+ * (no header, another unit, or several ranges, which we don't support), or
+ * 'unsatisfiable' when the range lies outside the file (416).
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange | null | 'unsatisfiable' {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, startText, endText] = match;
+  if (!startText && !endText) {
+    return null;
+  }
+
+  // Suffix range: the last N bytes
+  if (!startText) {
+    const suffix = parseInt(endText, 10);
+    if (suffix === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = parseInt(startText, 10);
+  const end = endText ? Math.min(parseInt(endText, 10), size - 1) : size - 1;
+
+  if (start >= size || end < start) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
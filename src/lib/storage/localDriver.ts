@@ -0,0 +1,197 @@
+/**
+ * Local Disk Storage Driver
+ * Objects as files under LOCAL_MEDIA_PATH, served by the API at /media
+ * (see middleware/localMedia.ts). Lets dev and CI run uploads, processing
+ * and playback without a bucket.
+ *
+ * Headers S3 would keep (content type, cache control, ACL, metadata) live
+ * in a JSON sidecar under `.meta/<key>.json`. Keys may not contain dot
+ * segments, so sidecars and in-progress uploads can never be addressed.
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join, posix, resolve, sep } from 'path';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { env } from '../../config/env';
+import { NotFoundError, ValidationError } from '../errors';
+import { LOCAL_MEDIA_PREFIX, signLocalMediaPath } from '../playback/signing';
+import {
+  ByteRange,
+  StorageDriver,
+  StoredObject,
+  UploadOptions,
+  UploadResult,
+  getContentTypeForKey,
+  keyFromBaseUrls,
+} from './storageDriver';
+
+const META_DIR = '.meta';
+
+interface SidecarMetadata {
+  contentType?: string;
+  cacheControl?: string;
+  acl?: UploadOptions['acl'];
+  metadata?: Record<string, string>;
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  private root: string;
+
+  constructor(root: string = env.LOCAL_MEDIA_PATH) {
+    this.root = resolve(root);
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Absolute file path for a key; rejects keys that would escape the root
+   */
+  private resolveKey(key: string): string {
+    const segments = key.split('/');
+    if (!key || segments.some((segment) => !segment || segment.startsWith('.') || segment.includes('\\'))) {
+      throw new ValidationError('Invalid storage key');
+    }
+
+    const file = resolve(join(this.root, ...segments));
+    if (!file.startsWith(this.root + sep)) {
+      throw new ValidationError('Invalid storage key');
+    }
+    return file;
+  }
+
+  private metaPath(key: string): string {
+    return join(this.root, META_DIR, ...key.split('/')) + '.json';
+  }
+
+  private async readSidecar(key: string): Promise<SidecarMetadata> {
+    try {
+      return JSON.parse(await readFile(this.metaPath(key), 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  async put(key: string, body: Buffer | Readable, options: UploadOptions = {}): Promise<UploadResult> {
+    const file = this.resolveKey(key);
+    await mkdir(dirname(file), { recursive: true });
+
+    // Write next to the target and rename, so readers never see half a file
+    const temp = join(dirname(file), `.${posix.basename(key)}.${uuidv4()}.tmp`);
+    try {
+      if (Buffer.isBuffer(body)) {
+        await writeFile(temp, body);
+      } else {
+        await pipeline(body, createWriteStream(temp));
+      }
+      await rename(temp, file);
+    } catch (error) {
+      await rm(temp, { force: true }).catch(() => {});
+      throw error;
+    }
+
+    const sidecar: SidecarMetadata = {
+      contentType: options.contentType || getContentTypeForKey(key),
+      cacheControl: options.cacheControl,
+      acl: options.acl || 'private',
+      metadata: options.metadata,
+    };
+    await mkdir(dirname(this.metaPath(key)), { recursive: true });
+    await writeFile(this.metaPath(key), JSON.stringify(sidecar));
+
+    const url = this.getUrl(key);
+    return { url, key, cdnUrl: url };
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const file = this.resolveKey(key);
+    const stats = await stat(file).catch(() => null);
+    if (!stats?.isFile()) {
+      throw new NotFoundError('File');
+    }
+
+    return createReadStream(file, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async head(key: string): Promise<StoredObject | null> {
+    let file: string;
+    try {
+      file = this.resolveKey(key);
+    } catch {
+      return null;
+    }
+
+    const stats = await stat(file).catch(() => null);
+    if (!stats?.isFile()) {
+      return null;
+    }
+
+    const sidecar = await this.readSidecar(key);
+    return {
+      key,
+      size: stats.size,
+      lastModified: stats.mtime,
+      contentType: sidecar.contentType || getContentTypeForKey(key),
+      cacheControl: sidecar.cacheControl,
+      metadata: sidecar.metadata,
+      acl: sidecar.acl || 'private',
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+    await rm(this.metaPath(key), { force: true });
+  }
+
+  async getSignedUrl(key: string, expiresIn: number): Promise<string> {
+    const expiresAt = Math.floor(Date.now() / 1000) + expiresIn;
+    return `${env.API_URL}${signLocalMediaPath(`${LOCAL_MEDIA_PREFIX}/${key}`, expiresAt)}`;
+  }
+
+  async *list(prefix: string = ''): AsyncIterable<StoredObject> {
+    // Only walk the directory the prefix points into
+    const directory = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    yield* this.walk(directory, prefix);
+  }
+
+  private async *walk(directory: string, prefix: string): AsyncIterable<StoredObject> {
+    const path = directory ? join(this.root, ...directory.split('/')) : this.root;
+    const entries = await readdir(path, { withFileTypes: true }).catch(() => []);
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const key = directory ? `${directory}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (prefix.startsWith(`${key}/`) || key.startsWith(prefix)) {
+          yield* this.walk(key, prefix);
+        }
+      } else if (entry.isFile() && key.startsWith(prefix)) {
+        const object = await this.head(key);
+        if (object) {
+          yield object;
+        }
+      }
+    }
+  }
+
+  getUrl(key: string): string {
+    return `${env.API_URL}${LOCAL_MEDIA_PREFIX}/${key}`;
+  }
+
+  getBaseUrls(): string[] {
+    return [this.getUrl('')];
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    // Relative /media/... paths are ours too
+    return keyFromBaseUrls(url, [...this.getBaseUrls(), `${LOCAL_MEDIA_PREFIX}/`]);
+  }
+}
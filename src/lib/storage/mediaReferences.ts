@@ -0,0 +1,119 @@
+/**
+ * Media References
+ * Where the database points at storage objects, and how a stored URL maps
+ * to the objects it keeps alive. Shared by the storage migration and the
+ * orphaned media collector.
+ */
+
+export interface MediaUrlColumn {
+  table: string;
+  column: string;
+  json?: boolean; // URLs nested anywhere inside a JSON value
+  contentIdColumn?: string; // rows owned by a content item (soft-deletes release them)
+}
+
+export const MEDIA_URL_COLUMNS: MediaUrlColumn[] = [
+  { table: 'users', column: 'avatar' },
+  { table: 'creators', column: 'avatar' },
+  { table: 'creators', column: 'banner' },
+  { table: 'content', column: 'thumbnail', contentIdColumn: 'id' },
+  { table: 'content', column: 'media_url', contentIdColumn: 'id' },
+  { table: 'content', column: 'dash_url', contentIdColumn: 'id' },
+  { table: 'content', column: 'preview_track_url', contentIdColumn: 'id' },
+  { table: 'content', column: 'source_url', contentIdColumn: 'id' },
+  { table: 'content', column: 'preview_sprites', json: true, contentIdColumn: 'id' },
+  { table: 'content_renditions', column: 'playlist_url', contentIdColumn: 'content_id' },
+  { table: 'content_captions', column: 'url', contentIdColumn: 'content_id' },
+  { table: 'content_revisions', column: 'source_url', contentIdColumn: 'content_id' },
+  { table: 'content_revisions', column: 'media_url', contentIdColumn: 'content_id' },
+  { table: 'content_revisions', column: 'dash_url', contentIdColumn: 'content_id' },
+  { table: 'content_revisions', column: 'preview_track_url', contentIdColumn: 'content_id' },
+  { table: 'content_revisions', column: 'preview_sprites', json: true, contentIdColumn: 'content_id' },
+  { table: 'content_revisions', column: 'renditions', json: true, contentIdColumn: 'content_id' },
+  { table: 'clips', column: 'media_url', contentIdColumn: 'content_id' },
+  { table: 'clips', column: 'thumbnail', contentIdColumn: 'content_id' },
+  { table: 'thumbnail_tests', column: 'variants', json: true, contentIdColumn: 'content_id' },
+  { table: 'downloads', column: 'file_path', contentIdColumn: 'content_id' },
+  { table: 'playlists', column: 'thumbnail' },
+  { table: 'collections', column: 'thumbnail_url' },
+  { table: 'live_streams', column: 'thumbnail_url' },
+  { table: 'live_streams', column: 'recording_url' },
+  { table: 'rewards', column: 'image_url' },
+  { table: 'feedback', column: 'screenshot' },
+];
+
+/**
+ * Folders the app writes to. Anything else in the bucket is left alone.
+ */
+export const MANAGED_FOLDERS = [
+  'avatars',
+  'banners',
+  'captions',
+  'clips',
+  'content',
+  'feedback',
+  'previews',
+  'streams',
+  'temp-videos',
+  'thumbnails',
+  'uploads',
+  'videos',
+];
+
+/**
+ * Folders holding generated packages (HLS/DASH, sprite sheets) whose files
+ * are only referenced through one manifest: `<folder>/<contentId>/<id>/...`
+ */
+const PACKAGE_FOLDERS = ['streams', 'previews'];
+const PACKAGE_DEPTH = 3;
+
+/**
+ * Every string inside a JSON value
+ */
+export function collectJsonStrings(value: unknown, strings: string[] = []): string[] {
+  if (typeof value === 'string') {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectJsonStrings(item, strings));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectJsonStrings(item, strings));
+  }
+  return strings;
+}
+
+/**
+ * Top-level folder of a key
+ */
+export function getKeyFolder(key: string): string {
+  return key.includes('/') ? key.slice(0, key.indexOf('/')) : '';
+}
+
+/**
+ * Keys kept alive by references, with whole packages kept by their manifest
+ */
+export class ReferenceSet {
+  private keys = new Set<string>();
+  private packages = new Set<string>();
+
+  add(key: string): void {
+    this.keys.add(key);
+
+    const segments = key.split('/');
+    if (PACKAGE_FOLDERS.includes(segments[0]) && segments.length > PACKAGE_DEPTH) {
+      this.packages.add(segments.slice(0, PACKAGE_DEPTH).join('/'));
+    }
+  }
+
+  has(key: string): boolean {
+    if (this.keys.has(key)) {
+      return true;
+    }
+
+    const segments = key.split('/');
+    return segments.length > PACKAGE_DEPTH && this.packages.has(segments.slice(0, PACKAGE_DEPTH).join('/'));
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+}
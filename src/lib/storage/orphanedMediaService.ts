@@ -0,0 +1,258 @@
+/**
+ * Orphaned Media Collection
+ * Finds storage objects nothing in the database points at any more (failed
+ * uploads, replaced files, content soft-deleted long ago) and removes them.
+ *
+ * Each run lists the managed storage folders and matches every object
+ * against the URLs in MEDIA_URL_COLUMNS. Unreferenced objects are first
+ * quarantined (StorageQuarantine) and only deleted once they are still
+ * unreferenced after STORAGE_GC_GRACE_DAYS, so a bad deploy or a restored
+ * content item never loses media. Objects that become referenced again are
+ * released from quarantine.
+ */
+
+import { prisma } from '../prisma';
+import { env } from '../../config/env';
+import { ValidationError } from '../errors';
+import logger from '../logger';
+import { storage } from './storageService';
+import {
+  MEDIA_URL_COLUMNS,
+  MANAGED_FOLDERS,
+  ReferenceSet,
+  collectJsonStrings,
+  getKeyFolder,
+} from './mediaReferences';
+
+export const SOFT_DELETE_RETENTION_DAYS = 30; // soft-deleted content keeps its media this long
+const MIN_OBJECT_AGE_HOURS = 24; // newer objects may belong to uploads still in progress
+const DEFAULT_SAMPLE_SIZE = 100;
+
+export type OrphanReason = 'unreferenced' | 'deleted_content';
+
+export interface ReconcileOptions {
+  dryRun?: boolean;
+  sampleSize?: number; // orphaned objects listed in the report
+}
+
+interface Tally {
+  objects: number;
+  bytes: number;
+}
+
+export interface OrphanedObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+  reason: OrphanReason;
+  quarantinedAt: Date | null;
+  deleteAfter: Date | null;
+}
+
+export interface ReconcileReport {
+  driver: string;
+  dryRun: boolean;
+  graceDays: number;
+  scanned: Tally;
+  referenced: Tally;
+  tooRecent: Tally;
+  orphaned: Tally & {
+    byFolder: Record<string, Tally>;
+    byReason: Record<OrphanReason, Tally>;
+  };
+  quarantined: number; // newly quarantined this run
+  pendingDeletion: number; // quarantined, still in the grace period
+  deleted: Tally; // (dry run: would be deleted)
+  released: number; // referenced again, removed from quarantine
+  samples: OrphanedObject[];
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+function getGraceDays(): number {
+  const days = parseInt(env.STORAGE_GC_GRACE_DAYS, 10);
+  return Number.isFinite(days) && days >= 0 ? days : 7;
+}
+
+function addTo(tally: Tally, size: number): void {
+  tally.objects++;
+  tally.bytes += size;
+}
+
+/**
+ * Storage keys referenced by the database. Media of content soft-deleted more
+ * than SOFT_DELETE_RETENTION_DAYS ago goes into `deletedContent` instead of `live`.
+ */
+async function collectReferences(): Promise<{ live: ReferenceSet; deletedContent: ReferenceSet }> {
+  const live = new ReferenceSet();
+  const deletedContent = new ReferenceSet();
+  const cutoff = new Date(Date.now() - SOFT_DELETE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  for (const { table, column, json, contentIdColumn } of MEDIA_URL_COLUMNS) {
+    // Identifiers come from the constant list, not from input
+    const rows = contentIdColumn
+      ? await prisma.$queryRawUnsafe<Array<{ value: unknown; released: boolean }>>(
+          `SELECT t."${column}" AS value, (c.deleted_at IS NOT NULL AND c.deleted_at < $1) AS released
+           FROM "${table}" t LEFT JOIN "content" c ON c.id = t."${contentIdColumn}"
+           WHERE t."${column}" IS NOT NULL`,
+          cutoff
+        )
+      : await prisma.$queryRawUnsafe<Array<{ value: unknown; released: boolean }>>(
+          `SELECT "${column}" AS value, false AS released FROM "${table}" WHERE "${column}" IS NOT NULL`
+        );
+
+    for (const row of rows) {
+      const urls = json ? collectJsonStrings(row.value) : [row.value as string];
+      for (const url of urls) {
+        const key = storage.getKeyFromUrl(url);
+        if (key) {
+          (row.released ? deletedContent : live).add(key);
+        }
+      }
+    }
+  }
+
+  return { live, deletedContent };
+}
+
+/**
+ * Match storage against the database: quarantine new orphans, delete those
+ * past their grace period and release objects that are referenced again.
+ * A dry run only reports what would happen.
+ */
+export async function reconcileStorage(options: ReconcileOptions = {}): Promise<ReconcileReport> {
+  const dryRun = !!options.dryRun;
+  const sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+  const driver = storage.getDriver().name;
+  const graceDays = getGraceDays();
+
+  if (!storage.isConfigured()) {
+    throw new ValidationError('Storage is not configured');
+  }
+
+  const startedAt = new Date();
+  const report: ReconcileReport = {
+    driver,
+    dryRun,
+    graceDays,
+    scanned: { objects: 0, bytes: 0 },
+    referenced: { objects: 0, bytes: 0 },
+    tooRecent: { objects: 0, bytes: 0 },
+    orphaned: {
+      objects: 0,
+      bytes: 0,
+      byFolder: {},
+      byReason: {
+        unreferenced: { objects: 0, bytes: 0 },
+        deleted_content: { objects: 0, bytes: 0 },
+      },
+    },
+    quarantined: 0,
+    pendingDeletion: 0,
+    deleted: { objects: 0, bytes: 0 },
+    released: 0,
+    samples: [],
+    startedAt,
+    finishedAt: startedAt,
+  };
+
+  const references = await collectReferences();
+  if (references.live.size === 0 && !dryRun) {
+    // An empty result almost certainly means the wrong database, not an empty site
+    throw new Error('No media references found; refusing to collect storage');
+  }
+
+  const quarantine = new Map(
+    (await prisma.storageQuarantine.findMany({ where: { driver } })).map((entry) => [entry.key, entry])
+  );
+  const newObjectCutoff = startedAt.getTime() - MIN_OBJECT_AGE_HOURS * 60 * 60 * 1000;
+  const deleteAfter = new Date(startedAt.getTime() + graceDays * 24 * 60 * 60 * 1000);
+
+  for (const folder of MANAGED_FOLDERS) {
+    for await (const object of storage.listFiles(`${folder}/`)) {
+      addTo(report.scanned, object.size);
+      const entry = quarantine.get(object.key);
+      quarantine.delete(object.key);
+
+      if (references.live.has(object.key)) {
+        addTo(report.referenced, object.size);
+        if (entry) {
+          report.released++;
+          if (!dryRun) {
+            await prisma.storageQuarantine.delete({ where: { id: entry.id } });
+          }
+        }
+        continue;
+      }
+
+      if (!entry && object.lastModified.getTime() > newObjectCutoff) {
+        addTo(report.tooRecent, object.size);
+        continue;
+      }
+
+      const reason: OrphanReason = references.deletedContent.has(object.key) ? 'deleted_content' : 'unreferenced';
+      addTo(report.orphaned, object.size);
+      addTo(report.orphaned.byReason[reason], object.size);
+      addTo((report.orphaned.byFolder[getKeyFolder(object.key)] ??= { objects: 0, bytes: 0 }), object.size);
+
+      if (report.samples.length < sampleSize) {
+        report.samples.push({
+          key: object.key,
+          size: object.size,
+          lastModified: object.lastModified,
+          reason,
+          quarantinedAt: entry?.quarantinedAt ?? null,
+          deleteAfter: entry?.deleteAfter ?? (dryRun ? null : deleteAfter),
+        });
+      }
+
+      if (!entry) {
+        report.quarantined++;
+        if (!dryRun) {
+          await prisma.storageQuarantine.create({
+            data: { driver, key: object.key, size: BigInt(object.size), reason, deleteAfter },
+          });
+        }
+        continue;
+      }
+
+      if (entry.deleteAfter > startedAt) {
+        report.pendingDeletion++;
+        continue;
+      }
+
+      if (!dryRun) {
+        try {
+          await storage.deleteFile(object.key);
+          await prisma.storageQuarantine.delete({ where: { id: entry.id } });
+        } catch (error) {
+          logger.error('Failed to delete orphaned media', { key: object.key, error });
+          continue;
+        }
+      }
+      addTo(report.deleted, object.size);
+    }
+  }
+
+  // Quarantined objects that disappeared from storage on their own
+  if (!dryRun && quarantine.size > 0) {
+    await prisma.storageQuarantine.deleteMany({
+      where: { id: { in: Array.from(quarantine.values(), (entry) => entry.id) } },
+    });
+  }
+
+  report.finishedAt = new Date();
+
+  if (!dryRun) {
+    logger.info('Storage reconciliation completed', {
+      driver,
+      scanned: report.scanned.objects,
+      quarantined: report.quarantined,
+      deleted: report.deleted.objects,
+      deletedBytes: report.deleted.bytes,
+      released: report.released,
+    });
+  }
+
+  return report;
+}
@@ -0,0 +1,270 @@
+/**
+ * S3/R2 Storage Driver
+ * Objects in S3-compatible storage (AWS S3, Cloudflare R2, etc.)
+ */
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  GetObjectAclCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { env } from '../../config/env';
+import { NotFoundError } from '../errors';
+import type { Readable } from 'stream';
+import {
+  ByteRange,
+  ObjectAcl,
+  StorageDriver,
+  StoredObject,
+  UploadOptions,
+  UploadResult,
+  getContentTypeForKey,
+  keyFromBaseUrls,
+} from './storageDriver';
+
+const PUBLIC_READ_GRANTEE = 'http://acs.amazonaws.com/groups/global/AllUsers';
+
+function isMissingObjectError(error: any): boolean {
+  return error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404;
+}
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private client?: S3Client;
+  private bucketName: string;
+  private cdnUrl?: string;
+  private region: string;
+  private isR2: boolean;
+
+  constructor() {
+    // Support both S3 and R2
+    this.isR2 = !!env.R2_ACCOUNT_ID;
+    const accessKeyId = env.S3_ACCESS_KEY_ID || env.R2_ACCESS_KEY_ID;
+    const secretAccessKey = env.S3_SECRET_ACCESS_KEY || env.R2_SECRET_ACCESS_KEY;
+    this.bucketName = env.S3_BUCKET_NAME || env.R2_BUCKET_NAME || '';
+    this.cdnUrl = env.S3_CDN_URL || env.R2_PUBLIC_URL;
+    this.region = env.S3_REGION || (this.isR2 ? 'auto' : 'us-east-1');
+
+    if (!accessKeyId || !secretAccessKey || !this.bucketName) {
+      console.warn('⚠️  S3/R2 storage not configured. File uploads will use placeholder URLs.');
+      return;
+    }
+
+    // R2 endpoint format: https://<account-id>.r2.cloudflarestorage.com
+    let endpoint = env.S3_ENDPOINT;
+    if (this.isR2 && !endpoint) {
+      endpoint = `https://${env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`;
+    }
+
+    this.client = new S3Client({
+      endpoint: endpoint,
+      region: this.region,
+      credentials: {
+        accessKeyId,
+        secretAccessKey,
+      },
+      // For R2, force path style
+      forcePathStyle: this.isR2,
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!this.client;
+  }
+
+  async put(key: string, body: Buffer | Readable, options: UploadOptions = {}): Promise<UploadResult> {
+    if (!this.client) {
+      // Fallback to placeholder URL if not configured
+      return {
+        url: `https://storage.example.com/${key}`,
+        key,
+        cdnUrl: this.cdnUrl ? `${this.cdnUrl}/${key}` : undefined,
+      };
+    }
+
+    const commandOptions: any = {
+      Bucket: this.bucketName,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType || getContentTypeForKey(key),
+      CacheControl: options.cacheControl || 'public, max-age=31536000, immutable',
+      Metadata: options.metadata || {},
+    };
+
+    // Streams have no intrinsic length, S3 needs it up front
+    if (options.contentLength !== undefined) {
+      commandOptions.ContentLength = options.contentLength;
+    }
+
+    // R2 doesn't support ACL, so we omit it for R2
+    if (!this.isR2 && options.acl) {
+      commandOptions.ACL = options.acl;
+    }
+
+    await this.client.send(new PutObjectCommand(commandOptions));
+
+    const url = this.getObjectUrl(key);
+    return {
+      url,
+      key,
+      cdnUrl: this.cdnUrl ? `${this.cdnUrl}/${key}` : url,
+    };
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    if (!this.client) {
+      throw new NotFoundError('File');
+    }
+
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        })
+      );
+      return response.Body as Readable;
+    } catch (error) {
+      if (isMissingObjectError(error)) {
+        throw new NotFoundError('File');
+      }
+      throw error;
+    }
+  }
+
+  async head(key: string): Promise<StoredObject | null> {
+    if (!this.client) {
+      return null;
+    }
+
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return {
+        key,
+        size: response.ContentLength || 0,
+        lastModified: response.LastModified || new Date(),
+        contentType: response.ContentType,
+        cacheControl: response.CacheControl,
+        metadata: response.Metadata,
+        acl: await this.getAcl(key),
+      };
+    } catch (error) {
+      if (isMissingObjectError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * R2 has no object ACLs: everything is public when the bucket has a public URL
+   */
+  private async getAcl(key: string): Promise<ObjectAcl | undefined> {
+    if (this.isR2) {
+      return env.R2_PUBLIC_URL ? 'public-read' : 'private';
+    }
+
+    try {
+      const response = await this.client!.send(new GetObjectAclCommand({ Bucket: this.bucketName, Key: key }));
+      const isPublic = response.Grants?.some(
+        (grant) => grant.Grantee?.URI === PUBLIC_READ_GRANTEE && ['READ', 'FULL_CONTROL'].includes(grant.Permission || '')
+      );
+      return isPublic ? 'public-read' : 'private';
+    } catch {
+      // Buckets with ACLs disabled (bucket owner enforced)
+      return undefined;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+  }
+
+  async getSignedUrl(key: string, expiresIn: number): Promise<string> {
+    if (!this.client) {
+      return '';
+    }
+
+    const command = new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+    });
+
+    return await getSignedUrl(this.client, command, { expiresIn });
+  }
+
+  async *list(prefix: string = ''): AsyncIterable<StoredObject> {
+    if (!this.client) {
+      return;
+    }
+
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix || undefined,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const object of response.Contents || []) {
+        if (object.Key) {
+          yield {
+            key: object.Key,
+            size: object.Size || 0,
+            lastModified: object.LastModified || new Date(),
+          };
+        }
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  getUrl(key: string): string {
+    return this.cdnUrl ? `${this.cdnUrl}/${key}` : this.getObjectUrl(key);
+  }
+
+  /**
+   * Direct bucket URL (without the CDN)
+   */
+  private getObjectUrl(key: string): string {
+    if (env.R2_ACCOUNT_ID && env.R2_PUBLIC_URL) {
+      // R2 public URL
+      return `${env.R2_PUBLIC_URL}/${key}`;
+    }
+    if (env.R2_ACCOUNT_ID) {
+      // R2 endpoint URL
+      return `https://${env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com/${this.bucketName}/${key}`;
+    }
+    // S3 URL
+    return `https://${this.bucketName}.s3.${this.region}.amazonaws.com/${key}`;
+  }
+
+  getBaseUrls(): string[] {
+    const bases = [
+      this.getUrl(''),
+      this.cdnUrl ? `${this.cdnUrl}/` : undefined,
+      env.R2_PUBLIC_URL ? `${env.R2_PUBLIC_URL}/` : undefined,
+      env.R2_ACCOUNT_ID ? `https://${env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com/${this.bucketName}/` : undefined,
+      this.bucketName ? `https://${this.bucketName}.s3.${this.region}.amazonaws.com/` : undefined,
+    ].filter((base): base is string => !!base);
+
+    return Array.from(new Set(bases));
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    return keyFromBaseUrls(url, this.getBaseUrls());
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Storage Driver
+ * The object operations every storage backend implements. `storage`
+ * (storageService.ts) picks a driver from STORAGE_DRIVER and adds the
+ * upload helpers the rest of the app uses.
+ */
+
+import type { Readable } from 'stream';
+
+export type StorageDriverName = 's3' | 'local';
+
+export type ObjectAcl = 'private' | 'public-read';
+
+export interface UploadOptions {
+  contentType?: string;
+  cacheControl?: string;
+  metadata?: Record<string, string>;
+  // Always pass one: without it objects are private on the local driver but
+  // follow the bucket's policy on S3
+  acl?: ObjectAcl;
+  contentLength?: number; // Required when uploading a stream
+}
+
+export interface UploadResult {
+  url: string;
+  key: string;
+  cdnUrl?: string;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+  contentType?: string;
+  cacheControl?: string;
+  metadata?: Record<string, string>;
+  acl?: ObjectAcl; // undefined when the backend can't tell
+}
+
+/**
+ * Inclusive byte range, as in an HTTP Range header
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  /**
+   * Whether the backend can store objects (S3 without credentials can't)
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Write an object at an exact key, replacing any existing one
+   */
+  put(key: string, body: Buffer | Readable, options?: UploadOptions): Promise<UploadResult>;
+
+  /**
+   * Read an object, or part of it. Throws NotFoundError for missing keys.
+   */
+  getStream(key: string, range?: ByteRange): Promise<Readable>;
+
+  /**
+   * Size and headers of an object, or null if it doesn't exist
+   */
+  head(key: string): Promise<StoredObject | null>;
+
+  delete(key: string): Promise<void>;
+
+  /**
+   * Temporary URL that works for private objects
+   */
+  getSignedUrl(key: string, expiresIn: number): Promise<string>;
+
+  /**
+   * Every object whose key starts with `prefix`
+   */
+  list(prefix?: string): AsyncIterable<StoredObject>;
+
+  /**
+   * Public URL of an object, as stored in the database
+   */
+  getUrl(key: string): string;
+
+  /**
+   * URL prefixes this backend hands out (`getUrl('')` first)
+   */
+  getBaseUrls(): string[];
+
+  /**
+   * Map a URL produced by this backend back to its key, or null
+   */
+  getKeyFromUrl(url: string): string | null;
+}
+
+/**
+ * Shared getKeyFromUrl implementation: strip the first matching base URL
+ */
+export function keyFromBaseUrls(url: string, bases: string[]): string | null {
+  for (const base of bases) {
+    const prefix = base.endsWith('/') ? base : `${base}/`;
+    if (url.startsWith(prefix)) {
+      const key = decodeURIComponent(url.slice(prefix.length).split('?')[0]);
+      return key || null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get content type from file extension
+ */
+export function getContentType(extension: string): string {
+  const types: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    mov: 'video/quicktime',
+    avi: 'video/x-msvideo',
+    m3u8: 'application/vnd.apple.mpegurl',
+    mpd: 'application/dash+xml',
+    m4s: 'video/iso.segment',
+    vtt: 'text/vtt',
+    pdf: 'application/pdf',
+  };
+
+  return types[extension.toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Content type for an object key
+ */
+export function getContentTypeForKey(key: string): string {
+  const name = key.split('/').pop() || '';
+  return name.includes('.') ? getContentType(name.split('.').pop()!) : 'application/octet-stream';
+}
@@ -0,0 +1,150 @@
+/**
+ * Storage Migration
+ * Copies objects from one storage driver to another and points the URLs
+ * stored in the database at the new backend. Run via scripts/migrate-storage.ts.
+ *
+ * Copies are idempotent: objects that already exist in the target with the
+ * same size are skipped, so an interrupted run can simply be restarted.
+ */
+
+import { prisma } from '../prisma';
+import logger from '../logger';
+import { StorageDriver, StoredObject } from './storageDriver';
+import { MEDIA_URL_COLUMNS } from './mediaReferences';
+
+export interface MigrateObjectsOptions {
+  prefix?: string;
+  dryRun?: boolean;
+  onObject?: (object: StoredObject, action: 'copied' | 'skipped' | 'failed') => void;
+}
+
+export interface MigrateObjectsResult {
+  copied: number;
+  skipped: number;
+  failed: number;
+  bytes: number;
+}
+
+/**
+ * Copy every object (under `prefix`) from one driver to another
+ */
+export async function migrateObjects(
+  from: StorageDriver,
+  to: StorageDriver,
+  options: MigrateObjectsOptions = {}
+): Promise<MigrateObjectsResult> {
+  if (from.name === to.name) {
+    throw new Error('Source and target storage drivers are the same');
+  }
+  if (!from.isConfigured() || !to.isConfigured()) {
+    throw new Error('Both storage drivers must be configured');
+  }
+
+  const result: MigrateObjectsResult = { copied: 0, skipped: 0, failed: 0, bytes: 0 };
+
+  for await (const listed of from.list(options.prefix)) {
+    try {
+      const existing = await to.head(listed.key);
+      if (existing && existing.size === listed.size) {
+        result.skipped++;
+        options.onObject?.(listed, 'skipped');
+        continue;
+      }
+
+      if (!options.dryRun) {
+        // Listings don't include headers, head() does
+        const object = (await from.head(listed.key)) || listed;
+        await to.put(listed.key, await from.getStream(listed.key), {
+          contentType: object.contentType,
+          cacheControl: object.cacheControl,
+          metadata: object.metadata,
+          acl: object.acl,
+          contentLength: object.size,
+        });
+      }
+
+      result.copied++;
+      result.bytes += listed.size;
+      options.onObject?.(listed, 'copied');
+    } catch (error) {
+      result.failed++;
+      logger.error('Failed to migrate storage object', { key: listed.key, error });
+      options.onObject?.(listed, 'failed');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Delete source objects that have been copied to the target (same key and
+ * size). Run after rewriteStorageUrls so nothing points at them anymore.
+ */
+export async function deleteMigratedObjects(
+  from: StorageDriver,
+  to: StorageDriver,
+  options: { prefix?: string } = {}
+): Promise<number> {
+  let deleted = 0;
+
+  for await (const object of from.list(options.prefix)) {
+    const copy = await to.head(object.key);
+    if (copy && copy.size === object.size) {
+      await from.delete(object.key);
+      deleted++;
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Point stored URLs from one driver's base URLs at the other's.
+ * Returns the number of rows changed per column (or that would change on a dry run).
+ */
+export async function rewriteStorageUrls(
+  from: StorageDriver,
+  to: StorageDriver,
+  options: { dryRun?: boolean } = {}
+): Promise<Record<string, number>> {
+  const target = to.getUrl('');
+  const counts: Record<string, number> = {};
+
+  for (const base of from.getBaseUrls()) {
+    if (base === target) {
+      continue;
+    }
+
+    for (const { table, column, json } of MEDIA_URL_COLUMNS) {
+      const name = `${table}.${column}`;
+      // Identifiers come from the constant list, the URLs are parameters
+      let changed: number;
+      if (json) {
+        changed = options.dryRun
+          ? await countRows(`SELECT count(*)::int AS count FROM "${table}" WHERE strpos("${column}"::text, $1) > 0`, base)
+          : await prisma.$executeRawUnsafe(
+              `UPDATE "${table}" SET "${column}" = replace("${column}"::text, $1, $2)::jsonb WHERE strpos("${column}"::text, $1) > 0`,
+              base,
+              target
+            );
+      } else {
+        changed = options.dryRun
+          ? await countRows(`SELECT count(*)::int AS count FROM "${table}" WHERE starts_with("${column}", $1)`, base)
+          : await prisma.$executeRawUnsafe(
+              `UPDATE "${table}" SET "${column}" = $2 || substr("${column}", $3) WHERE starts_with("${column}", $1)`,
+              base,
+              target,
+              base.length + 1
+            );
+      }
+      counts[name] = (counts[name] || 0) + changed;
+    }
+  }
+
+  return counts;
+}
+
+async function countRows(query: string, base: string): Promise<number> {
+  const rows = await prisma.$queryRawUnsafe<Array<{ count: number }>>(query, base);
+  return rows[0]?.count || 0;
+}
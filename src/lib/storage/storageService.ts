@@ -0,0 +1,196 @@
+/**
+ * Storage Service
+ * File uploads on top of the configured storage driver:
+ *
+ * - s3: S3-compatible storage (AWS S3, Cloudflare R2, ...)
+ * - local: files under LOCAL_MEDIA_PATH, served by the API at /media
+ *
+ * STORAGE_DRIVER=auto uses S3/R2 when credentials are configured and local
+ * disk otherwise. `bun run storage:migrate` moves objects between them.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Readable } from 'stream';
+import { env } from '../../config/env';
+import { LocalStorageDriver } from './localDriver';
+import { S3StorageDriver } from './s3Driver';
+import {
+  ByteRange,
+  StorageDriver,
+  StorageDriverName,
+  StoredObject,
+  UploadOptions,
+  UploadResult,
+  getContentType,
+} from './storageDriver';
+
+export type { UploadOptions, UploadResult } from './storageDriver';
+
+const drivers: Partial<Record<StorageDriverName, StorageDriver>> = {};
+
+/**
+ * Driver instance for a backend (shared, created on first use)
+ */
+export function getStorageDriver(name: StorageDriverName): StorageDriver {
+  if (!drivers[name]) {
+    drivers[name] = name === 's3' ? new S3StorageDriver() : new LocalStorageDriver();
+  }
+  return drivers[name]!;
+}
+
+/**
+ * Backend selected by STORAGE_DRIVER
+ */
+function resolveDriverName(): StorageDriverName {
+  if (env.STORAGE_DRIVER !== 'auto') {
+    return env.STORAGE_DRIVER;
+  }
+
+  const hasS3Credentials =
+    !!(env.S3_ACCESS_KEY_ID || env.R2_ACCESS_KEY_ID) &&
+    !!(env.S3_SECRET_ACCESS_KEY || env.R2_SECRET_ACCESS_KEY) &&
+    !!(env.S3_BUCKET_NAME || env.R2_BUCKET_NAME);
+
+  return hasS3Credentials ? 's3' : 'local';
+}
+
+class StorageService {
+  constructor(private driver: StorageDriver) {
+    if (driver.name === 'local') {
+      console.log(`✅ Storage: local disk (${env.LOCAL_MEDIA_PATH})`);
+    }
+  }
+
+  /**
+   * Active driver
+   */
+  getDriver(): StorageDriver {
+    return this.driver;
+  }
+
+  /**
+   * Upload a file buffer (or stream) under a generated name
+   */
+  async uploadFile(
+    body: Buffer | Readable,
+    filename: string,
+    folder: string = 'uploads',
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
+    const extension = filename.split('.').pop() || '';
+    const key = `${folder}/${uuidv4()}.${extension}`;
+
+    return this.uploadToKey(key, body, {
+      ...options,
+      contentType: options.contentType || getContentType(extension),
+    });
+  }
+
+  /**
+   * Upload to an exact object key (e.g. HLS/DASH segments that manifests
+   * reference by relative path)
+   */
+  async uploadToKey(
+    key: string,
+    body: Buffer | Readable,
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
+    return this.driver.put(key, body, options);
+  }
+
+  /**
+   * Upload an image (thumbnail, avatar, etc.)
+   */
+  async uploadImage(
+    buffer: Buffer,
+    filename: string,
+    folder: 'thumbnails' | 'avatars' | 'banners' | 'feedback' = 'thumbnails'
+  ): Promise<UploadResult> {
+    return this.uploadFile(buffer, filename, folder, {
+      contentType: getContentType(filename.split('.').pop() || ''),
+      cacheControl: 'public, max-age=31536000, immutable',
+      acl: 'public-read',
+    });
+  }
+
+  /**
+   * Upload a video file. Originals are private: they're read through signed
+   * URLs (see signSourceUrl in lib/playback), like renditions.
+   */
+  async uploadVideo(
+    body: Buffer | Readable,
+    filename: string,
+    folder: string = 'videos',
+    contentLength?: number
+  ): Promise<UploadResult> {
+    return this.uploadFile(body, filename, folder, {
+      contentType: 'video/mp4',
+      cacheControl: 'private, max-age=31536000, immutable',
+      acl: 'private',
+      contentLength,
+    });
+  }
+
+  /**
+   * Read an object, or an inclusive byte range of it
+   */
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    return this.driver.getStream(key, range);
+  }
+
+  /**
+   * Delete a file
+   */
+  async deleteFile(key: string): Promise<void> {
+    await this.driver.delete(key);
+  }
+
+  /**
+   * Check if a file exists
+   */
+  async fileExists(key: string): Promise<boolean> {
+    try {
+      return !!(await this.driver.head(key));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Size and headers of a file, or null
+   */
+  async getFileInfo(key: string): Promise<StoredObject | null> {
+    return this.driver.head(key);
+  }
+
+  /**
+   * Files whose key starts with `prefix`
+   */
+  listFiles(prefix?: string): AsyncIterable<StoredObject> {
+    return this.driver.list(prefix);
+  }
+
+  /**
+   * Generate a signed URL for temporary access (works for private files)
+   */
+  async getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
+    return this.driver.getSignedUrl(key, expiresIn);
+  }
+
+  /**
+   * Map a public/CDN URL produced by the active driver back to its key.
+   * Returns null for URLs that don't point at our storage.
+   */
+  getKeyFromUrl(url: string): string | null {
+    return this.driver.getKeyFromUrl(url);
+  }
+
+  /**
+   * Whether the active driver can store files
+   */
+  isConfigured(): boolean {
+    return this.driver.isConfigured();
+  }
+}
+
+export const storage = new StorageService(getStorageDriver(resolveDriverName()));
@@ -3,6 +3,7 @@
  * Handles video uploads to Cloudflare Stream or Mux
  */
 
+import crypto from 'crypto';
 import { env } from '../../config/env';
 
 export interface VideoUploadResult {
@@ -14,6 +15,21 @@ export interface VideoUploadResult {
   status: 'ready' | 'processing' | 'error';
 }
 
+export interface VideoStatusDetails {
+  status: VideoUploadResult['status'];
+  url?: string;
+  thumbnailUrl?: string;
+  duration?: number;
+  error?: string; // Provider's reason when status is 'error'
+}
+
+export interface VideoWebhookEvent {
+  videoId: string;
+  status: VideoUploadResult['status'];
+  duration?: number;
+  error?: string;
+}
+
 export interface VideoUploadOptions {
   title?: string;
   description?: string;
@@ -35,6 +51,20 @@ class VideoStorageService {
     }
   }
 
+  /**
+   * Whether a hosted provider (Cloudflare Stream/Mux) is configured
+   */
+  isConfigured(): boolean {
+    return this.provider !== 'none';
+  }
+
+  /**
+   * Active hosted provider
+   */
+  getProvider(): 'cloudflare' | 'mux' | 'none' {
+    return this.provider;
+  }
+
   /**
    * Upload video to Cloudflare Stream
    */
@@ -141,9 +171,10 @@ class VideoStorageService {
     let videoUrl: string;
     if (Buffer.isBuffer(videoUrlOrBuffer)) {
       // Upload to S3/R2 first (temporary storage)
-      const { s3Storage } = await import('./s3Storage');
-      const result = await s3Storage.uploadVideo(videoUrlOrBuffer, 'video.mp4', 'temp-videos');
-      videoUrl = result.cdnUrl || result.url;
+      const { storage } = await import('./storageService');
+      const { signSourceUrl } = await import('../playback/playbackService');
+      const result = await storage.uploadVideo(videoUrlOrBuffer, 'video.mp4', 'temp-videos');
+      videoUrl = await signSourceUrl(result.cdnUrl || result.url);
     } else {
       videoUrl = videoUrlOrBuffer;
     }
@@ -162,6 +193,16 @@ class VideoStorageService {
    * Get video status
    */
   async getVideoStatus(videoId: string): Promise<VideoUploadResult['status']> {
+    const details = await this.getVideoDetails(videoId);
+    return details.status;
+  }
+
+  /**
+   * Get video status along with playback URL, duration and any error reason.
+   * Throws on transport errors so callers can retry; 'error' means the
+   * provider itself reported a failure.
+   */
+  async getVideoDetails(videoId: string): Promise<VideoStatusDetails> {
     if (this.provider === 'cloudflare') {
       const response = await fetch(
         `https://api.cloudflare.com/client/v4/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/stream/${videoId}`,
@@ -172,12 +213,24 @@ class VideoStorageService {
         }
       );
 
+      if (response.status === 404) {
+        return { status: 'error', error: 'Video was not found at the provider' };
+      }
       if (!response.ok) {
-        return 'error';
+        throw new Error(`Cloudflare Stream status check failed: ${response.status}`);
       }
 
       const data = await response.json();
-      return data.result.status === 'ready' ? 'ready' : 'processing';
+      const video = data.result;
+      const state = video.status?.state;
+
+      return {
+        status: state === 'ready' ? 'ready' : state === 'error' ? 'error' : 'processing',
+        url: `https://customer-${env.CLOUDFLARE_ACCOUNT_ID}.cloudflarestream.com/${video.uid}/manifest/video.m3u8`,
+        thumbnailUrl: video.thumbnail,
+        duration: video.duration > 0 ? Math.round(video.duration) : undefined,
+        error: video.status?.errReasonText,
+      };
     } else if (this.provider === 'mux') {
       const credentials = Buffer.from(`${env.MUX_TOKEN_ID}:${env.MUX_TOKEN_SECRET}`).toString('base64');
       const response = await fetch(`https://api.mux.com/video/v1/assets/${videoId}`, {
@@ -186,15 +239,118 @@ class VideoStorageService {
         },
       });
 
+      if (response.status === 404) {
+        return { status: 'error', error: 'Video was not found at the provider' };
+      }
       if (!response.ok) {
-        return 'error';
+        throw new Error(`Mux status check failed: ${response.status}`);
       }
 
       const data = await response.json();
-      return data.data.status === 'ready' ? 'ready' : 'processing';
+      const asset = data.data;
+      const playbackId = asset.playback_ids?.[0]?.id || asset.id;
+
+      return {
+        status: asset.status === 'ready' ? 'ready' : asset.status === 'errored' ? 'error' : 'processing',
+        url: `https://stream.mux.com/${playbackId}.m3u8`,
+        thumbnailUrl: `https://image.mux.com/${playbackId}/thumbnail.jpg`,
+        duration: asset.duration ? Math.round(asset.duration) : undefined,
+        error: asset.errors?.messages?.join('; '),
+      };
     }
 
-    return 'ready';
+    return { status: 'ready' };
+  }
+
+  /**
+   * Verify a provider webhook signature.
+   * Both providers sign `${timestamp}.${rawBody}` with HMAC-SHA256
+   * (Mux: `mux-signature: t=..,v1=..`, Cloudflare: `webhook-signature: time=..,sig1=..`).
+   */
+  verifyWebhookSignature(
+    provider: 'cloudflare' | 'mux',
+    rawBody: string,
+    signatureHeader: string | undefined,
+    toleranceSeconds = 300
+  ): boolean {
+    const secret = provider === 'mux' ? env.MUX_WEBHOOK_SECRET : env.CLOUDFLARE_STREAM_WEBHOOK_SECRET;
+    if (!secret || !signatureHeader) {
+      return false;
+    }
+
+    const parts = Object.fromEntries(
+      signatureHeader.split(',').map((part) => {
+        const [key, ...value] = part.trim().split('=');
+        return [key, value.join('=')];
+      })
+    );
+    const timestamp = provider === 'mux' ? parts.t : parts.time;
+    const signature = provider === 'mux' ? parts.v1 : parts.sig1;
+
+    if (!timestamp || !signature) {
+      return false;
+    }
+
+    if (Math.abs(Date.now() / 1000 - parseInt(timestamp, 10)) > toleranceSeconds) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${rawBody}`)
+      .digest('hex');
+
+    return (
+      expected.length === signature.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+    );
+  }
+
+  /**
+   * Normalize a provider webhook payload. Returns null for events that
+   * don't describe an asset status change.
+   */
+  parseWebhookEvent(provider: 'cloudflare' | 'mux', payload: any): VideoWebhookEvent | null {
+    if (provider === 'mux') {
+      const asset = payload?.data;
+      if (!asset?.id) {
+        return null;
+      }
+
+      switch (payload.type) {
+        case 'video.asset.ready':
+          return {
+            videoId: asset.id,
+            status: 'ready',
+            duration: asset.duration ? Math.round(asset.duration) : undefined,
+          };
+        case 'video.asset.errored':
+          return {
+            videoId: asset.id,
+            status: 'error',
+            error: asset.errors?.messages?.join('; ') || asset.errors?.type,
+          };
+        default:
+          return null;
+      }
+    }
+
+    // Cloudflare Stream posts the video object itself
+    if (!payload?.uid) {
+      return null;
+    }
+
+    const state = payload.status?.state;
+    if (state !== 'ready' && state !== 'error') {
+      return null;
+    }
+
+    return {
+      videoId: payload.uid,
+      status: state,
+      duration: payload.duration > 0 ? Math.round(payload.duration) : undefined,
+      error: payload.status?.errReasonText,
+    };
   }
 
   /**
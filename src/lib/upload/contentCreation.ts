@@ -0,0 +1,245 @@
+/**
+ * Content Creation
+ * Turns a stored media file into a Content item and starts the usual
+ * pipeline: tags and categories, transcoding, thumbnails, auto-moderation,
+ * duplicate detection, notifications and cache invalidation. Used by direct
+ * and resumable uploads and by live-to-VOD.
+ */
+
+import { prisma } from '../prisma';
+import { autoFlagContent } from '../moderation/autoModeration';
+import { fingerprintUpload, DuplicateMatch } from '../moderation/duplicateService';
+import { invalidateSearchCache, invalidateHomepageCache } from '../cache/contentCache';
+import { trackUploadActivity } from '../social/activityFeedService';
+import {
+  queueVideoTranscoding,
+  queueThumbnailGeneration,
+  queueNotification,
+} from '../queues/queueManager';
+
+export interface ContentMetadata {
+  title: string;
+  description?: string;
+  type: 'video' | 'live' | 'vr';
+  isPublic: boolean;
+  isNSFW: boolean;
+  ageRestricted: boolean;
+  allowComments: boolean;
+  allowDownloads: boolean;
+  isPremium: boolean;
+  price?: number;
+  tags?: string[];
+  categories?: string[];
+}
+
+export type CreatorRecord = NonNullable<Awaited<ReturnType<typeof prisma.creator.findFirst>>>;
+
+/**
+ * Create the Content row for an uploaded media file, attach tags and
+ * categories, and kick off background processing (transcoding, thumbnails,
+ * moderation, notifications). Returns the content and any exact duplicates
+ * of the upload.
+ */
+export async function createUploadedContent(params: {
+  userId: string;
+  creator: CreatorRecord;
+  metadata: ContentMetadata;
+  media: { url: string; sha256: string; mimetype: string; size: number };
+  thumbnailUrl: string | null;
+  hasThumbnail: boolean;
+}) {
+  const { userId, creator, metadata, media, thumbnailUrl, hasThumbnail } = params;
+  const {
+    title,
+    description,
+    type,
+    isPublic,
+    isNSFW,
+    ageRestricted,
+    allowComments,
+    allowDownloads,
+    isPremium,
+    price,
+    tags,
+    categories,
+  } = metadata;
+  const mediaUrl = media.url;
+  const isVideo = media.mimetype.startsWith('video/');
+
+  // Map lowercase type to uppercase enum value
+  const contentTypeMap: Record<string, 'VIDEO' | 'LIVE_STREAM' | 'VR'> = {
+    video: 'VIDEO',
+    live: 'LIVE_STREAM',
+    vr: 'VR',
+  };
+  const contentType = contentTypeMap[type] || 'VIDEO';
+
+  // Create content (thumbnailBlur will be added in background if needed)
+  const content = await prisma.content.create({
+    data: {
+      creatorId: creator.id,
+      title,
+      description,
+      type: contentType,
+      status: isVideo ? 'PENDING_REVIEW' : 'PUBLISHED', // Videos need processing
+      thumbnail: thumbnailUrl,
+      thumbnailBlur: null, // Will be set in background if thumbnail provided
+      mediaUrl,
+      mediaType: media.mimetype,
+      fileSize: BigInt(media.size),
+      sourceUrl: isVideo ? mediaUrl : null,
+      processingStatus: isVideo ? 'uploaded' : null,
+      isPublic,
+      isNSFW,
+      ageRestricted,
+      allowComments,
+      allowDownloads,
+      isPremium,
+      price: price ? parseFloat(price.toString()) : null,
+      publishedAt: new Date(),
+    },
+  });
+
+  // Send email notifications to followers if content is published
+  if (content.status === 'PUBLISHED') {
+    import('../email/sendNewUploadEmail').then(({ sendNewUploadEmail }) => {
+      sendNewUploadEmail(
+        {
+          id: content.id,
+          title: content.title,
+          description: content.description || undefined,
+          thumbnail: content.thumbnail || undefined,
+          creatorId: creator.id,
+        },
+        {
+          id: creator.id,
+          display_name: creator.display_name,
+          handle: creator.handle || undefined,
+          avatar: creator.avatar || undefined,
+        }
+      ).catch((error) => {
+        console.error('Failed to send new upload emails:', error);
+      });
+    });
+
+    // Track upload activity for followers
+    trackUploadActivity(content.id, creator.id).catch((error) => {
+      console.error('Failed to track upload activity:', error);
+    });
+  }
+
+  // Process tags and categories in parallel (much faster)
+  const tagPromises = tags && Array.isArray(tags) ? tags.map(async (tagName) => {
+    // Generate slug from tag name
+    const tagSlug = tagName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+    const tag = await prisma.tag.upsert({
+      where: { name: tagName },
+      update: {},
+      create: { 
+        name: tagName,
+        slug: tagSlug,
+      },
+    });
+    return prisma.contentTag.create({
+      data: {
+        contentId: content.id,
+        tagId: tag.id,
+      },
+    });
+  }) : [];
+
+  const categoryPromises = categories && Array.isArray(categories) ? categories.map(async (categoryName) => {
+    // Generate slug from category name
+    const categorySlug = categoryName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+    const category = await prisma.category.upsert({
+      where: { slug: categorySlug },
+      update: {},
+      create: {
+        name: categoryName,
+        slug: categorySlug,
+      },
+    });
+    return prisma.contentCategory.create({
+      data: {
+        contentId: content.id,
+        categoryId: category.id,
+      },
+    });
+  }) : [];
+
+  // Wait for tags and categories in parallel
+  await Promise.all([...tagPromises, ...categoryPromises]);
+
+  // Queue all background jobs asynchronously (don't wait)
+  Promise.all([
+    // Queue video transcoding job if video
+    isVideo ? queueVideoTranscoding({
+      contentId: content.id,
+      videoUrl: mediaUrl,
+      qualities: ['720p', '1080p', '4K'],
+    }) : Promise.resolve(),
+    
+    // Queue thumbnail generation if not provided
+    (isVideo && !hasThumbnail) ? queueThumbnailGeneration({
+      contentId: content.id,
+      videoUrl: mediaUrl,
+      timestamp: 0,
+    }) : Promise.resolve(),
+    
+    // Auto-moderation in background (don't block response)
+    Promise.resolve(autoFlagContent(content.id, creator.id)).catch(err => console.error('Auto-moderation error:', err)),
+    
+    // Broadcast new upload to admin dashboard
+    Promise.resolve().then(() => {
+      try {
+        const { broadcastNewUpload } = require('../websocket/adminBroadcast');
+        broadcastNewUpload(content.id, {
+          id: content.id,
+          title: content.title,
+          creatorId: creator.id,
+          type: content.type,
+          status: content.status,
+        });
+      } catch (error) {
+        console.error('Error broadcasting new upload:', error);
+      }
+    }),
+    
+    // Send notification in background
+    queueNotification({
+      userId: userId,
+      type: 'CONTENT_UPLOADED',
+      title: 'Content Uploaded Successfully',
+      message: `Your content "${title}" has been uploaded and is ${content.status === 'PUBLISHED' ? 'live' : 'being processed'}.`,
+      link: `/content/${content.id}`,
+      metadata: { contentId: content.id },
+    }).catch(err => console.error('Notification error:', err)),
+    
+    // Invalidate caches in background
+    invalidateSearchCache().catch(err => console.error('Cache invalidation error:', err)),
+    invalidateHomepageCache().catch(err => console.error('Cache invalidation error:', err)),
+  ]).catch(err => console.error('Background job error:', err));
+
+  const duplicates = await checkForDuplicates(content.id, media);
+
+  return { content, duplicates };
+}
+
+/**
+ * Fingerprint an upload; duplicate detection never fails the upload itself
+ */
+export async function checkForDuplicates(
+  contentId: string,
+  media: { url: string; sha256: string; mimetype: string }
+): Promise<DuplicateMatch[]> {
+  try {
+    return await fingerprintUpload(contentId, {
+      sha256: media.sha256,
+      mediaUrl: media.url,
+      mimetype: media.mimetype,
+    });
+  } catch (error) {
+    console.error('Duplicate detection error:', error);
+    return [];
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Upload Fingerprints
+ * Exact (SHA-256) and perceptual hashes of uploaded media, used to spot
+ * re-uploads of the same file and near duplicates (re-encodes, resizes,
+ * watermarked copies).
+ *
+ * The perceptual hash is a 64-bit difference hash (dHash) of frames sampled
+ * evenly across a video, or of the image itself: each frame is shrunk to 9x8
+ * grayscale and every bit records whether a pixel is brighter than its right
+ * neighbour. Similar pictures differ in only a few bits.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm } from 'fs/promises';
+import { join, resolve } from 'path';
+import { Readable, Transform } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { env } from '../../config/env';
+import { runFfmpeg, probeMedia } from '../video/ffmpeg';
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const FRAME_BYTES = HASH_WIDTH * HASH_HEIGHT;
+const BAND_COUNT = 4; // 16-bit bands: hashes within 3 bits always share one
+
+export const MAX_SAMPLED_FRAMES = 32;
+export const NEAR_FRAME_DISTANCE = 10; // max differing bits for two frames to match
+
+/**
+ * SHA-256 of an upload. For streams the digest is available once the
+ * returned stream has been fully read.
+ */
+export function withContentHash(body: Buffer | Readable): { body: Buffer | Readable; digest: () => string } {
+  const hash = createHash('sha256');
+
+  if (Buffer.isBuffer(body)) {
+    hash.update(body);
+    const digest = hash.digest('hex');
+    return { body, digest: () => digest };
+  }
+
+  const hashing = new Transform({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  body.on('error', (error) => hashing.destroy(error));
+
+  let digest: string | null = null;
+  return {
+    body: body.pipe(hashing),
+    digest: () => (digest ??= hash.digest('hex')),
+  };
+}
+
+/**
+ * Difference hash of one 9x8 grayscale frame, as 16 hex characters
+ */
+export function differenceHash(pixels: Uint8Array): string {
+  if (pixels.length < FRAME_BYTES) {
+    throw new Error(`Expected ${FRAME_BYTES} pixels, got ${pixels.length}`);
+  }
+
+  let hash = 0n;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Number of differing bits between two hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Flat frames (black, white, solid colour) hash to all zeros or ones and
+ * would match every other video's fades
+ */
+export function isInformativeHash(hash: string): boolean {
+  const bits = hammingDistance(hash, '0000000000000000');
+  return bits > 2 && bits < 62;
+}
+
+/**
+ * Lookup keys for near-duplicate candidates: each hash split into bands,
+ * tagged with the band position
+ */
+export function hashBands(hashes: string[]): string[] {
+  const size = 16 / BAND_COUNT;
+  const bands = new Set<string>();
+
+  for (const hash of hashes.filter(isInformativeHash)) {
+    for (let band = 0; band < BAND_COUNT; band++) {
+      bands.add(`${band}:${hash.slice(band * size, (band + 1) * size)}`);
+    }
+  }
+
+  return [...bands];
+}
+
+/**
+ * How much of one upload shows up in the other (0-1): the share of sampled
+ * frames with a close match, taken in whichever direction is higher so a
+ * clip cut from a longer video still matches it
+ */
+export function frameSimilarity(a: string[], b: string[]): number {
+  const left = a.filter(isInformativeHash);
+  const right = b.filter(isInformativeHash);
+
+  if (left.length === 0 || right.length === 0) {
+    return 0;
+  }
+
+  const coverage = (from: string[], to: string[]) =>
+    from.filter((hash) => to.some((other) => hammingDistance(hash, other) <= NEAR_FRAME_DISTANCE)).length /
+    from.length;
+
+  return Math.max(coverage(left, right), coverage(right, left));
+}
+
+/**
+ * Sample frames from a video (or decode an image) and hash them
+ */
+export async function computeFrameHashes(input: string, isVideo: boolean): Promise<string[]> {
+  const workDir = join(resolve(env.TRANSCODE_WORK_PATH), `fingerprint-${uuidv4()}`);
+  await mkdir(workDir, { recursive: true });
+
+  try {
+    const filters = [`scale=${HASH_WIDTH}:${HASH_HEIGHT}:flags=area`, 'format=gray'];
+    let frames = 1;
+
+    if (isVideo) {
+      const { duration } = await probeMedia(input);
+      if (duration > 0) {
+        filters.unshift(`fps=${(MAX_SAMPLED_FRAMES / duration).toFixed(6)}`);
+        frames = MAX_SAMPLED_FRAMES;
+      }
+    }
+
+    const output = join(workDir, 'frames.gray');
+    await runFfmpeg([
+      '-i', input,
+      '-an', '-sn',
+      '-vf', filters.join(','),
+      '-frames:v', String(frames),
+      '-f', 'rawvideo',
+      output,
+    ]);
+
+    const raw = await readFile(output);
+    const hashes: string[] = [];
+    for (let offset = 0; offset + FRAME_BYTES <= raw.length; offset += FRAME_BYTES) {
+      hashes.push(differenceHash(raw.subarray(offset, offset + FRAME_BYTES)));
+    }
+
+    if (hashes.length === 0) {
+      throw new Error('FFmpeg produced no frames to fingerprint');
+    }
+
+    return hashes;
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
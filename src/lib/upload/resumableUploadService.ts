@@ -0,0 +1,306 @@
+/**
+ * Resumable Upload Service
+ * tus-style chunked uploads: create a session, append chunks at an offset,
+ * query progress, then finalize once every byte has been committed.
+ *
+ * Chunks are staged in a file under UPLOAD_TEMP_PATH and the committed offset
+ * lives in the database, so an upload survives both dropped connections and
+ * server restarts.
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, stat, truncate, unlink, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { prisma } from '../prisma';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { env } from '../../config/env';
+import logger from '../logger';
+
+export const MAX_UPLOAD_SIZE = 20 * 1024 * 1024 * 1024; // 20GB (large VR files)
+export const MAX_CHUNK_SIZE = 100 * 1024 * 1024; // 100MB per PATCH
+const SESSION_TTL_HOURS = 24;
+const FINALIZE_STALE_MINUTES = 60;
+
+export interface CreateUploadSessionInput {
+  creatorId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  metadata: Record<string, any>;
+}
+
+export type UploadSessionRecord = NonNullable<Awaited<ReturnType<typeof prisma.uploadSession.findUnique>>>;
+
+// Sessions currently receiving a chunk on this instance. Staging files are
+// local to the instance, so clients must stick to one node per upload.
+const activeSessions = new Set<string>();
+
+function getUploadDir(): string {
+  return resolve(env.UPLOAD_TEMP_PATH);
+}
+
+/**
+ * Serialize a session for API responses (BigInt -> number)
+ */
+export function formatUploadSession(session: UploadSessionRecord) {
+  return {
+    id: session.id,
+    filename: session.filename,
+    mimeType: session.mimeType,
+    size: Number(session.totalSize),
+    offset: Number(session.offset),
+    status: session.status,
+    contentId: session.contentId,
+    error: session.error,
+    expiresAt: session.expiresAt,
+    createdAt: session.createdAt,
+  };
+}
+
+/**
+ * Create a new upload session and its empty staging file
+ */
+export async function createUploadSession(userId: string, input: CreateUploadSessionInput) {
+  if (input.size <= 0 || input.size > MAX_UPLOAD_SIZE) {
+    throw new ValidationError(`File size must be between 1 byte and ${MAX_UPLOAD_SIZE} bytes`);
+  }
+
+  const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 3600 * 1000);
+
+  const session = await prisma.uploadSession.create({
+    data: {
+      userId,
+      creatorId: input.creatorId,
+      filename: input.filename,
+      mimeType: input.mimeType,
+      totalSize: BigInt(input.size),
+      tempPath: '',
+      metadata: input.metadata,
+      expiresAt,
+    },
+  });
+
+  const tempPath = join(getUploadDir(), `${session.id}.part`);
+  await mkdir(getUploadDir(), { recursive: true });
+  await writeFile(tempPath, Buffer.alloc(0));
+
+  return prisma.uploadSession.update({
+    where: { id: session.id },
+    data: { tempPath },
+  });
+}
+
+/**
+ * Get an upload session owned by the user
+ */
+export async function getUploadSession(sessionId: string, userId: string) {
+  const session = await prisma.uploadSession.findUnique({
+    where: { id: sessionId },
+  });
+
+  if (!session || session.userId !== userId) {
+    throw new NotFoundError('Upload session');
+  }
+
+  if (session.status === 'uploading' && session.expiresAt < new Date()) {
+    throw new ValidationError('Upload session has expired');
+  }
+
+  return session;
+}
+
+/**
+ * Append a chunk to the staging file.
+ *
+ * The client must send the offset it believes is committed; a mismatch is a
+ * conflict and the client should HEAD the session to resync. Bytes received
+ * before a dropped connection are kept, so the client resumes from there.
+ */
+export async function appendUploadChunk(
+  sessionId: string,
+  userId: string,
+  clientOffset: number,
+  chunk: Readable
+) {
+  const session = await getUploadSession(sessionId, userId);
+
+  if (session.status !== 'uploading') {
+    throw new ConflictError(`Upload session is ${session.status}`);
+  }
+
+  const committed = Number(session.offset);
+  const total = Number(session.totalSize);
+
+  if (clientOffset !== committed) {
+    throw new ConflictError(`Offset mismatch: expected ${committed}, received ${clientOffset}`);
+  }
+
+  if (activeSessions.has(sessionId)) {
+    throw new ConflictError('Another chunk is already being written for this upload');
+  }
+
+  activeSessions.add(sessionId);
+
+  try {
+    // Drop any bytes a previous interrupted request wrote past the committed offset
+    await truncate(session.tempPath, committed);
+
+    const remaining = Math.min(total - committed, MAX_CHUNK_SIZE);
+    let received = 0;
+    const limiter = new Transform({
+      transform(data: Buffer, _encoding, callback) {
+        received += data.length;
+        if (received > remaining) {
+          callback(new ValidationError('Chunk exceeds the remaining upload length or the maximum chunk size'));
+          return;
+        }
+        callback(null, data);
+      },
+    });
+
+    let streamError: unknown = null;
+    try {
+      await pipeline(chunk, limiter, createWriteStream(session.tempPath, { flags: 'a' }));
+    } catch (error) {
+      streamError = error;
+    }
+
+    // Commit whatever actually reached the disk
+    const { size } = await stat(session.tempPath);
+    const newOffset = Math.min(size, committed + remaining);
+    if (size > newOffset) {
+      await truncate(session.tempPath, newOffset);
+    }
+
+    const updated = await prisma.uploadSession.update({
+      where: { id: sessionId },
+      data: { offset: BigInt(newOffset) },
+    });
+
+    if (streamError instanceof ValidationError) {
+      throw streamError;
+    }
+    if (streamError) {
+      logger.warn('Upload chunk interrupted', {
+        sessionId,
+        committedOffset: newOffset,
+        error: streamError instanceof Error ? streamError.message : String(streamError),
+      });
+    }
+
+    return updated;
+  } finally {
+    activeSessions.delete(sessionId);
+  }
+}
+
+/**
+ * Claim a fully uploaded session for finalization.
+ * Returns the session and a stream factory for the staged file.
+ */
+export async function beginFinalizeUploadSession(sessionId: string, userId: string) {
+  const session = await getUploadSession(sessionId, userId);
+
+  if (session.status === 'completed') {
+    throw new ConflictError('Upload has already been finalized');
+  }
+
+  if (session.offset !== session.totalSize) {
+    throw new ValidationError(
+      `Upload incomplete: ${session.offset.toString()} of ${session.totalSize.toString()} bytes received`
+    );
+  }
+
+  // Guard against concurrent finalize requests. A session stuck in
+  // 'finalizing' (server restarted mid-finalize) can be reclaimed.
+  const staleBefore = new Date(Date.now() - FINALIZE_STALE_MINUTES * 60 * 1000);
+  const claimed = await prisma.uploadSession.updateMany({
+    where: {
+      id: sessionId,
+      OR: [
+        { status: 'uploading' },
+        { status: 'finalizing', updatedAt: { lt: staleBefore } },
+      ],
+    },
+    data: { status: 'finalizing', error: null },
+  });
+
+  if (claimed.count === 0) {
+    throw new ConflictError(`Upload session is ${session.status}`);
+  }
+
+  return {
+    session,
+    openStream: () => createReadStream(session.tempPath),
+  };
+}
+
+/**
+ * Mark a session as completed and remove its staging file
+ */
+export async function completeUploadSession(sessionId: string, contentId: string) {
+  const session = await prisma.uploadSession.update({
+    where: { id: sessionId },
+    data: { status: 'completed', contentId },
+  });
+
+  await unlink(session.tempPath).catch(() => {});
+
+  return session;
+}
+
+/**
+ * Return a session to the uploading state after a finalize that failed
+ * before its content was created, so the client can retry without
+ * re-sending any bytes
+ */
+export async function failFinalizeUploadSession(sessionId: string, error: string) {
+  return prisma.uploadSession.update({
+    where: { id: sessionId },
+    data: { status: 'uploading', error },
+  });
+}
+
+/**
+ * Abort an upload and discard its staged bytes
+ */
+export async function abortUploadSession(sessionId: string, userId: string) {
+  const session = await getUploadSession(sessionId, userId);
+
+  if (session.status === 'completed' || session.status === 'finalizing') {
+    throw new ConflictError(`Cannot abort an upload that is ${session.status}`);
+  }
+
+  await unlink(session.tempPath).catch(() => {});
+
+  return prisma.uploadSession.update({
+    where: { id: sessionId },
+    data: { status: 'aborted' },
+  });
+}
+
+/**
+ * Expire stale sessions and delete their staging files (run from cleanup worker)
+ */
+export async function cleanupExpiredUploadSessions(): Promise<number> {
+  const expired = await prisma.uploadSession.findMany({
+    where: {
+      status: 'uploading',
+      expiresAt: { lt: new Date() },
+    },
+    select: { id: true, tempPath: true },
+  });
+
+  for (const session of expired) {
+    await unlink(session.tempPath).catch(() => {});
+  }
+
+  await prisma.uploadSession.updateMany({
+    where: { id: { in: expired.map((s) => s.id) } },
+    data: { status: 'expired' },
+  });
+
+  return expired.length;
+}
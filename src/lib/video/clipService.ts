@@ -0,0 +1,438 @@
+/**
+ * Clips
+ * Short segments (up to 60 seconds) cut from published videos by viewers or
+ * the creator. Each clip has its own title, share URL and view count and is
+ * attributed to its source video and creator.
+ *
+ * Clips follow the source's rules: only viewers who may watch the source can
+ * clip it, only the creator's team can clip videos that don't allow
+ * downloads, and a clip of protected (premium/private) content only plays
+ * for viewers who may watch the source.
+ */
+
+import { createReadStream } from 'fs';
+import { mkdir, readFile, rm, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../prisma';
+import { env } from '../../config/env';
+import { ForbiddenError, NotFoundError, ValidationError } from '../errors';
+import { canUserEditContent, canUserViewContent } from '../creator/collaborationService';
+import { authorizePlayback, isProtectedContent, signMediaUrl } from '../playback/playbackService';
+import { getPlaybackTokenTtl } from '../playback/signing';
+import { storage } from '../storage/storageService';
+import { queueClipRender } from '../queues/queueManager';
+import { createNotification } from '../notifications/service';
+import logger from '../logger';
+import { runFfmpeg } from './ffmpeg';
+
+export type ClipStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+export const MAX_CLIP_SECONDS = 60;
+export const MIN_CLIP_SECONDS = 1;
+
+const CLIP_MAX_WIDTH = 1280;
+
+export interface CreateClipInput {
+  contentId: string;
+  title: string;
+  startTime: number;
+  endTime: number;
+}
+
+const clipInclude = {
+  user: { select: { id: true, username: true, display_name: true, avatar: true } },
+  content: {
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      isPublic: true,
+      isPremium: true,
+      deletedAt: true,
+      creator: { select: { id: true, handle: true, display_name: true, avatar: true } },
+    },
+  },
+} as const;
+
+/**
+ * Clips are only listed while their source is published, public and not deleted
+ */
+const visibleSource = { status: 'PUBLISHED', isPublic: true, deletedAt: null } as const;
+
+/**
+ * Validate a clip's range against the source duration (all in seconds).
+ * Times are rounded to milliseconds.
+ */
+export function validateClipRange(startTime: number, endTime: number, sourceDuration: number) {
+  const start = Math.round(startTime * 1000) / 1000;
+  const end = Math.round(endTime * 1000) / 1000;
+
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0) {
+    throw new ValidationError('Clip start and end must be positive numbers of seconds');
+  }
+  if (end <= start) {
+    throw new ValidationError('Clip must end after it starts');
+  }
+  if (end > sourceDuration) {
+    throw new ValidationError(`Clip must end within the video (${sourceDuration}s)`);
+  }
+
+  const duration = Math.round((end - start) * 1000) / 1000;
+  if (duration > MAX_CLIP_SECONDS) {
+    throw new ValidationError(`Clips can be at most ${MAX_CLIP_SECONDS} seconds long`);
+  }
+  if (duration < MIN_CLIP_SECONDS) {
+    throw new ValidationError(`Clips must be at least ${MIN_CLIP_SECONDS} second long`);
+  }
+
+  return { startTime: start, endTime: end, duration };
+}
+
+type ClipRecord = NonNullable<Awaited<ReturnType<typeof findClip>>>;
+
+function findClip(clipId: string) {
+  return prisma.clip.findUnique({ where: { id: clipId }, include: clipInclude });
+}
+
+/**
+ * Format a clip for API responses. The media URL is signed for clips of
+ * unprotected sources and withheld for protected ones; viewers get a signed
+ * URL from getClipPlayback.
+ */
+async function formatClip(clip: ClipRecord) {
+  const { content, user, mediaUrl, fileSize, ...rest } = clip;
+  const expiresAt = Math.floor(Date.now() / 1000) + getPlaybackTokenTtl() + Math.ceil(clip.duration);
+
+  return {
+    ...rest,
+    fileSize: fileSize !== null ? Number(fileSize) : null,
+    mediaUrl: mediaUrl && !isProtectedContent(content) ? await signMediaUrl(mediaUrl, expiresAt) : null,
+    shareUrl: `${env.FRONTEND_URL}/clips/${clip.id}`,
+    playbackUrl: `/api/clips/${clip.id}/playback`,
+    clipper: user,
+    source: {
+      id: content.id,
+      title: content.title,
+      url: `${env.FRONTEND_URL}/content/${content.id}`,
+      creator: content.creator,
+    },
+  };
+}
+
+/**
+ * Cut a clip from a video; it is rendered in the background
+ */
+export async function createClip(userId: string, input: CreateClipInput) {
+  const content = await prisma.content.findUnique({
+    where: { id: input.contentId },
+    select: {
+      id: true,
+      type: true,
+      status: true,
+      mediaType: true,
+      duration: true,
+      allowDownloads: true,
+      deletedAt: true,
+    },
+  });
+
+  if (!content || content.deletedAt) {
+    throw new NotFoundError('Content');
+  }
+
+  if (content.type === 'LIVE_STREAM' || !content.mediaType?.startsWith('video/')) {
+    throw new ValidationError('Only videos can be clipped');
+  }
+
+  if (content.status !== 'PUBLISHED') {
+    throw new ValidationError('Only published videos can be clipped');
+  }
+
+  if (!content.duration) {
+    throw new ValidationError('This video is still processing');
+  }
+
+  // Premium rules: the clipper must be able to watch the source
+  await authorizePlayback(content.id, userId);
+
+  if (!content.allowDownloads && !(await canUserEditContent(content.id, userId))) {
+    throw new ForbiddenError('The creator has not allowed clips or downloads of this video');
+  }
+
+  const range = validateClipRange(input.startTime, input.endTime, content.duration);
+
+  const clip = await prisma.clip.create({
+    data: {
+      contentId: content.id,
+      userId,
+      title: input.title.trim(),
+      ...range,
+    },
+    include: clipInclude,
+  });
+
+  await queueClipRender({ clipId: clip.id });
+
+  return formatClip(clip);
+}
+
+/**
+ * Render a clip with FFmpeg and upload it (run by the video processing worker)
+ */
+export async function renderClip(clipId: string, onProgress?: (ratio: number) => void) {
+  const clip = await prisma.clip.findUnique({
+    where: { id: clipId },
+    include: {
+      content: { select: { sourceUrl: true, mediaUrl: true, deletedAt: true } },
+    },
+  });
+
+  if (!clip || clip.content.deletedAt) {
+    return { success: false, reason: 'Clip no longer exists' };
+  }
+
+  await prisma.clip.update({
+    where: { id: clipId },
+    data: { status: 'processing', processingError: null },
+  });
+
+  const workDir = join(resolve(env.TRANSCODE_WORK_PATH), `clip-${clipId}-${uuidv4()}`);
+  await mkdir(workDir, { recursive: true });
+
+  try {
+    // The original upload is the best-quality input; hosted/packaged media otherwise
+    const input = await signMediaUrl(
+      clip.content.sourceUrl || clip.content.mediaUrl,
+      Math.floor(Date.now() / 1000) + getPlaybackTokenTtl()
+    );
+    const output = join(workDir, 'clip.mp4');
+    const poster = join(workDir, 'clip.jpg');
+
+    await runFfmpeg(
+      [
+        '-ss', clip.startTime.toFixed(3),
+        '-i', input,
+        '-t', clip.duration.toFixed(3),
+        '-map', '0:v:0',
+        '-map', '0:a:0?',
+        '-vf', `scale='min(${CLIP_MAX_WIDTH},iw)':-2`,
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-crf', '23',
+        '-c:a', 'aac',
+        '-b:a', '128k',
+        '-movflags', '+faststart',
+        output,
+      ],
+      { duration: clip.duration, onProgress }
+    );
+
+    await runFfmpeg([
+      '-ss', (clip.duration / 2).toFixed(3),
+      '-i', output,
+      '-frames:v', '1',
+      '-vf', 'scale=640:-2',
+      '-q:v', '4',
+      poster,
+    ]);
+
+    const prefix = `clips/${clipId}/${uuidv4()}`;
+    const { size } = await stat(output);
+    const media = await storage.uploadToKey(`${prefix}.mp4`, createReadStream(output), {
+      contentLength: size,
+      contentType: 'video/mp4',
+      acl: 'private',
+    });
+    const thumbnail = await storage.uploadToKey(`${prefix}.jpg`, await readFile(poster), {
+      contentType: 'image/jpeg',
+      acl: 'public-read', // Shown by its stored URL, like content thumbnails
+    });
+
+    const updated = await prisma.clip.update({
+      where: { id: clipId },
+      data: {
+        status: 'ready',
+        mediaUrl: media.cdnUrl || media.url,
+        thumbnail: thumbnail.cdnUrl || thumbnail.url,
+        fileSize: BigInt(size),
+      },
+    });
+
+    createNotification({
+      userId: clip.userId,
+      type: 'system',
+      title: 'Your clip is ready',
+      message: `"${clip.title}" is ready to share.`,
+      link: `/clips/${clipId}`,
+      metadata: { clipId, contentId: clip.contentId },
+    }).catch((error) => logger.warn('Failed to notify clipper', { clipId, error }));
+
+    return { success: true, clipId, mediaUrl: updated.mediaUrl };
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Record a clip render that has used up its retries
+ */
+export async function failClip(clipId: string, reason: string): Promise<void> {
+  await prisma.clip.updateMany({
+    where: { id: clipId, status: { not: 'ready' } },
+    data: { status: 'failed', processingError: reason },
+  });
+}
+
+/**
+ * Get a clip. Clips of private or unpublished sources are only visible to
+ * people who can view the source, and unfinished clips only to the clipper.
+ */
+export async function getClip(clipId: string, userId?: string) {
+  const clip = await findClip(clipId);
+
+  if (!clip || clip.content.deletedAt) {
+    throw new NotFoundError('Clip');
+  }
+
+  if (clip.status !== 'ready' && clip.userId !== userId) {
+    throw new NotFoundError('Clip');
+  }
+
+  const { content } = clip;
+  if (!content.isPublic || content.status !== 'PUBLISHED') {
+    if (!userId || !(await canUserViewContent(content.id, userId))) {
+      throw new ForbiddenError('You do not have access to this clip');
+    }
+  }
+
+  return formatClip(clip);
+}
+
+/**
+ * Signed URL for playing a clip, subject to the source's access rules
+ */
+export async function getClipPlayback(clipId: string, userId?: string) {
+  const clip = await prisma.clip.findUnique({
+    where: { id: clipId },
+    select: { id: true, contentId: true, status: true, mediaUrl: true, duration: true },
+  });
+
+  if (!clip || clip.status !== 'ready' || !clip.mediaUrl) {
+    throw new NotFoundError('Clip');
+  }
+
+  const access = await authorizePlayback(clip.contentId, userId);
+  const expiresAt = Math.floor(Date.now() / 1000) + getPlaybackTokenTtl() + Math.ceil(clip.duration);
+
+  return {
+    clipId: clip.id,
+    type: 'progressive',
+    url: await signMediaUrl(clip.mediaUrl, expiresAt),
+    accessType: access.accessType,
+    expiresAt: new Date(expiresAt * 1000),
+  };
+}
+
+/**
+ * Ready clips cut from a video, for its content page
+ */
+export async function listContentClips(
+  contentId: string,
+  options: { page?: number; limit?: number; sort?: 'recent' | 'popular' } = {}
+) {
+  const { page = 1, limit = 20, sort = 'recent' } = options;
+  const where = { contentId, status: 'ready', content: visibleSource };
+
+  const [clips, total] = await Promise.all([
+    prisma.clip.findMany({
+      where,
+      include: clipInclude,
+      orderBy: sort === 'popular' ? [{ viewCount: 'desc' }, { createdAt: 'desc' }] : { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.clip.count({ where }),
+  ]);
+
+  return {
+    clips: await Promise.all(clips.map(formatClip)),
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+  };
+}
+
+/**
+ * Clips a user has made, for their profile. Users see their own pending and
+ * failed clips too.
+ */
+export async function listUserClips(
+  userId: string,
+  viewerId?: string,
+  options: { page?: number; limit?: number } = {}
+) {
+  const { page = 1, limit = 20 } = options;
+  const where =
+    viewerId === userId
+      ? { userId, content: { deletedAt: null } }
+      : { userId, status: 'ready', content: visibleSource };
+
+  const [clips, total] = await Promise.all([
+    prisma.clip.findMany({
+      where,
+      include: clipInclude,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.clip.count({ where }),
+  ]);
+
+  return {
+    clips: await Promise.all(clips.map(formatClip)),
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+  };
+}
+
+/**
+ * Count a view of a clip
+ */
+export async function recordClipView(clipId: string): Promise<number> {
+  const result = await prisma.clip.updateMany({
+    where: { id: clipId, status: 'ready' },
+    data: { viewCount: { increment: 1 } },
+  });
+
+  if (result.count === 0) {
+    throw new NotFoundError('Clip');
+  }
+
+  const clip = await prisma.clip.findUnique({ where: { id: clipId }, select: { viewCount: true } });
+  return clip?.viewCount ?? 0;
+}
+
+/**
+ * Delete a clip. Allowed for the clipper, the source's creator team and moderators.
+ */
+export async function deleteClip(clipId: string, userId: string, isModerator = false): Promise<void> {
+  const clip = await prisma.clip.findUnique({
+    where: { id: clipId },
+    select: { id: true, userId: true, contentId: true, mediaUrl: true, thumbnail: true },
+  });
+
+  if (!clip) {
+    throw new NotFoundError('Clip');
+  }
+
+  if (clip.userId !== userId && !isModerator && !(await canUserEditContent(clip.contentId, userId))) {
+    throw new ForbiddenError('You do not have permission to delete this clip');
+  }
+
+  await prisma.clip.delete({ where: { id: clipId } });
+
+  for (const url of [clip.mediaUrl, clip.thumbnail]) {
+    const key = url && storage.getKeyFromUrl(url);
+    if (key) {
+      await storage.deleteFile(key).catch((error) => logger.warn('Failed to delete clip file', { key, error }));
+    }
+  }
+}
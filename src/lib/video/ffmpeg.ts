@@ -0,0 +1,148 @@
+/**
+ * FFmpeg / FFprobe helpers
+ * Thin wrappers around the ffmpeg and ffprobe binaries (FFMPEG_PATH / FFPROBE_PATH)
+ */
+
+import { spawn } from 'child_process';
+import { env } from '../../config/env';
+
+export interface ProbeStream {
+  index: number;
+  codec_type: 'video' | 'audio' | 'subtitle' | 'data';
+  codec_name?: string;
+  profile?: string;
+  level?: number;
+  width?: number;
+  height?: number;
+  bit_rate?: string;
+  r_frame_rate?: string;
+}
+
+export interface ProbeResult {
+  duration: number; // seconds
+  size: number; // bytes
+  bitRate: number; // bits per second
+  video?: ProbeStream;
+  audio?: ProbeStream;
+}
+
+export interface RunFfmpegOptions {
+  /** Total media duration in seconds, used to turn timestamps into a 0-1 ratio */
+  duration?: number;
+  onProgress?: (ratio: number) => void;
+}
+
+/**
+ * Run ffprobe and return the primary video/audio streams
+ */
+export async function probeMedia(input: string): Promise<ProbeResult> {
+  const output = await runProcess(env.FFPROBE_PATH, [
+    '-v', 'error',
+    '-print_format', 'json',
+    '-show_format',
+    '-show_streams',
+    input,
+  ]);
+
+  const data = JSON.parse(output);
+  const streams: ProbeStream[] = data.streams || [];
+
+  return {
+    duration: parseFloat(data.format?.duration || '0'),
+    size: parseInt(data.format?.size || '0', 10),
+    bitRate: parseInt(data.format?.bit_rate || '0', 10),
+    video: streams.find((s) => s.codec_type === 'video'),
+    audio: streams.find((s) => s.codec_type === 'audio'),
+  };
+}
+
+/**
+ * Run ffmpeg with the given arguments, reporting progress when a duration is known
+ */
+export async function runFfmpeg(args: string[], options: RunFfmpegOptions = {}): Promise<void> {
+  const { duration, onProgress } = options;
+
+  await runProcess(
+    env.FFMPEG_PATH,
+    ['-hide_banner', '-nostats', '-progress', 'pipe:1', '-y', ...args],
+    (line) => {
+      if (!onProgress || !duration) {
+        return;
+      }
+      // -progress emits key=value lines; out_time_us is the encoded position
+      const match = line.match(/^out_time_us=(\d+)/);
+      if (match) {
+        const seconds = parseInt(match[1], 10) / 1_000_000;
+        onProgress(Math.min(1, seconds / duration));
+      }
+    }
+  );
+}
+
+/**
+ * RFC 6381 codec string for a probed H.264 / AAC stream (used in HLS/DASH manifests)
+ */
+export function getCodecString(stream: ProbeStream): string {
+  if (stream.codec_name === 'h264') {
+    const profiles: Record<string, string> = {
+      'Constrained Baseline': '4240',
+      Baseline: '4200',
+      Main: '4d40',
+      High: '6400',
+    };
+    const profile = profiles[stream.profile || 'High'] || '6400';
+    const level = (stream.level || 40).toString(16).padStart(2, '0');
+    return `avc1.${profile}${level}`;
+  }
+
+  if (stream.codec_name === 'aac') {
+    return 'mp4a.40.2';
+  }
+
+  return stream.codec_name || 'unknown';
+}
+
+/**
+ * Spawn a process and collect stdout. Rejects with the tail of stderr on failure.
+ */
+function runProcess(
+  command: string,
+  args: string[],
+  onStdoutLine?: (line: string) => void
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let pending = '';
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stdout += onStdoutLine ? '' : text;
+
+      if (onStdoutLine) {
+        pending += text;
+        const lines = pending.split('\n');
+        pending = lines.pop() || '';
+        lines.forEach(onStdoutLine);
+      }
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      // Keep only the tail; ffmpeg can be very chatty
+      stderr = (stderr + chunk.toString()).slice(-4000);
+    });
+
+    child.on('error', (error) => {
+      reject(new Error(`Failed to start ${command}: ${error.message}`));
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,358 @@
+/**
+ * Video Processing State
+ * Tracks each video through uploaded -> processing -> ready | failed.
+ *
+ * Transitions are applied with conditional updates so a late status check
+ * can't overwrite a webhook that already finished the job (or vice versa).
+ * Failed videos can be retried by the creator, which moves them back to
+ * 'uploaded' and re-queues transcoding from the original source.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { ConflictError, ForbiddenError, NotFoundError } from '../errors';
+import { videoStorage, VideoStatusDetails } from '../storage/videoStorage';
+import { queueVideoTranscoding, queueTranscodeStatusCheck } from '../queues/queueManager';
+import { canUserEditContent } from '../creator/collaborationService';
+import { createNotification } from '../notifications/service';
+import { invalidateContentCache } from '../cache/contentCache';
+import logger from '../logger';
+
+export type ProcessingStatus = 'uploaded' | 'processing' | 'ready' | 'failed';
+
+const TRANSITIONS: Record<ProcessingStatus, ProcessingStatus[]> = {
+  uploaded: ['processing', 'failed'],
+  processing: ['processing', 'ready', 'failed'],
+  ready: ['uploaded'], // re-processing
+  failed: ['uploaded'], // retry
+};
+
+// Provider status polling: 30s doubling up to 30 min, ~9.5 hours in total
+const STATUS_CHECK_BASE_DELAY_MS = 30 * 1000;
+const STATUS_CHECK_MAX_DELAY_MS = 30 * 60 * 1000;
+export const MAX_STATUS_CHECKS = 24;
+
+/**
+ * Whether a processing status transition is allowed
+ */
+export function canTransition(from: ProcessingStatus | null, to: ProcessingStatus): boolean {
+  if (from === null) {
+    // Content created before processing was tracked
+    return to === 'uploaded' || to === 'processing';
+  }
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Delay before the given (0-based) provider status check
+ */
+export function getStatusCheckDelay(attempt: number): number {
+  return Math.min(STATUS_CHECK_BASE_DELAY_MS * 2 ** attempt, STATUS_CHECK_MAX_DELAY_MS);
+}
+
+/**
+ * Apply a transition if the current state allows it. Returns false when the
+ * content has already moved on.
+ */
+async function transition(
+  contentId: string,
+  to: ProcessingStatus,
+  data: Prisma.ContentUpdateManyMutationInput = {}
+): Promise<boolean> {
+  const from = (Object.keys(TRANSITIONS) as ProcessingStatus[]).filter((status) =>
+    canTransition(status, to)
+  );
+  const allowNull = canTransition(null, to);
+
+  const result = await prisma.content.updateMany({
+    where: {
+      id: contentId,
+      OR: [
+        { processingStatus: { in: from } },
+        ...(allowNull ? [{ processingStatus: null }] : []),
+      ],
+    },
+    data: {
+      ...data,
+      processingStatus: to,
+      processingUpdatedAt: new Date(),
+    },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Turn an internal error into a reason that makes sense to a creator
+ */
+export function describeProcessingError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (/no video stream/i.test(message)) {
+    return 'The uploaded file does not contain a video stream.';
+  }
+  if (/Invalid data found|moov atom not found|could not find codec/i.test(message)) {
+    return 'The uploaded file is corrupt or in an unsupported format.';
+  }
+  if (/ENOENT|404|not found/i.test(message)) {
+    return 'The uploaded file could not be found. Please upload it again.';
+  }
+  if (/ETIMEDOUT|ECONNRESET|timeout/i.test(message)) {
+    return 'Processing timed out. Please retry.';
+  }
+
+  return 'Video processing failed. Please retry or upload the file again.';
+}
+
+/**
+ * Record that transcoding has started (each attempt counts)
+ */
+export async function markProcessing(
+  contentId: string,
+  provider: string, // ffmpeg, cloudflare, mux
+  providerAssetId?: string
+): Promise<boolean> {
+  return transition(contentId, 'processing', {
+    processingProvider: provider,
+    providerAssetId: providerAssetId ?? null,
+    processingError: null,
+    processingAttempts: { increment: 1 },
+  });
+}
+
+/**
+ * Mark a video as ready, publish it if it was only waiting on processing and
+ * let the creator know
+ */
+export async function markReady(
+  contentId: string,
+  data: Prisma.ContentUpdateManyMutationInput = {}
+): Promise<boolean> {
+  const updated = await transition(contentId, 'ready', { ...data, processingError: null });
+  if (!updated) {
+    return false;
+  }
+
+  await prisma.content.updateMany({
+    where: { id: contentId, status: 'PENDING_REVIEW' },
+    data: { status: 'PUBLISHED' },
+  });
+
+  await invalidateContentCache(contentId).catch(() => {});
+  await notifyCreator(contentId, 'Your video is ready', 'has finished processing and is now live.');
+
+  return true;
+}
+
+/**
+ * Mark a video as failed with a creator-facing reason
+ */
+export async function markFailed(contentId: string, reason: string): Promise<boolean> {
+  const updated = await transition(contentId, 'failed', { processingError: reason });
+  if (!updated) {
+    return false;
+  }
+
+  await invalidateContentCache(contentId).catch(() => {});
+  await notifyCreator(contentId, 'Video processing failed', `could not be processed: ${reason}`);
+
+  return true;
+}
+
+/**
+ * Apply a provider status (from a status check or a webhook)
+ */
+export async function applyProviderStatus(
+  contentId: string,
+  details: VideoStatusDetails
+): Promise<boolean> {
+  if (details.status === 'ready') {
+    return markReady(contentId, {
+      ...(details.url ? { mediaUrl: details.url } : {}),
+      ...(details.duration ? { duration: details.duration } : {}),
+    });
+  }
+
+  if (details.status === 'error') {
+    return markFailed(contentId, details.error || 'The video provider could not process this file.');
+  }
+
+  return false;
+}
+
+/**
+ * Poll the provider for a transcode started with Cloudflare Stream/Mux.
+ * Re-schedules itself with backoff until the video is ready, fails or we
+ * give up.
+ */
+export async function checkProviderStatus(contentId: string, videoId: string, attempt: number) {
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: { processingStatus: true, providerAssetId: true },
+  });
+
+  // A webhook already settled it, or the media was re-processed since
+  if (!content || content.processingStatus !== 'processing' || content.providerAssetId !== videoId) {
+    return { status: content?.processingStatus ?? 'missing', done: true };
+  }
+
+  const details = await videoStorage.getVideoDetails(videoId);
+
+  if (details.status !== 'processing') {
+    await applyProviderStatus(contentId, details);
+    return { status: details.status, done: true };
+  }
+
+  if (attempt + 1 >= MAX_STATUS_CHECKS) {
+    await markFailed(contentId, 'Timed out waiting for the video provider to finish processing.');
+    return { status: 'error', done: true };
+  }
+
+  await scheduleStatusCheck(contentId, videoId, attempt + 1);
+  return { status: details.status, done: false };
+}
+
+/**
+ * Schedule the next provider status check (for the content's own media, or a
+ * replacement revision)
+ */
+export async function scheduleStatusCheck(
+  contentId: string,
+  videoId: string,
+  attempt = 0,
+  revisionId?: string
+) {
+  return queueTranscodeStatusCheck({ contentId, videoId, attempt, revisionId }, getStatusCheckDelay(attempt));
+}
+
+/**
+ * Handle an inbound provider webhook for an asset
+ */
+export async function handleProviderCallback(
+  provider: 'cloudflare' | 'mux',
+  videoId: string,
+  details: VideoStatusDetails
+): Promise<boolean> {
+  const content = await prisma.content.findFirst({
+    where: { providerAssetId: videoId, processingProvider: provider },
+    select: { id: true },
+  });
+
+  if (!content) {
+    logger.warn('Video webhook for unknown asset', { provider, videoId });
+    return false;
+  }
+
+  // Webhooks don't carry the playback URL, so fetch it for ready assets
+  if (details.status === 'ready' && !details.url) {
+    const fetched = await videoStorage.getVideoDetails(videoId).catch(() => null);
+    details = { ...details, url: fetched?.url, duration: details.duration ?? fetched?.duration };
+  }
+
+  return applyProviderStatus(content.id, details);
+}
+
+/**
+ * Get the processing state of a content item for its creator
+ */
+export async function getProcessingState(contentId: string, userId: string) {
+  if (!(await canUserEditContent(contentId, userId))) {
+    throw new NotFoundError('Content');
+  }
+
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: {
+      id: true,
+      status: true,
+      processingStatus: true,
+      processingError: true,
+      processingProvider: true,
+      processingAttempts: true,
+      processingUpdatedAt: true,
+    },
+  });
+
+  if (!content) {
+    throw new NotFoundError('Content');
+  }
+
+  return {
+    contentId: content.id,
+    status: content.status,
+    processingStatus: content.processingStatus,
+    error: content.processingError,
+    provider: content.processingProvider,
+    attempts: content.processingAttempts ?? 0,
+    updatedAt: content.processingUpdatedAt,
+    canRetry: content.processingStatus === 'failed',
+  };
+}
+
+/**
+ * Retry processing for a failed video
+ */
+export async function retryProcessing(contentId: string, userId: string) {
+  if (!(await canUserEditContent(contentId, userId))) {
+    throw new ForbiddenError('You do not have permission to edit this content');
+  }
+
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: { id: true, mediaUrl: true, sourceUrl: true, processingStatus: true },
+  });
+
+  if (!content) {
+    throw new NotFoundError('Content');
+  }
+
+  if (content.processingStatus !== 'failed') {
+    throw new ConflictError('Only failed videos can be retried');
+  }
+
+  const updated = await transition(contentId, 'uploaded', {
+    processingError: null,
+    providerAssetId: null,
+  });
+  if (!updated) {
+    throw new ConflictError('Video processing state changed, please refresh');
+  }
+
+  await queueVideoTranscoding({
+    contentId,
+    videoUrl: content.sourceUrl || content.mediaUrl,
+    qualities: ['720p', '1080p', '4K'],
+  });
+
+  return getProcessingState(contentId, userId);
+}
+
+/**
+ * Notify the content owner about a processing outcome
+ */
+async function notifyCreator(contentId: string, title: string, detail: string) {
+  try {
+    const content = await prisma.content.findUnique({
+      where: { id: contentId },
+      select: { title: true, creator: { select: { user_id: true } } },
+    });
+
+    if (!content) {
+      return;
+    }
+
+    await createNotification({
+      userId: content.creator.user_id,
+      type: 'system',
+      title,
+      message: `"${content.title}" ${detail}`,
+      link: `/content/${contentId}`,
+      metadata: { contentId },
+    });
+  } catch (error) {
+    logger.error('Failed to send processing notification', {
+      contentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,627 @@
+/**
+ * Media Revisions
+ * Lets creators replace the media of an existing content item (keeping its
+ * views, likes and comments) and roll back to an earlier upload.
+ *
+ * Each upload is a ContentRevision numbered by `version`; `Content.version`
+ * points at the revision that is live. A replacement is transcoded on its
+ * own and the live media, renditions and previews are only swapped once it is
+ * ready, so viewers keep watching the previous cut in the meantime. The
+ * media that was live before the first replacement is recorded as a revision
+ * too, so it can be rolled back to.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../errors';
+import { canUserEditContent } from '../creator/collaborationService';
+import { invalidateContentCache, invalidateSearchCache } from '../cache/contentCache';
+import { createNotification } from '../notifications/service';
+import { queueVideoTranscoding } from '../queues/queueManager';
+import { autoFlagContent } from '../moderation/autoModeration';
+import { videoStorage, VideoStatusDetails } from '../storage/videoStorage';
+import { scheduleStatusCheck, MAX_STATUS_CHECKS } from './processingService';
+import logger from '../logger';
+
+export type RevisionStatus = 'uploaded' | 'processing' | 'ready' | 'failed';
+
+const PENDING_STATUSES: RevisionStatus[] = ['uploaded', 'processing'];
+
+export interface RevisionRendition {
+  quality: string;
+  width: number;
+  height: number;
+  videoBitrate: number;
+  audioBitrate: number | null;
+  videoCodec: string;
+  audioCodec: string | null;
+  playlistUrl: string | null;
+  fileSize: number | null;
+}
+
+export interface RevisionMedia {
+  mediaUrl: string;
+  dashUrl?: string | null;
+  duration?: number | null;
+  resolution?: string | null;
+  previewTrackUrl?: string | null;
+  previewSprites?: Prisma.InputJsonValue | null;
+  renditions?: RevisionRendition[];
+}
+
+const revisionSelect = {
+  id: true,
+  version: true,
+  status: true,
+  note: true,
+  mediaType: true,
+  duration: true,
+  fileSize: true,
+  resolution: true,
+  processingError: true,
+  createdAt: true,
+  readyAt: true,
+  activatedAt: true,
+} as const;
+
+type RevisionRecord = Prisma.ContentRevisionGetPayload<{ select: typeof revisionSelect }>;
+
+function formatRevision(revision: RevisionRecord, liveVersion: number) {
+  return {
+    ...revision,
+    fileSize: revision.fileSize !== null ? Number(revision.fileSize) : null,
+    isLive: revision.version === liveVersion,
+  };
+}
+
+async function assertCanEdit(contentId: string, userId: string): Promise<void> {
+  if (!(await canUserEditContent(contentId, userId))) {
+    throw new ForbiddenError('You do not have permission to edit this content');
+  }
+}
+
+/**
+ * Only one replacement may be processing at a time
+ */
+async function assertNoPendingRevision(
+  client: Prisma.TransactionClient,
+  contentId: string
+): Promise<void> {
+  const pending = await client.contentRevision.findFirst({
+    where: { contentId, status: { in: PENDING_STATUSES } },
+    select: { version: true },
+  });
+
+  if (pending) {
+    throw new ConflictError(`Replacement v${pending.version} is still processing`);
+  }
+}
+
+/**
+ * Record the media that is live right now as a revision, if it isn't yet
+ */
+async function snapshotLiveMedia(tx: Prisma.TransactionClient, contentId: string) {
+  const content = await tx.content.findUnique({
+    where: { id: contentId },
+    include: { renditions: true },
+  });
+
+  if (!content) {
+    throw new NotFoundError('Content');
+  }
+
+  const version = content.version ?? 0;
+  const existing = await tx.contentRevision.findUnique({
+    where: { contentId_version: { contentId, version } },
+    select: { id: true },
+  });
+
+  // Nothing worth rolling back to if the original never finished processing
+  if (existing || (content.processingStatus !== null && content.processingStatus !== 'ready')) {
+    return content;
+  }
+
+  await tx.contentRevision.create({
+    data: {
+      contentId,
+      version,
+      status: 'ready',
+      sourceUrl: content.sourceUrl,
+      mediaUrl: content.mediaUrl,
+      mediaType: content.mediaType,
+      dashUrl: content.dashUrl,
+      duration: content.duration,
+      fileSize: content.fileSize,
+      resolution: content.resolution,
+      previewTrackUrl: content.previewTrackUrl,
+      previewSprites: (content.previewSprites as Prisma.InputJsonValue | null) ?? Prisma.DbNull,
+      renditions: content.renditions.map((r) => ({
+        quality: r.quality,
+        width: r.width,
+        height: r.height,
+        videoBitrate: r.videoBitrate,
+        audioBitrate: r.audioBitrate,
+        videoCodec: r.videoCodec,
+        audioCodec: r.audioCodec,
+        playlistUrl: r.playlistUrl,
+        fileSize: r.fileSize !== null ? Number(r.fileSize) : null,
+      })),
+      processingProvider: content.processingProvider,
+      providerAssetId: content.providerAssetId,
+      readyAt: content.processingUpdatedAt ?? content.createdAt,
+      activatedAt: content.publishedAt ?? content.createdAt,
+    },
+  });
+
+  return content;
+}
+
+/**
+ * Start replacing a content item's media with a newly uploaded file.
+ * `store` uploads the file and returns its URL; it only runs once the
+ * replacement has been allowed. Videos are re-transcoded before they go
+ * live; images go live immediately.
+ */
+export async function replaceMedia(
+  contentId: string,
+  userId: string,
+  media: { mimetype: string; size: number; store: () => Promise<string> },
+  note?: string
+) {
+  await assertCanEdit(contentId, userId);
+
+  const current = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: { id: true, creatorId: true, mediaType: true, processingStatus: true, deletedAt: true },
+  });
+
+  if (!current || current.deletedAt) {
+    throw new NotFoundError('Content');
+  }
+
+  const isVideo = media.mimetype.startsWith('video/');
+  if (current.mediaType && current.mediaType.startsWith('video/') !== isVideo) {
+    throw new ValidationError(`Replacement media must be ${isVideo ? 'an image' : 'a video'}, like the original`);
+  }
+
+  if (current.processingStatus === 'uploaded' || current.processingStatus === 'processing') {
+    throw new ConflictError('Wait for the current video to finish processing before replacing it');
+  }
+
+  await assertNoPendingRevision(prisma, contentId);
+
+  const url = await media.store();
+
+  let revision: RevisionRecord;
+  try {
+    revision = await prisma.$transaction(async (tx) => {
+      await assertNoPendingRevision(tx, contentId);
+
+      const content = await snapshotLiveMedia(tx, contentId);
+      const latest = await tx.contentRevision.aggregate({
+        where: { contentId },
+        _max: { version: true },
+      });
+
+      return tx.contentRevision.create({
+        data: {
+          contentId,
+          version: Math.max(latest._max.version ?? 0, content.version ?? 0) + 1,
+          status: 'uploaded',
+          note: note || null,
+          sourceUrl: url,
+          mediaType: media.mimetype,
+          fileSize: BigInt(media.size),
+          createdBy: userId,
+        },
+        select: revisionSelect,
+      });
+    });
+  } catch (error) {
+    // Two replacements raced for the same version number
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('Another replacement was just uploaded, please refresh');
+    }
+    throw error;
+  }
+
+  // The new media hasn't been reviewed; re-run the automatic checks and put
+  // it in front of moderators
+  flagReplacedMedia(contentId, current.creatorId).catch((error) =>
+    logger.error('Failed to moderate replaced media', { contentId, error })
+  );
+
+  if (isVideo) {
+    await queueVideoTranscoding({
+      contentId,
+      videoUrl: url,
+      qualities: ['720p', '1080p', '4K'],
+      revisionId: revision.id,
+    });
+  } else {
+    await completeRevision(revision.id, { mediaUrl: url });
+  }
+
+  return getRevision(revision.id);
+}
+
+/**
+ * Re-run automatic moderation and queue the content for a manual look
+ */
+async function flagReplacedMedia(contentId: string, creatorId: string) {
+  await autoFlagContent(contentId, creatorId);
+
+  await prisma.$executeRaw`
+    INSERT INTO content_flags (id, content_id, flag_type, reason, severity, is_active, created_at)
+    VALUES (gen_random_uuid(), ${contentId}::uuid, 'auto', 'media_replaced', 'low', true, NOW())
+    ON CONFLICT (content_id, flag_type, reason)
+    DO UPDATE SET is_active = true, resolved_at = NULL, created_at = NOW()
+  `;
+}
+
+/**
+ * Get one revision, formatted for the creator
+ */
+async function getRevision(revisionId: string) {
+  const revision = await prisma.contentRevision.findUnique({
+    where: { id: revisionId },
+    select: { ...revisionSelect, content: { select: { version: true } } },
+  });
+
+  if (!revision) {
+    throw new NotFoundError('Revision');
+  }
+
+  const { content, ...rest } = revision;
+  return formatRevision(rest, content.version ?? 0);
+}
+
+/**
+ * List a content item's media revisions, newest first
+ */
+export async function listRevisions(contentId: string, userId: string) {
+  await assertCanEdit(contentId, userId);
+
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: {
+      version: true,
+      revisions: { select: revisionSelect, orderBy: { version: 'desc' } },
+    },
+  });
+
+  if (!content) {
+    throw new NotFoundError('Content');
+  }
+
+  return content.revisions.map((revision) => formatRevision(revision, content.version ?? 0));
+}
+
+/**
+ * Make a ready revision the live media: copy it onto the content row and
+ * restore its renditions
+ */
+async function activateRevision(revisionId: string): Promise<void> {
+  const revision = await prisma.contentRevision.findUnique({ where: { id: revisionId } });
+  if (!revision || revision.status !== 'ready' || !revision.mediaUrl) {
+    throw new ConflictError('Only processed revisions can go live');
+  }
+
+  const renditions = (revision.renditions as unknown as RevisionRendition[] | null) || [];
+
+  await prisma.$transaction(async (tx) => {
+    const content = await tx.content.findUnique({
+      where: { id: revision.contentId },
+      select: { processingStatus: true },
+    });
+
+    await tx.content.update({
+      where: { id: revision.contentId },
+      data: {
+        version: revision.version,
+        mediaUrl: revision.mediaUrl!,
+        mediaType: revision.mediaType,
+        dashUrl: revision.dashUrl,
+        duration: revision.duration,
+        fileSize: revision.fileSize,
+        resolution: revision.resolution,
+        previewTrackUrl: revision.previewTrackUrl,
+        previewSprites: (revision.previewSprites as Prisma.InputJsonValue | null) ?? Prisma.DbNull,
+        sourceUrl: revision.sourceUrl,
+        processingStatus: content?.processingStatus === null ? null : 'ready',
+        processingProvider: revision.processingProvider,
+        providerAssetId: revision.providerAssetId,
+        processingError: null,
+        processingUpdatedAt: new Date(),
+      },
+    });
+
+    await tx.contentRendition.deleteMany({ where: { contentId: revision.contentId } });
+    if (renditions.length > 0) {
+      await tx.contentRendition.createMany({
+        data: renditions.map((r) => ({
+          ...r,
+          contentId: revision.contentId,
+          fileSize: r.fileSize !== null ? BigInt(r.fileSize) : null,
+        })),
+      });
+    }
+
+    await tx.contentRevision.update({
+      where: { id: revisionId },
+      data: { activatedAt: new Date() },
+    });
+
+    // Content whose original upload failed was never published
+    await tx.content.updateMany({
+      where: { id: revision.contentId, status: 'PENDING_REVIEW' },
+      data: { status: 'PUBLISHED' },
+    });
+  });
+
+  await invalidateContentCache(revision.contentId).catch(() => {});
+  await invalidateSearchCache().catch(() => {});
+}
+
+/**
+ * Record that a replacement's transcode has started
+ */
+export async function markRevisionProcessing(
+  revisionId: string,
+  provider: string,
+  providerAssetId?: string
+): Promise<boolean> {
+  const result = await prisma.contentRevision.updateMany({
+    where: { id: revisionId, status: { in: PENDING_STATUSES } },
+    data: {
+      status: 'processing',
+      processingProvider: provider,
+      providerAssetId: providerAssetId ?? null,
+      processingError: null,
+    },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Store a finished replacement and put it live. Returns false if the
+ * revision was already settled (or abandoned by a rollback).
+ */
+export async function completeRevision(revisionId: string, media: RevisionMedia): Promise<boolean> {
+  const { renditions, previewSprites, ...fields } = media;
+
+  const result = await prisma.contentRevision.updateMany({
+    where: { id: revisionId, status: { in: PENDING_STATUSES } },
+    data: {
+      ...fields,
+      ...(previewSprites !== undefined ? { previewSprites: previewSprites ?? Prisma.DbNull } : {}),
+      ...(renditions ? { renditions: renditions as unknown as Prisma.InputJsonValue } : {}),
+      status: 'ready',
+      processingError: null,
+      readyAt: new Date(),
+    },
+  });
+
+  if (result.count === 0) {
+    return false;
+  }
+
+  await activateRevision(revisionId);
+  await notifyRevisionOwner(revisionId, 'Your replacement is live', 'now plays the new version.');
+
+  return true;
+}
+
+/**
+ * Mark a replacement as failed. The previous media stays live.
+ */
+export async function failRevision(revisionId: string, reason: string): Promise<boolean> {
+  const result = await prisma.contentRevision.updateMany({
+    where: { id: revisionId, status: { in: PENDING_STATUSES } },
+    data: { status: 'failed', processingError: reason },
+  });
+
+  if (result.count === 0) {
+    return false;
+  }
+
+  await notifyRevisionOwner(
+    revisionId,
+    'Media replacement failed',
+    `kept its current version because the replacement could not be processed: ${reason}`
+  );
+
+  return true;
+}
+
+/**
+ * Save scrubbing previews rendered for a revision (they may arrive after it
+ * went live)
+ */
+export async function storeRevisionPreviews(
+  revisionId: string,
+  previews: { previewTrackUrl: string; previewSprites: Prisma.InputJsonValue }
+): Promise<void> {
+  const revision = await prisma.contentRevision.update({
+    where: { id: revisionId },
+    data: previews,
+    select: { contentId: true, version: true },
+  });
+
+  const updated = await prisma.content.updateMany({
+    where: { id: revision.contentId, version: revision.version },
+    data: previews,
+  });
+
+  if (updated.count > 0) {
+    await invalidateContentCache(revision.contentId).catch(() => {});
+  }
+}
+
+/**
+ * Apply a provider status to a replacement
+ */
+export async function applyRevisionProviderStatus(
+  revisionId: string,
+  details: VideoStatusDetails
+): Promise<boolean> {
+  if (details.status === 'ready') {
+    if (!details.url) {
+      return failRevision(revisionId, 'The video provider did not return a playback URL.');
+    }
+    return completeRevision(revisionId, {
+      mediaUrl: details.url,
+      duration: details.duration ?? null,
+      dashUrl: null,
+      renditions: [],
+    });
+  }
+
+  if (details.status === 'error') {
+    return failRevision(revisionId, details.error || 'The video provider could not process this file.');
+  }
+
+  return false;
+}
+
+/**
+ * Poll the provider for a replacement transcode (see checkProviderStatus)
+ */
+export async function checkRevisionProviderStatus(
+  contentId: string,
+  revisionId: string,
+  videoId: string,
+  attempt: number
+) {
+  const revision = await prisma.contentRevision.findUnique({
+    where: { id: revisionId },
+    select: { status: true, providerAssetId: true },
+  });
+
+  if (!revision || revision.status !== 'processing' || revision.providerAssetId !== videoId) {
+    return { status: revision?.status ?? 'missing', done: true };
+  }
+
+  const details = await videoStorage.getVideoDetails(videoId);
+
+  if (details.status !== 'processing') {
+    await applyRevisionProviderStatus(revisionId, details);
+    return { status: details.status, done: true };
+  }
+
+  if (attempt + 1 >= MAX_STATUS_CHECKS) {
+    await failRevision(revisionId, 'Timed out waiting for the video provider to finish processing.');
+    return { status: 'error', done: true };
+  }
+
+  await scheduleStatusCheck(contentId, videoId, attempt + 1, revisionId);
+  return { status: details.status, done: false };
+}
+
+/**
+ * Handle a provider webhook for a replacement that is still processing.
+ * Returns false if the asset doesn't belong to a pending replacement.
+ */
+export async function handleRevisionProviderCallback(
+  provider: 'cloudflare' | 'mux',
+  videoId: string,
+  details: VideoStatusDetails
+): Promise<boolean> {
+  const revision = await prisma.contentRevision.findFirst({
+    where: { providerAssetId: videoId, processingProvider: provider, status: 'processing' },
+    select: { id: true },
+  });
+
+  if (!revision) {
+    return false;
+  }
+
+  if (details.status === 'ready' && !details.url) {
+    const fetched = await videoStorage.getVideoDetails(videoId).catch(() => null);
+    details = { ...details, url: fetched?.url, duration: details.duration ?? fetched?.duration };
+  }
+
+  await applyRevisionProviderStatus(revision.id, details);
+  return true;
+}
+
+/**
+ * Roll back to an earlier revision (by default the one before the live one).
+ * A replacement still processing is abandoned so it can't go live afterwards.
+ */
+export async function rollbackMedia(contentId: string, userId: string, version?: number) {
+  await assertCanEdit(contentId, userId);
+
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: { version: true, deletedAt: true },
+  });
+
+  if (!content || content.deletedAt) {
+    throw new NotFoundError('Content');
+  }
+
+  const liveVersion = content.version ?? 0;
+  if (version === liveVersion) {
+    throw new ConflictError(`v${version} is already live`);
+  }
+
+  const target = await prisma.contentRevision.findFirst({
+    where: {
+      contentId,
+      status: 'ready',
+      mediaUrl: { not: null },
+      version: version !== undefined ? version : { lt: liveVersion },
+    },
+    orderBy: { version: 'desc' },
+    select: { id: true },
+  });
+
+  if (!target) {
+    throw new NotFoundError(version !== undefined ? `Revision v${version}` : 'Previous revision');
+  }
+
+  await prisma.contentRevision.updateMany({
+    where: { contentId, status: { in: PENDING_STATUSES } },
+    data: { status: 'failed', processingError: 'Cancelled by a rollback' },
+  });
+
+  await activateRevision(target.id);
+
+  return getRevision(target.id);
+}
+
+/**
+ * Let the content owner know how a replacement went
+ */
+async function notifyRevisionOwner(revisionId: string, title: string, detail: string) {
+  try {
+    const revision = await prisma.contentRevision.findUnique({
+      where: { id: revisionId },
+      select: {
+        contentId: true,
+        version: true,
+        content: { select: { title: true, creator: { select: { user_id: true } } } },
+      },
+    });
+
+    if (!revision) {
+      return;
+    }
+
+    await createNotification({
+      userId: revision.content.creator.user_id,
+      type: 'system',
+      title,
+      message: `"${revision.content.title}" ${detail}`,
+      link: `/content/${revision.contentId}`,
+      metadata: { contentId: revision.contentId, version: revision.version },
+    });
+  } catch (error) {
+    logger.error('Failed to send media replacement notification', {
+      revisionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Scrubbing Previews
+ * Renders fixed-interval frames into JPEG sprite sheets with FFmpeg and
+ * describes them with a WebVTT thumbnails track (`sheet.jpg#xywh=x,y,w,h`),
+ * the format hover-preview plugins for HLS/DASH players expect.
+ */
+
+import { createReadStream } from 'fs';
+import { mkdir, readdir, rm, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { env } from '../../config/env';
+import { storage } from '../storage/storageService';
+import { runFfmpeg } from './ffmpeg';
+
+export const SPRITE_TILE_WIDTH = 160;
+export const SPRITE_TILE_HEIGHT = 90;
+export const SPRITE_COLUMNS = 10;
+export const SPRITE_ROWS = 10;
+
+const DEFAULT_INTERVAL_SECONDS = 5;
+const MAX_FRAMES = 1000; // long videos get a wider interval instead of more sheets
+
+export interface PreviewSprites {
+  interval: number; // seconds between frames
+  width: number; // tile size
+  height: number;
+  columns: number;
+  rows: number;
+  count: number; // number of frames
+  sheets: string[]; // sprite sheet URLs, in order
+}
+
+export interface PreviewSpritesResult {
+  sprites: PreviewSprites;
+  trackUrl: string; // WebVTT thumbnails track
+}
+
+/**
+ * Seconds between preview frames for a video of the given duration
+ */
+export function getSpriteInterval(duration: number): number {
+  return Math.max(DEFAULT_INTERVAL_SECONDS, Math.ceil(duration / MAX_FRAMES));
+}
+
+/**
+ * Format seconds as a WebVTT timestamp (HH:MM:SS.mmm)
+ */
+function formatTimestamp(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3_600_000);
+  const m = Math.floor((ms % 3_600_000) / 60_000);
+  const s = Math.floor((ms % 60_000) / 1000);
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * Build a WebVTT thumbnails track. `sheetUrl` maps a sheet index to the URL
+ * written into the cues (lets callers sign URLs per viewer).
+ */
+export function buildThumbnailTrack(
+  sprites: PreviewSprites,
+  duration: number,
+  sheetUrl: (index: number) => string = (index) => sprites.sheets[index]
+): string {
+  const perSheet = sprites.columns * sprites.rows;
+  const cues: string[] = ['WEBVTT', ''];
+
+  for (let frame = 0; frame < sprites.count; frame++) {
+    const start = frame * sprites.interval;
+    const end = Math.min((frame + 1) * sprites.interval, Math.max(duration, start + 1));
+    const sheet = Math.floor(frame / perSheet);
+    const position = frame % perSheet;
+    const x = (position % sprites.columns) * sprites.width;
+    const y = Math.floor(position / sprites.columns) * sprites.height;
+
+    cues.push(
+      `${formatTimestamp(start)} --> ${formatTimestamp(end)}`,
+      `${sheetUrl(sheet)}#xywh=${x},${y},${sprites.width},${sprites.height}`,
+      ''
+    );
+  }
+
+  return cues.join('\n');
+}
+
+/**
+ * Generate sprite sheets and a thumbnails track for a video (local path or
+ * URL) and upload them under previews/<contentId>/
+ */
+export async function generatePreviewSprites(
+  contentId: string,
+  input: string,
+  duration: number
+): Promise<PreviewSpritesResult> {
+  if (!duration || duration <= 0) {
+    throw new Error('Cannot generate previews without a duration');
+  }
+
+  const interval = getSpriteInterval(duration);
+  const workDir = join(resolve(env.TRANSCODE_WORK_PATH), `${contentId}-sprites-${uuidv4()}`);
+  await mkdir(workDir, { recursive: true });
+
+  try {
+    // Uniform tiles (letterboxed) keep the VTT coordinates simple; decoding
+    // keyframes only is plenty for previews and much faster
+    const filters = [
+      `fps=1/${interval}`,
+      `scale=${SPRITE_TILE_WIDTH}:${SPRITE_TILE_HEIGHT}:force_original_aspect_ratio=decrease`,
+      `pad=${SPRITE_TILE_WIDTH}:${SPRITE_TILE_HEIGHT}:(ow-iw)/2:(oh-ih)/2`,
+      `tile=${SPRITE_COLUMNS}x${SPRITE_ROWS}`,
+    ].join(',');
+
+    await runFfmpeg([
+      '-skip_frame', 'nokey',
+      '-i', input,
+      '-an', '-sn',
+      '-vf', filters,
+      '-q:v', '5',
+      join(workDir, 'sprite-%03d.jpg'),
+    ]);
+
+    const files = (await readdir(workDir)).filter((file) => file.endsWith('.jpg')).sort();
+    if (files.length === 0) {
+      throw new Error('FFmpeg produced no preview frames');
+    }
+
+    const prefix = `previews/${contentId}/${uuidv4()}`;
+    const sheets: string[] = [];
+
+    for (const file of files) {
+      const path = join(workDir, file);
+      const { size } = await stat(path);
+      const result = await storage.uploadToKey(`${prefix}/${file}`, createReadStream(path), {
+        contentLength: size,
+        contentType: 'image/jpeg',
+        acl: 'private', // Signed per viewer in the playback session's track
+      });
+      sheets.push(result.cdnUrl || result.url);
+    }
+
+    const perSheet = SPRITE_COLUMNS * SPRITE_ROWS;
+    const sprites: PreviewSprites = {
+      interval,
+      width: SPRITE_TILE_WIDTH,
+      height: SPRITE_TILE_HEIGHT,
+      columns: SPRITE_COLUMNS,
+      rows: SPRITE_ROWS,
+      count: Math.min(Math.ceil(duration / interval), sheets.length * perSheet),
+      sheets,
+    };
+
+    const track = await storage.uploadToKey(
+      `${prefix}/thumbnails.vtt`,
+      Buffer.from(buildThumbnailTrack(sprites, duration)),
+      { contentType: 'text/vtt', acl: 'private' }
+    );
+
+    return { sprites, trackUrl: track.cdnUrl || track.url };
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
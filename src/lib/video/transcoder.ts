@@ -0,0 +1,295 @@
+/**
+ * Local Transcoding Pipeline
+ * Encodes an adaptive bitrate ladder with FFmpeg and packages it as
+ * HLS + DASH (shared fMP4 segments), then uploads everything to storage.
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readdir, rm, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { pipeline } from 'stream/promises';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { env } from '../../config/env';
+import { storage } from '../storage/storageService';
+import { probeMedia, runFfmpeg, getCodecString, ProbeResult } from './ffmpeg';
+import { generatePreviewSprites, PreviewSpritesResult } from './sprites';
+
+export interface LadderRung {
+  quality: string;
+  height: number;
+  videoBitrate: number; // bits per second
+  audioBitrate: number; // bits per second
+}
+
+export interface RenditionInfo {
+  quality: string;
+  width: number;
+  height: number;
+  videoBitrate: number;
+  audioBitrate: number | null;
+  videoCodec: string;
+  audioCodec: string | null;
+  playlistUrl: string;
+  fileSize: number;
+}
+
+export interface TranscodeResult {
+  hlsUrl: string;
+  dashUrl: string;
+  storagePrefix: string;
+  duration: number;
+  resolution: string;
+  renditions: RenditionInfo[];
+  previews: PreviewSpritesResult | null;
+}
+
+/**
+ * Standard H.264 ladder, highest first
+ */
+export const TRANSCODE_LADDER: LadderRung[] = [
+  { quality: '2160p', height: 2160, videoBitrate: 14_000_000, audioBitrate: 192_000 },
+  { quality: '1440p', height: 1440, videoBitrate: 8_000_000, audioBitrate: 192_000 },
+  { quality: '1080p', height: 1080, videoBitrate: 5_000_000, audioBitrate: 128_000 },
+  { quality: '720p', height: 720, videoBitrate: 2_800_000, audioBitrate: 128_000 },
+  { quality: '480p', height: 480, videoBitrate: 1_400_000, audioBitrate: 96_000 },
+  { quality: '360p', height: 360, videoBitrate: 800_000, audioBitrate: 96_000 },
+];
+
+// Always encoded (when the source allows) so slow connections have a fallback
+const BASELINE_QUALITIES = ['480p', '360p'];
+const SEGMENT_SECONDS = 6;
+const KEYFRAME_SECONDS = 2;
+
+const QUALITY_ALIASES: Record<string, string> = {
+  '4k': '2160p',
+  uhd: '2160p',
+  '2k': '1440p',
+  fhd: '1080p',
+  hd: '720p',
+  sd: '480p',
+};
+
+/**
+ * Pick the ladder rungs to encode: requested qualities plus the baseline,
+ * never upscaling beyond the source. Sources below 360p get a single rung at
+ * their native size. `sourceHeight` is the short side of the frame.
+ */
+export function selectLadder(sourceHeight: number, qualities: string[] = []): LadderRung[] {
+  const requested = new Set(
+    [...qualities, ...BASELINE_QUALITIES].map((q) => QUALITY_ALIASES[q.toLowerCase()] || q.toLowerCase())
+  );
+
+  const rungs = TRANSCODE_LADDER.filter(
+    (rung) => requested.has(rung.quality) && rung.height <= sourceHeight
+  );
+
+  if (rungs.length > 0) {
+    return rungs;
+  }
+
+  const lowest = TRANSCODE_LADDER[TRANSCODE_LADDER.length - 1];
+  const height = Math.max(2, sourceHeight - (sourceHeight % 2));
+  return [{ ...lowest, quality: `${height}p`, height }];
+}
+
+/**
+ * Transcode a source video (URL or local path) into an HLS/DASH ladder.
+ * Progress is reported as 0-100.
+ */
+export async function transcodeToAdaptiveStreams(
+  contentId: string,
+  source: string,
+  options: { qualities?: string[]; onProgress?: (percent: number) => void | Promise<void> } = {}
+): Promise<TranscodeResult> {
+  const report = options.onProgress || (() => {});
+  const workDir = join(resolve(env.TRANSCODE_WORK_PATH), `${contentId}-${uuidv4()}`);
+  const packageDir = join(workDir, 'package');
+
+  await mkdir(packageDir, { recursive: true });
+
+  try {
+    // 1. Fetch and probe the source (0-5%)
+    const inputPath = await fetchSource(source, workDir);
+    const probe = await probeMedia(inputPath);
+    if (!probe.video?.width || !probe.video?.height) {
+      throw new Error('Source has no video stream');
+    }
+    await report(5);
+
+    // 2. Encode every rung in a single decode pass (5-75%)
+    // Rungs refer to the short side so portrait video isn't over-encoded
+    const shortSide = Math.min(probe.video.width, probe.video.height);
+    const ladder = selectLadder(shortSide, options.qualities);
+    const encoded = await encodeLadder(inputPath, workDir, ladder, probe, (ratio) =>
+      report(5 + Math.round(ratio * 70))
+    );
+    await report(75);
+
+    // Scrubbing previews are nice to have; never fail the transcode over them (75-80%)
+    const previews = await generatePreviewSprites(contentId, inputPath, probe.duration).catch((error) => {
+      console.warn(`Preview sprite generation failed for content ${contentId}:`, error);
+      return null;
+    });
+    await report(80);
+
+    // 3. Package as DASH with HLS playlists over the same segments (80-90%)
+    await packageStreams(encoded.map((e) => e.path), packageDir, !!probe.audio);
+    await report(90);
+
+    // 4. Upload manifests and segments (90-100%)
+    const storagePrefix = `streams/${contentId}/${uuidv4()}`;
+    const urls = await uploadDirectory(packageDir, storagePrefix);
+    await report(100);
+
+    const renditions: RenditionInfo[] = [];
+    for (const [index, rendition] of encoded.entries()) {
+      const renditionProbe = await probeMedia(rendition.path);
+      const video = renditionProbe.video!;
+      const audio = renditionProbe.audio;
+
+      renditions.push({
+        quality: rendition.rung.quality,
+        width: video.width || 0,
+        height: video.height || rendition.rung.height,
+        videoBitrate: parseInt(video.bit_rate || '0', 10) || rendition.rung.videoBitrate,
+        audioBitrate: audio ? parseInt(audio.bit_rate || '0', 10) || rendition.rung.audioBitrate : null,
+        videoCodec: getCodecString(video),
+        audioCodec: audio ? getCodecString(audio) : null,
+        // The dash muxer names HLS media playlists by representation index
+        playlistUrl: urls[`media_${index}.m3u8`],
+        fileSize: renditionProbe.size,
+      });
+    }
+
+    return {
+      hlsUrl: urls['master.m3u8'],
+      dashUrl: urls['manifest.mpd'],
+      storagePrefix,
+      duration: Math.round(probe.duration),
+      resolution: `${probe.video.width}x${probe.video.height}`,
+      renditions,
+      previews,
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Download a remote source into the work directory (local paths are used as-is)
+ */
+async function fetchSource(source: string, workDir: string): Promise<string> {
+  if (!/^https?:\/\//.test(source)) {
+    await stat(source);
+    return source;
+  }
+
+  const inputPath = join(workDir, 'source');
+  const response = await axios({
+    method: 'GET',
+    url: source,
+    responseType: 'stream',
+    timeout: 300000, // 5 minutes to first byte
+  });
+  await pipeline(response.data, createWriteStream(inputPath));
+  return inputPath;
+}
+
+/**
+ * Encode all rungs with one ffmpeg process (decode once, scale per output).
+ * Keyframes are forced on a fixed interval so segments align across renditions.
+ */
+async function encodeLadder(
+  inputPath: string,
+  workDir: string,
+  ladder: LadderRung[],
+  probe: ProbeResult,
+  onProgress: (ratio: number) => void
+): Promise<Array<{ rung: LadderRung; path: string }>> {
+  const isPortrait = (probe.video?.width || 0) < (probe.video?.height || 0);
+  const splitLabels = ladder.map((_, i) => `[s${i}]`).join('');
+  const filters = [
+    `[0:v]split=${ladder.length}${splitLabels}`,
+    ...ladder.map((rung, i) =>
+      isPortrait ? `[s${i}]scale=${rung.height}:-2[v${i}]` : `[s${i}]scale=-2:${rung.height}[v${i}]`
+    ),
+  ].join(';');
+
+  const args = ['-i', inputPath, '-filter_complex', filters];
+  const outputs = ladder.map((rung, i) => {
+    const path = join(workDir, `${rung.quality}.mp4`);
+    args.push(
+      '-map', `[v${i}]`,
+      ...(probe.audio ? ['-map', '0:a:0'] : []),
+      '-c:v', 'libx264',
+      '-preset', 'veryfast',
+      '-profile:v', 'high',
+      '-pix_fmt', 'yuv420p',
+      '-b:v', `${rung.videoBitrate}`,
+      '-maxrate', `${Math.round(rung.videoBitrate * 1.07)}`,
+      '-bufsize', `${Math.round(rung.videoBitrate * 1.5)}`,
+      '-force_key_frames', `expr:gte(t,n_forced*${KEYFRAME_SECONDS})`,
+      '-sc_threshold', '0',
+      ...(probe.audio ? ['-c:a', 'aac', '-b:a', `${rung.audioBitrate}`, '-ac', '2'] : []),
+      '-movflags', '+faststart',
+      path
+    );
+    return { rung, path };
+  });
+
+  await runFfmpeg(args, { duration: probe.duration, onProgress });
+  return outputs;
+}
+
+/**
+ * Package encoded renditions as DASH plus HLS playlists sharing the same
+ * fMP4 segments (manifest.mpd, master.m3u8, media_N.m3u8)
+ */
+async function packageStreams(renditionPaths: string[], packageDir: string, hasAudio: boolean): Promise<void> {
+  const args: string[] = [];
+  renditionPaths.forEach((path) => args.push('-i', path));
+  renditionPaths.forEach((_, i) => args.push('-map', `${i}:v:0`));
+  if (hasAudio) {
+    // Audio is identical across renditions; package it once
+    args.push('-map', '0:a:0');
+  }
+
+  args.push(
+    '-c', 'copy',
+    '-f', 'dash',
+    '-seg_duration', `${SEGMENT_SECONDS}`,
+    '-use_template', '1',
+    '-use_timeline', '1',
+    '-adaptation_sets', hasAudio ? 'id=0,streams=v id=1,streams=a' : 'id=0,streams=v',
+    '-init_seg_name', 'init-$RepresentationID$.m4s',
+    '-media_seg_name', 'chunk-$RepresentationID$-$Number%05d$.m4s',
+    '-hls_playlist', '1',
+    join(packageDir, 'manifest.mpd')
+  );
+
+  await runFfmpeg(args);
+}
+
+/**
+ * Upload every file in the package directory under a common prefix so the
+ * relative references inside the manifests keep working.
+ * Returns a map of file name to public URL.
+ */
+async function uploadDirectory(dir: string, prefix: string): Promise<Record<string, string>> {
+  const urls: Record<string, string> = {};
+  const files = await readdir(dir);
+
+  for (const file of files) {
+    const path = join(dir, file);
+    const { size } = await stat(path);
+    // Private: playback goes through signed URLs (see lib/playback)
+    const result = await storage.uploadToKey(`${prefix}/${file}`, createReadStream(path), {
+      contentLength: size,
+      acl: 'private',
+    });
+    urls[file] = result.cdnUrl || result.url;
+  }
+
+  return urls;
+}
@@ -1,9 +1,11 @@
 /**
  * WebSocket Broadcast Service for Admin Dashboard
- * Broadcasts real-time updates to connected admin clients
+ * Broadcasts real-time updates to connected admin clients, on every API
+ * instance and from worker processes too (see getSocketInstance)
  */
 
 import { Server as SocketIOServer } from 'socket.io';
+import { getSocketInstance } from '../socket/emitDownloadEvents';
 
 let ioInstance: SocketIOServer | null = null;
 
@@ -19,13 +21,14 @@ export function initializeAdminBroadcast(io: SocketIOServer): void {
  * Broadcast event to all admin clients
  */
 export function broadcastToAdmins(event: string, data: any): void {
-  if (!ioInstance) {
+  const emitter = ioInstance ?? getSocketInstance();
+  if (!emitter) {
     console.warn('⚠️ WebSocket server not initialized, skipping broadcast');
     return;
   }
 
   // Emit to all clients in 'admin' room
-  ioInstance.to('admin').emit(event, data);
+  emitter.to('admin').emit(event, data);
 }
 
 /**
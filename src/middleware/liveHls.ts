@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { ForbiddenError, NotFoundError } from '../lib/errors';
+import { getLiveOutputDir } from '../lib/live/hlsPackager';
+import { isTicketedStream, verifyLiveHlsAccess } from '../lib/live/liveTickets';
+import { rewriteMediaPlaylist } from '../lib/playback/manifests';
+
+const STREAM_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Guard the live HLS output (mounted at /live) of ticketed streams.
+ * Free streams fall through to the static handler. Ticketed ones need the
+ * signature from their playback URL; playlists are served with it appended
+ * to every segment URI so players carry it along.
+ */
+export function requireLiveHlsAccess(req: Request, res: Response, next: NextFunction): void {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return next();
+  }
+
+  const [, streamId, file] = req.path.split('/');
+  if (!streamId || !STREAM_ID_PATTERN.test(streamId)) {
+    return next();
+  }
+
+  isTicketedStream(streamId)
+    .then(async (ticketed) => {
+      if (!ticketed) {
+        return next();
+      }
+
+      const expires = typeof req.query.expires === 'string' ? req.query.expires : '';
+      const signature = typeof req.query.sig === 'string' ? req.query.sig : '';
+      if (!expires || !signature || !verifyLiveHlsAccess(streamId, expires, signature)) {
+        return next(new ForbiddenError('A ticket is required to watch this stream'));
+      }
+
+      if (!file?.endsWith('.m3u8') || file.includes('..')) {
+        return next();
+      }
+
+      let playlist: string;
+      try {
+        playlist = await readFile(join(getLiveOutputDir(streamId), file), 'utf8');
+      } catch {
+        return next(new NotFoundError('Playlist'));
+      }
+
+      const query = `expires=${expires}&sig=${signature}`;
+      const signed = await rewriteMediaPlaylist(playlist, async (uri) => `${uri}?${query}`);
+
+      res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(signed);
+    })
+    .catch(next);
+}
@@ -0,0 +1,95 @@
+import { Request, Response, NextFunction } from 'express';
+import { pipeline } from 'stream/promises';
+import { NotFoundError } from '../lib/errors';
+import { getStorageDriver } from '../lib/storage/storageService';
+import { parseRangeHeader } from '../lib/storage/byteRange';
+import { StoredObject } from '../lib/storage/storageDriver';
+import logger from '../lib/logger';
+import { verifySignedMedia } from './signedMedia';
+
+/**
+ * Serve files from the local storage driver (mounted at /media).
+ * Public objects (images) are served as is; everything else, including
+ * video originals and renditions, needs a signed URL. Supports single byte ranges so players can seek.
+ */
+export function serveLocalMedia(req: Request, res: Response, next: NextFunction): void {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return next();
+  }
+
+  let key: string;
+  try {
+    key = decodeURIComponent(req.path.slice(1));
+  } catch {
+    return next(new NotFoundError('File'));
+  }
+
+  getStorageDriver('local')
+    .head(key)
+    .then((object) => {
+      if (!object) {
+        return next(new NotFoundError('File'));
+      }
+
+      if (object.acl === 'public-read') {
+        res.setHeader('Cache-Control', object.cacheControl || 'public, max-age=3600');
+        return sendObject(req, res, object).catch(next);
+      }
+
+      verifySignedMedia(req, res, (error?: unknown) => {
+        if (error) {
+          return next(error);
+        }
+        sendObject(req, res, object).catch(next);
+      });
+    })
+    .catch(next);
+}
+
+async function sendObject(req: Request, res: Response, object: StoredObject): Promise<void> {
+  const etag = `W/"${object.size.toString(16)}-${object.lastModified.getTime().toString(16)}"`;
+
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Content-Type', object.contentType || 'application/octet-stream');
+  res.setHeader('Last-Modified', object.lastModified.toUTCString());
+  res.setHeader('ETag', etag);
+
+  if (req.headers['if-none-match'] === etag) {
+    res.status(304).end();
+    return;
+  }
+
+  // If-Range: only honour the range while the file is unchanged
+  const ifRange = req.headers['if-range'];
+  const rangeHeader = !ifRange || ifRange === etag ? req.headers.range : undefined;
+  const range = parseRangeHeader(rangeHeader, object.size);
+
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${object.size}`);
+    res.status(416).end();
+    return;
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${object.size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.setHeader('Content-Length', object.size);
+  }
+
+  if (req.method === 'HEAD' || object.size === 0) {
+    res.end();
+    return;
+  }
+
+  const stream = await getStorageDriver('local').getStream(object.key, range || undefined);
+  try {
+    await pipeline(stream, res);
+  } catch (error: any) {
+    // Players abort requests all the time when seeking
+    if (error?.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      logger.warn('Failed to stream local media', { key: object.key, error });
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { ForbiddenError } from '../lib/errors';
+import { verifyLocalMediaSignature, LOCAL_MEDIA_PREFIX } from '../lib/playback/signing';
+
+/**
+ * Verify signed, expiring URLs for locally served media (mounted at /media).
+ * URLs are issued by the playback service: /media/<key>?expires=<unix>&sig=<hmac>
+ */
+export function verifySignedMedia(req: Request, res: Response, next: NextFunction): void {
+  const expires = typeof req.query.expires === 'string' ? req.query.expires : '';
+  const signature = typeof req.query.sig === 'string' ? req.query.sig : '';
+  const path = `${LOCAL_MEDIA_PREFIX}${req.path}`;
+
+  if (!expires || !signature || !verifyLocalMediaSignature(path, expires, signature)) {
+    return next(new ForbiddenError('Media URL is invalid or has expired'));
+  }
+
+  // Let browsers/CDNs cache the response until the signature expires
+  const maxAge = Math.max(0, parseInt(expires, 10) - Math.floor(Date.now() / 1000));
+  res.setHeader('Cache-Control', `private, max-age=${maxAge}`);
+
+  next();
+}
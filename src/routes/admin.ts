@@ -7,6 +7,8 @@ import { validateQuery, validateBody } from '../middleware/validation';
 import { NotFoundError, ValidationError } from '../lib/errors';
 import { z } from 'zod';
 import { autoModerateContent } from '../lib/moderation/autoModerationService';
+import { getDuplicateClusters, reviewDuplicate } from '../lib/moderation/duplicateService';
+import { reconcileStorage } from '../lib/storage/orphanedMediaService';
 import { csrfProtect } from '../middleware/csrf';
 
 const router = Router();
@@ -734,5 +736,77 @@ router.post(
   }
 );
 
-export default router;
+/**
+ * GET /api/admin/duplicates
+ * List clusters of duplicate uploads (exact and near matches)
+ */
+router.get(
+  '/duplicates',
+  authenticate,
+  requireAdmin,
+  validateQuery(z.object({
+    status: z.enum(['open', 'confirmed', 'dismissed']).default('open'),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  })),
+  async (req: Request, res: Response) => {
+    const { status, page = 1, limit = 20 } = req.query as any;
 
+    const result = await getDuplicateClusters({ status, page, limit });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+);
+
+/**
+ * POST /api/admin/duplicates/:id/review
+ * Confirm or dismiss a detected duplicate
+ */
+router.post(
+  '/duplicates/:id/review',
+  authenticate,
+  requireAdmin,
+  csrfProtect,
+  validateBody(z.object({
+    status: z.enum(['confirmed', 'dismissed']),
+  })),
+  async (req: Request, res: Response) => {
+    const duplicate = await reviewDuplicate(req.params.id, req.user!.userId, req.body.status);
+
+    res.json({
+      success: true,
+      data: duplicate,
+      message: `Duplicate ${duplicate.status}`,
+    });
+  }
+);
+
+/**
+ * GET /api/admin/storage/orphans
+ * Dry run of the orphaned media collection: what is unreferenced, quarantined
+ * and due for deletion. Changes nothing.
+ */
+router.get(
+  '/storage/orphans',
+  authenticate,
+  requireAdmin,
+  strictRateLimiter,
+  validateQuery(z.object({
+    limit: z.coerce.number().int().min(0).max(1000).default(100),
+  })),
+  async (req: Request, res: Response) => {
+    const { limit = 100 } = req.query as any;
+
+    const report = await reconcileStorage({ dryRun: true, sampleSize: limit });
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  }
+);
+
+export default router;
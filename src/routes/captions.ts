@@ -0,0 +1,146 @@
+/**
+ * Caption API Routes
+ *
+ * Upload, list, edit and delete per-language subtitle/caption tracks
+ */
+
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { authenticate, optionalAuth } from '../middleware/auth';
+import { requireCreator } from '../middleware/authorize';
+import { userRateLimiter } from '../middleware/rateLimit';
+import { csrfProtect } from '../middleware/csrf';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { validateBody } from '../middleware/validation';
+import { ValidationError } from '../lib/errors';
+import {
+  listCaptions,
+  createCaption,
+  updateCaption,
+  deleteCaption,
+  MAX_CAPTION_FILE_SIZE,
+} from '../lib/captions/captionService';
+
+const router = Router();
+
+// Caption files are small text files; keep them in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_CAPTION_FILE_SIZE,
+    files: 1,
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(srt|vtt|ass|ssa)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new ValidationError('Invalid file type. Upload an .srt, .vtt or .ass file.'));
+    }
+  },
+});
+
+// Multipart fields arrive as strings
+const booleanField = z
+  .union([z.boolean(), z.enum(['true', 'false'])])
+  .transform((value) => value === true || value === 'true');
+
+const createCaptionSchema = z.object({
+  language: z.string().min(2).max(35),
+  label: z.string().max(100).optional(),
+  kind: z.enum(['subtitles', 'captions']).optional(),
+  isDefault: booleanField.optional(),
+});
+
+const updateCaptionSchema = z.object({
+  label: z.string().max(100).optional(),
+  isDefault: booleanField.optional(),
+});
+
+/**
+ * GET /api/captions/content/:contentId
+ * List caption tracks for a content item
+ */
+router.get(
+  '/content/:contentId',
+  optionalAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const captions = await listCaptions(req.params.contentId, req.user?.userId);
+
+    res.json({
+      success: true,
+      data: captions,
+    });
+  })
+);
+
+/**
+ * POST /api/captions/content/:contentId
+ * Upload a caption track (multipart: file, language, label?, kind?, isDefault?)
+ */
+router.post(
+  '/content/:contentId',
+  authenticate,
+  requireCreator,
+  userRateLimiter,
+  csrfProtect,
+  upload.single('file'),
+  validateBody(createCaptionSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.file) {
+      throw new ValidationError('Caption file is required');
+    }
+
+    const caption = await createCaption(req.params.contentId, req.user!.userId, req.file, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: caption,
+      message: 'Caption track added',
+    });
+  })
+);
+
+/**
+ * PATCH /api/captions/:id
+ * Rename a track, make it the default, or replace its file (multipart: file?)
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  requireCreator,
+  userRateLimiter,
+  csrfProtect,
+  upload.single('file'),
+  validateBody(updateCaptionSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const caption = await updateCaption(req.params.id, req.user!.userId, req.body, req.file);
+
+    res.json({
+      success: true,
+      data: caption,
+      message: 'Caption track updated',
+    });
+  })
+);
+
+/**
+ * DELETE /api/captions/:id
+ * Delete a caption track
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requireCreator,
+  csrfProtect,
+  asyncHandler(async (req: Request, res: Response) => {
+    await deleteCaption(req.params.id, req.user!.userId);
+
+    res.json({
+      success: true,
+      message: 'Caption track deleted',
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,177 @@
+/**
+ * Clip API Routes
+ *
+ * Cut short clips from published videos, list them on the source video and
+ * the clipper's profile, play, count views and delete
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, optionalAuth } from '../middleware/auth';
+import { userRateLimiter } from '../middleware/rateLimit';
+import { csrfProtect } from '../middleware/csrf';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { isModerator } from '../lib/auth/roles';
+import {
+  createClip,
+  getClip,
+  getClipPlayback,
+  listContentClips,
+  listUserClips,
+  recordClipView,
+  deleteClip,
+  MAX_CLIP_SECONDS,
+} from '../lib/video/clipService';
+
+const router = Router();
+
+const createClipSchema = z.object({
+  contentId: z.string().uuid(),
+  title: z.string().min(1).max(100),
+  startTime: z.number().min(0),
+  endTime: z.number().positive(),
+});
+
+const listClipsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  sort: z.enum(['recent', 'popular']).default('recent'),
+});
+
+/**
+ * POST /api/clips
+ * Cut a clip (at most 60 seconds) from a published video; rendered in the background
+ */
+router.post(
+  '/',
+  authenticate,
+  userRateLimiter,
+  csrfProtect,
+  validateBody(createClipSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const clip = await createClip(req.user!.userId, req.body);
+
+    res.status(202).json({
+      success: true,
+      message: `Clip is being rendered (max ${MAX_CLIP_SECONDS}s)`,
+      data: { clip },
+    });
+  })
+);
+
+/**
+ * GET /api/clips/content/:contentId
+ * Clips cut from a video (?sort=recent|popular)
+ */
+router.get(
+  '/content/:contentId',
+  optionalAuth,
+  userRateLimiter,
+  validateQuery(listClipsQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { page, limit, sort } = req.query as any;
+    const result = await listContentClips(req.params.contentId, { page, limit, sort });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+/**
+ * GET /api/clips/user/:userId
+ * Clips a user has made (their own unfinished clips are included for them)
+ */
+router.get(
+  '/user/:userId',
+  optionalAuth,
+  userRateLimiter,
+  validateQuery(listClipsQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { page, limit } = req.query as any;
+    const result = await listUserClips(req.params.userId, req.user?.userId, { page, limit });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+/**
+ * GET /api/clips/:id
+ * Clip details with attribution to the source video and creator
+ */
+router.get(
+  '/:id',
+  optionalAuth,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const clip = await getClip(req.params.id, req.user?.userId);
+
+    res.json({
+      success: true,
+      data: { clip },
+    });
+  })
+);
+
+/**
+ * GET /api/clips/:id/playback
+ * Signed URL for the clip, subject to the source video's access rules
+ */
+router.get(
+  '/:id/playback',
+  optionalAuth,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const playback = await getClipPlayback(req.params.id, req.user?.userId);
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.json({
+      success: true,
+      data: playback,
+    });
+  })
+);
+
+/**
+ * POST /api/clips/:id/view
+ * Count a view
+ */
+router.post(
+  '/:id/view',
+  optionalAuth,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const viewCount = await recordClipView(req.params.id);
+
+    res.json({
+      success: true,
+      data: { viewCount },
+    });
+  })
+);
+
+/**
+ * DELETE /api/clips/:id
+ * Delete a clip (clipper, the source's creator team or moderators)
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  userRateLimiter,
+  csrfProtect,
+  asyncHandler(async (req: Request, res: Response) => {
+    await deleteClip(req.params.id, req.user!.userId, isModerator(req.user!.role));
+
+    res.json({
+      success: true,
+      message: 'Clip deleted',
+    });
+  })
+);
+
+export default router;
@@ -4,11 +4,15 @@ import { authenticate, optionalAuth } from '../middleware/auth';
 import { userRateLimiter } from '../middleware/rateLimit';
 import { NotFoundError } from '../lib/errors';
 import { z } from 'zod';
-import { validateBody } from '../middleware/validation';
+import { validateBody, validateQuery } from '../middleware/validation';
 import { asyncHandler } from '../middleware/asyncHandler';
 import { awardPoints } from '../lib/loyalty/points';
 import { trackLikeActivity } from '../lib/social/activityFeedService';
 import { getCachedContent, invalidateContentCache } from '../lib/cache/contentCache';
+import { createPlaybackSession, isProtectedContent } from '../lib/playback/playbackService';
+import { getWatchProgress } from '../lib/playback/watchSessionService';
+import { getChatReplay } from '../lib/live/chatReplayService';
+import type { PreviewSprites } from '../lib/video/sprites';
 
 const router = Router();
 
@@ -17,6 +21,13 @@ const trackViewSchema = z.object({
   duration: z.number().int().min(0).optional(),
 });
 
+// Milliseconds into the video; defaults to the first minute
+const chatReplayQuerySchema = z.object({
+  from: z.coerce.number().int().min(0).default(0),
+  to: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(200),
+});
+
 /**
  * POST /api/content/:id/view
  * Track a view for content
@@ -405,15 +416,109 @@ router.get(
       isLiked = !!like;
     }
 
+    // Resume position and "watched" marker for the viewer
+    const watchProgress = userId ? (await getWatchProgress(userId, [id]))[id] ?? null : null;
+
+    // Clips change independently of the cached content
+    const clipCount = await prisma.clip.count({
+      where: { contentId: id, status: 'ready' },
+    });
+
+    // VODs of recorded live streams come with their chat
+    const liveStream = await prisma.liveStream.findUnique({
+      where: { vod_content_id: id },
+      select: { id: true },
+    });
+
+    // Protected media is only reachable through signed playback URLs
+    const {
+      sourceUrl: _sourceUrl,
+      previewSprites,
+      previewTrackUrl: _previewTrackUrl,
+      ...details
+    } = content as typeof content & {
+      sourceUrl?: string | null;
+      previewSprites?: PreviewSprites | null;
+      previewTrackUrl?: string | null;
+    };
+    const isProtected = isProtectedContent(content);
+    const media = isProtected ? { mediaUrl: null, dashUrl: null } : {};
+
+    // Scrubbing previews layout; the track comes from the playback session
+    // (thumbnailsUrl), which signs the private sprite sheets per viewer
+    const previews = previewSprites
+      ? {
+          interval: previewSprites.interval,
+          width: previewSprites.width,
+          height: previewSprites.height,
+          count: previewSprites.count,
+        }
+      : null;
+
     res.json({
       success: true,
       data: {
-        ...content,
+        ...details,
+        ...media,
+        previews,
+        playbackUrl: `/api/content/${id}/playback`,
+        clips: {
+          count: clipCount,
+          url: `/api/clips/content/${id}`,
+        },
+        chatReplay: liveStream
+          ? { streamId: liveStream.id, url: `/api/content/${id}/chat-replay` }
+          : null,
         isLiked,
+        watchProgress,
       },
     });
   })
 );
 
+/**
+ * GET /api/content/:id/playback
+ * Authorize playback and get short-lived signed manifest/rendition URLs
+ */
+router.get(
+  '/:id/playback',
+  optionalAuth,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const playback = await createPlaybackSession(req.params.id, req.user?.userId);
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.json({
+      success: true,
+      data: { playback },
+    });
+  })
+);
+
+/**
+ * GET /api/content/:id/chat-replay
+ * Live chat of a recorded stream between two playback offsets (ms)
+ */
+router.get(
+  '/:id/chat-replay',
+  optionalAuth,
+  userRateLimiter,
+  validateQuery(chatReplayQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { from, to, limit } = req.query as unknown as z.infer<typeof chatReplayQuerySchema>;
+
+    const replay = await getChatReplay(req.params.id, req.user?.userId, {
+      from,
+      to: to ?? from + 60_000,
+      limit,
+    });
+
+    res.json({
+      success: true,
+      data: replay,
+    });
+  })
+);
+
 export default router;
 
@@ -526,11 +526,12 @@ router.post(
           const filename = `${Date.now()}-${Math.random().toString(36).substring(7)}-${file.originalname}`;
           
           // Upload to storage (simplified - in production would use queue)
-          const { s3Storage } = await import('../lib/storage/s3Storage');
-          const uploadResult = await s3Storage.uploadFile(
+          const { storage } = await import('../lib/storage/storageService');
+          const uploadResult = await storage.uploadFile(
             file.buffer,
             filename,
-            'content'
+            'content',
+            { acl: 'private' } // Video originals are read through signed URLs
           );
 
           // Create content record (draft status, user will fill in details)
@@ -105,10 +105,22 @@ router.get(
       orderBy: { startedAt: 'desc' },
     });
 
+    // Get live ticket sales
+    const ticketSales = type !== 'all' ? null : await prisma.liveStreamTicket.aggregate({
+      where: {
+        stream: { creator_id: creator.id },
+        status: 'completed',
+        ...(Object.keys(dateFilter).length > 0 && { created_at: dateFilter }),
+      },
+      _sum: { amount: true },
+      _count: true,
+    });
+
     // Calculate totals
     const tipsTotal = tips.reduce((sum, tip) => sum + Number(tip.amount), 0);
     const subscriptionsTotal = subscriptions.reduce((sum, sub) => sum + Number(sub.amount), 0);
-    const totalEarnings = tipsTotal + subscriptionsTotal;
+    const ticketsTotal = Number(ticketSales?._sum.amount || 0);
+    const totalEarnings = tipsTotal + subscriptionsTotal + ticketsTotal;
 
     // Get earnings by month (last 12 months)
     const twelveMonthsAgo = new Date();
@@ -154,8 +166,10 @@ router.get(
           totalEarnings: totalEarnings,
           tipsTotal: tipsTotal,
           subscriptionsTotal: subscriptionsTotal,
+          ticketsTotal: ticketsTotal,
           tipsCount: tips.length,
           subscriptionsCount: subscriptions.length,
+          ticketsCount: ticketSales?._count || 0,
         },
         tips: tips.map(tip => ({
           ...tip,
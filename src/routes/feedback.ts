@@ -13,7 +13,7 @@ import { asyncHandler } from '../middleware/asyncHandler';
 import { ValidationError } from '../lib/errors';
 import logger from '../lib/logger';
 import { z } from 'zod';
-import { s3Storage } from '../lib/storage/s3Storage';
+import { storage } from '../lib/storage/storageService';
 
 const router = Router();
 
@@ -60,7 +60,7 @@ router.post(
 
     try {
       // Upload screenshot to S3/R2
-      const result = await s3Storage.uploadImage(
+      const result = await storage.uploadImage(
         req.file.buffer,
         req.file.originalname,
         'feedback' // Store in feedback folder
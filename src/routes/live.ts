@@ -1,25 +1,105 @@
 import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
 import { prisma } from '../lib/prisma';
+import logger from '../lib/logger';
 import { authenticate, optionalAuth } from '../middleware/auth';
 import { requireCreator } from '../middleware/authorize';
 import { asyncHandler } from '../middleware/asyncHandler';
-import { userRateLimiter } from '../middleware/rateLimit';
+import { userRateLimiter, strictRateLimiter } from '../middleware/rateLimit';
 import { ValidationError, NotFoundError, ForbiddenError } from '../lib/errors';
 import { z } from 'zod';
-import { validateBody } from '../middleware/validation';
-import { v4 as uuidv4 } from 'uuid';
+import { validateBody, validateQuery } from '../middleware/validation';
+import {
+  generateStreamKey,
+  getIngestUrl,
+  isIngestEnabled,
+  markStreamEnded,
+  rotateStreamKey,
+} from '../lib/live/liveStreamService';
+import { disconnectPublisher, endBroadcast, isPublishing } from '../lib/live/ingestServer';
+import { removeLiveOutput } from '../lib/live/hlsPackager';
+import { removeRecording } from '../lib/live/liveRecorder';
+import {
+  CHAT_MODES,
+  MAX_CHAT_MESSAGE_LENGTH,
+  MAX_SLOW_MODE_SECONDS,
+  MAX_TIMEOUT_SECONDS,
+  addChatModerator,
+  deleteChatMessage,
+  getChatSettings,
+  liftChatRestriction,
+  listChatModerators,
+  listChatRestrictions,
+  removeChatModerator,
+  restrictChatUser,
+  sendChatMessage,
+  updateChatSettings,
+} from '../lib/live/chatModeration';
+import { MAX_BLOCKED_TERMS, MAX_BLOCKED_TERM_LENGTH } from '../lib/live/chatFilters';
+import { getPinnedMessages } from '../lib/live/chatTips';
+import { MAX_HEALTH_WINDOW_MINUTES, getStreamHealth } from '../lib/live/streamHealthService';
+import { RAID_POLICIES, getRaidPolicy, listRaids, setRaidPolicy, startRaid } from '../lib/live/liveRaids';
+import { HEARTBEAT_INTERVAL_MS, removeViewer, touchViewer } from '../lib/live/viewerPresence';
+import {
+  MAX_POLL_OPTION_LENGTH,
+  MAX_POLL_OPTIONS,
+  MAX_POLL_QUESTION_LENGTH,
+  MIN_POLL_OPTIONS,
+  closePoll,
+  createPoll,
+  listPolls,
+  votePoll,
+} from '../lib/live/livePolls';
+import {
+  MAX_QUESTION_LENGTH,
+  listQuestions,
+  markQuestionAnswered,
+  submitQuestion,
+  upvoteQuestion,
+} from '../lib/live/liveQuestions';
+import {
+  TICKET_PROVIDERS,
+  cancelStream,
+  confirmRazorpayTicket,
+  confirmStripeTicket,
+  createTicketCheckout,
+  getTicket,
+  getTicketSales,
+  getViewerPlaybackUrl,
+  hasStreamAccess,
+} from '../lib/live/liveTickets';
+import {
+  cancelRsvp,
+  getRsvpCount,
+  hasRsvped,
+  notifyStreamLive,
+  rsvpToStream,
+} from '../lib/live/liveNotificationService';
 
 const router = Router();
 
-const createStreamSchema = z.object({
-  title: z.string().min(1).max(200),
-  description: z.string().max(5000).optional(),
-  category: z.string().optional(),
-  tags: z.array(z.string()).optional(),
-  scheduledFor: z.string().datetime().optional(),
-  chatEnabled: z.boolean().default(true),
-  isRecorded: z.boolean().default(true),
-});
+// Pay-per-view: viewers need a ticket at this price
+const ticketFields = {
+  isTicketed: z.boolean().optional(),
+  ticketPrice: z.number().positive().max(100000).multipleOf(0.01).optional(),
+  ticketCurrency: z.string().length(3).toUpperCase().optional(),
+};
+
+const createStreamSchema = z
+  .object({
+    title: z.string().min(1).max(200),
+    description: z.string().max(5000).optional(),
+    category: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    scheduledFor: z.string().datetime().optional(),
+    chatEnabled: z.boolean().default(true),
+    isRecorded: z.boolean().default(true),
+    ...ticketFields,
+  })
+  .refine((data) => !data.isTicketed || data.ticketPrice !== undefined, {
+    message: 'Ticketed streams need a ticketPrice',
+    path: ['ticketPrice'],
+  });
 
 const updateStreamSchema = z.object({
   title: z.string().min(1).max(200).optional(),
@@ -28,12 +108,99 @@ const updateStreamSchema = z.object({
   tags: z.array(z.string()).optional(),
   chatEnabled: z.boolean().optional(),
   isRecorded: z.boolean().optional(),
+  ...ticketFields,
 });
 
 const chatMessageSchema = z.object({
-  message: z.string().min(1).max(500),
+  message: z.string().min(1).max(MAX_CHAT_MESSAGE_LENGTH),
+});
+
+// Only ids handed out by POST /:id/viewer, so sockets can't be removed
+const viewerIdSchema = z.string().regex(/^http:[0-9a-f-]{36}$/);
+
+const viewerHeartbeatSchema = z
+  .object({
+    viewerId: viewerIdSchema.optional(),
+  })
+  .default({});
+
+const viewerLeaveSchema = z.object({
+  viewerId: viewerIdSchema,
+});
+
+const chatSettingsSchema = z.object({
+  mode: z.enum(CHAT_MODES).optional(),
+  slowModeSeconds: z.number().int().min(0).max(MAX_SLOW_MODE_SECONDS).optional(),
+  blockLinks: z.boolean().optional(),
+  blockedTerms: z.array(z.string().max(MAX_BLOCKED_TERM_LENGTH)).max(MAX_BLOCKED_TERMS).optional(),
+});
+
+const chatBanSchema = z.object({
+  userId: z.string().uuid(),
+  duration: z.number().int().min(1).max(MAX_TIMEOUT_SECONDS).optional(), // seconds; omit to ban
+  reason: z.string().max(500).optional(),
+});
+
+const createPollSchema = z.object({
+  question: z.string().trim().min(1).max(MAX_POLL_QUESTION_LENGTH),
+  options: z.array(z.string().trim().min(1).max(MAX_POLL_OPTION_LENGTH)).min(MIN_POLL_OPTIONS).max(MAX_POLL_OPTIONS),
+});
+
+const pollVoteSchema = z.object({
+  optionId: z.string().uuid(),
+});
+
+const questionSchema = z.object({
+  question: z.string().trim().min(1).max(MAX_QUESTION_LENGTH),
+});
+
+const questionListSchema = z.object({
+  answered: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(100),
+});
+
+const healthQuerySchema = z.object({
+  minutes: z.coerce.number().int().min(1).max(MAX_HEALTH_WINDOW_MINUTES).default(30),
+});
+
+const raidSchema = z.object({
+  targetStreamId: z.string().uuid(),
+});
+
+const raidListSchema = z.object({
+  direction: z.enum(['received', 'sent']).default('received'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const raidSettingsSchema = z.object({
+  acceptRaidsFrom: z.enum(RAID_POLICIES),
+});
+
+const ticketCheckoutSchema = z.object({
+  provider: z.enum(TICKET_PROVIDERS).default('razorpay'),
 });
 
+const ticketConfirmSchema = z.union([
+  z.object({
+    orderId: z.string().min(1),
+    paymentId: z.string().min(1),
+    signature: z.string().min(1),
+  }),
+  z.object({
+    sessionId: z.string().min(1),
+  }),
+]);
+
+const rotateStreamKeySchema = z
+  .object({
+    disconnect: z.boolean().default(false), // also drop the encoder using the old key
+  })
+  .default({});
+
 /**
  * GET /api/live
  * Get all live streams (public endpoint)
@@ -89,7 +256,7 @@ router.get(
           title: stream.title,
           description: stream.description,
           thumbnailUrl: stream.thumbnail_url,
-          playbackUrl: stream.playback_url,
+          playbackUrl: stream.is_ticketed ? null : stream.playback_url, // Ticketed: from GET /:id
           status: stream.status,
           viewerCount: stream.viewer_count,
           peakViewerCount: stream.peak_viewer_count,
@@ -98,6 +265,9 @@ router.get(
           category: stream.category,
           tags: stream.tags,
           chatEnabled: stream.chat_enabled,
+          isTicketed: stream.is_ticketed,
+          ticketPrice: stream.ticket_price,
+          ticketCurrency: stream.ticket_currency,
           creator: {
             id: stream.creator.id,
             name: stream.creator.display_name,
@@ -115,6 +285,76 @@ router.get(
   })
 );
 
+/**
+ * GET /api/live/raids
+ * Raids the creator received (or sent, with direction=sent), newest first
+ */
+router.get(
+  '/raids',
+  authenticate,
+  requireCreator,
+  userRateLimiter,
+  validateQuery(raidListSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { direction, page, limit } = req.query as unknown as {
+      direction: 'received' | 'sent';
+      page: number;
+      limit: number;
+    };
+    const { raids, total } = await listRaids(req.user!.userId, direction, { page, limit });
+
+    res.json({
+      success: true,
+      data: {
+        raids,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  })
+);
+
+/**
+ * GET /api/live/raid-settings
+ * Who may raid the creator's streams
+ */
+router.get(
+  '/raid-settings',
+  authenticate,
+  requireCreator,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: { acceptRaidsFrom: await getRaidPolicy(req.user!.userId) },
+    });
+  })
+);
+
+/**
+ * PUT /api/live/raid-settings
+ * Accept raids from everyone, only creators you follow, or nobody
+ */
+router.put(
+  '/raid-settings',
+  authenticate,
+  requireCreator,
+  userRateLimiter,
+  validateBody(raidSettingsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const acceptRaidsFrom = await setRaidPolicy(req.user!.userId, req.body.acceptRaidsFrom);
+
+    res.json({
+      success: true,
+      data: { acceptRaidsFrom },
+    });
+  })
+);
+
 /**
  * GET /api/live/:id
  * Get a specific live stream
@@ -131,6 +371,7 @@ router.get(
         creator: {
           select: {
             id: true,
+            user_id: true,
             display_name: true,
             handle: true,
             avatar: true,
@@ -144,6 +385,14 @@ router.get(
       throw new NotFoundError('Live stream not found');
     }
 
+    const isOwner = req.user?.userId === stream.creator.user_id;
+    const [rsvpCount, rsvped, canWatch, ticket] = await Promise.all([
+      isOwner ? getRsvpCount(id) : undefined,
+      req.user && !isOwner ? hasRsvped(id, req.user.userId) : undefined,
+      hasStreamAccess(stream, req.user?.userId),
+      req.user && stream.is_ticketed ? getTicket(id, req.user.userId) : null,
+    ]);
+
     res.json({
       success: true,
       data: {
@@ -151,8 +400,8 @@ router.get(
         title: stream.title,
         description: stream.description,
         thumbnailUrl: stream.thumbnail_url,
-        playbackUrl: stream.playback_url,
-        streamKey: req.user?.userId === stream.creator_id ? stream.stream_key : undefined, // Only show to creator
+        playbackUrl: canWatch ? getViewerPlaybackUrl(stream) : null, // Ticket holders only for ticketed streams
+        streamKey: isOwner ? stream.stream_key : undefined, // Only show to creator
         status: stream.status,
         viewerCount: stream.viewer_count,
         peakViewerCount: stream.peak_viewer_count,
@@ -163,7 +412,16 @@ router.get(
         tags: stream.tags,
         chatEnabled: stream.chat_enabled,
         isRecorded: stream.is_recorded,
-        recordingUrl: stream.recording_url,
+        recordingUrl: canWatch ? stream.recording_url : null,
+        recordingStatus: stream.recording_status,
+        vodContentId: canWatch ? stream.vod_content_id : null,
+        rsvpCount, // Only shown to creator
+        hasRsvped: rsvped,
+        isTicketed: stream.is_ticketed,
+        ticketPrice: stream.ticket_price,
+        ticketCurrency: stream.ticket_currency,
+        ticketStatus: ticket?.status ?? null,
+        canWatch,
         creator: {
           id: stream.creator.id,
           name: stream.creator.display_name,
@@ -196,6 +454,9 @@ router.post(
       scheduledFor,
       chatEnabled = true,
       isRecorded = true,
+      isTicketed = false,
+      ticketPrice,
+      ticketCurrency = 'INR',
     } = req.body;
 
     // Get creator
@@ -208,7 +469,7 @@ router.post(
     }
 
     // Generate unique stream key
-    const streamKey = `sk_${uuidv4().replace(/-/g, '')}`;
+    const streamKey = generateStreamKey();
 
     const stream = await prisma.liveStream.create({
       data: {
@@ -221,6 +482,9 @@ router.post(
         stream_key: streamKey,
         chat_enabled: chatEnabled,
         is_recorded: isRecorded,
+        is_ticketed: isTicketed,
+        ticket_price: isTicketed ? ticketPrice : null,
+        ticket_currency: isTicketed ? ticketCurrency : null,
         status: 'idle',
       },
       include: {
@@ -248,6 +512,9 @@ router.post(
         scheduledFor: stream.scheduled_for,
         chatEnabled: stream.chat_enabled,
         isRecorded: stream.is_recorded,
+        isTicketed: stream.is_ticketed,
+        ticketPrice: stream.ticket_price,
+        ticketCurrency: stream.ticket_currency,
         creator: {
           id: stream.creator.id,
           name: stream.creator.display_name,
@@ -308,6 +575,20 @@ router.put(
       });
     }
 
+    const ticketChanged = ['isTicketed', 'ticketPrice', 'ticketCurrency'].some((key) => updateData[key] !== undefined);
+    if (ticketChanged) {
+      const sold = await prisma.liveStreamTicket.count({
+        where: { stream_id: id, status: 'completed' },
+      });
+      if (sold > 0) {
+        throw new ValidationError('Ticket settings cannot change after tickets have been sold');
+      }
+      if ((updateData.isTicketed ?? stream.is_ticketed) && !(updateData.ticketPrice ?? stream.ticket_price)) {
+        throw new ValidationError('Ticketed streams need a ticketPrice');
+      }
+    }
+    const ticketCurrency = updateData.ticketCurrency ?? (updateData.isTicketed && !stream.ticket_currency ? 'INR' : undefined);
+
     const updated = await prisma.liveStream.update({
       where: { id },
       data: {
@@ -317,6 +598,9 @@ router.put(
         ...(updateData.tags && { tags: updateData.tags }),
         ...(updateData.chatEnabled !== undefined && { chat_enabled: updateData.chatEnabled }),
         ...(updateData.isRecorded !== undefined && { is_recorded: updateData.isRecorded }),
+        ...(updateData.isTicketed !== undefined && { is_ticketed: updateData.isTicketed }),
+        ...(updateData.ticketPrice !== undefined && { ticket_price: updateData.ticketPrice }),
+        ...(ticketCurrency !== undefined && { ticket_currency: ticketCurrency }),
       },
       include: {
         creator: {
@@ -343,6 +627,9 @@ router.put(
         tags: updated.tags,
         chatEnabled: updated.chat_enabled,
         isRecorded: updated.is_recorded,
+        isTicketed: updated.is_ticketed,
+        ticketPrice: updated.ticket_price,
+        ticketCurrency: updated.ticket_currency,
       },
     });
   })
@@ -387,6 +674,14 @@ router.post(
       throw new ValidationError('Stream is already live');
     }
 
+    if (stream.status === 'cancelled') {
+      throw new ValidationError('This stream was cancelled');
+    }
+
+    if (isIngestEnabled()) {
+      throw new ValidationError('Streams go live when your encoder starts publishing');
+    }
+
     const updated = await prisma.liveStream.update({
       where: { id },
       data: {
@@ -396,6 +691,10 @@ router.post(
       },
     });
 
+    notifyStreamLive(id).catch((error) => {
+      logger.warn('Failed to send go-live notifications', { streamId: id, error });
+    });
+
     res.json({
       success: true,
       message: 'Live stream started',
@@ -448,11 +747,15 @@ router.post(
       throw new ValidationError('Stream is not currently live');
     }
 
+    // Drop the encoder now instead of waiting out the reconnect grace period
+    if (isIngestEnabled()) {
+      await endBroadcast(id);
+    }
+    await markStreamEnded(id);
+
     const updated = await prisma.liveStream.update({
       where: { id },
       data: {
-        status: 'ended',
-        ended_at: new Date(),
         ...(recordingUrl && { recording_url: recordingUrl }),
       },
     });
@@ -465,6 +768,7 @@ router.post(
         status: updated.status,
         endedAt: updated.ended_at,
         recordingUrl: updated.recording_url,
+        recordingStatus: updated.recording_status,
       },
     });
   })
@@ -472,13 +776,17 @@ router.post(
 
 /**
  * POST /api/live/:id/viewer
- * Increment viewer count (called when user joins stream)
+ * Register a viewer that doesn't use the socket, or refresh it. Repeat every
+ * heartbeatInterval ms with the returned viewerId; viewers that stop expire.
  */
 router.post(
   '/:id/viewer',
   optionalAuth,
+  userRateLimiter,
+  validateBody(viewerHeartbeatSchema),
   asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
+    const viewerId = req.body.viewerId ?? `http:${crypto.randomUUID()}`;
 
     const stream = await prisma.liveStream.findUnique({
       where: { id },
@@ -492,21 +800,14 @@ router.post(
       throw new ValidationError('Stream is not currently live');
     }
 
-    const updated = await prisma.liveStream.update({
-      where: { id },
-      data: {
-        viewer_count: { increment: 1 },
-        peak_viewer_count: stream.viewer_count >= stream.peak_viewer_count
-          ? stream.viewer_count + 1
-          : stream.peak_viewer_count,
-      },
-    });
+    const viewerCount = await touchViewer(id, viewerId);
 
     res.json({
       success: true,
       data: {
-        viewerCount: updated.viewer_count,
-        peakViewerCount: updated.peak_viewer_count,
+        viewerId,
+        viewerCount,
+        heartbeatInterval: HEARTBEAT_INTERVAL_MS,
       },
     });
   })
@@ -514,11 +815,13 @@ router.post(
 
 /**
  * DELETE /api/live/:id/viewer
- * Decrement viewer count (called when user leaves stream)
+ * Unregister a viewer (called when user leaves stream)
  */
 router.delete(
   '/:id/viewer',
   optionalAuth,
+  userRateLimiter,
+  validateBody(viewerLeaveSchema),
   asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
 
@@ -530,22 +833,192 @@ router.delete(
       throw new NotFoundError('Live stream not found');
     }
 
-    const updated = await prisma.liveStream.update({
-      where: { id },
+    const viewerCount = await removeViewer(id, req.body.viewerId);
+
+    res.json({
+      success: true,
+      data: {
+        viewerCount,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/live/:id/rsvp
+ * RSVP to an upcoming scheduled stream (reminder before it starts)
+ */
+router.post(
+  '/:id/rsvp',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const rsvpCount = await rsvpToStream(req.params.id, req.user!.userId);
+
+    res.json({
+      success: true,
+      message: "You'll be reminded before the stream starts",
       data: {
-        viewer_count: Math.max(0, stream.viewer_count - 1),
+        rsvped: true,
+        rsvpCount,
       },
     });
+  })
+);
+
+/**
+ * DELETE /api/live/:id/rsvp
+ * Withdraw an RSVP
+ */
+router.delete(
+  '/:id/rsvp',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const rsvpCount = await cancelRsvp(req.params.id, req.user!.userId);
 
     res.json({
       success: true,
+      message: 'RSVP removed',
       data: {
-        viewerCount: updated.viewer_count,
+        rsvped: false,
+        rsvpCount,
       },
     });
   })
 );
 
+/**
+ * POST /api/live/:id/tickets
+ * Start buying a ticket for a ticketed stream (Razorpay order or Stripe Checkout)
+ */
+router.post(
+  '/:id/tickets',
+  authenticate,
+  strictRateLimiter,
+  validateBody(ticketCheckoutSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const checkout = await createTicketCheckout(req.params.id, req.user!.userId, req.body.provider);
+
+    res.status(201).json({
+      success: true,
+      data: checkout,
+      message: 'Ticket reserved. Please complete payment.',
+    });
+  })
+);
+
+/**
+ * POST /api/live/:id/tickets/confirm
+ * Confirm a ticket payment: Razorpay order, payment and signature, or the
+ * Stripe Checkout session id
+ */
+router.post(
+  '/:id/tickets/confirm',
+  authenticate,
+  strictRateLimiter,
+  validateBody(ticketConfirmSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const ticket = 'sessionId' in req.body
+      ? await confirmStripeTicket(id, userId, req.body.sessionId)
+      : await confirmRazorpayTicket(id, userId, req.body);
+
+    res.json({
+      success: true,
+      data: {
+        ticketId: ticket.id,
+        status: ticket.status,
+      },
+    });
+  })
+);
+
+/**
+ * GET /api/live/:id/tickets
+ * Ticket sales of a stream (stream owner)
+ */
+router.get(
+  '/:id/tickets',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const sales = await getTicketSales(req.params.id, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: sales,
+    });
+  })
+);
+
+/**
+ * POST /api/live/:id/cancel
+ * Cancel a stream that hasn't started (stream owner). Paid tickets are
+ * refunded; call again to retry refunds that failed.
+ */
+router.post(
+  '/:id/cancel',
+  authenticate,
+  requireCreator,
+  strictRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await cancelStream(req.params.id, req.user!.userId);
+
+    res.json({
+      success: true,
+      message: result.failed > 0
+        ? `Stream cancelled. ${result.failed} refund(s) failed; try again to retry them.`
+        : 'Stream cancelled',
+      data: result,
+    });
+  })
+);
+
+/**
+ * POST /api/live/:id/raid
+ * Send the stream's viewers to another live stream (stream owner)
+ */
+router.post(
+  '/:id/raid',
+  authenticate,
+  requireCreator,
+  strictRateLimiter,
+  validateBody(raidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const raid = await startRaid(req.params.id, req.user!.userId, req.body.targetStreamId);
+
+    res.status(201).json({
+      success: true,
+      data: raid,
+      message: `Raiding ${raid.creator.displayName} with ${raid.viewerCount} viewers`,
+    });
+  })
+);
+
+/**
+ * GET /api/live/:id/health
+ * Encoder health samples (bitrate, keyframes, dropped frames, resolution,
+ * viewers) of the last `minutes` (stream owner)
+ */
+router.get(
+  '/:id/health',
+  authenticate,
+  userRateLimiter,
+  validateQuery(healthQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { minutes } = req.query as unknown as { minutes: number };
+    const health = await getStreamHealth(req.params.id, req.user!.userId, minutes);
+
+    res.json({
+      success: true,
+      data: health,
+    });
+  })
+);
+
 /**
  * GET /api/live/:id/chat
  * Get chat messages for a live stream
@@ -571,6 +1044,7 @@ router.get(
         data: {
           messages: [],
           chatEnabled: false,
+          settings: getChatSettings(stream),
         },
       });
     }
@@ -586,6 +1060,13 @@ router.get(
             id: true,
           },
         },
+        tip: {
+          select: {
+            id: true,
+            amount: true,
+            currency: true,
+          },
+        },
       },
       orderBy: {
         timestamp: 'desc',
@@ -620,8 +1101,18 @@ router.get(
             displayName: userMap.get(msg.user_id)!.display_name,
             avatar: userMap.get(msg.user_id)!.avatar,
           } : null,
+          ...(msg.tip && {
+            tip: {
+              id: msg.tip.id,
+              amount: Number(msg.tip.amount),
+              currency: msg.tip.currency,
+              pinnedUntil: msg.pinned_until,
+            },
+          }),
         })),
+        pinned: await getPinnedMessages(id),
         chatEnabled: true,
+        settings: getChatSettings(stream),
       },
     });
   })
@@ -641,6 +1132,347 @@ router.post(
     const { id } = req.params;
     const { message } = req.body;
 
+    // Same rules as the socket: chat mode, slow mode, bans, filters
+    const chatMessage = await sendChatMessage(id, userId, message);
+
+    res.json({
+      success: true,
+      message: 'Message sent',
+      data: chatMessage,
+    });
+  })
+);
+
+/**
+ * DELETE /api/live/:id/chat/:messageId
+ * Delete a chat message (moderators, or the author). Viewers get a
+ * messages-deleted event.
+ */
+router.delete(
+  '/:id/chat/:messageId',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    await deleteChatMessage(req.params.id, req.params.messageId, req.user!.userId);
+
+    res.json({
+      success: true,
+      message: 'Message deleted',
+    });
+  })
+);
+
+/**
+ * PATCH /api/live/:id/chat/settings
+ * Chat mode, slow mode, blocked terms and link filter (moderators)
+ */
+router.patch(
+  '/:id/chat/settings',
+  authenticate,
+  userRateLimiter,
+  validateBody(chatSettingsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const settings = await updateChatSettings(req.params.id, req.user!.userId, req.body);
+
+    res.json({
+      success: true,
+      message: 'Chat settings updated',
+      data: { settings },
+    });
+  })
+);
+
+/**
+ * GET /api/live/:id/chat/moderators
+ * Moderators appointed for the stream (moderators)
+ */
+router.get(
+  '/:id/chat/moderators',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const moderators = await listChatModerators(req.params.id, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: { moderators },
+    });
+  })
+);
+
+/**
+ * PUT /api/live/:id/chat/moderators/:userId
+ * Appoint a moderator (stream owner)
+ */
+router.put(
+  '/:id/chat/moderators/:userId',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    await addChatModerator(req.params.id, req.user!.userId, req.params.userId);
+
+    res.json({
+      success: true,
+      message: 'Moderator added',
+    });
+  })
+);
+
+/**
+ * DELETE /api/live/:id/chat/moderators/:userId
+ * Remove a moderator (stream owner)
+ */
+router.delete(
+  '/:id/chat/moderators/:userId',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    await removeChatModerator(req.params.id, req.user!.userId, req.params.userId);
+
+    res.json({
+      success: true,
+      message: 'Moderator removed',
+    });
+  })
+);
+
+/**
+ * GET /api/live/:id/chat/bans
+ * Active timeouts and bans (moderators)
+ */
+router.get(
+  '/:id/chat/bans',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const bans = await listChatRestrictions(req.params.id, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: { bans },
+    });
+  })
+);
+
+/**
+ * POST /api/live/:id/chat/bans
+ * Time out (with a duration in seconds) or ban a viewer (moderators)
+ */
+router.post(
+  '/:id/chat/bans',
+  authenticate,
+  userRateLimiter,
+  validateBody(chatBanSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { userId, duration, reason } = req.body;
+
+    const ban = await restrictChatUser(req.params.id, req.user!.userId, userId, {
+      durationSeconds: duration,
+      reason,
+    });
+
+    res.json({
+      success: true,
+      message: ban.expires_at ? 'User timed out' : 'User banned',
+      data: {
+        userId: ban.user_id,
+        banned: !ban.expires_at,
+        expiresAt: ban.expires_at,
+        reason: ban.reason,
+      },
+    });
+  })
+);
+
+/**
+ * DELETE /api/live/:id/chat/bans/:userId
+ * Lift a timeout or ban (moderators)
+ */
+router.delete(
+  '/:id/chat/bans/:userId',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    await liftChatRestriction(req.params.id, req.user!.userId, req.params.userId);
+
+    res.json({
+      success: true,
+      message: 'Restriction lifted',
+    });
+  })
+);
+
+/**
+ * GET /api/live/:id/polls
+ * Polls of a stream, newest first, with the viewer's vote in each
+ */
+router.get(
+  '/:id/polls',
+  optionalAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const polls = await listPolls(req.params.id, req.user?.userId);
+
+    res.json({
+      success: true,
+      data: { polls },
+    });
+  })
+);
+
+/**
+ * POST /api/live/:id/polls
+ * Start a poll (moderators). One poll can be open at a time.
+ */
+router.post(
+  '/:id/polls',
+  authenticate,
+  userRateLimiter,
+  validateBody(createPollSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { question, options } = req.body;
+    const poll = await createPoll(req.params.id, req.user!.userId, question, options);
+
+    res.status(201).json({
+      success: true,
+      data: poll,
+    });
+  })
+);
+
+/**
+ * POST /api/live/:id/polls/:pollId/vote
+ * Vote in an open poll, once
+ */
+router.post(
+  '/:id/polls/:pollId/vote',
+  authenticate,
+  userRateLimiter,
+  validateBody(pollVoteSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const poll = await votePoll(req.params.id, req.params.pollId, req.user!.userId, req.body.optionId);
+
+    res.json({
+      success: true,
+      data: poll,
+    });
+  })
+);
+
+/**
+ * POST /api/live/:id/polls/:pollId/close
+ * Close a poll (moderators)
+ */
+router.post(
+  '/:id/polls/:pollId/close',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const poll = await closePoll(req.params.id, req.params.pollId, req.user!.userId);
+
+    res.json({
+      success: true,
+      message: 'Poll closed',
+      data: poll,
+    });
+  })
+);
+
+/**
+ * GET /api/live/:id/questions
+ * Q&A queue: unanswered first, most upvoted first
+ */
+router.get(
+  '/:id/questions',
+  optionalAuth,
+  validateQuery(questionListSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { answered, limit } = req.query as { answered?: boolean; limit: number };
+    const questions = await listQuestions(req.params.id, req.user?.userId, { answered, limit });
+
+    res.json({
+      success: true,
+      data: { questions },
+    });
+  })
+);
+
+/**
+ * POST /api/live/:id/questions
+ * Ask a question while the stream is live
+ */
+router.post(
+  '/:id/questions',
+  authenticate,
+  userRateLimiter,
+  validateBody(questionSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const question = await submitQuestion(req.params.id, req.user!.userId, req.body.question);
+
+    res.status(201).json({
+      success: true,
+      data: question,
+    });
+  })
+);
+
+/**
+ * POST /api/live/:id/questions/:questionId/upvote
+ * Upvote a question, once
+ */
+router.post(
+  '/:id/questions/:questionId/upvote',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const upvotes = await upvoteQuestion(req.params.id, req.params.questionId, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: { upvotes },
+    });
+  })
+);
+
+/**
+ * POST /api/live/:id/questions/:questionId/answered
+ * Mark a question answered (moderators)
+ */
+router.post(
+  '/:id/questions/:questionId/answered',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const question = await markQuestionAnswered(req.params.id, req.params.questionId, req.user!.userId);
+
+    res.json({
+      success: true,
+      message: 'Question marked as answered',
+      data: question,
+    });
+  })
+);
+
+/**
+ * GET /api/live/:id/ingest
+ * Encoder settings for a stream (creator only)
+ */
+router.get(
+  '/:id/ingest',
+  authenticate,
+  requireCreator,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    // Get creator
+    const creator = await prisma.creator.findFirst({
+      where: { user_id: userId },
+    });
+
+    if (!creator) {
+      throw new NotFoundError('Creator profile not found');
+    }
+
     const stream = await prisma.liveStream.findUnique({
       where: { id },
     });
@@ -649,53 +1481,73 @@ router.post(
       throw new NotFoundError('Live stream not found');
     }
 
-    if (stream.status !== 'live') {
-      throw new ValidationError('Stream is not currently live');
-    }
-
-    if (!stream.chat_enabled) {
-      throw new ValidationError('Chat is disabled for this stream');
+    if (stream.creator_id !== creator.id) {
+      throw new ForbiddenError('You do not have permission to view this stream');
     }
 
-    const chatMessage = await prisma.liveChatMessage.create({
+    res.json({
+      success: true,
       data: {
-        stream_id: id,
-        user_id: userId,
-        message: message.trim(),
-      },
-      include: {
-        stream: {
-          select: {
-            id: true,
-          },
-        },
+        enabled: isIngestEnabled(),
+        rtmpUrl: isIngestEnabled() ? getIngestUrl() : null,
+        streamKey: stream.stream_key,
+        publishing: isPublishing(id),
+        status: stream.status,
+        playbackUrl: stream.playback_url,
       },
     });
+  })
+);
 
-    // Get user info
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        id: true,
-        username: true,
-        display_name: true,
-        avatar: true,
-      },
+/**
+ * POST /api/live/:id/stream-key
+ * Regenerate a stream's key (creator only)
+ */
+router.post(
+  '/:id/stream-key',
+  authenticate,
+  requireCreator,
+  strictRateLimiter,
+  validateBody(rotateStreamKeySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { disconnect } = req.body;
+
+    // Get creator
+    const creator = await prisma.creator.findFirst({
+      where: { user_id: userId },
+    });
+
+    if (!creator) {
+      throw new NotFoundError('Creator profile not found');
+    }
+
+    const stream = await prisma.liveStream.findUnique({
+      where: { id },
     });
 
+    if (!stream) {
+      throw new NotFoundError('Live stream not found');
+    }
+
+    if (stream.creator_id !== creator.id) {
+      throw new ForbiddenError('You do not have permission to update this stream');
+    }
+
+    if (stream.status === 'ended') {
+      throw new ValidationError('Stream has already ended');
+    }
+
+    const streamKey = await rotateStreamKey(id);
+    const disconnected = disconnect && isIngestEnabled() ? disconnectPublisher(id) : false;
+
     res.json({
       success: true,
-      message: 'Message sent',
+      message: 'Stream key regenerated',
       data: {
-        id: chatMessage.id,
-        message: chatMessage.message,
-        timestamp: chatMessage.timestamp,
-        user: user ? {
-          id: user.id,
-          username: user.username,
-          displayName: user.display_name,
-          avatar: user.avatar,
-        } : null,
+        streamKey,
+        disconnected,
       },
     });
   })
@@ -739,9 +1591,24 @@ router.delete(
       throw new ValidationError('Cannot delete a live stream. Please end it first.');
     }
 
+    if (stream.recording_status === 'processing') {
+      throw new ValidationError('The recording is being converted to a video. Please try again later.');
+    }
+
+    if (stream.status !== 'ended') {
+      const sold = await prisma.liveStreamTicket.count({
+        where: { stream_id: id, status: 'completed' },
+      });
+      if (sold > 0) {
+        throw new ValidationError('Tickets have been sold for this stream. Cancel it to refund them first.');
+      }
+    }
+
     await prisma.liveStream.delete({
       where: { id },
     });
+    await removeLiveOutput(id);
+    await removeRecording(id);
 
     res.json({
       success: true,
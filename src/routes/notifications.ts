@@ -234,6 +234,7 @@ router.put(
           tips: true,
           milestones: true,
           system: true,
+          liveStreams: true,
         },
         push: push || {
           newUpload: true,
@@ -242,6 +243,7 @@ router.put(
           tips: true,
           milestones: true,
           system: true,
+          liveStreams: true,
         },
         inApp: inApp || {
           newUpload: true,
@@ -250,6 +252,7 @@ router.put(
           tips: true,
           milestones: true,
           system: true,
+          liveStreams: true,
         },
         frequency: frequency || 'instant',
         unsubscribedAll: unsubscribedAll || false,
@@ -0,0 +1,178 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, optionalAuth } from '../middleware/auth';
+import { userRateLimiter } from '../middleware/rateLimit';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { getPlaybackFile } from '../lib/playback/playbackService';
+import {
+  startWatchSession,
+  recordHeartbeat,
+  recordPlaybackEvent,
+  getWatchProgress,
+  clearWatchProgress,
+} from '../lib/playback/watchSessionService';
+import { trackEvent } from '../lib/analytics/tracker';
+
+const router = Router();
+
+const startSessionSchema = z.object({
+  contentId: z.string().uuid(),
+});
+
+const heartbeatSchema = z.object({
+  position: z.number().min(0),
+  playing: z.boolean().optional(),
+});
+
+const playbackEventSchema = z.object({
+  type: z.enum(['play', 'pause', 'seek', 'end']),
+  position: z.number().min(0),
+  from: z.number().min(0).optional(),
+});
+
+const progressQuerySchema = z.object({
+  contentIds: z
+    .string()
+    .transform((value) => value.split(',').filter(Boolean))
+    .pipe(z.array(z.string().uuid()).min(1).max(100)),
+});
+
+/**
+ * Record the `video_watch` funnel steps a session just reached
+ */
+async function trackMilestones(req: Request, contentId: string, sessionId: string, milestones: string[]) {
+  await Promise.all(
+    milestones.map((step) => trackEvent(req, step, { contentId, watchSessionId: sessionId }, req.user?.userId))
+  );
+}
+
+/**
+ * POST /api/playback/sessions
+ * Start a playback session; returns the resume position and heartbeat interval
+ */
+router.post(
+  '/sessions',
+  optionalAuth,
+  userRateLimiter,
+  validateBody(startSessionSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const session = await startWatchSession(req.body.contentId, {
+      userId: req.user?.userId,
+      analyticsSessionId: req.cookies?.sessionId || (req.headers['x-session-id'] as string | undefined),
+      ipAddress: req.ip || undefined,
+      userAgent: req.get('user-agent') || undefined,
+    });
+
+    await trackMilestones(req, session.contentId, session.sessionId, session.milestones);
+
+    res.status(201).json({
+      success: true,
+      data: session,
+    });
+  })
+);
+
+/**
+ * POST /api/playback/sessions/:id/heartbeat
+ * Periodic position report ({ position, playing? })
+ */
+router.post(
+  '/sessions/:id/heartbeat',
+  optionalAuth,
+  userRateLimiter,
+  validateBody(heartbeatSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { contentId, ...update } = await recordHeartbeat(req.params.id, req.user?.userId, req.body);
+    await trackMilestones(req, contentId, update.sessionId, update.milestones);
+
+    res.json({
+      success: true,
+      data: update,
+    });
+  })
+);
+
+/**
+ * POST /api/playback/sessions/:id/events
+ * Player events: play, pause, seek ({ from } = position before the jump) and end
+ */
+router.post(
+  '/sessions/:id/events',
+  optionalAuth,
+  userRateLimiter,
+  validateBody(playbackEventSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { contentId, ...update } = await recordPlaybackEvent(req.params.id, req.user?.userId, req.body);
+    await trackMilestones(req, contentId, update.sessionId, update.milestones);
+
+    res.json({
+      success: true,
+      data: update,
+    });
+  })
+);
+
+/**
+ * GET /api/playback/progress?contentIds=a,b
+ * Resume positions and "watched" markers, keyed by content id
+ */
+router.get(
+  '/progress',
+  authenticate,
+  userRateLimiter,
+  validateQuery(progressQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const progress = await getWatchProgress(req.user!.userId, req.query.contentIds as unknown as string[]);
+
+    res.json({
+      success: true,
+      data: { progress },
+    });
+  })
+);
+
+/**
+ * DELETE /api/playback/progress/:contentId
+ * Clear progress (mark as unwatched)
+ */
+router.delete(
+  '/progress/:contentId',
+  authenticate,
+  userRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    await clearWatchProgress(req.user!.userId, req.params.contentId);
+
+    res.json({
+      success: true,
+      message: 'Watch progress cleared',
+    });
+  })
+);
+
+/**
+ * GET /api/playback/:token/:file
+ * Serve a file from a content's HLS/DASH package for a playback token
+ * (issued by GET /api/content/:id/playback). Manifests are filtered to the
+ * viewer's allowed renditions with signed segment URLs; segments redirect
+ * to a signed storage URL. Relative URIs inside manifests resolve back here.
+ */
+router.get(
+  '/:token/:file',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await getPlaybackFile(req.params.token, req.params.file);
+    const maxAge = Math.max(0, result.expiresAt - Math.floor(Date.now() / 1000));
+
+    if (result.type === 'redirect') {
+      res.setHeader('Cache-Control', `private, max-age=${Math.min(maxAge, 300)}`);
+      return res.redirect(302, result.url);
+    }
+
+    res.setHeader('Content-Type', result.contentType);
+    // Manifests embed signed URLs, so they must not be shared between viewers
+    res.setHeader('Cache-Control', `private, max-age=${Math.min(maxAge, 60)}`);
+    res.send(result.body);
+  })
+);
+
+export default router;
@@ -5,6 +5,7 @@ import { userRateLimiter } from '../middleware/rateLimit';
 import { NotFoundError, UnauthorizedError } from '../lib/errors';
 import { getCachedTrendingContent, invalidateHomepageCache } from '../lib/cache/contentCache';
 import { asyncHandler } from '../middleware/asyncHandler';
+import { getResumePosition } from '../lib/playback/watchProgress';
 import {
   getRecommendations,
   balanceRecommendations,
@@ -587,7 +588,7 @@ router.get(
 
 /**
  * GET /api/recommendations/continue-watching
- * Get content from watch history with completion rate < 0.9
+ * Get videos the user started but hasn't finished, with their resume position
  */
 router.get(
   '/continue-watching',
@@ -605,11 +606,13 @@ router.get(
 
     const limit = parseInt(req.query.limit as string) || 20;
 
-    // Get incomplete views (where duration is less than 90% of content duration)
-    // First get user's views with full content information
-    const userViews = await prisma.view.findMany({
+    // Unfinished videos, from the positions reported by playback sessions
+    const inProgress = await prisma.watchProgress.findMany({
       where: {
         userId,
+        completed: false,
+        position: { gt: 0 },
+        content: { deletedAt: null, status: 'PUBLISHED' },
       },
       include: {
         content: {
@@ -637,29 +640,15 @@ router.get(
         },
       },
       orderBy: {
-        watchedAt: 'desc',
+        updatedAt: 'desc',
       },
+      take: limit,
     });
 
-    // Filter views where watched duration < 90% of content duration
-    const incompleteViews = userViews.filter(view => {
-      if (!view.duration || !view.content.duration) return false;
-      const completionRate = view.duration / view.content.duration;
-      return completionRate < 0.9;
-    });
-
-    // Get unique content IDs (distinct by contentId)
-    const seenContentIds = new Set<string>();
-    const uniqueIncompleteViews = incompleteViews.filter(view => {
-      if (seenContentIds.has(view.contentId)) return false;
-      seenContentIds.add(view.contentId);
-      return true;
-    }).slice(0, limit);
-
     // Transform to Content type
-    const transformedResults = uniqueIncompleteViews.map(item => {
-      const completionRate = item.duration && item.content.duration 
-        ? item.duration / item.content.duration 
+    const transformedResults = inProgress.map(item => {
+      const completionRate = item.duration
+        ? Math.min(1, item.position / item.duration)
         : 0;
       return {
       id: item.content.id,
@@ -687,6 +676,7 @@ router.get(
       category: item.content.categories[0]?.category.name || 'Uncategorized',
       isPremium: item.content.isPremium,
       completionRate, // Include completion rate
+      resumePosition: getResumePosition(item.position, item.duration),
       };
     });
 
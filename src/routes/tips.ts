@@ -11,6 +11,7 @@ import {
   createPaymentOrder,
   verifyPaymentSignature,
 } from '../lib/razorpay';
+import { checkTipMessage, publishTipMessage } from '../lib/live/chatTips';
 import { env } from '../config/env';
 
 const router = Router();
@@ -26,7 +27,7 @@ router.post(
   validateBody(createTipSchema),
   async (req: Request, res: Response) => {
     const userId = req.user!.userId;
-    const { toCreatorId, amount, currency, message, isAnonymous } = req.body;
+    const { toCreatorId, amount, currency, message, isAnonymous, streamId } = req.body;
 
     // Verify creator exists
     const creator = await prisma.creator.findUnique({
@@ -43,6 +44,9 @@ router.post(
       throw new ValidationError('You cannot tip yourself');
     }
 
+    // Tipped chat messages have to pass the chat rules before payment
+    const chatMessage = streamId ? await checkTipMessage(streamId, toCreatorId, userId, message) : null;
+
     // Create tip with pending status first
     const tip = await prisma.tip.create({
       data: {
@@ -50,9 +54,10 @@ router.post(
         to_creator_id: toCreatorId,
         amount: amount,
         currency: currency || 'INR', // Use INR for Razorpay
-        message: message || null,
+        message: chatMessage ?? (message || null),
         is_anonymous: isAnonymous || false,
         status: 'pending',
+        stream_id: streamId || null,
       },
       include: {
         fromUser: {
@@ -191,6 +196,12 @@ router.get(
               avatar: true,
             },
           },
+          stream: {
+            select: {
+              id: true,
+              title: true,
+            },
+          },
         },
         orderBy: {
           createdAt: 'desc',
@@ -456,6 +467,15 @@ router.post(
         console.error('Failed to create notification:', error);
       }
 
+      // Post the attached chat message, highlighted and pinned
+      if (tip.stream_id) {
+        try {
+          await publishTipMessage(tip.id);
+        } catch (error) {
+          console.error('Failed to post tipped chat message:', error);
+        }
+      }
+
       res.json({
         success: true,
         data: updatedTip,
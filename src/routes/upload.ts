@@ -9,18 +9,26 @@ import { ValidationError, NotFoundError } from '../lib/errors';
 import { z } from 'zod';
 import { validateBody } from '../middleware/validation';
 import { processThumbnailFromBuffer, generateVideoThumbnail } from '../lib/imageProcessing';
-import { autoFlagContent } from '../lib/moderation/autoModeration';
-import { invalidateSearchCache, invalidateHomepageCache } from '../lib/cache/contentCache';
-import { s3Storage } from '../lib/storage/s3Storage';
-import { videoStorage } from '../lib/storage/videoStorage';
-import { trackUploadActivity } from '../lib/social/activityFeedService';
+import { storage } from '../lib/storage/storageService';
 import {
-  queueVideoTranscoding,
-  queueThumbnailGeneration,
-  queueNotification,
-} from '../lib/queues/queueManager';
+  createUploadSession,
+  getUploadSession,
+  appendUploadChunk,
+  beginFinalizeUploadSession,
+  completeUploadSession,
+  failFinalizeUploadSession,
+  abortUploadSession,
+  formatUploadSession,
+  MAX_UPLOAD_SIZE,
+} from '../lib/upload/resumableUploadService';
+import { getProcessingState, retryProcessing } from '../lib/video/processingService';
+import { replaceMedia, listRevisions, rollbackMedia } from '../lib/video/revisionService';
+import type { DuplicateMatch } from '../lib/moderation/duplicateService';
+import { withContentHash } from '../lib/upload/fingerprint';
+import { createUploadedContent, checkForDuplicates } from '../lib/upload/contentCreation';
 import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
+import type { Readable } from 'stream';
 
 // Extend Express Request type to include Multer file fields
 declare global {
@@ -78,11 +86,28 @@ const createContentSchema = z.object({
   categories: z.array(z.string()).optional(),
 });
 
-/**
- * POST /api/upload/content
- * Upload content with thumbnail and media file
- * Generates blur placeholder for thumbnail automatically
- */
+const createUploadSessionSchema = createContentSchema.extend({
+  filename: z.string().min(1).max(255),
+  mimeType: z.string().regex(/^(image|video)\//, 'Only images and videos are allowed'),
+  size: z.number().int().positive().max(MAX_UPLOAD_SIZE),
+});
+
+const replaceMediaSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+const rollbackSchema = z.object({
+  version: z.number().int().min(0).optional(),
+});
+
+
+interface MediaSource {
+  body: Buffer | Readable;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
 // Helper function to add timeout to promises
 function withTimeout<T>(promise: Promise<T>, timeoutMs: number, errorMessage: string): Promise<T> {
   return Promise.race([
@@ -93,6 +118,98 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number, errorMessage: st
   ]);
 }
 
+/**
+ * Storage timeout for a file, assuming at least ~1MB/s throughput
+ */
+function storageTimeoutFor(size: number, minimumMs: number): number {
+  return Math.max(minimumMs, Math.ceil(size / (1024 * 1024)) * 1000);
+}
+
+/**
+ * Upload a media file to storage and return its playback URL along with the
+ * file's SHA-256 (hashed while streaming, for duplicate detection)
+ */
+async function storeMediaFile(media: MediaSource): Promise<{ url: string; sha256: string }> {
+  const isVideo = media.mimetype.startsWith('video/');
+  const hashed = withContentHash(media.body);
+
+  try {
+    if (isVideo) {
+      console.log('📹 Processing video upload...');
+      // Videos only go to temporary storage here; the processing worker
+      // transcodes them or hands them to Cloudflare Stream/Mux. The URL is
+      // kept as the content's source for re-processing.
+      console.log('⏳ Uploading video to temporary storage...');
+      const tempVideoResult = await withTimeout(
+        storage.uploadVideo(
+          hashed.body,
+          media.originalname,
+          'temp-videos',
+          media.size
+        ),
+        storageTimeoutFor(media.size, 300000), // at least 5 minutes
+        'Video upload to storage timed out'
+      );
+      const tempVideoUrl = tempVideoResult.cdnUrl || tempVideoResult.url;
+      console.log('✅ Video uploaded to temp storage:', tempVideoUrl);
+      return { url: tempVideoUrl, sha256: hashed.digest() };
+    }
+
+    console.log('🖼️ Processing image upload...');
+    // Upload image to S3/R2 using uploadFile (not uploadImage) for content folder
+    const imageResult = await withTimeout(
+      storage.uploadFile(
+        hashed.body,
+        media.originalname,
+        'content',
+        { contentLength: media.size, acl: 'public-read' } // Served by its stored URL
+      ),
+      storageTimeoutFor(media.size, 120000), // at least 2 minutes
+      'Image upload to storage timed out'
+    );
+    const imageUrl = imageResult.cdnUrl || imageResult.url;
+    console.log('✅ Image uploaded:', imageUrl);
+    return { url: imageUrl, sha256: hashed.digest() };
+  } catch (error: any) {
+    console.error('❌ Storage upload error:', error);
+    throw new ValidationError(
+      `Failed to upload media file: ${error.message || 'Storage service error. Please check your storage configuration.'}`
+    );
+  }
+}
+
+/**
+ * Upload response message, warning about duplicates
+ */
+function uploadMessage(duplicates: DuplicateMatch[]): string {
+  if (duplicates.length === 0) {
+    return 'Content uploaded successfully';
+  }
+  return duplicates.some((duplicate) => duplicate.content)
+    ? 'Content uploaded, but it is identical to content you have already uploaded'
+    : 'Content uploaded, but it is identical to existing content and has been sent for review';
+}
+
+/**
+ * Get the creator profile for the authenticated user
+ */
+async function getCreatorForUser(userId: string) {
+  const creator = await prisma.creator.findFirst({
+    where: { user_id: userId },
+  });
+
+  if (!creator) {
+    throw new NotFoundError('Creator profile not found');
+  }
+
+  return creator;
+}
+
+/**
+ * POST /api/upload/content
+ * Upload content with thumbnail and media file
+ * Generates blur placeholder for thumbnail automatically
+ */
 router.post(
   '/content',
   authenticate,
@@ -138,30 +255,9 @@ router.post(
     
     // Validate parsed body
     const validatedData = createContentSchema.parse(parsedBody);
-    
-    const {
-      title,
-      description,
-      type,
-      isPublic,
-      isNSFW,
-      ageRestricted,
-      allowComments,
-      allowDownloads,
-      isPremium,
-      price,
-      tags,
-      categories,
-    } = validatedData;
 
     // Get creator
-    const creator = await prisma.creator.findFirst({
-      where: { user_id: userId },
-    });
-
-    if (!creator) {
-      throw new NotFoundError('Creator profile not found');
-    }
+    const creator = await getCreatorForUser(userId);
 
     // Validate files
     if (!files.media || files.media.length === 0) {
@@ -172,69 +268,14 @@ router.post(
     const thumbnailFile = files.thumbnail?.[0];
 
     // Upload media file to storage
-    let mediaUrl: string;
-    let thumbnailUrl: string | null = null;
-    let thumbnailBlur: string | null = null;
-    const isVideo = mediaFile.mimetype.startsWith('video/');
+    const storedMedia = await storeMediaFile({
+      body: mediaFile.buffer,
+      originalname: mediaFile.originalname,
+      mimetype: mediaFile.mimetype,
+      size: mediaFile.size,
+    });
 
-    try {
-      if (isVideo) {
-        console.log('📹 Processing video upload...');
-        // For videos, first upload to R2 as temporary storage, then to Mux/Cloudflare Stream
-        // Mux requires a URL, not a direct buffer upload
-        console.log('⏳ Uploading video to temporary storage...');
-        const tempVideoResult = await withTimeout(
-          s3Storage.uploadVideo(
-            mediaFile.buffer,
-            mediaFile.originalname,
-            'temp-videos'
-          ),
-          300000, // 5 minutes timeout
-          'Video upload to storage timed out after 5 minutes'
-        );
-        const tempVideoUrl = tempVideoResult.cdnUrl || tempVideoResult.url;
-        console.log('✅ Video uploaded to temp storage:', tempVideoUrl);
-        
-        // Upload video to video storage service (Cloudflare Stream/Mux)
-        // If video storage is not configured, use the temp URL directly
-        try {
-          console.log('⏳ Uploading video to video storage service...');
-          const videoResult = await withTimeout(
-            videoStorage.uploadVideo(tempVideoUrl, {
-              title,
-              description: description || undefined,
-            }),
-            300000, // 5 minutes timeout
-            'Video upload to video storage service timed out after 5 minutes'
-          );
-          mediaUrl = videoResult.url;
-          console.log('✅ Video uploaded to video storage:', mediaUrl);
-        } catch (videoError: any) {
-          console.warn('⚠️ Video storage service not available, using temp URL:', videoError.message);
-          // Use temp URL as final URL if video storage fails
-          mediaUrl = tempVideoUrl;
-        }
-      } else {
-        console.log('🖼️ Processing image upload...');
-        // Upload image to S3/R2 using uploadFile (not uploadImage) for content folder
-        const imageResult = await withTimeout(
-          s3Storage.uploadFile(
-            mediaFile.buffer,
-            mediaFile.originalname,
-            'content'
-          ),
-          120000, // 2 minutes timeout
-          'Image upload to storage timed out after 2 minutes'
-        );
-        mediaUrl = imageResult.cdnUrl || imageResult.url;
-        console.log('✅ Image uploaded:', mediaUrl);
-      }
-    } catch (error: any) {
-      console.error('❌ Storage upload error:', error);
-      throw new ValidationError(
-        `Failed to upload media file: ${error.message || 'Storage service error. Please check your storage configuration.'}`
-      );
-    }
+    let thumbnailUrl: string | null = null;
 
     // Process thumbnail if provided (upload only, blur processing in background)
     if (thumbnailFile) {
@@ -242,7 +283,7 @@ router.post(
         console.log('⏳ Uploading thumbnail...');
         // Upload thumbnail to S3/R2 (fast, don't wait for blur)
         const thumbnailResult = await withTimeout(
-          s3Storage.uploadImage(
+          storage.uploadImage(
             thumbnailFile.buffer,
             thumbnailFile.originalname,
             'thumbnails'
@@ -258,66 +299,15 @@ router.post(
       }
     }
 
-    // Map lowercase type to uppercase enum value
-    const contentTypeMap: Record<string, 'VIDEO' | 'LIVE_STREAM' | 'VR'> = {
-      video: 'VIDEO',
-      live: 'LIVE_STREAM',
-      vr: 'VR',
-    };
-    const contentType = contentTypeMap[type] || 'VIDEO';
-
-    // Create content (thumbnailBlur will be added in background if needed)
-    const content = await prisma.content.create({
-      data: {
-        creatorId: creator.id,
-        title,
-        description,
-        type: contentType,
-        status: isVideo ? 'PENDING_REVIEW' : 'PUBLISHED', // Videos need processing
-        thumbnail: thumbnailUrl,
-        thumbnailBlur: null, // Will be set in background if thumbnail provided
-        mediaUrl,
-        mediaType: mediaFile.mimetype,
-        fileSize: BigInt(mediaFile.size),
-        isPublic,
-        isNSFW,
-        ageRestricted,
-        allowComments,
-        allowDownloads,
-        isPremium,
-        price: price ? parseFloat(price.toString()) : null,
-        publishedAt: new Date(),
-      },
+    const { content, duplicates } = await createUploadedContent({
+      userId,
+      creator,
+      metadata: validatedData,
+      media: { ...storedMedia, mimetype: mediaFile.mimetype, size: mediaFile.size },
+      thumbnailUrl,
+      hasThumbnail: !!thumbnailFile,
     });
 
-    // Send email notifications to followers if content is published
-    if (content.status === 'PUBLISHED') {
-      import('../lib/email/sendNewUploadEmail').then(({ sendNewUploadEmail }) => {
-        sendNewUploadEmail(
-          {
-            id: content.id,
-            title: content.title,
-            description: content.description || undefined,
-            thumbnail: content.thumbnail || undefined,
-            creatorId: creator.id,
-          },
-          {
-            id: creator.id,
-            display_name: creator.display_name,
-            handle: creator.handle || undefined,
-            avatar: creator.avatar || undefined,
-          }
-        ).catch((error) => {
-          console.error('Failed to send new upload emails:', error);
-        });
-      });
-
-      // Track upload activity for followers
-      trackUploadActivity(content.id, creator.id).catch((error) => {
-        console.error('Failed to track upload activity:', error);
-      });
-    }
-
     // Generate thumbnail blur in background (don't block response)
     if (thumbnailFile) {
       processThumbnailFromBuffer(content.id, thumbnailFile.buffer)
@@ -330,105 +320,15 @@ router.post(
         .catch(err => console.error('Failed to generate thumbnail blur:', err));
     }
 
-    // Process tags and categories in parallel (much faster)
-    const tagPromises = tags && Array.isArray(tags) ? tags.map(async (tagName) => {
-      // Generate slug from tag name
-      const tagSlug = tagName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
-      const tag = await prisma.tag.upsert({
-        where: { name: tagName },
-        update: {},
-        create: { 
-          name: tagName,
-          slug: tagSlug,
-        },
-      });
-      return prisma.contentTag.create({
-        data: {
-          contentId: content.id,
-          tagId: tag.id,
-        },
-      });
-    }) : [];
-
-    const categoryPromises = categories && Array.isArray(categories) ? categories.map(async (categoryName) => {
-      // Generate slug from category name
-      const categorySlug = categoryName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
-      const category = await prisma.category.upsert({
-        where: { slug: categorySlug },
-        update: {},
-        create: {
-          name: categoryName,
-          slug: categorySlug,
-        },
-      });
-      return prisma.contentCategory.create({
-        data: {
-          contentId: content.id,
-          categoryId: category.id,
-        },
-      });
-    }) : [];
-
-    // Wait for tags and categories in parallel
-    await Promise.all([...tagPromises, ...categoryPromises]);
-
-    // Queue all background jobs asynchronously (don't wait)
-    Promise.all([
-      // Queue video transcoding job if video
-      isVideo ? queueVideoTranscoding({
-        contentId: content.id,
-        videoUrl: mediaUrl,
-        qualities: ['720p', '1080p', '4K'],
-      }) : Promise.resolve(),
-      
-      // Queue thumbnail generation if not provided
-      (isVideo && !thumbnailFile) ? queueThumbnailGeneration({
-        contentId: content.id,
-        videoUrl: mediaUrl,
-        timestamp: 0,
-      }) : Promise.resolve(),
-      
-      // Auto-moderation in background (don't block response)
-      Promise.resolve(autoFlagContent(content.id, creator.id)).catch(err => console.error('Auto-moderation error:', err)),
-      
-      // Broadcast new upload to admin dashboard
-      Promise.resolve().then(() => {
-        try {
-          const { broadcastNewUpload } = require('../lib/websocket/adminBroadcast');
-          broadcastNewUpload(content.id, {
-            id: content.id,
-            title: content.title,
-            creatorId: creator.id,
-            type: content.type,
-            status: content.status,
-          });
-        } catch (error) {
-          console.error('Error broadcasting new upload:', error);
-        }
-      }),
-      
-      // Send notification in background
-      queueNotification({
-        userId: userId,
-        type: 'CONTENT_UPLOADED',
-        title: 'Content Uploaded Successfully',
-        message: `Your content "${title}" has been uploaded and is ${content.status === 'PUBLISHED' ? 'live' : 'being processed'}.`,
-        link: `/content/${content.id}`,
-        metadata: { contentId: content.id },
-      }).catch(err => console.error('Notification error:', err)),
-      
-      // Invalidate caches in background
-      invalidateSearchCache().catch(err => console.error('Cache invalidation error:', err)),
-      invalidateHomepageCache().catch(err => console.error('Cache invalidation error:', err)),
-    ]).catch(err => console.error('Background job error:', err));
 
     res.json({
       success: true,
-      message: 'Content uploaded successfully',
+      message: uploadMessage(duplicates),
       data: {
         content: {
           ...content,
         },
+        duplicates,
       },
     });
   })
@@ -471,7 +371,7 @@ router.post(
     }
 
     // Upload thumbnail to S3/R2
-    const thumbnailResult = await s3Storage.uploadImage(
+    const thumbnailResult = await storage.uploadImage(
       file.buffer,
       file.originalname,
       'thumbnails'
@@ -504,5 +404,321 @@ router.post(
   })
 );
 
-export default router;
+/**
+ * Set tus-style progress headers for an upload session
+ */
+function setUploadHeaders(res: Response, session: { id: string; offset: bigint; totalSize: bigint }) {
+  res.setHeader('Upload-Offset', session.offset.toString());
+  res.setHeader('Upload-Length', session.totalSize.toString());
+  res.setHeader('Cache-Control', 'no-store');
+}
 
+/**
+ * POST /api/upload/sessions
+ * Start a resumable upload. Body carries the content metadata plus the
+ * file name, MIME type and total size; chunks are then sent with PATCH.
+ */
+router.post(
+  '/sessions',
+  authenticate,
+  requireCreator,
+  userRateLimiter,
+  csrfProtect,
+  validateBody(createUploadSessionSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.userId;
+    const { filename, mimeType, size, ...metadata } = req.body as z.infer<typeof createUploadSessionSchema>;
+
+    const creator = await getCreatorForUser(userId);
+
+    const session = await createUploadSession(userId, {
+      creatorId: creator.id,
+      filename,
+      mimeType,
+      size,
+      metadata,
+    });
+
+    setUploadHeaders(res, session);
+    res.setHeader('Location', `/api/upload/sessions/${session.id}`);
+    res.status(201).json({
+      success: true,
+      data: { session: formatUploadSession(session) },
+    });
+  })
+);
+
+/**
+ * HEAD /api/upload/sessions/:id
+ * Query the committed offset so a client can resume
+ */
+router.head(
+  '/sessions/:id',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const session = await getUploadSession(req.params.id, req.user!.userId);
+
+    setUploadHeaders(res, session);
+    res.status(200).end();
+  })
+);
+
+/**
+ * GET /api/upload/sessions/:id
+ * Get upload session details
+ */
+router.get(
+  '/sessions/:id',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const session = await getUploadSession(req.params.id, req.user!.userId);
+
+    setUploadHeaders(res, session);
+    res.json({
+      success: true,
+      data: { session: formatUploadSession(session) },
+    });
+  })
+);
+
+/**
+ * PATCH /api/upload/sessions/:id
+ * Append a chunk. Requires `Content-Type: application/offset+octet-stream`
+ * and an `Upload-Offset` header matching the committed offset.
+ */
+router.patch(
+  '/sessions/:id',
+  authenticate,
+  requireCreator,
+  csrfProtect,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.is('application/offset+octet-stream')) {
+      throw new ValidationError('Content-Type must be application/offset+octet-stream');
+    }
+
+    const offsetHeader = req.get('Upload-Offset');
+    const offset = offsetHeader !== undefined ? Number(offsetHeader) : NaN;
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+      throw new ValidationError('A valid Upload-Offset header is required');
+    }
+
+    const session = await appendUploadChunk(req.params.id, req.user!.userId, offset, req);
+
+    setUploadHeaders(res, session);
+    res.status(204).end();
+  })
+);
+
+/**
+ * POST /api/upload/sessions/:id/complete
+ * Finalize a fully uploaded session: move the staged file to storage,
+ * create the Content row and queue processing
+ */
+router.post(
+  '/sessions/:id/complete',
+  authenticate,
+  requireCreator,
+  userRateLimiter,
+  csrfProtect,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.userId;
+    const { session, openStream } = await beginFinalizeUploadSession(req.params.id, userId);
+    let contentId: string | null = null;
+
+    try {
+      const metadata = createContentSchema.parse(session.metadata);
+      const creator = await getCreatorForUser(userId);
+      const size = Number(session.totalSize);
+
+      const storedMedia = await storeMediaFile({
+        body: openStream(),
+        originalname: session.filename,
+        mimetype: session.mimeType,
+        size,
+      });
+
+      const { content, duplicates } = await createUploadedContent({
+        userId,
+        creator,
+        metadata,
+        media: { ...storedMedia, mimetype: session.mimeType, size },
+        thumbnailUrl: null,
+        hasThumbnail: false,
+      });
+      contentId = content.id;
+
+      const completed = await completeUploadSession(session.id, content.id);
+
+      res.json({
+        success: true,
+        message: uploadMessage(duplicates),
+        data: {
+          session: formatUploadSession(completed),
+          content: {
+            ...content,
+          },
+          duplicates,
+        },
+      });
+    } catch (error: any) {
+      if (contentId) {
+        // The content exists; a retried finalize would create a second one
+        await completeUploadSession(session.id, contentId).catch(() => {});
+      } else {
+        await failFinalizeUploadSession(session.id, error.message || 'Finalize failed');
+      }
+      throw error;
+    }
+  })
+);
+
+/**
+ * DELETE /api/upload/sessions/:id
+ * Abort an upload and discard staged bytes
+ */
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  csrfProtect,
+  asyncHandler(async (req: Request, res: Response) => {
+    await abortUploadSession(req.params.id, req.user!.userId);
+
+    res.json({
+      success: true,
+      message: 'Upload aborted',
+    });
+  })
+);
+
+/**
+ * GET /api/upload/content/:contentId/processing
+ * Get video processing status (and failure reason) for the creator
+ */
+router.get(
+  '/content/:contentId/processing',
+  authenticate,
+  requireCreator,
+  asyncHandler(async (req: Request, res: Response) => {
+    const processing = await getProcessingState(req.params.contentId, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: { processing },
+    });
+  })
+);
+
+/**
+ * POST /api/upload/content/:contentId/processing/retry
+ * Re-queue transcoding for a video whose processing failed
+ */
+router.post(
+  '/content/:contentId/processing/retry',
+  authenticate,
+  requireCreator,
+  userRateLimiter,
+  csrfProtect,
+  asyncHandler(async (req: Request, res: Response) => {
+    const processing = await retryProcessing(req.params.contentId, req.user!.userId);
+
+    res.json({
+      success: true,
+      message: 'Video processing restarted',
+      data: { processing },
+    });
+  })
+);
+
+/**
+ * POST /api/upload/content/:contentId/media
+ * Replace the media of existing content (multipart: media, note?). Views,
+ * likes and comments are kept; the current media stays live until the
+ * replacement has been processed.
+ */
+router.post(
+  '/content/:contentId/media',
+  authenticate,
+  requireCreator,
+  userRateLimiter,
+  csrfProtect,
+  upload.single('media'),
+  validateBody(replaceMediaSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.file) {
+      throw new ValidationError('Media file is required');
+    }
+
+    const file = req.file;
+    let storedMedia: { url: string; sha256: string } | undefined;
+    const revision = await replaceMedia(
+      req.params.contentId,
+      req.user!.userId,
+      {
+        mimetype: file.mimetype,
+        size: file.size,
+        store: async () => {
+          storedMedia = await storeMediaFile({
+            body: file.buffer,
+            originalname: file.originalname,
+            mimetype: file.mimetype,
+            size: file.size,
+          });
+          return storedMedia.url;
+        },
+      },
+      req.body.note
+    );
+
+    const duplicates = storedMedia
+      ? await checkForDuplicates(req.params.contentId, { ...storedMedia, mimetype: file.mimetype })
+      : [];
+
+    res.status(202).json({
+      success: true,
+      message: revision.isLive ? 'Media replaced' : 'Replacement uploaded and processing',
+      data: { revision, duplicates },
+    });
+  })
+);
+
+/**
+ * GET /api/upload/content/:contentId/revisions
+ * List media revisions (newest first); `isLive` marks the one being served
+ */
+router.get(
+  '/content/:contentId/revisions',
+  authenticate,
+  requireCreator,
+  asyncHandler(async (req: Request, res: Response) => {
+    const revisions = await listRevisions(req.params.contentId, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: { revisions },
+    });
+  })
+);
+
+/**
+ * POST /api/upload/content/:contentId/revisions/rollback
+ * Put an earlier revision back live (default: the one before the current)
+ */
+router.post(
+  '/content/:contentId/revisions/rollback',
+  authenticate,
+  requireCreator,
+  userRateLimiter,
+  csrfProtect,
+  validateBody(rollbackSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const revision = await rollbackMedia(req.params.contentId, req.user!.userId, req.body.version);
+
+    res.json({
+      success: true,
+      message: `Rolled back to v${revision.version}`,
+      data: { revision },
+    });
+  })
+);
+
+export default router;
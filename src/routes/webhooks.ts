@@ -5,6 +5,15 @@ import crypto from 'crypto';
 import { verifyWebhookSignature, stripe } from '../lib/stripe';
 import { verifyWebhookSignature as verifyRazorpayWebhook, razorpay } from '../lib/razorpay';
 import { env } from '../config/env';
+import { videoStorage } from '../lib/storage/videoStorage';
+import { handleProviderCallback } from '../lib/video/processingService';
+import { handleRevisionProviderCallback } from '../lib/video/revisionService';
+import {
+  handleRazorpayTicketFailure,
+  handleRazorpayTicketPayment,
+  handleStripeTicketCheckout,
+} from '../lib/live/liveTickets';
+import { publishTipMessage } from '../lib/live/chatTips';
 
 const router = Router();
 
@@ -17,6 +26,9 @@ router.use('/stripe', express.raw({ type: 'application/json' }));
 // Razorpay webhook endpoint needs raw body for signature verification
 router.use('/razorpay', express.raw({ type: 'application/json' }));
 
+// Video provider webhooks need raw body for signature verification
+router.use('/video', express.raw({ type: 'application/json' }));
+
 // PayPal webhook endpoint
 // This should be mounted at /api/webhooks/paypal
 // In production, configure PayPal webhook to point to: https://yourdomain.com/api/webhooks/paypal
@@ -148,6 +160,13 @@ async function handlePaymentSuccess(event: any) {
     console.error('Failed to create notification:', error);
   }
 
+  // Post the attached live chat message, if any
+  try {
+    await publishTipMessage(tip.id);
+  } catch (error) {
+    console.error('Failed to post tipped chat message:', error);
+  }
+
   console.log(`Payment succeeded for tip ${tip.id}`);
 }
 
@@ -218,6 +237,13 @@ router.post(
           break;
         }
 
+        case 'checkout.session.completed': {
+          // Live stream tickets; subscription checkouts are handled by the
+          // subscription events
+          await handleStripeTicketCheckout(event.data.object);
+          break;
+        }
+
         case 'customer.subscription.created':
         case 'customer.subscription.updated': {
           await handleStripeSubscriptionUpdate(event);
@@ -658,6 +684,12 @@ async function handleRazorpayPaymentCaptured(event: any) {
   const payment = event.payload.payment.entity;
   const orderId = payment.order_id;
 
+  // Live stream tickets aren't recorded as transactions
+  if (await handleRazorpayTicketPayment(orderId, payment.id)) {
+    console.log(`Payment captured for live stream ticket order ${orderId}`);
+    return;
+  }
+
   // Find transaction by order ID
   const transaction = await prisma.transaction.findFirst({
     where: {
@@ -740,6 +772,11 @@ async function handleRazorpayPaymentFailed(event: any) {
   const payment = event.payload.payment.entity;
   const orderId = payment.order_id;
 
+  if (await handleRazorpayTicketFailure(orderId)) {
+    console.log(`Payment failed for live stream ticket order ${orderId}`);
+    return;
+  }
+
   // Find transaction by order ID
   const transaction = await prisma.transaction.findFirst({
     where: {
@@ -807,5 +844,47 @@ async function handleRazorpayPaymentFailed(event: any) {
   console.log(`Payment failed for transaction ${transaction.id}`);
 }
 
+/**
+ * POST /api/webhooks/video/:provider
+ * Transcode status callbacks from Cloudflare Stream or Mux
+ */
+router.post(
+  '/video/:provider',
+  async (req: Request, res: Response) => {
+    const provider = req.params.provider;
+
+    if (provider !== 'cloudflare' && provider !== 'mux') {
+      return res.status(404).send('Unknown video provider');
+    }
+
+    const payload = Buffer.isBuffer(req.body) ? req.body.toString() : '';
+    const signature = req.headers[provider === 'mux' ? 'mux-signature' : 'webhook-signature'] as string;
+
+    if (!videoStorage.verifyWebhookSignature(provider, payload, signature)) {
+      console.error(`Invalid ${provider} video webhook signature`);
+      return res.status(400).send('Invalid webhook signature');
+    }
+
+    try {
+      const event = videoStorage.parseWebhookEvent(provider, JSON.parse(payload));
+
+      if (event) {
+        const details = { status: event.status, duration: event.duration, error: event.error };
+
+        // Replacement media is tracked on its revision until it goes live
+        if (!(await handleRevisionProviderCallback(provider, event.videoId, details))) {
+          await handleProviderCallback(provider, event.videoId, details);
+        }
+      }
+
+      res.status(200).json({ received: true });
+    } catch (error: any) {
+      console.error(`Error handling ${provider} video webhook:`, error);
+      // Non-2xx makes the provider redeliver
+      res.status(500).send(`Webhook Error: ${error.message}`);
+    }
+  }
+);
+
 export default router;
 
@@ -6,8 +6,8 @@ const contentTypeEnum = z.enum(['VIDEO', 'PHOTO', 'VR', 'LIVE_STREAM', 'AUDIO'])
 // Quality enum
 const qualityEnum = z.enum(['720p', '1080p', '4K']);
 
-// Sort option enum
-const sortEnum = z.enum(['trending', 'recent', 'views', 'rating']);
+// Sort option enum (defaults to relevance with a query, trending without)
+const sortEnum = z.enum(['relevance', 'trending', 'recent', 'views', 'rating']);
 
 // Search request schema
 export const searchSchema = z.object({
@@ -26,9 +26,11 @@ export const searchSchema = z.object({
       to: z.coerce.date().optional(),
     }).optional(),
     creators: z.array(z.string()).optional().default([]),
+    isPremium: z.boolean().optional(),
+    isVR: z.boolean().optional(),
     language: z.array(z.string()).optional().default([]),
   }).optional().default({}),
-  sort: sortEnum.optional().default('trending'),
+  sort: sortEnum.optional(),
   page: z.number().int().min(1).optional().default(1),
   limit: z.number().int().min(1).max(100).optional().default(20),
 });
@@ -1,12 +1,18 @@
 import { z } from 'zod';
 
-export const createTipSchema = z.object({
-  toCreatorId: z.string().min(1),
-  amount: z.number().positive().max(10000), // Max $10,000
-  currency: z.string().default('USD'),
-  message: z.string().max(500).optional(),
-  isAnonymous: z.boolean().default(false),
-});
+export const createTipSchema = z
+  .object({
+    toCreatorId: z.string().min(1),
+    amount: z.number().positive().max(10000), // Max $10,000
+    currency: z.string().default('USD'),
+    message: z.string().max(500).optional(),
+    isAnonymous: z.boolean().default(false),
+    streamId: z.string().uuid().optional(), // Post the message in this live stream's chat
+  })
+  .refine((data) => !data.streamId || (data.message && !data.isAnonymous), {
+    message: 'Tips to a live chat need a message and cannot be anonymous',
+    path: ['message'],
+  });
 
 export const confirmPaymentSchema = z.object({
   paymentIntentId: z.string(), // Razorpay payment ID
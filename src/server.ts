@@ -27,6 +27,13 @@ import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { ipRateLimiter } from './middleware/rateLimit';
 import { securityMiddleware } from './middleware/security';
 import { requestLogger } from './middleware/requestLogger';
+import { serveLocalMedia } from './middleware/localMedia';
+import { requireLiveHlsAccess } from './middleware/liveHls';
+import { LOCAL_MEDIA_PREFIX } from './lib/playback/signing';
+import { LIVE_HLS_PREFIX } from './lib/live/hlsPackager';
+import { isIngestEnabled } from './lib/live/liveStreamService';
+import { startIngestServer, stopIngestServer } from './lib/live/ingestServer';
+import { stopViewerPresence } from './lib/live/viewerPresence';
 import authRoutes from './routes/auth';
 import oauthRoutes from './routes/oauth';
 import searchRoutes from './routes/search';
@@ -40,6 +47,9 @@ import tipsRoutes from './routes/tips';
 import earningsRoutes from './routes/earnings';
 import payoutsRoutes from './routes/payouts';
 import webhooksRoutes from './routes/webhooks';
+import playbackRoutes from './routes/playback';
+import captionsRoutes from './routes/captions';
+import clipsRoutes from './routes/clips';
 import privacyRoutes from './routes/privacy';
 import moderationRoutes from './routes/moderation';
 import adminRoutes from './routes/admin';
@@ -131,8 +141,10 @@ app.use(cors({
     }
   },
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-CSRF-Token'],
+  methods: ['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-CSRF-Token', 'Upload-Offset', 'Upload-Length', 'Range'],
+  // Resumable upload progress headers (see routes/upload.ts) and media byte ranges
+  exposedHeaders: ['Upload-Offset', 'Upload-Length', 'Location', 'Content-Range', 'Accept-Ranges', 'Content-Length'],
 }));
 
 // Compression middleware - gzip/brotli for text responses
@@ -148,13 +160,27 @@ app.use(compression({
   threshold: 1024, // Only compress responses > 1KB
 }));
 
-// Body parsing
-app.use(express.json());
+// Body parsing (webhooks parse their own raw bodies for signature verification)
+const jsonParser = express.json();
+app.use((req, res, next) => (req.path.startsWith('/api/webhooks') ? next() : jsonParser(req, res, next)));
 app.use(express.urlencoded({ extended: true }));
 
 // Request logging (after body parsing to avoid logging sensitive data)
 app.use(requestLogger);
 
+// Local storage driver files; private ones need signed URLs (before IP rate
+// limiting: players fetch many segments per minute)
+app.use(LOCAL_MEDIA_PREFIX, serveLocalMedia);
+
+// Live HLS output of the RTMP ingest; playlists change every segment.
+// Ticketed streams need a signed URL.
+app.use(LIVE_HLS_PREFIX, requireLiveHlsAccess, express.static(env.LIVE_HLS_PATH, {
+  index: false,
+  setHeaders: (res, path) => {
+    res.setHeader('Cache-Control', path.endsWith('.m3u8') ? 'no-cache' : 'public, max-age=60');
+  },
+}));
+
 // IP rate limiting (applied to all routes)
 app.use(ipRateLimiter);
 
@@ -202,6 +228,9 @@ app.use('/api/search', searchRoutes);
 app.use('/api/preferences', preferencesRoutes);
 app.use('/api/playlists', playlistRoutes);
 app.use('/api/content', contentRoutes);
+app.use('/api/playback', playbackRoutes);
+app.use('/api/captions', captionsRoutes);
+app.use('/api/clips', clipsRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/recommendations', recommendationsRoutes);
 app.use('/api/comments', commentsRoutes);
@@ -284,6 +313,10 @@ try {
       apiUrl: env.API_URL,
     });
     console.log(`✅ Server running on http://localhost:${PORT}`);
+
+    if (isIngestEnabled()) {
+      startIngestServer();
+    }
     
     // Verify email connection (non-blocking)
     verifyEmailConnection().catch((error) => {
@@ -359,6 +392,11 @@ process.on('uncaughtException', (error: Error) => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully...');
+  // Viewers on this instance expire from presence once heartbeats stop
+  stopViewerPresence();
+  stopIngestServer().catch((error) => {
+    logger.warn('Failed to stop RTMP ingest', { error });
+  });
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -367,6 +405,11 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully...');
+  // Viewers on this instance expire from presence once heartbeats stop
+  stopViewerPresence();
+  stopIngestServer().catch((error) => {
+    logger.warn('Failed to stop RTMP ingest', { error });
+  });
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
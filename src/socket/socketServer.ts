@@ -4,6 +4,22 @@ import { env } from '../config/env';
 import { prisma } from '../lib/prisma';
 import jwt, { JwtPayload } from 'jsonwebtoken';
 import { setSocketInstance } from '../lib/socket/emitDownloadEvents';
+import { attachRedisAdapter } from '../lib/socket/redisAdapter';
+import { addViewer, moveViewers, removeViewer, startViewerPresence } from '../lib/live/viewerPresence';
+import { AppError } from '../lib/errors';
+import {
+  deleteChatMessage,
+  getChatSettings,
+  liftChatRestriction,
+  MAX_TIMEOUT_SECONDS,
+  restrictChatUser,
+  sendChatMessage,
+} from '../lib/live/chatModeration';
+import { closePoll, createPoll, votePoll } from '../lib/live/livePolls';
+import { hasStreamAccess } from '../lib/live/liveTickets';
+import { getPinnedMessages } from '../lib/live/chatTips';
+import { getRecentHealthSamples, healthRoom, requireHealthAccess } from '../lib/live/streamHealthService';
+import { markQuestionAnswered, submitQuestion, upvoteQuestion } from '../lib/live/liveQuestions';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
@@ -19,8 +35,127 @@ interface JoinStreamData {
   streamId: string;
 }
 
-// Store active viewer counts per stream
-const streamViewers = new Map<string, Set<string>>();
+interface DeleteMessageData {
+  streamId: string;
+  messageId: string;
+}
+
+interface CreatePollData {
+  streamId: string;
+  question: string;
+  options: string[];
+}
+
+interface PollVoteData {
+  streamId: string;
+  pollId: string;
+  optionId: string;
+}
+
+interface QuestionData {
+  streamId: string;
+  questionId: string;
+}
+
+interface RedirectViewersData {
+  fromStreamId: string;
+  toStreamId: string;
+}
+
+interface RestrictUserData {
+  streamId: string;
+  userId: string;
+  duration?: number; // seconds, timeouts only
+  reason?: string;
+}
+
+// Sent to the other instances so they move their own sockets too
+const REDIRECT_VIEWERS_EVENT = 'redirect-stream-viewers';
+
+let socketServer: SocketIOServer | null = null;
+let sharedRooms = false;
+
+/**
+ * Report a failed chat action to the socket. Expected failures (banned, slow
+ * mode, not a moderator...) carry their own message.
+ */
+function emitChatError(socket: Socket, error: unknown, fallback: string): void {
+  if (error instanceof AppError) {
+    socket.emit('error', { message: error.message, code: error.code });
+    return;
+  }
+  console.error(`${fallback}:`, error);
+  socket.emit('error', { message: fallback });
+}
+
+/**
+ * Stop counting the socket as a viewer of the stream it joined
+ */
+async function leaveStream(socket: AuthenticatedSocket): Promise<void> {
+  const streamId = socket.streamId;
+  if (!streamId) {
+    return;
+  }
+
+  socket.leave(`stream:${streamId}`);
+  socket.streamId = undefined;
+  await removeViewer(streamId, socket.id);
+}
+
+/**
+ * Move this instance's viewers of a stream into another stream's room (a
+ * raid). Viewers who can't watch the target (no ticket) stay where they are.
+ * Returns the number moved.
+ */
+async function moveLocalViewers(io: SocketIOServer, { fromStreamId, toStreamId }: RedirectViewersData): Promise<number> {
+  const room = io.of('/').adapter.rooms.get(`stream:${fromStreamId}`);
+  if (!room || room.size === 0) {
+    return 0;
+  }
+
+  const target = await prisma.liveStream.findUnique({
+    where: { id: toStreamId },
+    include: { creator: { select: { user_id: true } } },
+  });
+  if (!target || target.status !== 'live') {
+    return 0;
+  }
+
+  const moved: AuthenticatedSocket[] = [];
+  for (const socketId of [...room]) {
+    const socket = io.sockets.sockets.get(socketId) as AuthenticatedSocket | undefined;
+    if (!socket || socket.streamId !== fromStreamId || !(await hasStreamAccess(target, socket.userId))) {
+      continue;
+    }
+    socket.leave(`stream:${fromStreamId}`);
+    socket.join(`stream:${toStreamId}`);
+    socket.streamId = toStreamId;
+    moved.push(socket);
+  }
+  await moveViewers(fromStreamId, toStreamId, moved.map((socket) => socket.id));
+
+  const joined = {
+    streamId: toStreamId,
+    chatSettings: getChatSettings(target),
+    pinnedMessages: await getPinnedMessages(toStreamId),
+  };
+  moved.forEach((socket) => socket.emit('joined-stream', joined));
+  return moved.length;
+}
+
+/**
+ * Redirect the viewers of a stream to another live stream, on every instance
+ */
+export async function redirectStreamViewers(fromStreamId: string, toStreamId: string): Promise<void> {
+  if (!socketServer) {
+    return;
+  }
+  if (sharedRooms) {
+    socketServer.serverSideEmit(REDIRECT_VIEWERS_EVENT, { fromStreamId, toStreamId });
+  }
+  const moved = await moveLocalViewers(socketServer, { fromStreamId, toStreamId });
+  console.log(`Redirected ${moved} viewers from stream ${fromStreamId} to ${toStreamId}`);
+}
 
 export function initializeSocketServer(httpServer: HTTPServer): SocketIOServer {
   const io = new SocketIOServer(httpServer, {
@@ -40,6 +175,10 @@ export function initializeSocketServer(httpServer: HTTPServer): SocketIOServer {
     transports: ['websocket', 'polling'],
   });
 
+  // Share rooms with the other API instances (before any socket joins one)
+  sharedRooms = attachRedisAdapter(io);
+  startViewerPresence();
+
   // Authentication middleware
   io.use(async (socket: AuthenticatedSocket, next) => {
     try {
@@ -120,6 +259,7 @@ export function initializeSocketServer(httpServer: HTTPServer): SocketIOServer {
         // Verify stream exists and is live
         const stream = await prisma.liveStream.findUnique({
           where: { id: streamId },
+          include: { creator: { select: { user_id: true } } },
         });
 
         if (!stream) {
@@ -132,35 +272,34 @@ export function initializeSocketServer(httpServer: HTTPServer): SocketIOServer {
           return;
         }
 
+        // Pay-per-view: ticket holders, the owner and moderators only
+        if (!(await hasStreamAccess(stream, socket.userId))) {
+          socket.emit('error', { message: 'A ticket is required to watch this stream', code: 'TICKET_REQUIRED' });
+          return;
+        }
+
+        // A socket watches one stream at a time
+        if (socket.streamId && socket.streamId !== streamId) {
+          await leaveStream(socket);
+        }
+
         // Join the stream room
         socket.join(`stream:${streamId}`);
         socket.streamId = streamId;
 
-        // Track viewer
-        if (!streamViewers.has(streamId)) {
-          streamViewers.set(streamId, new Set());
+        // Track viewer (updates the counts and broadcasts them)
+        await addViewer(streamId, socket.id);
+        if (socket.disconnected) {
+          // Disconnected while joining; the disconnect handler ran too early
+          await removeViewer(streamId, socket.id);
+          return;
         }
-        streamViewers.get(streamId)!.add(socket.id);
-
-        // Update viewer count in database
-        const viewerCount = streamViewers.get(streamId)!.size;
-        await prisma.liveStream.update({
-          where: { id: streamId },
-          data: {
-            viewer_count: viewerCount,
-            peak_viewer_count: stream.peak_viewer_count < viewerCount 
-              ? viewerCount 
-              : stream.peak_viewer_count,
-          },
-        });
 
-        // Broadcast updated viewer count
-        io.to(`stream:${streamId}`).emit('viewer-count-update', {
+        socket.emit('joined-stream', {
           streamId,
-          viewerCount,
+          chatSettings: getChatSettings(stream),
+          pinnedMessages: await getPinnedMessages(streamId),
         });
-
-        socket.emit('joined-stream', { streamId });
         console.log(`Socket ${socket.id} joined stream ${streamId}`);
       } catch (error) {
         console.error('Error joining stream:', error);
@@ -182,110 +321,256 @@ export function initializeSocketServer(httpServer: HTTPServer): SocketIOServer {
         return;
       }
 
-      if (message.trim().length === 0 || message.length > 500) {
-        socket.emit('error', { message: 'Message must be between 1 and 500 characters' });
+      try {
+        await sendChatMessage(streamId, socket.userId, message);
+        console.log(`Message sent in stream ${streamId} by user ${socket.userId}`);
+      } catch (error) {
+        emitChatError(socket, error, 'Failed to send message');
+      }
+    });
+
+    // Delete a chat message (moderators, or the author)
+    socket.on('delete-message', async (data: DeleteMessageData) => {
+      const { streamId, messageId } = data;
+
+      if (!streamId || !messageId) {
+        socket.emit('error', { message: 'Stream ID and message ID are required' });
+        return;
+      }
+
+      if (!socket.userId) {
+        socket.emit('error', { message: 'Authentication required' });
         return;
       }
 
       try {
-        // Verify stream exists and is live
-        const stream = await prisma.liveStream.findUnique({
-          where: { id: streamId },
-        });
+        await deleteChatMessage(streamId, messageId, socket.userId);
+      } catch (error) {
+        emitChatError(socket, error, 'Failed to delete message');
+      }
+    });
 
-        if (!stream) {
-          socket.emit('error', { message: 'Stream not found' });
-          return;
-        }
+    // Time out (with a duration) or ban a viewer (moderators)
+    socket.on('restrict-user', async (data: RestrictUserData) => {
+      const { streamId, userId, duration, reason } = data;
 
-        if (stream.status !== 'live') {
-          socket.emit('error', { message: 'Stream is not live' });
-          return;
-        }
+      if (!streamId || !userId) {
+        socket.emit('error', { message: 'Stream ID and user ID are required' });
+        return;
+      }
 
-        if (!stream.chat_enabled) {
-          socket.emit('error', { message: 'Chat is disabled for this stream' });
-          return;
-        }
+      if (!socket.userId) {
+        socket.emit('error', { message: 'Authentication required' });
+        return;
+      }
 
-        // Get user info
-        const user = await prisma.user.findUnique({
-          where: { id: socket.userId },
-          select: {
-            id: true,
-            username: true,
-            display_name: true,
-            avatar: true,
-          },
+      if (duration !== undefined && (!Number.isInteger(duration) || duration < 1 || duration > MAX_TIMEOUT_SECONDS)) {
+        socket.emit('error', { message: `Duration must be between 1 and ${MAX_TIMEOUT_SECONDS} seconds` });
+        return;
+      }
+
+      try {
+        await restrictChatUser(streamId, socket.userId, userId, {
+          durationSeconds: duration,
+          reason: typeof reason === 'string' ? reason.slice(0, 500) : undefined,
         });
+        socket.emit('user-restricted', { streamId, userId });
+      } catch (error) {
+        emitChatError(socket, error, 'Failed to restrict user');
+      }
+    });
 
-        if (!user) {
-          socket.emit('error', { message: 'User not found' });
-          return;
-        }
+    // Lift a timeout or ban (moderators)
+    socket.on('unrestrict-user', async (data: { streamId: string; userId: string }) => {
+      const { streamId, userId } = data;
 
-        // Create chat message
-        const chatMessage = await prisma.liveChatMessage.create({
-          data: {
-            stream_id: streamId,
-            user_id: socket.userId,
-            message: message.trim(),
-          },
-        });
+      if (!streamId || !userId) {
+        socket.emit('error', { message: 'Stream ID and user ID are required' });
+        return;
+      }
 
-        // Broadcast message to all viewers in the stream room
-        const messageData = {
-          id: chatMessage.id,
-          message: chatMessage.message,
-          timestamp: chatMessage.timestamp.toISOString(),
-          user: {
-            id: user.id,
-            username: user.username,
-            displayName: user.display_name,
-            avatar: user.avatar,
-          },
-        };
-
-        io.to(`stream:${streamId}`).emit('new-message', messageData);
-        console.log(`Message sent in stream ${streamId} by user ${socket.userId}`);
+      if (!socket.userId) {
+        socket.emit('error', { message: 'Authentication required' });
+        return;
+      }
+
+      try {
+        await liftChatRestriction(streamId, socket.userId, userId);
+        socket.emit('user-unrestricted', { streamId, userId });
       } catch (error) {
-        console.error('Error sending message:', error);
-        socket.emit('error', { message: 'Failed to send message' });
+        emitChatError(socket, error, 'Failed to lift restriction');
+      }
+    });
+
+    // Start a poll (moderators)
+    socket.on('create-poll', async (data: CreatePollData) => {
+      const { streamId, question, options } = data;
+
+      if (!streamId) {
+        socket.emit('error', { message: 'Stream ID is required' });
+        return;
+      }
+
+      if (!socket.userId) {
+        socket.emit('error', { message: 'Authentication required' });
+        return;
+      }
+
+      try {
+        await createPoll(streamId, socket.userId, question, options);
+      } catch (error) {
+        emitChatError(socket, error, 'Failed to create poll');
+      }
+    });
+
+    // Vote in a poll; the tally reaches the room shortly after
+    socket.on('vote-poll', async (data: PollVoteData) => {
+      const { streamId, pollId, optionId } = data;
+
+      if (!streamId || !pollId || !optionId) {
+        socket.emit('error', { message: 'Stream ID, poll ID and option ID are required' });
+        return;
+      }
+
+      if (!socket.userId) {
+        socket.emit('error', { message: 'Authentication required to vote' });
+        return;
+      }
+
+      try {
+        const poll = await votePoll(streamId, pollId, socket.userId, optionId);
+        socket.emit('poll-voted', poll);
+      } catch (error) {
+        emitChatError(socket, error, 'Failed to vote');
+      }
+    });
+
+    // Close a poll (moderators)
+    socket.on('close-poll', async (data: { streamId: string; pollId: string }) => {
+      const { streamId, pollId } = data;
+
+      if (!streamId || !pollId) {
+        socket.emit('error', { message: 'Stream ID and poll ID are required' });
+        return;
+      }
+
+      if (!socket.userId) {
+        socket.emit('error', { message: 'Authentication required' });
+        return;
+      }
+
+      try {
+        await closePoll(streamId, pollId, socket.userId);
+      } catch (error) {
+        emitChatError(socket, error, 'Failed to close poll');
+      }
+    });
+
+    // Ask a question
+    socket.on('submit-question', async (data: { streamId: string; question: string }) => {
+      const { streamId, question } = data;
+
+      if (!streamId || !question) {
+        socket.emit('error', { message: 'Stream ID and question are required' });
+        return;
+      }
+
+      if (!socket.userId) {
+        socket.emit('error', { message: 'Authentication required to ask questions' });
+        return;
+      }
+
+      try {
+        await submitQuestion(streamId, socket.userId, question);
+      } catch (error) {
+        emitChatError(socket, error, 'Failed to submit question');
+      }
+    });
+
+    // Upvote a question
+    socket.on('upvote-question', async (data: QuestionData) => {
+      const { streamId, questionId } = data;
+
+      if (!streamId || !questionId) {
+        socket.emit('error', { message: 'Stream ID and question ID are required' });
+        return;
+      }
+
+      if (!socket.userId) {
+        socket.emit('error', { message: 'Authentication required to upvote' });
+        return;
+      }
+
+      try {
+        await upvoteQuestion(streamId, questionId, socket.userId);
+      } catch (error) {
+        emitChatError(socket, error, 'Failed to upvote question');
+      }
+    });
+
+    // Mark a question answered (moderators)
+    socket.on('answer-question', async (data: QuestionData) => {
+      const { streamId, questionId } = data;
+
+      if (!streamId || !questionId) {
+        socket.emit('error', { message: 'Stream ID and question ID are required' });
+        return;
+      }
+
+      if (!socket.userId) {
+        socket.emit('error', { message: 'Authentication required' });
+        return;
+      }
+
+      try {
+        await markQuestionAnswered(streamId, questionId, socket.userId);
+      } catch (error) {
+        emitChatError(socket, error, 'Failed to mark question answered');
+      }
+    });
+
+    // Creator dashboard: live health samples of a stream (owner only)
+    socket.on('subscribe-stream-health', async (data: { streamId: string }) => {
+      const { streamId } = data;
+
+      if (!streamId) {
+        socket.emit('error', { message: 'Stream ID is required' });
+        return;
+      }
+
+      if (!socket.userId) {
+        socket.emit('error', { message: 'Authentication required' });
+        return;
+      }
+
+      try {
+        await requireHealthAccess(streamId, socket.userId);
+        socket.join(healthRoom(streamId));
+        socket.emit('stream-health-history', {
+          streamId,
+          samples: await getRecentHealthSamples(streamId),
+        });
+      } catch (error) {
+        emitChatError(socket, error, 'Failed to subscribe to stream health');
+      }
+    });
+
+    socket.on('unsubscribe-stream-health', (data: { streamId: string }) => {
+      if (data?.streamId) {
+        socket.leave(healthRoom(data.streamId));
       }
     });
 
     // Leave stream
     socket.on('leave-stream', async (data: { streamId: string }) => {
       const { streamId } = data;
-      
+
       if (streamId && socket.streamId === streamId) {
-        socket.leave(`stream:${streamId}`);
-        
-        // Remove viewer tracking
-        if (streamViewers.has(streamId)) {
-          streamViewers.get(streamId)!.delete(socket.id);
-          const viewerCount = streamViewers.get(streamId)!.size;
-
-          // Update viewer count in database
-          try {
-            await prisma.liveStream.update({
-              where: { id: streamId },
-              data: {
-                viewer_count: Math.max(0, viewerCount),
-              },
-            });
-
-            // Broadcast updated viewer count
-            io.to(`stream:${streamId}`).emit('viewer-count-update', {
-              streamId,
-              viewerCount,
-            });
-          } catch (error) {
-            console.error('Error updating viewer count:', error);
-          }
+        try {
+          await leaveStream(socket);
+        } catch (error) {
+          console.error('Error updating viewer count:', error);
         }
-
-        socket.streamId = undefined;
         console.log(`Socket ${socket.id} left stream ${streamId}`);
       }
     });
@@ -295,31 +580,11 @@ export function initializeSocketServer(httpServer: HTTPServer): SocketIOServer {
       const streamId = socket.streamId;
 
       if (streamId) {
-        // Remove viewer tracking
-        if (streamViewers.has(streamId)) {
-          streamViewers.get(streamId)!.delete(socket.id);
-          const viewerCount = streamViewers.get(streamId)!.size;
-
-          // Update viewer count in database
-          try {
-            await prisma.liveStream.update({
-              where: { id: streamId },
-              data: {
-                viewer_count: Math.max(0, viewerCount),
-              },
-            });
-
-            // Broadcast updated viewer count
-            io.to(`stream:${streamId}`).emit('viewer-count-update', {
-              streamId,
-              viewerCount,
-            });
-          } catch (error) {
-            console.error('Error updating viewer count on disconnect:', error);
-          }
+        try {
+          await leaveStream(socket);
+        } catch (error) {
+          console.error('Error updating viewer count on disconnect:', error);
         }
-
-        socket.leave(`stream:${streamId}`);
         console.log(`Socket ${socket.id} disconnected from stream ${streamId}`);
       } else {
         console.log(`Socket ${socket.id} disconnected`);
@@ -327,8 +592,15 @@ export function initializeSocketServer(httpServer: HTTPServer): SocketIOServer {
     });
   });
 
+  io.on(REDIRECT_VIEWERS_EVENT, (data: RedirectViewersData) => {
+    moveLocalViewers(io, data).catch((error) => {
+      console.error('Error redirecting stream viewers:', error);
+    });
+  });
+
   // Set socket instance for download events
   setSocketInstance(io);
+  socketServer = io;
 
   // Initialize admin broadcast service
   const { initializeAdminBroadcast } = require('../lib/websocket/adminBroadcast');